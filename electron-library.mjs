@@ -0,0 +1,486 @@
+// Local music library for the desktop build - runs in the main process.
+// Scans approved folders for audio files, reads their tags and embedded art,
+// and serves them to the renderer over the xt-local:// protocol. Covers are
+// cached as image files, so only their URLs cross into the renderer.
+import { app, dialog } from "electron"
+import { createHash } from "crypto"
+import { createReadStream } from "fs"
+import fs from "fs/promises"
+import path from "path"
+import { Readable } from "stream"
+
+export const LOCAL_SCHEME = "xt-local"
+
+const AUDIO_EXTENSIONS = new Set([".mp3", ".flac", ".ogg", ".oga", ".opus", ".m4a"])
+const MIME_TYPES = {
+  ".mp3": "audio/mpeg",
+  ".flac": "audio/flac",
+  ".ogg": "audio/ogg",
+  ".oga": "audio/ogg",
+  ".opus": "audio/ogg",
+  ".m4a": "audio/mp4",
+}
+const ART_MIME_TYPES = {
+  ".jpg": "image/jpeg",
+  ".png": "image/png",
+  ".webp": "image/webp",
+  ".gif": "image/gif",
+}
+const MAX_TAG_BYTES = 16 * 1024 * 1024
+const MAX_ART_BYTES = 2 * 1024 * 1024
+const OGG_HEADER_BYTES = 512 * 1024
+
+// Folders the user picked through the native dialog. Only files below these
+// are ever scanned or served, whatever the renderer asks for.
+const foldersFile = () => path.join(app.getPath("userData"), "library-folders.json")
+const artFolder = () => path.join(app.getPath("userData"), "library-art")
+
+export async function getFolders() {
+  try {
+    return JSON.parse(await fs.readFile(foldersFile(), "utf8"))
+  } catch {
+    return []
+  }
+}
+
+async function saveFolders(folders) {
+  await fs.writeFile(foldersFile(), JSON.stringify(folders, null, 2))
+}
+
+export async function addFolders(win) {
+  const result = await dialog.showOpenDialog(win, {
+    title: "Add music folders",
+    properties: ["openDirectory", "multiSelections"],
+  })
+  const folders = await getFolders()
+  if (result.canceled) return folders
+
+  const updated = [...new Set([...folders, ...result.filePaths.map(p => path.resolve(p))])]
+  await saveFolders(updated)
+  return updated
+}
+
+export async function removeFolder(folder) {
+  const updated = (await getFolders()).filter(f => f !== folder)
+  await saveFolders(updated)
+  return updated
+}
+
+// Real path of a file below one of the folders, or null. Symlinks are
+// resolved on both sides so a link inside a folder can't reach outside it.
+async function resolveLibraryFile(filePath, folders) {
+  const real = await fs.realpath(filePath)
+  const roots = await Promise.all(folders.map(folder => fs.realpath(folder).catch(() => null)))
+  const inside = roots.some(root => {
+    if (!root) return false
+    const relative = path.relative(root, real)
+    return relative && !relative.startsWith("..") && !path.isAbsolute(relative)
+  })
+  return inside ? real : null
+}
+
+const trackId = (filePath) => createHash("sha1").update(filePath).digest("hex").slice(0, 16)
+
+export const trackUrl = (filePath) => `${LOCAL_SCHEME}://track/${encodeURIComponent(filePath)}`
+
+// ---------- Tag readers ----------
+
+async function readBytes(handle, position, length) {
+  const buffer = Buffer.alloc(length)
+  const { bytesRead } = await handle.read(buffer, 0, length, position)
+  return buffer.subarray(0, bytesRead)
+}
+
+const artImage = (mime, data) =>
+  data.length > 0 && data.length <= MAX_ART_BYTES ? { mime: mime || "image/jpeg", data } : undefined
+
+const syncsafe = (b, o) => (b[o] << 21) | (b[o + 1] << 14) | (b[o + 2] << 7) | b[o + 3]
+
+function decodeId3Text(encoding, data) {
+  let text
+  if (encoding === 0) text = data.toString("latin1")
+  else if (encoding === 3) text = data.toString("utf8")
+  else if (encoding === 2) text = Buffer.from(data.subarray(0, data.length & ~1)).swap16().toString("utf16le")
+  else {
+    // UTF-16 with BOM
+    const bigEndian = data[0] === 0xfe && data[1] === 0xff
+    const body = data.subarray(2)
+    text = bigEndian ? Buffer.from(body.subarray(0, body.length & ~1)).swap16().toString("utf16le") : body.toString("utf16le")
+  }
+  return text.replace(/\0+$/, "").split("\0")[0].trim()
+}
+
+// Position just past a string terminated for the given ID3 encoding
+function skipId3String(encoding, data, offset) {
+  const wide = encoding === 1 || encoding === 2
+  for (let i = offset; i < data.length; i += wide ? 2 : 1) {
+    if (data[i] === 0 && (!wide || data[i + 1] === 0)) return i + (wide ? 2 : 1)
+  }
+  return data.length
+}
+
+async function readId3(handle) {
+  const header = await readBytes(handle, 0, 10)
+  if (header.length < 10 || header.toString("latin1", 0, 3) !== "ID3") return {}
+
+  const version = header[3]
+  const size = Math.min(syncsafe(header, 6), MAX_TAG_BYTES)
+  const data = await readBytes(handle, 10, size)
+  const idLength = version === 2 ? 3 : 4
+  const headerLength = version === 2 ? 6 : 10
+  const frames = {
+    title: version === 2 ? "TT2" : "TIT2",
+    artist: version === 2 ? "TP1" : "TPE1",
+    album: version === 2 ? "TAL" : "TALB",
+    genre: version === 2 ? "TCO" : "TCON",
+    track: version === 2 ? "TRK" : "TRCK",
+  }
+
+  const tags = {}
+  let offset = 0
+  while (offset + headerLength <= data.length) {
+    const id = data.toString("latin1", offset, offset + idLength)
+    if (!/^[A-Z0-9]+$/.test(id)) break
+
+    const frameSize = version === 2
+      ? data.readUIntBE(offset + 3, 3)
+      : version === 4 ? syncsafe(data, offset + 4) : data.readUInt32BE(offset + 4)
+    const body = data.subarray(offset + headerLength, offset + headerLength + frameSize)
+    offset += headerLength + frameSize
+    if (body.length === 0) continue
+
+    const field = Object.keys(frames).find(key => frames[key] === id)
+    if (field) {
+      tags[field] = decodeId3Text(body[0], body.subarray(1))
+    } else if ((id === "APIC" || id === "PIC") && !tags.art) {
+      const encoding = body[0]
+      let mime
+      let cursor
+      if (id === "PIC") {
+        mime = body.toString("latin1", 1, 4).toLowerCase() === "png" ? "image/png" : "image/jpeg"
+        cursor = 4
+      } else {
+        const mimeEnd = body.indexOf(0, 1)
+        mime = body.toString("latin1", 1, mimeEnd)
+        cursor = mimeEnd + 1
+      }
+      cursor = skipId3String(encoding, body, cursor + 1) // picture type, then description
+      tags.art = artImage(mime, body.subarray(cursor))
+    }
+  }
+
+  // Genres are sometimes stored as "(17)" references; keep only text
+  if (tags.genre) tags.genre = tags.genre.replace(/^\(\d+\)/, "").trim() || undefined
+  return tags
+}
+
+function parseVorbisComments(data, offset = 0) {
+  const tags = {}
+  const vendorLength = data.readUInt32LE(offset)
+  let cursor = offset + 4 + vendorLength
+  const count = data.readUInt32LE(cursor)
+  cursor += 4
+
+  for (let i = 0; i < count && cursor + 4 <= data.length; i++) {
+    const length = data.readUInt32LE(cursor)
+    const comment = data.toString("utf8", cursor + 4, cursor + 4 + length)
+    cursor += 4 + length
+
+    const separator = comment.indexOf("=")
+    const key = comment.slice(0, separator).toUpperCase()
+    const value = comment.slice(separator + 1).trim()
+    if (key === "TITLE") tags.title = value
+    else if (key === "ARTIST") tags.artist = tags.artist || value
+    else if (key === "ALBUM") tags.album = value
+    else if (key === "GENRE") tags.genre = value
+    else if (key === "TRACKNUMBER") tags.track = value
+    else if (key === "METADATA_BLOCK_PICTURE" && !tags.art) {
+      tags.art = parseFlacPicture(Buffer.from(value, "base64"))
+    }
+  }
+  return tags
+}
+
+function parseFlacPicture(data) {
+  try {
+    let cursor = 4 // picture type
+    const mimeLength = data.readUInt32BE(cursor)
+    const mime = data.toString("latin1", cursor + 4, cursor + 4 + mimeLength)
+    cursor += 4 + mimeLength
+    const descriptionLength = data.readUInt32BE(cursor)
+    cursor += 4 + descriptionLength + 16 // width, height, depth, colours
+    const length = data.readUInt32BE(cursor)
+    return artImage(mime, data.subarray(cursor + 4, cursor + 4 + length))
+  } catch {
+    return undefined
+  }
+}
+
+async function readFlac(handle) {
+  if ((await readBytes(handle, 0, 4)).toString("latin1") !== "fLaC") return {}
+
+  let tags = {}
+  let position = 4
+  let last = false
+  while (!last) {
+    const header = await readBytes(handle, position, 4)
+    if (header.length < 4) break
+    last = (header[0] & 0x80) !== 0
+    const type = header[0] & 0x7f
+    const length = header.readUIntBE(1, 3)
+    position += 4
+
+    if (type === 4) {
+      tags = { ...parseVorbisComments(await readBytes(handle, position, length)), art: tags.art }
+    } else if (type === 6 && !tags.art && length <= MAX_TAG_BYTES) {
+      tags.art = parseFlacPicture(await readBytes(handle, position, length))
+    }
+    position += length
+  }
+  return tags
+}
+
+async function readOgg(handle) {
+  const data = await readBytes(handle, 0, OGG_HEADER_BYTES)
+  if (data.toString("latin1", 0, 4) !== "OggS") return {}
+
+  // The comment header follows the identification packet; read it straight
+  // out of the page payloads (good enough unless it spans huge art).
+  const vorbis = data.indexOf(Buffer.from("\x03vorbis", "latin1"))
+  const opus = data.indexOf(Buffer.from("OpusTags", "latin1"))
+  try {
+    if (vorbis >= 0) return parseVorbisComments(data, vorbis + 7)
+    if (opus >= 0) return parseVorbisComments(data, opus + 8)
+  } catch {
+    // Comment packet was cut off by the read window
+  }
+  return {}
+}
+
+// MP4: walk moov > udta > meta > ilst
+async function findAtom(handle, start, end, type) {
+  let position = start
+  while (position + 8 <= end) {
+    const header = await readBytes(handle, position, 16)
+    if (header.length < 8) return null
+    let size = header.readUInt32BE(0)
+    let headerSize = 8
+    if (size === 1) {
+      size = Number(header.readBigUInt64BE(8))
+      headerSize = 16
+    } else if (size === 0) {
+      size = end - position
+    }
+    if (size < headerSize) return null
+    if (header.toString("latin1", 4, 8) === type) {
+      return { start: position + headerSize, end: position + size }
+    }
+    position += size
+  }
+  return null
+}
+
+async function readMp4(handle) {
+  const { size } = await handle.stat()
+  const moov = await findAtom(handle, 0, size, "moov")
+  const udta = moov && await findAtom(handle, moov.start, moov.end, "udta")
+  const meta = udta && await findAtom(handle, udta.start, udta.end, "meta")
+  // meta is a full atom: 4 bytes of version/flags before its children
+  const ilst = meta && await findAtom(handle, meta.start + 4, meta.end, "ilst")
+  if (!ilst || ilst.end - ilst.start > MAX_TAG_BYTES) return {}
+
+  const data = await readBytes(handle, ilst.start, ilst.end - ilst.start)
+  const fields = { "\xa9nam": "title", "\xa9ART": "artist", "\xa9alb": "album", "\xa9gen": "genre" }
+  const tags = {}
+
+  let cursor = 0
+  while (cursor + 8 <= data.length) {
+    const itemSize = data.readUInt32BE(cursor)
+    if (itemSize < 8) break
+    const type = data.toString("latin1", cursor + 4, cursor + 8)
+    // Each item holds a "data" atom: size, "data", type (4), locale (4), payload
+    const payloadStart = cursor + 8 + 16
+    const payload = data.subarray(payloadStart, cursor + itemSize)
+    const dataType = data.readUInt32BE(cursor + 8 + 8) & 0xffffff
+
+    if (fields[type]) {
+      tags[fields[type]] = payload.toString("utf8").trim()
+    } else if (type === "trkn" && payload.length >= 4) {
+      tags.track = String(payload.readUInt16BE(2))
+    } else if (type === "covr" && !tags.art) {
+      tags.art = artImage(dataType === 14 ? "image/png" : "image/jpeg", payload)
+    }
+    cursor += itemSize
+  }
+  return tags
+}
+
+async function readTags(filePath) {
+  const handle = await fs.open(filePath, "r")
+  try {
+    const ext = path.extname(filePath).toLowerCase()
+    if (ext === ".mp3") return await readId3(handle)
+    if (ext === ".flac") return await readFlac(handle)
+    if (ext === ".m4a") return await readMp4(handle)
+    return await readOgg(handle)
+  } catch (error) {
+    console.warn(`[Library] Failed to read tags for ${filePath}:`, error.message)
+    return {}
+  } finally {
+    await handle.close()
+  }
+}
+
+// ---------- Scanning ----------
+
+// Written once per distinct image (tracks of an album share one)
+async function saveArt({ mime, data }) {
+  const ext = Object.keys(ART_MIME_TYPES).find(key => ART_MIME_TYPES[key] === mime) || ".jpg"
+  const name = createHash("sha1").update(data).digest("hex") + ext
+  const file = path.join(artFolder(), name)
+  try {
+    await fs.access(file)
+  } catch {
+    await fs.mkdir(artFolder(), { recursive: true })
+    await fs.writeFile(file, data)
+  }
+  return `${LOCAL_SCHEME}://art/${name}`
+}
+
+async function* walk(folder) {
+  let entries
+  try {
+    entries = await fs.readdir(folder, { withFileTypes: true })
+  } catch (error) {
+    console.warn(`[Library] Can't read ${folder}:`, error.message)
+    return
+  }
+  for (const entry of entries) {
+    if (entry.name.startsWith(".")) continue
+    const fullPath = path.join(folder, entry.name)
+    if (entry.isDirectory()) {
+      yield* walk(fullPath)
+    } else if (entry.isFile() && AUDIO_EXTENSIONS.has(path.extname(entry.name).toLowerCase())) {
+      yield fullPath
+    }
+  }
+}
+
+export async function scanLibrary() {
+  const folders = await getFolders()
+  const tracks = []
+
+  for (const folder of folders) {
+    for await (const filePath of walk(folder)) {
+      // A file that vanished or can't be opened is skipped, not the whole scan
+      let stat, tags
+      try {
+        [stat, tags] = await Promise.all([fs.stat(filePath), readTags(filePath)])
+      } catch (error) {
+        console.warn(`[Library] Can't read ${filePath}:`, error.message)
+        continue
+      }
+      const art = tags.art && await saveArt(tags.art).catch(error => {
+        console.warn(`[Library] Failed to save art for ${filePath}:`, error.message)
+        return undefined
+      })
+      tracks.push({
+        id: trackId(filePath),
+        path: filePath,
+        folder,
+        url: trackUrl(filePath),
+        title: tags.title || path.basename(filePath, path.extname(filePath)),
+        artist: tags.artist || "Unknown Artist",
+        album: tags.album,
+        genre: tags.genre,
+        trackNumber: tags.track ? parseInt(tags.track, 10) || undefined : undefined,
+        art,
+        size: stat.size,
+        modifiedAt: stat.mtimeMs,
+      })
+    }
+  }
+
+  console.log(`[Library] Scanned ${tracks.length} tracks in ${folders.length} folders`)
+  return tracks
+}
+
+// ---------- Protocol ----------
+
+// The renderer fetches tracks for loudness analysis from the file:// origin
+const CORS_HEADERS = { "Access-Control-Allow-Origin": "*" }
+
+// xt-local://art/<sha1>.<ext> from the cover cache
+async function handleArtRequest(url) {
+  const name = url.pathname.replace(/^\//, "")
+  const ext = path.extname(name)
+  if (!/^[0-9a-f]{40}\.[a-z]+$/.test(name) || !ART_MIME_TYPES[ext]) {
+    return new Response("Forbidden", { status: 403 })
+  }
+  try {
+    const data = await fs.readFile(path.join(artFolder(), name))
+    // Named by content, so it never changes
+    return new Response(data, {
+      headers: { ...CORS_HEADERS, "Content-Type": ART_MIME_TYPES[ext], "Cache-Control": "max-age=31536000, immutable" },
+    })
+  } catch {
+    return new Response("Not found", { status: 404 })
+  }
+}
+
+// Serves library files with Range support so the audio element can seek
+export async function handleLocalRequest(request) {
+  const url = new URL(request.url)
+  if (url.host === "art") return handleArtRequest(url)
+
+  let filePath
+  try {
+    filePath = await resolveLibraryFile(
+      path.resolve(decodeURIComponent(url.pathname.replace(/^\//, ""))),
+      await getFolders()
+    )
+  } catch {
+    return new Response("Not found", { status: 404 })
+  }
+  const ext = filePath ? path.extname(filePath).toLowerCase() : ""
+  if (!AUDIO_EXTENSIONS.has(ext)) {
+    return new Response("Forbidden", { status: 403 })
+  }
+
+  let stat
+  try {
+    stat = await fs.stat(filePath)
+  } catch {
+    return new Response("Not found", { status: 404 })
+  }
+
+  const headers = {
+    ...CORS_HEADERS,
+    "Content-Type": MIME_TYPES[ext],
+    "Accept-Ranges": "bytes",
+  }
+
+  const range = /bytes=(\d*)-(\d*)/.exec(request.headers.get("range") || "")
+  if (!range) {
+    const body = Readable.toWeb(createReadStream(filePath))
+    return new Response(body, { status: 200, headers: { ...headers, "Content-Length": String(stat.size) } })
+  }
+
+  const unsatisfiable = () => new Response(null, { status: 416, headers: { "Content-Range": `bytes */${stat.size}` } })
+  // "bytes=-" names neither end
+  if (!range[1] && !range[2]) return unsatisfiable()
+
+  const start = range[1] ? parseInt(range[1], 10) : Math.max(0, stat.size - parseInt(range[2], 10))
+  const end = range[1] && range[2] ? Math.min(parseInt(range[2], 10), stat.size - 1) : stat.size - 1
+  if (start > end || start >= stat.size) return unsatisfiable()
+
+  const body = Readable.toWeb(createReadStream(filePath, { start, end }))
+  return new Response(body, {
+    status: 206,
+    headers: {
+      ...headers,
+      "Content-Length": String(end - start + 1),
+      "Content-Range": `bytes ${start}-${end}/${stat.size}`,
+    },
+  })
+}
@@ -0,0 +1,12 @@
+// Preload bridge - the only main-process features the renderer can reach.
+// Runs sandboxed, so it has to stay CommonJS.
+const { contextBridge, ipcRenderer } = require("electron")
+
+contextBridge.exposeInMainWorld("xtDesktop", {
+  library: {
+    getFolders: () => ipcRenderer.invoke("library:get-folders"),
+    addFolders: () => ipcRenderer.invoke("library:add-folders"),
+    removeFolder: (folder) => ipcRenderer.invoke("library:remove-folder", folder),
+    scan: () => ipcRenderer.invoke("library:scan"),
+  },
+})
@@ -1,16 +1,44 @@
-import { app, BrowserWindow } from "electron"
+import { app, BrowserWindow, ipcMain, protocol } from "electron"
 import path from "path"
 import { fileURLToPath } from "url"
+import {
+  LOCAL_SCHEME,
+  addFolders,
+  getFolders,
+  handleLocalRequest,
+  removeFolder,
+  scanLibrary,
+} from "./electron-library.mjs"
 
 const __filename = fileURLToPath(import.meta.url)
 const __dirname = path.dirname(__filename)
 
+// Local library files are streamed over a custom scheme instead of file://
+// so only folders the user added can be read
+protocol.registerSchemesAsPrivileged([
+  {
+    scheme: LOCAL_SCHEME,
+    privileges: { standard: true, secure: true, stream: true, supportFetchAPI: true, corsEnabled: true },
+  },
+])
+
+function registerLibraryHandlers() {
+  protocol.handle(LOCAL_SCHEME, handleLocalRequest)
+
+  ipcMain.handle("library:get-folders", () => getFolders())
+  ipcMain.handle("library:add-folders", (event) => addFolders(BrowserWindow.fromWebContents(event.sender)))
+  ipcMain.handle("library:remove-folder", (_event, folder) => removeFolder(String(folder)))
+  ipcMain.handle("library:scan", () => scanLibrary())
+}
+
 function createWindow() {
   const win = new BrowserWindow({
     width: 1200,
     height: 800,
     webPreferences: {
-      contextIsolation: true
+      contextIsolation: true,
+      sandbox: true,
+      preload: path.join(__dirname, "electron-preload.cjs")
     }
   })
 
@@ -18,7 +46,10 @@ function createWindow() {
   win.loadFile(path.join(__dirname, "dist", "index.html"))
 }
 
-app.whenReady().then(createWindow)
+app.whenReady().then(() => {
+  registerLibraryHandlers()
+  createWindow()
+})
 
 app.on("window-all-closed", () => {
   if (process.platform !== "darwin") app.quit()
@@ -0,0 +1,158 @@
+import { useState, useEffect } from 'react';
+import { Dialog, DialogContent } from '@/components/ui/dialog';
+import { Play, Disc3, ListPlus, X, Loader2 } from 'lucide-react';
+import { useYTMusicAPI, type Album } from '@/hooks/useYTMusicAPI';
+import { useAlbumPlayback } from '@/hooks/useAlbumPlayback';
+import { useAudioPlayer } from '@/contexts/AudioPlayerContext';
+import { Button } from '@/components/ui/button';
+import { ScrollArea } from '@/components/ui/scroll-area';
+import { cn } from '@/lib/utils';
+
+// An album by playlist id, or by title (and artist) to be looked up
+export interface AlbumRef {
+  playlistId?: string;
+  title?: string;
+  artist?: string;
+}
+
+interface AlbumModalProps {
+  album: AlbumRef | null;
+  onClose: () => void;
+}
+
+const KIND_LABELS: Record<Album['kind'], string> = {
+  album: 'Album',
+  single: 'Single',
+  ep: 'EP',
+};
+
+const AlbumModal = ({ album: albumRef, onClose }: AlbumModalProps) => {
+  const [album, setAlbum] = useState<Album | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+
+  const { getAlbum } = useYTMusicAPI();
+  const { playAlbum, queueAlbum } = useAlbumPlayback();
+  const { currentVideo, isPlaying } = useAudioPlayer();
+
+  useEffect(() => {
+    if (!albumRef) return;
+    let cancelled = false;
+
+    const loadAlbum = async () => {
+      setIsLoading(true);
+      setAlbum(null);
+      const result = await getAlbum(
+        albumRef.playlistId ? { playlistId: albumRef.playlistId } : { title: albumRef.title, artist: albumRef.artist }
+      );
+      if (cancelled) return;
+      setAlbum(result);
+      setIsLoading(false);
+    };
+
+    loadAlbum();
+    return () => { cancelled = true; };
+  }, [albumRef, getAlbum]);
+
+  return (
+    <Dialog open={!!albumRef} onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="max-w-2xl max-h-[90vh] p-0 overflow-hidden bg-background border-border">
+        {isLoading ? (
+          <div className="flex flex-col items-center justify-center py-20">
+            <Loader2 className="w-10 h-10 text-primary animate-spin mb-4" />
+            <p className="text-muted-foreground">Loading album...</p>
+          </div>
+        ) : !album ? (
+          <div className="flex flex-col items-center justify-center py-20 text-center px-6">
+            <Disc3 className="w-12 h-12 text-muted-foreground mb-4" />
+            <p className="text-foreground font-medium">Album not found</p>
+            <p className="text-sm text-muted-foreground mt-1">
+              Couldn't find "{albumRef?.title}"{albumRef?.artist ? ` by ${albumRef.artist}` : ''} on YouTube Music
+            </p>
+          </div>
+        ) : (
+          <>
+            {/* Header */}
+            <div className="relative p-6 pt-8 bg-gradient-to-b from-primary/20 to-background">
+              <button
+                onClick={onClose}
+                className="absolute top-4 right-4 p-2 rounded-full bg-background/50 hover:bg-background/80 transition-colors"
+              >
+                <X className="w-5 h-5" />
+              </button>
+
+              <div className="flex items-end gap-6">
+                <div className="w-32 h-32 rounded-lg overflow-hidden bg-muted shadow-xl flex-shrink-0">
+                  {album.thumbnail ? (
+                    <img src={album.thumbnail} alt={album.title} className="w-full h-full object-cover" />
+                  ) : (
+                    <div className="w-full h-full flex items-center justify-center bg-primary/20">
+                      <Disc3 className="w-12 h-12 text-primary" />
+                    </div>
+                  )}
+                </div>
+
+                <div className="flex-1 min-w-0 pb-2">
+                  <p className="text-xs uppercase tracking-wide text-muted-foreground mb-1">
+                    {KIND_LABELS[album.kind]}
+                  </p>
+                  <h1 className="text-2xl font-bold text-foreground line-clamp-2 mb-1">{album.title}</h1>
+                  <p className="text-sm text-muted-foreground">
+                    {[album.artist, album.year, `${album.tracks.length} tracks`].filter(Boolean).join(' • ')}
+                  </p>
+                </div>
+              </div>
+
+              <div className="flex items-center gap-3 mt-6">
+                <Button onClick={() => playAlbum(album)} className="gap-2">
+                  <Play className="w-4 h-4" />
+                  Play
+                </Button>
+                <Button variant="outline" onClick={() => queueAlbum(album)} className="gap-2">
+                  <ListPlus className="w-4 h-4" />
+                  Add to Queue
+                </Button>
+              </div>
+            </div>
+
+            {/* Tracks */}
+            <ScrollArea className="h-[360px]">
+              <div className="p-6 pt-2 space-y-1">
+                {album.tracks.map((track, index) => {
+                  const isCurrentlyPlaying = currentVideo?.id === track.videoId && isPlaying;
+
+                  return (
+                    <div
+                      key={`${track.videoId}-${index}`}
+                      onClick={() => playAlbum(album, index)}
+                      className={cn(
+                        "flex items-center gap-4 p-3 rounded-lg cursor-pointer transition-colors group",
+                        isCurrentlyPlaying ? "bg-primary/10" : "hover:bg-secondary/50"
+                      )}
+                    >
+                      <div className="w-8 text-center">
+                        <span className="text-sm text-muted-foreground group-hover:hidden">{index + 1}</span>
+                        <Play className="w-4 h-4 text-foreground hidden group-hover:block mx-auto" />
+                      </div>
+                      <div className="flex-1 min-w-0">
+                        <h3 className={cn(
+                          "text-sm font-medium line-clamp-1",
+                          isCurrentlyPlaying ? "text-primary" : "text-foreground"
+                        )}>
+                          {track.title}
+                        </h3>
+                        <p className="text-xs text-muted-foreground line-clamp-1">{track.artist}</p>
+                      </div>
+                      <span className="text-sm text-muted-foreground flex-shrink-0">{track.duration}</span>
+                    </div>
+                  );
+                })}
+              </div>
+            </ScrollArea>
+          </>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default AlbumModal;
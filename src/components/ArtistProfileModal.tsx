@@ -1,11 +1,13 @@
 import { useState, useEffect } from 'react';
 import { Dialog, DialogContent } from '@/components/ui/dialog';
-import { Play, CheckCircle, Users, Music2, Disc3, Radio, X, Loader2, TrendingUp } from 'lucide-react';
-import { useYTMusicAPI, type YTSong, type ArtistInfo } from '@/hooks/useYTMusicAPI';
+import { Play, CheckCircle, Users, Music2, Disc3, Radio, X, Loader2, TrendingUp, ListPlus, Album as AlbumIcon } from 'lucide-react';
+import { useYTMusicAPI, type YTSong, type ArtistInfo, type AlbumSummary, type Discography } from '@/hooks/useYTMusicAPI';
+import { useAlbumPlayback } from '@/hooks/useAlbumPlayback';
 import { useAudioPlayer } from '@/contexts/AudioPlayerContext';
 import { Button } from '@/components/ui/button';
 import { ScrollArea } from '@/components/ui/scroll-area';
 import { cn } from '@/lib/utils';
+import AlbumModal, { type AlbumRef } from './AlbumModal';
 
 interface ArtistProfileModalProps {
   artistName: string;
@@ -14,32 +16,55 @@ interface ArtistProfileModalProps {
   onClose: () => void;
 }
 
+const TABS = [
+  { id: 'tracks', label: 'Top Tracks', icon: Music2 },
+  { id: 'albums', label: 'Albums', icon: AlbumIcon },
+  { id: 'singles', label: 'Singles', icon: Disc3 },
+  { id: 'similar', label: 'Similar Artists', icon: Users },
+] as const;
+
 const ArtistProfileModal = ({ artistName, channelId, isOpen, onClose }: ArtistProfileModalProps) => {
   const [artistInfo, setArtistInfo] = useState<ArtistInfo | null>(null);
   const [relatedSongs, setRelatedSongs] = useState<YTSong[]>([]);
   const [similarArtists, setSimilarArtists] = useState<{ name: string; thumbnail: string; channelId: string }[]>([]);
   const [isLoading, setIsLoading] = useState(true);
-  const [activeTab, setActiveTab] = useState<'tracks' | 'similar'>('tracks');
+  const [discography, setDiscography] = useState<Discography | null>(null);
+  const [isLoadingDiscography, setIsLoadingDiscography] = useState(false);
+  const [selectedAlbum, setSelectedAlbum] = useState<AlbumRef | null>(null);
+  const [activeTab, setActiveTab] = useState<'tracks' | 'albums' | 'singles' | 'similar'>('tracks');
   
-  const { getArtist, search, toVideoFormat, getRelated } = useYTMusicAPI();
-  const { play, currentVideo, isPlaying, setPlaylist } = useAudioPlayer();
+  const { getArtist, getDiscography, search, toVideoFormat } = useYTMusicAPI();
+  const { playAlbum, queueAlbum, loadingId } = useAlbumPlayback();
+  const { play, currentVideo, isPlaying, setPlaylist, startStation } = useAudioPlayer();
 
   useEffect(() => {
+    if (!isOpen) return;
+    let cancelled = false;
+
     const loadArtistData = async () => {
-      if (!isOpen) return;
-      
       setIsLoading(true);
+      setDiscography(null);
+      setIsLoadingDiscography(true);
       
       // Try to get artist from channel ID first
       if (channelId) {
         const info = await getArtist(channelId);
+        if (cancelled) return;
         if (info) {
           setArtistInfo(info);
         }
       }
+
+      // Albums and singles load alongside the tracks below
+      getDiscography(channelId, artistName).then(result => {
+        if (cancelled) return;
+        setDiscography(result);
+        setIsLoadingDiscography(false);
+      });
       
       // Search for artist's songs
       const searchResult = await search(`${artistName} songs`, 20);
+      if (cancelled) return;
       if (searchResult?.songs) {
         setRelatedSongs(searchResult.songs);
         
@@ -61,7 +86,8 @@ const ArtistProfileModal = ({ artistName, channelId, isOpen, onClose }: ArtistPr
     };
 
     loadArtistData();
-  }, [isOpen, artistName, channelId, getArtist, search]);
+    return () => { cancelled = true; };
+  }, [isOpen, artistName, channelId, getArtist, getDiscography, search]);
 
   const handlePlayAll = () => {
     const songs = artistInfo?.topTracks || relatedSongs;
@@ -79,20 +105,77 @@ const ArtistProfileModal = ({ artistName, channelId, isOpen, onClose }: ArtistPr
     play(toVideoFormat(song));
   };
 
-  const handleStartRadio = async () => {
+  const handleStartRadio = () => {
     const songs = artistInfo?.topTracks || relatedSongs;
-    if (songs.length > 0) {
-      const firstSong = songs[0];
-      play(toVideoFormat(firstSong));
-      
-      // Get related for radio
-      const related = await getRelated(firstSong.videoId, 30);
-      if (related.length > 0) {
-        setPlaylist([toVideoFormat(firstSong), ...related.map(toVideoFormat)]);
-      }
-    }
+    startStation(
+      { type: 'artist', name: artistInfo?.artist || artistName, channelId: artistInfo?.channelId || channelId },
+      artistInfo?.thumbnail || songs[0]?.thumbnail
+    );
   };
 
+  // Album and single cards: open, play or queue the whole release
+  const renderReleases = (releases: AlbumSummary[] | undefined) => (
+    <div className="p-6">
+      {isLoadingDiscography ? (
+        <div className="flex flex-col items-center justify-center py-12 text-center">
+          <Loader2 className="w-8 h-8 text-primary animate-spin mb-4" />
+          <p className="text-muted-foreground">Loading releases...</p>
+        </div>
+      ) : releases?.length ? (
+        <div className="grid grid-cols-2 sm:grid-cols-4 gap-4">
+          {releases.map(release => (
+            <div
+              key={release.playlistId}
+              className="group cursor-pointer"
+              onClick={() => setSelectedAlbum(release)}
+            >
+              <div className="relative aspect-square rounded-lg overflow-hidden bg-muted mb-2">
+                {release.thumbnail ? (
+                  <img src={release.thumbnail} alt={release.title} className="w-full h-full object-cover" loading="lazy" />
+                ) : (
+                  <div className="w-full h-full flex items-center justify-center">
+                    <Disc3 className="w-10 h-10 text-muted-foreground" />
+                  </div>
+                )}
+                <div className="absolute inset-0 bg-black/40 opacity-0 group-hover:opacity-100 transition-opacity flex items-center justify-center gap-2">
+                  {loadingId === release.playlistId ? (
+                    <Loader2 className="w-6 h-6 text-white animate-spin" />
+                  ) : (
+                    <>
+                      <button
+                        onClick={(e) => { e.stopPropagation(); playAlbum(release); }}
+                        className="w-10 h-10 rounded-full bg-primary flex items-center justify-center"
+                        title="Play"
+                      >
+                        <Play className="w-5 h-5 text-primary-foreground ml-0.5" />
+                      </button>
+                      <button
+                        onClick={(e) => { e.stopPropagation(); queueAlbum(release); }}
+                        className="w-10 h-10 rounded-full bg-background/80 flex items-center justify-center"
+                        title="Add to queue"
+                      >
+                        <ListPlus className="w-5 h-5 text-foreground" />
+                      </button>
+                    </>
+                  )}
+                </div>
+              </div>
+              <h3 className="text-sm font-medium text-foreground line-clamp-1">{release.title}</h3>
+              <p className="text-xs text-muted-foreground">
+                {[release.year, release.trackCount && `${release.trackCount} tracks`].filter(Boolean).join(' • ')}
+              </p>
+            </div>
+          ))}
+        </div>
+      ) : (
+        <div className="flex flex-col items-center justify-center py-12 text-center">
+          <Disc3 className="w-12 h-12 text-muted-foreground mb-4" />
+          <p className="text-muted-foreground">No releases found</p>
+        </div>
+      )}
+    </div>
+  );
+
   const tracks = artistInfo?.topTracks || relatedSongs;
   const displayName = artistInfo?.artist || artistName;
   const isVerified = artistInfo?.verified || tracks.some(t => t.isVerified);
@@ -180,34 +263,23 @@ const ArtistProfileModal = ({ artistName, channelId, isOpen, onClose }: ArtistPr
             {/* Tabs */}
             <div className="border-b border-border px-6">
               <div className="flex gap-6">
-                <button
-                  onClick={() => setActiveTab('tracks')}
-                  className={cn(
-                    "py-3 text-sm font-medium border-b-2 transition-colors",
-                    activeTab === 'tracks'
-                      ? "border-primary text-primary"
-                      : "border-transparent text-muted-foreground hover:text-foreground"
-                  )}
-                >
-                  <span className="flex items-center gap-2">
-                    <Music2 className="w-4 h-4" />
-                    Top Tracks
-                  </span>
-                </button>
-                <button
-                  onClick={() => setActiveTab('similar')}
-                  className={cn(
-                    "py-3 text-sm font-medium border-b-2 transition-colors",
-                    activeTab === 'similar'
-                      ? "border-primary text-primary"
-                      : "border-transparent text-muted-foreground hover:text-foreground"
-                  )}
-                >
-                  <span className="flex items-center gap-2">
-                    <Users className="w-4 h-4" />
-                    Similar Artists
-                  </span>
-                </button>
+                {TABS.map(({ id, label, icon: Icon }) => (
+                  <button
+                    key={id}
+                    onClick={() => setActiveTab(id)}
+                    className={cn(
+                      "py-3 text-sm font-medium border-b-2 transition-colors",
+                      activeTab === id
+                        ? "border-primary text-primary"
+                        : "border-transparent text-muted-foreground hover:text-foreground"
+                    )}
+                  >
+                    <span className="flex items-center gap-2">
+                      <Icon className="w-4 h-4" />
+                      {label}
+                    </span>
+                  </button>
+                ))}
               </div>
             </div>
 
@@ -294,6 +366,8 @@ const ArtistProfileModal = ({ artistName, channelId, isOpen, onClose }: ArtistPr
                     );
                   })}
                 </div>
+              ) : activeTab === 'albums' || activeTab === 'singles' ? (
+                renderReleases(activeTab === 'albums' ? discography?.albums : discography?.singles)
               ) : (
                 <div className="p-6">
                   {similarArtists.length > 0 ? (
@@ -333,6 +407,8 @@ const ArtistProfileModal = ({ artistName, channelId, isOpen, onClose }: ArtistPr
           </>
         )}
       </DialogContent>
+
+      <AlbumModal album={selectedAlbum} onClose={() => setSelectedAlbum(null)} />
     </Dialog>
   );
 };
@@ -1,5 +1,6 @@
 import { useEffect, useRef, useState, useCallback } from 'react';
 import { cn } from '@/lib/utils';
+import { getAudioGraph, connectMediaElement, resumeAudioGraph } from '@/lib/playback';
 
 interface AudioVisualizerProps {
   audioElement: HTMLAudioElement | null;
@@ -20,8 +21,6 @@ const AudioVisualizer = ({
 }: AudioVisualizerProps) => {
   const canvasRef = useRef<HTMLCanvasElement>(null);
   const analyserRef = useRef<AnalyserNode | null>(null);
-  const audioContextRef = useRef<AudioContext | null>(null);
-  const sourceRef = useRef<MediaElementAudioSourceNode | null>(null);
   const animationRef = useRef<number | null>(null);
   const [isInitialized, setIsInitialized] = useState(false);
   const [frequencyData, setFrequencyData] = useState<number[]>(new Array(barCount).fill(0));
@@ -31,26 +30,12 @@ const AudioVisualizer = ({
     if (!audioElement || isInitialized) return;
 
     try {
-      // Create audio context
-      const audioContext = new (window.AudioContext || (window as any).webkitAudioContext)();
-      audioContextRef.current = audioContext;
-
-      // Create analyser node
-      const analyser = audioContext.createAnalyser();
-      analyser.fftSize = 256;
-      analyser.smoothingTimeConstant = 0.8;
-      analyserRef.current = analyser;
-
-      // Create media element source (only once per audio element)
-      if (!sourceRef.current) {
-        const source = audioContext.createMediaElementSource(audioElement);
-        source.connect(analyser);
-        analyser.connect(audioContext.destination);
-        sourceRef.current = source;
-      }
+      // Read from the shared audio graph instead of creating another context
+      analyserRef.current = getAudioGraph().analyser;
+      connectMediaElement(audioElement);
 
       setIsInitialized(true);
-      console.log('[Visualizer] Audio context initialized');
+      console.log('[Visualizer] Attached to shared audio graph');
     } catch (error) {
       console.error('[Visualizer] Failed to initialize:', error);
     }
@@ -227,9 +212,7 @@ const AudioVisualizer = ({
   useEffect(() => {
     if (isInitialized && isPlaying) {
       // Resume audio context if suspended
-      if (audioContextRef.current?.state === 'suspended') {
-        audioContextRef.current.resume();
-      }
+      resumeAudioGraph();
       visualize();
     } else if (animationRef.current) {
       cancelAnimationFrame(animationRef.current);
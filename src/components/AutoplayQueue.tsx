@@ -1,10 +1,12 @@
 // Autoplay Queue Panel - Shows upcoming songs with management controls
 import { useState } from 'react';
-import { X, Play, Loader2, Sparkles, Save, Trash2, Music } from 'lucide-react';
+import { X, Play, Loader2, Sparkles, Save, Trash2, Music, Radio, Bug } from 'lucide-react';
 import { useAudioPlayer, type Video } from '@/contexts/AudioPlayerContext';
 import { Button } from '@/components/ui/button';
 import { ScrollArea } from '@/components/ui/scroll-area';
 import { Input } from '@/components/ui/input';
+import WhyThisSong from '@/components/WhyThisSong';
+import RecommendationDebugPanel from '@/components/RecommendationDebugPanel';
 import { cn } from '@/lib/utils';
 import { toast } from 'sonner';
 
@@ -20,22 +22,25 @@ const AutoplayQueue = ({ isOpen, onClose }: AutoplayQueueProps) => {
     currentVideo,
     isAutoplay,
     savedPlaylists,
+    currentStation,
     play,
     removeFromQueue,
     saveQueueAsPlaylist,
     deletePlaylist,
     playPlaylist,
     clearQueue,
+    stopStation,
   } = useAudioPlayer();
 
   const [showSaveInput, setShowSaveInput] = useState(false);
   const [playlistName, setPlaylistName] = useState('');
   const [activeTab, setActiveTab] = useState<'queue' | 'playlists'>('queue');
+  const [showDebug, setShowDebug] = useState(false);
 
   if (!isOpen) return null;
 
   const handlePlay = (video: Video) => {
-    play(video);
+    play(video, { source: 'autoplay' });
   };
 
   const handleSavePlaylist = () => {
@@ -65,9 +70,22 @@ const AutoplayQueue = ({ isOpen, onClose }: AutoplayQueueProps) => {
             <Loader2 className="w-4 h-4 animate-spin text-muted-foreground" />
           )}
         </div>
-        <Button variant="ghost" size="icon" onClick={onClose}>
-          <X className="w-5 h-5" />
-        </Button>
+        <div className="flex items-center">
+          {activeTab === 'queue' && isAutoplay && (
+            <Button
+              variant="ghost"
+              size="icon"
+              className={cn(showDebug && 'text-primary')}
+              title="Show every candidate considered"
+              onClick={() => setShowDebug(!showDebug)}
+            >
+              <Bug className="w-4 h-4" />
+            </Button>
+          )}
+          <Button variant="ghost" size="icon" onClick={onClose}>
+            <X className="w-5 h-5" />
+          </Button>
+        </div>
       </div>
 
       {/* Tabs */}
@@ -115,6 +133,18 @@ const AutoplayQueue = ({ isOpen, onClose }: AutoplayQueueProps) => {
               </p>
             </div>
           </div>
+          {currentStation && (
+            <div className="flex items-center gap-2 mt-3 text-xs text-muted-foreground">
+              <Radio className="w-3.5 h-3.5 text-primary shrink-0" />
+              <span className="flex-1 truncate">Playing {currentStation.name}</span>
+              <button
+                onClick={stopStation}
+                className="hover:text-foreground transition-colors"
+              >
+                Stop radio
+              </button>
+            </div>
+          )}
         </div>
       )}
 
@@ -132,6 +162,8 @@ const AutoplayQueue = ({ isOpen, onClose }: AutoplayQueueProps) => {
                   Enable autoplay to see upcoming songs
                 </p>
               </div>
+            ) : showDebug ? (
+              <RecommendationDebugPanel />
             ) : autoplayQueue.length === 0 ? (
               <div className="p-8 text-center">
                 {isQueueBuilding ? (
@@ -228,6 +260,10 @@ const AutoplayQueue = ({ isOpen, onClose }: AutoplayQueueProps) => {
                         {video.channelTitle}
                       </p>
                     </div>
+                    <WhyThisSong
+                      video={video}
+                      className="opacity-0 group-hover:opacity-100 transition-opacity"
+                    />
                     <Button
                       variant="ghost"
                       size="icon"
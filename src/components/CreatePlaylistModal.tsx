@@ -5,10 +5,9 @@ import { Input } from '@/components/ui/input';
 import { Textarea } from '@/components/ui/textarea';
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
 import { Plus, Link, Loader2, Music, Search, Check, Globe } from 'lucide-react';
-import { useUserPlaylists } from '@/hooks/useUserPlaylists';
+import { useUserPlaylists, type SongToAdd } from '@/hooks/useUserPlaylists';
 import { useAuth } from '@/contexts/AuthContext';
 import { cn } from '@/lib/utils';
-import type { FreeTrack } from '@/hooks/useFreeMusicCatalog';
 import UniversalPlaylistImport from './UniversalPlaylistImport';
 
 interface CreatePlaylistModalProps {
@@ -25,8 +24,8 @@ const CreatePlaylistModal = ({ isOpen, onClose, onPlaylistCreated }: CreatePlayl
   const [description, setDescription] = useState('');
   const [importUrl, setImportUrl] = useState('');
   const [searchQuery, setSearchQuery] = useState('');
-  const [searchResults, setSearchResults] = useState<FreeTrack[]>([]);
-  const [selectedSongs, setSelectedSongs] = useState<FreeTrack[]>([]);
+  const [searchResults, setSearchResults] = useState<SongToAdd[]>([]);
+  const [selectedSongs, setSelectedSongs] = useState<SongToAdd[]>([]);
   const [isLoading, setIsLoading] = useState(false);
   const [isSearching, setIsSearching] = useState(false);
   const [activeTab, setActiveTab] = useState('create');
@@ -74,7 +73,7 @@ const CreatePlaylistModal = ({ isOpen, onClose, onPlaylistCreated }: CreatePlayl
     setIsSearching(false);
   };
 
-  const toggleSongSelection = (song: FreeTrack) => {
+  const toggleSongSelection = (song: SongToAdd) => {
     setSelectedSongs(prev => {
       const exists = prev.find(s => s.id === song.id);
       if (exists) {
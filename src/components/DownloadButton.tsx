@@ -0,0 +1,50 @@
+// Save the current direct-stream track for offline playback
+import { Download, CheckCircle2 } from 'lucide-react';
+import { useAudioPlayer } from '@/contexts/AudioPlayerContext';
+import { useOfflineDownloads } from '@/contexts/OfflineDownloadsContext';
+import { Button } from '@/components/ui/button';
+import { Tooltip, TooltipContent, TooltipProvider, TooltipTrigger } from '@/components/ui/tooltip';
+import { cn } from '@/lib/utils';
+
+interface DownloadButtonProps {
+  className?: string;
+}
+
+const DownloadButton = ({ className }: DownloadButtonProps) => {
+  const { currentVideo } = useAudioPlayer();
+  const { canDownload, isDownloaded, download, removeDownload, progress } = useOfflineDownloads();
+
+  if (!currentVideo || !canDownload(currentVideo)) return null;
+
+  const downloaded = isDownloaded(currentVideo.id);
+  const trackProgress = progress[currentVideo.id];
+  const isDownloading = trackProgress !== undefined;
+
+  return (
+    <TooltipProvider>
+      <Tooltip>
+        <TooltipTrigger asChild>
+          <Button
+            variant="ghost"
+            size="icon"
+            className={cn('relative', downloaded && 'text-primary', className)}
+            disabled={isDownloading}
+            onClick={() => (downloaded ? removeDownload(currentVideo.id) : download([currentVideo]))}
+          >
+            {downloaded ? <CheckCircle2 className="w-5 h-5" /> : <Download className="w-5 h-5" />}
+            {isDownloading && (
+              <span className="absolute -top-1 left-1/2 -translate-x-1/2 px-1 bg-primary text-primary-foreground text-[10px] rounded-full font-medium tabular-nums whitespace-nowrap">
+                {Math.round(trackProgress * 100)}%
+              </span>
+            )}
+          </Button>
+        </TooltipTrigger>
+        <TooltipContent>
+          {downloaded ? 'Remove Download' : isDownloading ? 'Downloading...' : 'Download for Offline'}
+        </TooltipContent>
+      </Tooltip>
+    </TooltipProvider>
+  );
+};
+
+export default DownloadButton;
@@ -0,0 +1,151 @@
+// Tracks saved for offline playback, with storage usage and limit
+import { Play, Trash2, Download, WifiOff, Loader2 } from 'lucide-react';
+import { useAudioPlayer } from '@/contexts/AudioPlayerContext';
+import { useOfflineDownloads } from '@/contexts/OfflineDownloadsContext';
+import { OFFLINE_LIMITS_MB, formatBytes } from '@/lib/offlineCache';
+import { Button } from '@/components/ui/button';
+import { Progress } from '@/components/ui/progress';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { cn } from '@/lib/utils';
+
+const MB = 1024 * 1024;
+
+const DownloadsSection = () => {
+  const { play, playPlaylist, currentVideo, isPlaying } = useAudioPlayer();
+  const { downloads, progress, usedBytes, limitBytes, isOnline, removeDownload, clearDownloads, setLimitBytes } = useOfflineDownloads();
+
+  const active = Object.values(progress);
+  if (downloads.length === 0 && active.length === 0) return null;
+
+  const videos = downloads.map(d => d.video);
+  const playAll = () => {
+    playPlaylist({ id: 'offline-downloads', name: 'Downloads', videos, createdAt: Date.now() }, false, 'library');
+  };
+
+  return (
+    <section className="mb-8">
+      <div className="flex items-center justify-between mb-4 gap-2 flex-wrap">
+        <div className="flex items-center gap-2">
+          <Download className="w-5 h-5 text-primary" />
+          <h2 className="text-xl font-bold text-foreground">Downloads</h2>
+          <span className="text-sm text-muted-foreground">
+            {formatBytes(usedBytes)} of {formatBytes(limitBytes)}
+          </span>
+          {!isOnline && (
+            <span className="flex items-center gap-1 text-xs bg-secondary/50 border border-border/50 rounded-full px-2 py-0.5 text-muted-foreground">
+              <WifiOff className="w-3 h-3" />
+              Offline
+            </span>
+          )}
+        </div>
+        <div className="flex items-center gap-2">
+          {videos.length > 0 && (
+            <Button size="sm" onClick={playAll}>
+              <Play className="w-4 h-4 mr-1" />
+              Play all
+            </Button>
+          )}
+          <Select
+            value={Math.round(limitBytes / MB).toString()}
+            onValueChange={(value) => setLimitBytes(parseInt(value, 10) * MB)}
+          >
+            <SelectTrigger className="h-9 w-28">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {OFFLINE_LIMITS_MB.map(mb => (
+                <SelectItem key={mb} value={mb.toString()}>
+                  {formatBytes(mb * MB)}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          {videos.length > 0 && (
+            <Button size="sm" variant="ghost" onClick={clearDownloads}>
+              <Trash2 className="w-4 h-4 mr-1" />
+              Clear
+            </Button>
+          )}
+        </div>
+      </div>
+
+      {active.length > 0 && (
+        <div className="flex items-center gap-3 mb-4 text-sm text-muted-foreground">
+          <Loader2 className="w-4 h-4 animate-spin flex-shrink-0" />
+          <span className="whitespace-nowrap">
+            Downloading {active.length} track{active.length !== 1 ? 's' : ''}
+          </span>
+          <Progress
+            value={(active.reduce((sum, p) => sum + p, 0) / active.length) * 100}
+            className="h-1.5 max-w-xs"
+          />
+        </div>
+      )}
+
+      <div className="space-y-1">
+        {downloads.map(download => {
+          const { video } = download;
+          const isCurrentSong = currentVideo?.id === video.id;
+
+          return (
+            <div
+              key={download.id}
+              className={cn(
+                'flex items-center gap-3 p-2 rounded-lg group cursor-pointer transition-colors',
+                isCurrentSong ? 'bg-primary/10' : 'hover:bg-muted'
+              )}
+              onClick={() => play(video, { source: 'library' })}
+            >
+              <img
+                src={video.thumbnail}
+                alt={video.title}
+                className="w-10 h-10 rounded object-cover flex-shrink-0"
+              />
+              <div className="flex-1 min-w-0">
+                <p className={cn(
+                  'text-sm font-medium truncate',
+                  isCurrentSong && isPlaying ? 'text-primary' : 'text-foreground'
+                )}>
+                  {video.title}
+                </p>
+                <p className="text-xs text-muted-foreground truncate">
+                  {video.channelTitle}
+                  {download.license && (
+                    <>
+                      {' · '}
+                      <a
+                        href={download.license}
+                        target="_blank"
+                        rel="noopener noreferrer"
+                        className="hover:underline"
+                        onClick={(e) => e.stopPropagation()}
+                      >
+                        Licence
+                      </a>
+                    </>
+                  )}
+                </p>
+              </div>
+              <span className="text-xs text-muted-foreground flex-shrink-0">
+                {formatBytes(download.size)}
+              </span>
+              <Button
+                variant="ghost"
+                size="icon"
+                className="w-8 h-8 opacity-0 group-hover:opacity-100 flex-shrink-0"
+                onClick={(e) => {
+                  e.stopPropagation();
+                  removeDownload(download.id);
+                }}
+              >
+                <Trash2 className="w-4 h-4 text-destructive" />
+              </Button>
+            </div>
+          );
+        })}
+      </div>
+    </section>
+  );
+};
+
+export default DownloadsSection;
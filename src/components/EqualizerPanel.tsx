@@ -0,0 +1,132 @@
+// Graphic equalizer controls for direct-audio playback
+import { useState } from 'react';
+import { Save, Trash2, Info } from 'lucide-react';
+import { useEqualizer } from '@/contexts/EqualizerContext';
+import { EQ_BANDS, EQ_GAIN_RANGE, CUSTOM_CURVE_ID, formatBand } from '@/lib/playback/equalizer';
+import { Slider } from '@/components/ui/slider';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import { Input } from '@/components/ui/input';
+import { Button } from '@/components/ui/button';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+
+const formatDb = (db: number) => `${db > 0 ? '+' : ''}${db} dB`;
+
+const EqualizerPanel = () => {
+  const {
+    settings,
+    presets,
+    customPresets,
+    setEnabled,
+    selectPreset,
+    setBandGain,
+    setPreamp,
+    saveCustomPreset,
+    deleteCustomPreset,
+  } = useEqualizer();
+  const [presetName, setPresetName] = useState('');
+
+  const selectedCustom = customPresets.find(p => p.id === settings.presetId);
+
+  const handleSave = async () => {
+    if (await saveCustomPreset(presetName)) {
+      setPresetName('');
+    }
+  };
+
+  return (
+    <div className="p-4 rounded-xl bg-secondary/50 space-y-4 border border-border/50">
+      <div className="flex items-center justify-between">
+        <div className="space-y-0.5">
+          <Label className="text-sm">Enable Equalizer</Label>
+          <p className="text-xs text-muted-foreground">Shape the sound with a 10-band EQ</p>
+        </div>
+        <Switch checked={settings.enabled} onCheckedChange={setEnabled} />
+      </div>
+
+      <div className="flex gap-2">
+        <Select value={settings.presetId} onValueChange={selectPreset}>
+          <SelectTrigger className="flex-1">
+            <SelectValue placeholder="Custom" />
+          </SelectTrigger>
+          <SelectContent>
+            {settings.presetId === CUSTOM_CURVE_ID && (
+              <SelectItem value={CUSTOM_CURVE_ID} disabled>Custom (unsaved)</SelectItem>
+            )}
+            {presets.map(preset => (
+              <SelectItem key={preset.id} value={preset.id}>
+                {preset.name}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        {selectedCustom && (
+          <Button
+            variant="ghost"
+            size="icon"
+            onClick={() => deleteCustomPreset(selectedCustom.id)}
+          >
+            <Trash2 className="w-4 h-4" />
+          </Button>
+        )}
+      </div>
+
+      {/* Preamp */}
+      <div className="space-y-2">
+        <div className="flex justify-between items-center">
+          <Label className="text-xs text-muted-foreground">Preamp</Label>
+          <span className="text-xs text-muted-foreground">{formatDb(settings.preamp)}</span>
+        </div>
+        <Slider
+          value={[settings.preamp]}
+          onValueChange={([value]) => setPreamp(value)}
+          min={-EQ_GAIN_RANGE}
+          max={EQ_GAIN_RANGE}
+          step={0.5}
+          disabled={!settings.enabled}
+          className="w-full"
+        />
+      </div>
+
+      {/* Bands */}
+      <div className="space-y-2">
+        {EQ_BANDS.map((hz, i) => (
+          <div key={hz} className="flex items-center gap-3">
+            <span className="text-xs text-muted-foreground w-8 text-right">{formatBand(hz)}</span>
+            <Slider
+              value={[settings.gains[i] || 0]}
+              onValueChange={([value]) => setBandGain(i, value)}
+              min={-EQ_GAIN_RANGE}
+              max={EQ_GAIN_RANGE}
+              step={0.5}
+              disabled={!settings.enabled}
+              className="flex-1"
+            />
+            <span className="text-xs text-muted-foreground w-14">{formatDb(settings.gains[i] || 0)}</span>
+          </div>
+        ))}
+      </div>
+
+      {/* Save custom curve */}
+      <div className="flex gap-2">
+        <Input
+          value={presetName}
+          onChange={(e) => setPresetName(e.target.value)}
+          placeholder="Preset name..."
+          className="bg-background border-border input-animated"
+        />
+        <Button onClick={handleSave} disabled={!presetName.trim()} className="btn-press">
+          <Save className="w-4 h-4 mr-2" />
+          Save
+        </Button>
+      </div>
+
+      <div className="flex items-start gap-2 text-xs text-muted-foreground">
+        <Info className="w-4 h-4 mt-0.5 shrink-0" />
+        <p>Applies to free music streams. YouTube playback can't be processed by the browser.</p>
+      </div>
+    </div>
+  );
+};
+
+export default EqualizerPanel;
@@ -14,6 +14,8 @@ const shortcuts = [
     { keys: ['M'], action: 'Mute / Unmute' },
     { keys: ['N'], action: 'Next track' },
     { keys: ['P'], action: 'Previous track' },
+    { keys: ['<'], action: 'Slower playback' },
+    { keys: ['>'], action: 'Faster playback' },
   ]},
   { category: 'Seeking', items: [
     { keys: ['←'], action: 'Seek backward 5s' },
@@ -23,6 +25,10 @@ const shortcuts = [
     { keys: ['0-9'], action: 'Seek to percentage' },
     { keys: ['Home'], action: 'Go to start' },
     { keys: ['End'], action: 'Go to end' },
+    { keys: ['['], action: 'Set loop start (A)' },
+    { keys: [']'], action: 'Set loop end (B)' },
+    { keys: ['\\'], action: 'Clear loop' },
+    { keys: ['B'], action: 'Bookmark position' },
   ]},
   { category: 'Volume', items: [
     { keys: ['↑'], action: 'Increase volume' },
@@ -32,6 +38,7 @@ const shortcuts = [
     { keys: ['S'], action: 'Toggle shuffle' },
     { keys: ['R'], action: 'Cycle repeat mode' },
     { keys: ['A'], action: 'Toggle autoplay' },
+    { keys: ['Z'], action: 'Cycle sleep timer' },
   ]},
 ];
 
@@ -40,7 +40,7 @@ const LikedSongsSection = () => {
         {likedSongs.slice(0, 10).map((video) => (
           <div
             key={video.id}
-            onClick={() => play(video)}
+            onClick={() => play(video, { source: 'library' })}
             className={`group relative rounded-xl overflow-hidden bg-card border cursor-pointer hover-scale ${
               currentVideo?.id === video.id ? 'ring-2 ring-primary' : 'border-border/50 hover:border-primary/50'
             }`}
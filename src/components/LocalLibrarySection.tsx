@@ -0,0 +1,134 @@
+// Local files from the user's music folders (desktop build only)
+import { useState } from 'react';
+import { Play, Shuffle, FolderPlus, RefreshCw, X, HardDrive, Loader2 } from 'lucide-react';
+import { useAudioPlayer } from '@/contexts/AudioPlayerContext';
+import { useLocalLibrary } from '@/hooks/useLocalLibrary';
+import { Button } from '@/components/ui/button';
+import { cn } from '@/lib/utils';
+
+const PREVIEW_COUNT = 18;
+
+const LocalLibrarySection = () => {
+  const { play, playPlaylist, currentVideo, isPlaying } = useAudioPlayer();
+  const { isAvailable, videos, folders, isScanning, addFolders, removeFolder, rescan } = useLocalLibrary();
+  const [showAll, setShowAll] = useState(false);
+
+  if (!isAvailable) return null;
+
+  const playAll = (shuffle: boolean) => {
+    playPlaylist({ id: 'local-library', name: 'Local Files', videos, createdAt: Date.now() }, shuffle, 'library');
+  };
+
+  const shown = showAll ? videos : videos.slice(0, PREVIEW_COUNT);
+
+  return (
+    <section className="mb-8">
+      <div className="flex items-center justify-between mb-4 gap-2 flex-wrap">
+        <div className="flex items-center gap-2">
+          <HardDrive className="w-5 h-5 text-primary" />
+          <h2 className="text-xl font-bold text-foreground">Local Files</h2>
+          {videos.length > 0 && (
+            <span className="text-sm text-muted-foreground">{videos.length} tracks</span>
+          )}
+        </div>
+        <div className="flex items-center gap-2">
+          {videos.length > 0 && (
+            <>
+              <Button size="sm" onClick={() => playAll(false)}>
+                <Play className="w-4 h-4 mr-1" />
+                Play all
+              </Button>
+              <Button size="sm" variant="secondary" onClick={() => playAll(true)}>
+                <Shuffle className="w-4 h-4 mr-1" />
+                Shuffle
+              </Button>
+            </>
+          )}
+          <Button size="sm" variant="ghost" onClick={rescan} disabled={isScanning || folders.length === 0}>
+            <RefreshCw className={cn('w-4 h-4', isScanning && 'animate-spin')} />
+          </Button>
+          <Button size="sm" variant="ghost" onClick={addFolders} disabled={isScanning}>
+            <FolderPlus className="w-4 h-4 mr-1" />
+            Add folder
+          </Button>
+        </div>
+      </div>
+
+      {folders.length > 0 && (
+        <div className="flex flex-wrap gap-2 mb-4">
+          {folders.map(folder => (
+            <span
+              key={folder}
+              className="flex items-center gap-1 text-xs bg-secondary/50 border border-border/50 rounded-full pl-3 pr-1 py-1"
+            >
+              <span className="truncate max-w-[16rem]" title={folder}>{folder}</span>
+              <button
+                type="button"
+                onClick={() => removeFolder(folder)}
+                className="rounded-full p-0.5 hover:bg-accent"
+              >
+                <X className="w-3 h-3" />
+              </button>
+            </span>
+          ))}
+        </div>
+      )}
+
+      {isScanning && videos.length === 0 ? (
+        <div className="flex items-center gap-2 text-sm text-muted-foreground">
+          <Loader2 className="w-4 h-4 animate-spin" />
+          Scanning your music folders...
+        </div>
+      ) : videos.length === 0 ? (
+        <p className="text-sm text-muted-foreground">
+          Add a folder with mp3, flac, ogg or m4a files to play them here.
+        </p>
+      ) : (
+        <>
+          <div className="grid grid-cols-2 sm:grid-cols-3 md:grid-cols-4 lg:grid-cols-5 xl:grid-cols-6 gap-4">
+            {shown.map(video => {
+              const isCurrentlyPlaying = currentVideo?.id === video.id && isPlaying;
+
+              return (
+                <div
+                  key={video.id}
+                  className="group relative cursor-pointer"
+                  onClick={() => play(video, { source: 'library' })}
+                >
+                  <div className="relative aspect-square rounded-lg overflow-hidden bg-muted">
+                    <img
+                      src={video.thumbnail}
+                      alt={video.title}
+                      className="w-full h-full object-cover transition-transform duration-300 group-hover:scale-105"
+                    />
+                    <div className={cn(
+                      'absolute inset-0 bg-black/40 transition-opacity flex items-center justify-center',
+                      isCurrentlyPlaying ? 'opacity-100' : 'opacity-0 group-hover:opacity-100'
+                    )}>
+                      <div className="w-12 h-12 rounded-full bg-primary flex items-center justify-center shadow-lg">
+                        <Play className="w-6 h-6 text-primary-foreground ml-1" />
+                      </div>
+                    </div>
+                  </div>
+                  <h3 className="mt-2 text-sm font-medium text-foreground line-clamp-2">
+                    {video.title}
+                  </h3>
+                  <p className="text-xs text-muted-foreground line-clamp-1">
+                    {video.channelTitle}
+                  </p>
+                </div>
+              );
+            })}
+          </div>
+          {videos.length > PREVIEW_COUNT && (
+            <Button variant="ghost" size="sm" className="mt-4" onClick={() => setShowAll(!showAll)}>
+              {showAll ? 'Show less' : `Show all ${videos.length}`}
+            </Button>
+          )}
+        </>
+      )}
+    </section>
+  );
+};
+
+export default LocalLibrarySection;
@@ -0,0 +1,122 @@
+// A-B loop controls and per-track bookmarks
+import { useState } from 'react';
+import { Bookmark, Link, Trash2, Plus, X } from 'lucide-react';
+import { useAudioPlayer } from '@/contexts/AudioPlayerContext';
+import { useBookmarks } from '@/contexts/BookmarksContext';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover';
+import { cn } from '@/lib/utils';
+
+const formatTime = (seconds: number) => {
+  const mins = Math.floor(seconds / 60);
+  const secs = Math.floor(seconds % 60);
+  return `${mins}:${secs.toString().padStart(2, '0')}`;
+};
+
+interface LoopBookmarksButtonProps {
+  className?: string;
+}
+
+const LoopBookmarksButton = ({ className }: LoopBookmarksButtonProps) => {
+  const { currentVideo, progress, abLoop, setLoopPoint, clearLoop } = useAudioPlayer();
+  const { getBookmarksFor, addBookmark, deleteBookmark, playBookmark, copyBookmarkLink } = useBookmarks();
+  const [bookmarkName, setBookmarkName] = useState('');
+
+  if (!currentVideo) return null;
+
+  const bookmarks = getBookmarksFor(currentVideo.id);
+  const isLooping = abLoop.a !== null && abLoop.b !== null;
+
+  const handleAdd = async () => {
+    if (await addBookmark(currentVideo, progress, bookmarkName)) {
+      setBookmarkName('');
+    }
+  };
+
+  return (
+    <Popover>
+      <PopoverTrigger asChild>
+        <Button
+          variant="ghost"
+          size="icon"
+          className={cn('relative', (isLooping || bookmarks.length > 0) && 'text-primary', className)}
+        >
+          <Bookmark className="w-5 h-5" />
+          {isLooping && (
+            <span className="absolute -top-1 left-1/2 -translate-x-1/2 px-1 bg-primary text-primary-foreground text-[10px] rounded-full font-medium whitespace-nowrap">
+              A-B
+            </span>
+          )}
+        </Button>
+      </PopoverTrigger>
+      <PopoverContent align="end" className="w-72 space-y-4">
+        {/* A-B loop */}
+        <div className="space-y-2">
+          <div className="flex items-center justify-between">
+            <h4 className="text-sm font-medium">A-B Loop</h4>
+            {(abLoop.a !== null || abLoop.b !== null) && (
+              <Button variant="ghost" size="sm" className="h-7 px-2" onClick={clearLoop}>
+                <X className="w-3 h-3 mr-1" />
+                Clear
+              </Button>
+            )}
+          </div>
+          <div className="grid grid-cols-2 gap-2">
+            <Button variant="secondary" size="sm" onClick={() => setLoopPoint('a')}>
+              A {abLoop.a !== null ? formatTime(abLoop.a) : '–'}
+            </Button>
+            <Button variant="secondary" size="sm" onClick={() => setLoopPoint('b')}>
+              B {abLoop.b !== null ? formatTime(abLoop.b) : '–'}
+            </Button>
+          </div>
+          <p className="text-xs text-muted-foreground">Sets a point at the current position ([ and ] keys)</p>
+        </div>
+
+        {/* Bookmarks */}
+        <div className="space-y-2">
+          <h4 className="text-sm font-medium">Bookmarks</h4>
+          <div className="flex gap-2">
+            <Input
+              value={bookmarkName}
+              onChange={(e) => setBookmarkName(e.target.value)}
+              onKeyDown={(e) => e.key === 'Enter' && handleAdd()}
+              placeholder={`Bookmark at ${formatTime(progress)}`}
+              className="h-8 bg-background border-border"
+            />
+            <Button size="sm" className="h-8" onClick={handleAdd}>
+              <Plus className="w-4 h-4" />
+            </Button>
+          </div>
+
+          {bookmarks.length === 0 ? (
+            <p className="text-xs text-muted-foreground">No bookmarks for this track yet</p>
+          ) : (
+            <div className="space-y-1 max-h-48 overflow-y-auto">
+              {bookmarks.map(bookmark => (
+                <div key={bookmark.id} className="flex items-center gap-1 rounded-lg hover:bg-accent/50">
+                  <button
+                    type="button"
+                    onClick={() => playBookmark(bookmark)}
+                    className="flex-1 min-w-0 flex items-center gap-2 px-2 py-1.5 text-left"
+                  >
+                    <span className="text-xs text-primary tabular-nums">{formatTime(bookmark.position)}</span>
+                    <span className="text-sm truncate">{bookmark.name}</span>
+                  </button>
+                  <Button variant="ghost" size="icon" className="h-7 w-7" onClick={() => copyBookmarkLink(bookmark)}>
+                    <Link className="w-3 h-3" />
+                  </Button>
+                  <Button variant="ghost" size="icon" className="h-7 w-7" onClick={() => deleteBookmark(bookmark.id)}>
+                    <Trash2 className="w-3 h-3" />
+                  </Button>
+                </div>
+              ))}
+            </div>
+          )}
+        </div>
+      </PopoverContent>
+    </Popover>
+  );
+};
+
+export default LoopBookmarksButton;
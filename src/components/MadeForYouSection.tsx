@@ -0,0 +1,112 @@
+// Daily mixes and the weekly discovery playlist, generated from the user's
+// listening history (see useGeneratedPlaylists)
+import { useState } from 'react';
+import { Play, Sparkles, Compass, Loader2 } from 'lucide-react';
+import { useGeneratedPlaylists } from '@/hooks/useGeneratedPlaylists';
+import { useUserPlaylists, playlistSongToVideo, type UserPlaylist } from '@/hooks/useUserPlaylists';
+import { useAudioPlayer } from '@/contexts/AudioPlayerContext';
+import { Button } from '@/components/ui/button';
+import PlaylistDetailModal from './PlaylistDetailModal';
+
+const MadeForYouSection = () => {
+  const { playlists, isGenerating } = useGeneratedPlaylists();
+  const { getPlaylistSongs } = useUserPlaylists();
+  const { play, setPlaylist: setPlayerPlaylist } = useAudioPlayer();
+  const [selectedPlaylist, setSelectedPlaylist] = useState<UserPlaylist | null>(null);
+
+  const handlePlay = async (playlist: UserPlaylist) => {
+    const songs = await getPlaylistSongs(playlist.id);
+    if (songs.length === 0) return;
+
+    const videos = songs.map(playlistSongToVideo);
+
+    setPlayerPlaylist(videos);
+    play(videos[0], { source: 'playlist' });
+  };
+
+  if (playlists.length === 0 && !isGenerating) {
+    return null;
+  }
+
+  return (
+    <>
+      <section>
+        <h2 className="text-xl font-bold text-foreground mb-4 flex items-center gap-2">
+          <Sparkles className="w-5 h-5 text-primary" />
+          Made for You
+          {isGenerating && <Loader2 className="w-4 h-4 animate-spin text-muted-foreground" />}
+        </h2>
+
+        {playlists.length === 0 ? (
+          <p className="text-sm text-muted-foreground">Putting together today's mixes...</p>
+        ) : (
+          <div className="grid grid-cols-2 sm:grid-cols-3 md:grid-cols-4 lg:grid-cols-6 gap-4">
+            {playlists.map(playlist => (
+              <div
+                key={playlist.id}
+                className="group relative cursor-pointer"
+                onClick={() => setSelectedPlaylist(playlist)}
+              >
+                <div className="relative aspect-square rounded-lg overflow-hidden bg-gradient-to-br from-primary/30 to-primary/10">
+                  {playlist.cover_url ? (
+                    <img
+                      src={playlist.cover_url}
+                      alt={playlist.name}
+                      className="w-full h-full object-cover transition-transform duration-300 group-hover:scale-105"
+                      loading="lazy"
+                    />
+                  ) : (
+                    <div className="w-full h-full flex items-center justify-center">
+                      <Sparkles className="w-10 h-10 text-primary" />
+                    </div>
+                  )}
+                  <div className="absolute left-2 bottom-2 flex items-center gap-1 px-2 py-0.5 rounded-full bg-background/80 text-[11px] font-medium">
+                    {playlist.generated_kind === 'weekly_discovery' ? (
+                      <>
+                        <Compass className="w-3 h-3 text-primary" />
+                        This week
+                      </>
+                    ) : (
+                      <>
+                        <Sparkles className="w-3 h-3 text-primary" />
+                        Today
+                      </>
+                    )}
+                  </div>
+                  <div className="absolute inset-0 bg-black/40 opacity-0 group-hover:opacity-100 transition-opacity flex items-center justify-center">
+                    <Button
+                      size="icon"
+                      className="rounded-full w-12 h-12"
+                      onClick={(e) => {
+                        e.stopPropagation();
+                        handlePlay(playlist);
+                      }}
+                    >
+                      <Play className="w-6 h-6 ml-0.5" />
+                    </Button>
+                  </div>
+                </div>
+                <h3 className="mt-2 text-sm font-medium text-foreground line-clamp-1">
+                  {playlist.name}
+                </h3>
+                <p className="text-xs text-muted-foreground line-clamp-2">
+                  {playlist.description}
+                </p>
+              </div>
+            ))}
+          </div>
+        )}
+      </section>
+
+      {selectedPlaylist && (
+        <PlaylistDetailModal
+          playlist={selectedPlaylist}
+          isOpen={!!selectedPlaylist}
+          onClose={() => setSelectedPlaylist(null)}
+        />
+      )}
+    </>
+  );
+};
+
+export default MadeForYouSection;
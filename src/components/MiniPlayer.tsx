@@ -12,6 +12,12 @@ import { Button } from '@/components/ui/button';
 import { Tooltip, TooltipContent, TooltipProvider, TooltipTrigger } from '@/components/ui/tooltip';
 import AutoplayQueue from './AutoplayQueue';
 import SyncButton from './SyncButton';
+import SleepTimerButton from './SleepTimerButton';
+import PlaybackSpeedButton from './PlaybackSpeedButton';
+import DownloadButton from './DownloadButton';
+import StationFeedbackButtons from './StationFeedbackButtons';
+import LoopBookmarksButton from './LoopBookmarksButton';
+import TrackMarkers from './TrackMarkers';
 import VisualizerBars from './VisualizerBars';
 import { cn } from '@/lib/utils';
 
@@ -110,6 +116,7 @@ const MiniPlayer = () => {
               >
                 {isPlaying ? <Pause className="w-5 h-5" /> : <Play className="w-5 h-5 ml-0.5" />}
               </Button>
+              <SleepTimerButton />
               <Button variant="ghost" size="icon" onClick={toggleMinimize}>
                 <ChevronUp className="w-5 h-5" />
               </Button>
@@ -228,13 +235,16 @@ const MiniPlayer = () => {
               <span className="text-xs text-muted-foreground w-10 text-right">
                 {formatTime(progress)}
               </span>
-              <Slider
-                value={[progress]}
-                max={duration || 100}
-                step={1}
-                onValueChange={([value]) => seek(value)}
-                className="w-full max-w-xs"
-              />
+              <div className="relative w-full max-w-xs">
+                <Slider
+                  value={[progress]}
+                  max={duration || 100}
+                  step={1}
+                  onValueChange={([value]) => seek(value)}
+                  className="w-full"
+                />
+                <TrackMarkers />
+              </div>
               <span className="text-xs text-muted-foreground w-10">{formatTime(duration)}</span>
             </div>
 
@@ -294,8 +304,18 @@ const MiniPlayer = () => {
                 </Tooltip>
               </TooltipProvider>
 
+              <StationFeedbackButtons className="hidden sm:flex" />
+
               <SyncButton />
 
+              <PlaybackSpeedButton className="hidden sm:flex" />
+
+              <LoopBookmarksButton className="hidden sm:flex" />
+
+              <DownloadButton className="hidden sm:flex" />
+
+              <SleepTimerButton />
+
               <TooltipProvider>
                 <Tooltip>
                   <TooltipTrigger asChild>
@@ -0,0 +1,70 @@
+// Playback speed menu with pitch-preserve toggle
+import { Gauge } from 'lucide-react';
+import { useAudioPlayer } from '@/contexts/AudioPlayerContext';
+import { PLAYBACK_SPEEDS, formatSpeed } from '@/lib/playback/speed';
+import { Button } from '@/components/ui/button';
+import {
+  DropdownMenu,
+  DropdownMenuCheckboxItem,
+  DropdownMenuContent,
+  DropdownMenuLabel,
+  DropdownMenuRadioGroup,
+  DropdownMenuRadioItem,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from '@/components/ui/dropdown-menu';
+import { cn } from '@/lib/utils';
+
+interface PlaybackSpeedButtonProps {
+  className?: string;
+}
+
+const PlaybackSpeedButton = ({ className }: PlaybackSpeedButtonProps) => {
+  const { currentVideo, playbackRate, preservePitch, setPlaybackRate, setPreservePitch } = useAudioPlayer();
+
+  // YouTube always keeps the original pitch
+  const canChangePitch = !!currentVideo?.streamUrl;
+
+  return (
+    <DropdownMenu>
+      <DropdownMenuTrigger asChild>
+        <Button
+          variant="ghost"
+          size="icon"
+          className={cn('relative', playbackRate !== 1 && 'text-primary', className)}
+        >
+          <Gauge className="w-5 h-5" />
+          {playbackRate !== 1 && (
+            <span className="absolute -top-1 left-1/2 -translate-x-1/2 px-1 bg-primary text-primary-foreground text-[10px] rounded-full font-medium tabular-nums whitespace-nowrap">
+              {formatSpeed(playbackRate)}
+            </span>
+          )}
+        </Button>
+      </DropdownMenuTrigger>
+      <DropdownMenuContent align="end" className="w-48">
+        <DropdownMenuLabel>Playback Speed</DropdownMenuLabel>
+        <DropdownMenuSeparator />
+        <DropdownMenuRadioGroup
+          value={playbackRate.toString()}
+          onValueChange={(value) => setPlaybackRate(parseFloat(value))}
+        >
+          {PLAYBACK_SPEEDS.map(speed => (
+            <DropdownMenuRadioItem key={speed} value={speed.toString()}>
+              {speed === 1 ? 'Normal' : formatSpeed(speed)}
+            </DropdownMenuRadioItem>
+          ))}
+        </DropdownMenuRadioGroup>
+        <DropdownMenuSeparator />
+        <DropdownMenuCheckboxItem
+          checked={canChangePitch ? preservePitch : true}
+          onCheckedChange={setPreservePitch}
+          disabled={!canChangePitch}
+        >
+          Preserve pitch
+        </DropdownMenuCheckboxItem>
+      </DropdownMenuContent>
+    </DropdownMenu>
+  );
+};
+
+export default PlaybackSpeedButton;
@@ -3,11 +3,12 @@ import { Dialog, DialogContent, DialogHeader, DialogTitle } from '@/components/u
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { ScrollArea } from '@/components/ui/scroll-area';
-import { Play, Pause, Trash2, Plus, Search, Music2, Loader2, GripVertical } from 'lucide-react';
-import { useUserPlaylists, type UserPlaylist, type PlaylistSong } from '@/hooks/useUserPlaylists';
-import { useAudioPlayer, type Video } from '@/contexts/AudioPlayerContext';
+import { Play, Pause, Trash2, Plus, Search, Music2, Loader2, GripVertical, Download, CheckCircle2, Radio } from 'lucide-react';
+import { useUserPlaylists, playlistSongToVideo, type UserPlaylist, type PlaylistSong, type SongToAdd } from '@/hooks/useUserPlaylists';
+import { useAudioPlayer } from '@/contexts/AudioPlayerContext';
+import { useOfflineDownloads } from '@/contexts/OfflineDownloadsContext';
+import { isDirectStream } from '@/lib/offlineCache';
 import { cn } from '@/lib/utils';
-import type { FreeTrack } from '@/hooks/useFreeMusicCatalog';
 
 interface PlaylistDetailModalProps {
   playlist: UserPlaylist;
@@ -17,13 +18,14 @@ interface PlaylistDetailModalProps {
 
 const PlaylistDetailModal = ({ playlist, isOpen, onClose }: PlaylistDetailModalProps) => {
   const { getPlaylistSongs, removeSongFromPlaylist, searchSongs, addSongToPlaylist } = useUserPlaylists();
-  const { play, currentVideo, isPlaying, pause, resume, setPlaylist: setPlayerPlaylist } = useAudioPlayer();
+  const { play, currentVideo, isPlaying, pause, resume, setPlaylist: setPlayerPlaylist, startStation } = useAudioPlayer();
+  const { canDownload, isDownloaded, download, progress } = useOfflineDownloads();
   
   const [songs, setSongs] = useState<PlaylistSong[]>([]);
   const [isLoading, setIsLoading] = useState(true);
   const [showAddSongs, setShowAddSongs] = useState(false);
   const [searchQuery, setSearchQuery] = useState('');
-  const [searchResults, setSearchResults] = useState<FreeTrack[]>([]);
+  const [searchResults, setSearchResults] = useState<SongToAdd[]>([]);
   const [isSearching, setIsSearching] = useState(false);
 
   useEffect(() => {
@@ -39,38 +41,28 @@ const PlaylistDetailModal = ({ playlist, isOpen, onClose }: PlaylistDetailModalP
     setIsLoading(false);
   };
 
+  const toVideos = () => songs.map(playlistSongToVideo);
+
   const handlePlayAll = () => {
     if (songs.length === 0) return;
 
-    const videos: Video[] = songs.map(song => ({
-      id: song.video_id,
-      title: song.title,
-      thumbnail: song.thumbnail || '',
-      channelTitle: song.channel_title || 'Unknown Artist',
-      duration: song.duration || undefined,
-      streamUrl: song.video_id.startsWith('free_') 
-        ? `https://mp3d.jamendo.com/download/track/${song.video_id.replace('free_', '')}/mp32`
-        : undefined,
-    }));
-
+    const videos = toVideos();
     setPlayerPlaylist(videos);
-    play(videos[0]);
+    play(videos[0], { source: 'playlist' });
   };
 
   const handlePlaySong = (song: PlaylistSong, index: number) => {
-    const videos: Video[] = songs.map(s => ({
-      id: s.video_id,
-      title: s.title,
-      thumbnail: s.thumbnail || '',
-      channelTitle: s.channel_title || 'Unknown Artist',
-      duration: s.duration || undefined,
-      streamUrl: s.video_id.startsWith('free_') 
-        ? `https://mp3d.jamendo.com/download/track/${s.video_id.replace('free_', '')}/mp32`
-        : undefined,
-    }));
-
+    const videos = toVideos();
     setPlayerPlaylist(videos);
-    play(videos[index]);
+    play(videos[index], { source: 'playlist' });
+  };
+
+  const downloadableVideos = toVideos().filter(canDownload);
+  // Stations run on YouTube Music, so only its tracks can seed one
+  const radioSeedVideos = toVideos().filter(v => !isDirectStream(v));
+
+  const handleStartRadio = () => {
+    startStation({ type: 'playlist', name: playlist.name, videos: radioSeedVideos }, playlist.cover_url || undefined);
   };
 
   const handleRemoveSong = async (songId: string) => {
@@ -87,7 +79,7 @@ const PlaylistDetailModal = ({ playlist, isOpen, onClose }: PlaylistDetailModalP
     setIsSearching(false);
   };
 
-  const handleAddSong = async (track: FreeTrack) => {
+  const handleAddSong = async (track: SongToAdd) => {
     const added = await addSongToPlaylist(playlist.id, track);
     if (added) {
       await loadSongs();
@@ -132,6 +124,22 @@ const PlaylistDetailModal = ({ playlist, isOpen, onClose }: PlaylistDetailModalP
             <Plus className="w-4 h-4 mr-2" />
             Add Songs
           </Button>
+          {radioSeedVideos.length > 0 && (
+            <Button variant="outline" onClick={handleStartRadio}>
+              <Radio className="w-4 h-4 mr-2" />
+              Radio
+            </Button>
+          )}
+          {downloadableVideos.length > 0 && (
+            <Button
+              variant="outline"
+              onClick={() => download(downloadableVideos)}
+              disabled={downloadableVideos.every(v => isDownloaded(v.id) || v.id in progress)}
+            >
+              <Download className="w-4 h-4 mr-2" />
+              Download
+            </Button>
+          )}
         </div>
 
         {/* Add Songs Section */}
@@ -244,6 +252,26 @@ const PlaylistDetailModal = ({ playlist, isOpen, onClose }: PlaylistDetailModalP
                     <span className="text-xs text-muted-foreground flex-shrink-0">
                       {formatDuration(song.duration)}
                     </span>
+
+                    {song.video_id in progress ? (
+                      <span className="text-xs text-primary w-8 text-center flex-shrink-0">
+                        {Math.round(progress[song.video_id] * 100)}%
+                      </span>
+                    ) : isDownloaded(song.video_id) ? (
+                      <CheckCircle2 className="w-4 h-4 text-primary mx-2 flex-shrink-0" />
+                    ) : downloadableVideos.some(v => v.id === song.video_id) ? (
+                      <Button
+                        variant="ghost"
+                        size="icon"
+                        className="w-8 h-8 opacity-0 group-hover:opacity-100 flex-shrink-0"
+                        onClick={(e) => {
+                          e.stopPropagation();
+                          download(downloadableVideos.filter(v => v.id === song.video_id));
+                        }}
+                      >
+                        <Download className="w-4 h-4" />
+                      </Button>
+                    ) : null}
                     
                     <Button
                       variant="ghost"
@@ -9,9 +9,10 @@ interface PlaylistTrackItemProps {
   index: number;
   isSelected: boolean;
   onToggle: () => void;
+  onAlbumClick?: (track: NormalizedTrack) => void;
 }
 
-const PlaylistTrackItem = ({ track, index, isSelected, onToggle }: PlaylistTrackItemProps) => {
+const PlaylistTrackItem = ({ track, index, isSelected, onToggle, onAlbumClick }: PlaylistTrackItemProps) => {
   const formatDuration = (ms?: number) => {
     if (!ms) return '--:--';
     const seconds = Math.floor(ms / 1000);
@@ -79,7 +80,19 @@ const PlaylistTrackItem = ({ track, index, isSelected, onToggle }: PlaylistTrack
           {track.album && (
             <>
               <span>•</span>
-              <span className="truncate">{track.album}</span>
+              {onAlbumClick ? (
+                <button
+                  onClick={(e) => {
+                    e.stopPropagation();
+                    onAlbumClick(track);
+                  }}
+                  className="truncate hover:text-primary hover:underline transition-colors"
+                >
+                  {track.album}
+                </button>
+              ) : (
+                <span className="truncate">{track.album}</span>
+              )}
             </>
           )}
         </div>
@@ -81,7 +81,7 @@ const PlaylistsGrid = () => {
     }
     setPlaylist(videos);
     if (videos.length > 0) {
-      play(videos[0]);
+      play(videos[0], { source: 'playlist' });
     }
   };
 
@@ -7,6 +7,7 @@ import {
   ChevronDown, ChevronUp, Filter, SortAsc, Search
 } from 'lucide-react';
 import { useAudioPlayer, type Video, type SavedPlaylist } from '@/contexts/AudioPlayerContext';
+import type { PlaySource } from '@/lib/playEvents';
 import { Button } from '@/components/ui/button';
 import { ScrollArea } from '@/components/ui/scroll-area';
 import { Input } from '@/components/ui/input';
@@ -90,8 +91,8 @@ const QueueManagement = ({ isOpen, onClose }: QueueManagementProps) => {
 
   if (!isOpen) return null;
 
-  const handlePlay = (video: Video) => {
-    play(video);
+  const handlePlay = (video: Video, source: PlaySource = 'autoplay') => {
+    play(video, { source });
   };
 
   const handleSavePlaylist = () => {
@@ -557,7 +558,7 @@ const QueueManagement = ({ isOpen, onClose }: QueueManagementProps) => {
                             <div
                               key={video.id}
                               className="flex items-center gap-2 p-2 rounded-lg hover:bg-accent/50 cursor-pointer"
-                              onClick={() => handlePlay(video)}
+                              onClick={() => handlePlay(video, 'playlist')}
                             >
                               <span className="w-5 text-xs text-muted-foreground text-center">
                                 {i + 1}
@@ -607,7 +608,7 @@ const QueueManagement = ({ isOpen, onClose }: QueueManagementProps) => {
                       "group flex items-center gap-3 p-2 rounded-lg transition-all duration-200",
                       "hover:bg-accent/50 cursor-pointer"
                     )}
-                    onClick={() => handlePlay(video)}
+                    onClick={() => handlePlay(video, 'library')}
                   >
                     <div className="relative shrink-0">
                       <img
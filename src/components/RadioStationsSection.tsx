@@ -0,0 +1,119 @@
+// Saved radio stations to resume, and genre/mood stations to start
+import { Radio, Play, X, Loader2 } from 'lucide-react';
+import { useAudioPlayer } from '@/contexts/AudioPlayerContext';
+import { STATION_GENRES, STATION_MOODS, describeSeed } from '@/lib/recommendation';
+import { cn } from '@/lib/utils';
+
+const RadioStationsSection = () => {
+  const {
+    savedStations,
+    currentStation,
+    isQueueBuilding,
+    startStation,
+    resumeStation,
+    deleteStation,
+  } = useAudioPlayer();
+
+  const chipClass = 'text-sm px-3 py-1.5 rounded-full bg-secondary/50 border border-border/50 hover:bg-secondary transition-colors';
+
+  return (
+    <section>
+      <h2 className="text-xl font-bold text-foreground mb-4 flex items-center gap-2">
+        <Radio className="w-5 h-5 text-primary" />
+        Radio
+      </h2>
+
+      {savedStations.length > 0 && (
+        <div className="grid grid-cols-2 sm:grid-cols-3 md:grid-cols-4 lg:grid-cols-6 gap-4 mb-6">
+          {savedStations.map(station => {
+            const isCurrent = currentStation?.id === station.id;
+
+            return (
+              <div
+                key={station.id}
+                className="group relative cursor-pointer"
+                onClick={() => resumeStation(station.id)}
+              >
+                <div className="relative aspect-square rounded-lg overflow-hidden bg-gradient-to-br from-primary/30 to-primary/10">
+                  {station.thumbnail ? (
+                    <img
+                      src={station.thumbnail}
+                      alt={station.name}
+                      className="w-full h-full object-cover transition-transform duration-300 group-hover:scale-105"
+                      loading="lazy"
+                    />
+                  ) : (
+                    <div className="w-full h-full flex items-center justify-center">
+                      <Radio className="w-10 h-10 text-primary" />
+                    </div>
+                  )}
+                  <div className={cn(
+                    'absolute inset-0 bg-black/40 transition-opacity flex items-center justify-center',
+                    isCurrent ? 'opacity-100' : 'opacity-0 group-hover:opacity-100'
+                  )}>
+                    <div className="w-12 h-12 rounded-full bg-primary flex items-center justify-center shadow-lg">
+                      {isCurrent && isQueueBuilding ? (
+                        <Loader2 className="w-6 h-6 text-primary-foreground animate-spin" />
+                      ) : (
+                        <Play className="w-6 h-6 text-primary-foreground ml-1" />
+                      )}
+                    </div>
+                  </div>
+                  <button
+                    type="button"
+                    onClick={(e) => {
+                      e.stopPropagation();
+                      deleteStation(station.id);
+                    }}
+                    className="absolute top-2 right-2 p-1 rounded-full bg-background/70 opacity-0 group-hover:opacity-100 transition-opacity hover:bg-background"
+                  >
+                    <X className="w-3 h-3" />
+                  </button>
+                </div>
+                <h3 className={cn(
+                  'mt-2 text-sm font-medium line-clamp-1',
+                  isCurrent ? 'text-primary' : 'text-foreground'
+                )}>
+                  {station.name}
+                </h3>
+                <p className="text-xs text-muted-foreground line-clamp-1">
+                  {station.seeds.map(describeSeed).join(', ')}
+                  {station.feedback.length > 0 && ` · ${station.feedback.length} ratings`}
+                </p>
+              </div>
+            );
+          })}
+        </div>
+      )}
+
+      <div className="space-y-3">
+        <div className="flex flex-wrap gap-2">
+          {STATION_GENRES.map(genre => (
+            <button
+              key={genre.id}
+              type="button"
+              className={chipClass}
+              onClick={() => startStation({ type: 'genre', genre: genre.id })}
+            >
+              {genre.label}
+            </button>
+          ))}
+        </div>
+        <div className="flex flex-wrap gap-2">
+          {STATION_MOODS.map(mood => (
+            <button
+              key={mood.id}
+              type="button"
+              className={chipClass}
+              onClick={() => startStation({ type: 'mood', mood: mood.id })}
+            >
+              {mood.label}
+            </button>
+          ))}
+        </div>
+      </div>
+    </section>
+  );
+};
+
+export default RadioStationsSection;
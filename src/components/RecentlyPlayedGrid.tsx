@@ -10,7 +10,7 @@ const RecentlyPlayedGrid = () => {
   }
 
   const handlePlay = (video: Video) => {
-    play(video);
+    play(video, { source: 'library' });
   };
 
   return (
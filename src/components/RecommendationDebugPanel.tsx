@@ -0,0 +1,66 @@
+// Every candidate the last autoplay build considered: what was queued with
+// its score, and what was dropped and why
+import { useAudioPlayer, type Video } from '@/contexts/AudioPlayerContext';
+import { describeOrigin, describeRejection } from '@/lib/recommendation';
+
+const CandidateRow = ({ video, note }: { video: Video; note: string }) => (
+  <div className="px-2 py-1.5">
+    <p className="text-xs font-medium text-foreground truncate">{video.title}</p>
+    <p className="text-[11px] text-muted-foreground truncate">
+      {video.channelTitle} · {note}
+    </p>
+    {video.recommendation?.origin && (
+      <p className="text-[11px] text-muted-foreground/70 truncate">
+        {describeOrigin(video.recommendation.origin)}
+      </p>
+    )}
+  </div>
+);
+
+const RecommendationDebugPanel = () => {
+  const { recommendationReport: report } = useAudioPlayer();
+
+  if (!report) {
+    return (
+      <p className="p-8 text-center text-sm text-muted-foreground">
+        No queue has been built yet
+      </p>
+    );
+  }
+
+  return (
+    <div className="p-2 space-y-4">
+      <p className="px-2 text-xs text-muted-foreground">
+        Built from "{report.seed.title}" at {new Date(report.builtAt).toLocaleTimeString()}
+      </p>
+
+      <div>
+        <p className="px-2 mb-1 text-xs text-muted-foreground uppercase tracking-wide">
+          Queued ({report.accepted.length})
+        </p>
+        {report.accepted.map(video => (
+          <CandidateRow
+            key={video.id}
+            video={video}
+            note={`score ${Math.round(video.recommendation?.score?.total ?? 0)}`}
+          />
+        ))}
+      </div>
+
+      <div>
+        <p className="px-2 mb-1 text-xs text-muted-foreground uppercase tracking-wide">
+          Rejected ({report.rejected.length})
+        </p>
+        {report.rejected.map((rejected, index) => (
+          <CandidateRow
+            key={`${rejected.video.id}-${index}`}
+            video={rejected.video}
+            note={describeRejection(rejected)}
+          />
+        ))}
+      </div>
+    </div>
+  );
+};
+
+export default RecommendationDebugPanel;
@@ -2,6 +2,8 @@ import { useState, useEffect } from 'react';
 import { Play, Sparkles } from 'lucide-react';
 import { useAudioPlayer, type Video } from '@/contexts/AudioPlayerContext';
 import { useApiKey } from '@/contexts/ApiKeyContext';
+import type { CandidateOrigin } from '@/lib/recommendation';
+import WhyThisSong from '@/components/WhyThisSong';
 
 const RecommendationsGrid = () => {
   const [recommendations, setRecommendations] = useState<Video[]>([]);
@@ -19,13 +21,16 @@ const RecommendationsGrid = () => {
       try {
         // Build recommendation query based on recently played
         let query = 'popular music 2024';
+        let because: string | undefined;
         if (recentlyPlayed.length > 0) {
           // Get unique artists/channels from recent plays
           const recentChannels = [...new Set(recentlyPlayed.slice(0, 5).map(v => v.channelTitle))];
           if (recentChannels.length > 0) {
             query = `${recentChannels[0]} similar artists music`;
+            because = recentChannels[0];
           }
         }
+        const origin: CandidateOrigin = { kind: 'search', query, because };
 
         const response = await fetch(
           `https://www.googleapis.com/youtube/v3/search?part=snippet&maxResults=8&q=${encodeURIComponent(query)}&type=video&videoCategoryId=10&key=${apiKey}`
@@ -40,6 +45,7 @@ const RecommendationsGrid = () => {
               title: item.snippet.title,
               thumbnail: item.snippet.thumbnails.high?.url || item.snippet.thumbnails.medium?.url,
               channelTitle: item.snippet.channelTitle,
+              recommendation: { origin },
             }));
           setRecommendations(videos);
         }
@@ -126,9 +132,12 @@ const RecommendationsGrid = () => {
                   </div>
                 )}
               </div>
-              <h3 className="mt-2 text-sm font-medium text-foreground line-clamp-2">
-                {video.title}
-              </h3>
+              <div className="mt-2 flex items-start gap-1">
+                <h3 className="flex-1 text-sm font-medium text-foreground line-clamp-2">
+                  {video.title}
+                </h3>
+                <WhyThisSong video={video} className="h-6 w-6 shrink-0 opacity-0 group-hover:opacity-100 transition-opacity" />
+              </div>
               <p className="text-xs text-muted-foreground line-clamp-1">
                 {video.channelTitle}
               </p>
@@ -1,5 +1,5 @@
 import { useState } from 'react';
-import { Key, Eye, EyeOff, Check, AlertCircle, Palette, User, LogOut } from 'lucide-react';
+import { Key, Eye, EyeOff, Check, AlertCircle, Palette, User, LogOut, SlidersHorizontal } from 'lucide-react';
 import { Input } from '@/components/ui/input';
 import { Button } from '@/components/ui/button';
 import { Label } from '@/components/ui/label';
@@ -10,6 +10,7 @@ import { useAppMode } from '@/contexts/AppModeContext';
 import { useToast } from '@/hooks/use-toast';
 import ThemeSwitcher from './ThemeSwitcher';
 import ModeSwitcher from './ModeSwitcher';
+import EqualizerPanel from './EqualizerPanel';
 import AuthModal from './AuthModal';
 import { Avatar, AvatarFallback, AvatarImage } from '@/components/ui/avatar';
 
@@ -123,6 +124,17 @@ const SettingsPanel = ({ onClose }: SettingsPanelProps) => {
 
       <Separator />
 
+      {/* Equalizer Section */}
+      <div className="space-y-4">
+        <div className="flex items-center gap-2 text-foreground">
+          <SlidersHorizontal className="w-5 h-5 text-primary" />
+          <h3 className="font-semibold">Equalizer</h3>
+        </div>
+        <EqualizerPanel />
+      </div>
+
+      <Separator />
+
       {/* API Key Section - Only show in API mode */}
       {mode === 'api' && (
         <>
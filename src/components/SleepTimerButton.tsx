@@ -0,0 +1,88 @@
+// Sleep timer menu with a countdown badge
+import { Moon, Timer, ListEnd, X } from 'lucide-react';
+import { useAudioPlayer } from '@/contexts/AudioPlayerContext';
+import {
+  SLEEP_TIMER_MINUTES,
+  SLEEP_TIMER_TRACKS,
+  describeSleepTimer,
+  getSleepTimerLabel,
+} from '@/lib/playback/sleepTimer';
+import { Button } from '@/components/ui/button';
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from '@/components/ui/dropdown-menu';
+import { cn } from '@/lib/utils';
+
+interface SleepTimerButtonProps {
+  className?: string;
+}
+
+const SleepTimerButton = ({ className }: SleepTimerButtonProps) => {
+  const { sleepTimer, sleepTimerRemaining, startSleepTimer, cancelSleepTimer } = useAudioPlayer();
+
+  const label = sleepTimer ? getSleepTimerLabel(sleepTimer, sleepTimerRemaining) : '';
+
+  return (
+    <DropdownMenu>
+      <DropdownMenuTrigger asChild>
+        <Button
+          variant="ghost"
+          size="icon"
+          className={cn('relative', sleepTimer && 'text-primary', className)}
+        >
+          <Moon className="w-5 h-5" />
+          {sleepTimer && label && (
+            <span className="absolute -top-1 left-1/2 -translate-x-1/2 px-1 bg-primary text-primary-foreground text-[10px] rounded-full font-medium tabular-nums whitespace-nowrap">
+              {label}
+            </span>
+          )}
+        </Button>
+      </DropdownMenuTrigger>
+      <DropdownMenuContent align="end" className="w-52">
+        <DropdownMenuLabel>
+          {sleepTimer ? describeSleepTimer(sleepTimer, sleepTimerRemaining) : 'Sleep Timer'}
+        </DropdownMenuLabel>
+        <DropdownMenuSeparator />
+        {SLEEP_TIMER_MINUTES.map(minutes => (
+          <DropdownMenuItem
+            key={minutes}
+            onClick={() => startSleepTimer({ mode: 'duration', minutes })}
+          >
+            <Timer className="w-4 h-4 mr-2" />
+            {minutes < 60 ? `${minutes} minutes` : `${minutes / 60} hour${minutes > 60 ? 's' : ''}`}
+          </DropdownMenuItem>
+        ))}
+        <DropdownMenuSeparator />
+        <DropdownMenuItem onClick={() => startSleepTimer({ mode: 'endOfTrack' })}>
+          <ListEnd className="w-4 h-4 mr-2" />
+          End of current track
+        </DropdownMenuItem>
+        {SLEEP_TIMER_TRACKS.map(tracks => (
+          <DropdownMenuItem
+            key={tracks}
+            onClick={() => startSleepTimer({ mode: 'tracks', tracks })}
+          >
+            <ListEnd className="w-4 h-4 mr-2" />
+            After {tracks} more tracks
+          </DropdownMenuItem>
+        ))}
+        {sleepTimer && (
+          <>
+            <DropdownMenuSeparator />
+            <DropdownMenuItem onClick={cancelSleepTimer} className="text-destructive">
+              <X className="w-4 h-4 mr-2" />
+              Turn off timer
+            </DropdownMenuItem>
+          </>
+        )}
+      </DropdownMenuContent>
+    </DropdownMenu>
+  );
+};
+
+export default SleepTimerButton;
@@ -11,7 +11,6 @@ import {
   DropdownMenuTrigger,
 } from '@/components/ui/dropdown-menu';
 import { useAudioPlayer, Video } from '@/contexts/AudioPlayerContext';
-import { useSmartAutoplay } from '@/hooks/useSmartAutoplay';
 import { useLibrarySync } from '@/hooks/useLibrarySync';
 import AddToPlaylistModal from './AddToPlaylistModal';
 import { toast } from 'sonner';
@@ -30,8 +29,7 @@ interface SongContextMenuProps {
 
 const SongContextMenu = ({ song, className }: SongContextMenuProps) => {
   const [showPlaylistModal, setShowPlaylistModal] = useState(false);
-  const { addToPlaylist, addNextInQueue } = useAudioPlayer();
-  const { buildQueue } = useSmartAutoplay();
+  const { addToPlaylist, addNextInQueue, buildAutoplayQueue } = useAudioPlayer();
   const { toggleLike, isLiked } = useLibrarySync();
 
   const songIsLiked = isLiked(song.id);
@@ -68,11 +66,7 @@ const SongContextMenu = ({ song, className }: SongContextMenuProps) => {
   const handleAddToAIQueue = async (e: React.MouseEvent) => {
     e.stopPropagation();
     toast.promise(
-      buildQueue({
-        videoId: song.id,
-        title: song.title,
-        artist: song.channelTitle || song.artist || 'Unknown Artist',
-      }),
+      buildAutoplayQueue(videoData),
       {
         loading: 'Building AI-powered queue...',
         success: (result) => `Added ${result.length} songs to AI queue`,
@@ -0,0 +1,52 @@
+// "More/less like this" for the current track while a radio station plays
+import { ThumbsUp, ThumbsDown } from 'lucide-react';
+import { useAudioPlayer } from '@/contexts/AudioPlayerContext';
+import { Button } from '@/components/ui/button';
+import { Tooltip, TooltipContent, TooltipProvider, TooltipTrigger } from '@/components/ui/tooltip';
+import { cn } from '@/lib/utils';
+
+interface StationFeedbackButtonsProps {
+  className?: string;
+}
+
+const StationFeedbackButtons = ({ className }: StationFeedbackButtonsProps) => {
+  const { currentVideo, currentStation, rateStation } = useAudioPlayer();
+
+  if (!currentVideo || !currentStation) return null;
+
+  const rating = currentStation.feedback.find(f => f.videoId === currentVideo.id)?.rating;
+
+  return (
+    <TooltipProvider>
+      <div className={cn('flex items-center', className)}>
+        <Tooltip>
+          <TooltipTrigger asChild>
+            <Button
+              variant="ghost"
+              size="icon"
+              className={cn(rating === 'more' && 'text-primary')}
+              onClick={() => rateStation(currentVideo, 'more')}
+            >
+              <ThumbsUp className="w-5 h-5" />
+            </Button>
+          </TooltipTrigger>
+          <TooltipContent>More like this on {currentStation.name}</TooltipContent>
+        </Tooltip>
+        <Tooltip>
+          <TooltipTrigger asChild>
+            <Button
+              variant="ghost"
+              size="icon"
+              onClick={() => rateStation(currentVideo, 'less')}
+            >
+              <ThumbsDown className="w-5 h-5" />
+            </Button>
+          </TooltipTrigger>
+          <TooltipContent>Less like this (skips the track)</TooltipContent>
+        </Tooltip>
+      </div>
+    </TooltipProvider>
+  );
+};
+
+export default StationFeedbackButtons;
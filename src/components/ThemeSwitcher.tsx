@@ -8,12 +8,14 @@ import {
   useTheme, ThemePreset, FontSize, SpacingMode, BorderRadiusSize,
   FontFamily, IconSize, LayoutDensity, ButtonStyle, CardStyle
 } from '@/contexts/ThemeContext';
+import { useAudioPlayer, MAX_CROSSFADE } from '@/contexts/AudioPlayerContext';
 import { AnimatedButton } from '@/components/ui/animated-button';
 import { Slider } from '@/components/ui/slider';
 import { Label } from '@/components/ui/label';
 import { Separator } from '@/components/ui/separator';
 import { Switch } from '@/components/ui/switch';
 import { cn } from '@/lib/utils';
+import { MIN_TARGET_LUFS, MAX_TARGET_LUFS } from '@/lib/playback/loudness';
 import {
   Collapsible,
   CollapsibleContent,
@@ -128,6 +130,18 @@ const ThemeSwitcher = () => {
     setBackgroundOpacity,
     resetToDefaults,
   } = useTheme();
+  const {
+    crossfadeDuration,
+    setCrossfadeDuration,
+    discovery,
+    setDiscovery,
+    isNormalizing,
+    normalizationTarget,
+    setNormalizing,
+    setNormalizationTarget,
+    isSessionRestore,
+    setSessionRestore,
+  } = useAudioPlayer();
 
   const [expandedSections, setExpandedSections] = useState<Record<string, boolean>>({
     themes: true,
@@ -593,6 +607,87 @@ const ThemeSwitcher = () => {
               onCheckedChange={setShowKeyboardShortcuts}
             />
           </div>
+
+          <div className="flex items-center justify-between">
+            <div className="space-y-0.5">
+              <Label className="text-sm">Resume Playback</Label>
+              <p className="text-xs text-muted-foreground">Restore the last track and queue on launch</p>
+            </div>
+            <Switch
+              checked={isSessionRestore}
+              onCheckedChange={setSessionRestore}
+            />
+          </div>
+
+          {/* Crossfade */}
+          <div className="space-y-2">
+            <div className="flex justify-between items-center">
+              <div className="space-y-0.5">
+                <Label className="text-sm">Crossfade</Label>
+                <p className="text-xs text-muted-foreground">Blend tracks into each other</p>
+              </div>
+              <span className="text-xs text-muted-foreground">
+                {crossfadeDuration > 0 ? `${crossfadeDuration}s` : 'Off'}
+              </span>
+            </div>
+            <Slider
+              value={[crossfadeDuration]}
+              onValueChange={([value]) => setCrossfadeDuration(value)}
+              min={0}
+              max={MAX_CROSSFADE}
+              step={1}
+              className="w-full"
+            />
+          </div>
+
+          {/* Autoplay discovery */}
+          <div className="space-y-2">
+            <div className="flex justify-between items-center">
+              <div className="space-y-0.5">
+                <Label className="text-sm">Autoplay Discovery</Label>
+                <p className="text-xs text-muted-foreground">Familiar favourites or new artists and deep cuts</p>
+              </div>
+              <span className="text-xs text-muted-foreground">
+                {discovery < 35 ? 'Familiar' : discovery > 65 ? 'Discover' : 'Balanced'}
+              </span>
+            </div>
+            <Slider
+              value={[discovery]}
+              onValueChange={([value]) => setDiscovery(value)}
+              min={0}
+              max={100}
+              step={5}
+              className="w-full"
+            />
+          </div>
+
+          {/* Loudness normalization */}
+          <div className="flex items-center justify-between">
+            <div className="space-y-0.5">
+              <Label className="text-sm">Normalize Volume</Label>
+              <p className="text-xs text-muted-foreground">Play every track at a similar loudness</p>
+            </div>
+            <Switch
+              checked={isNormalizing}
+              onCheckedChange={setNormalizing}
+            />
+          </div>
+
+          <div className="space-y-2">
+            <div className="flex justify-between items-center">
+              <Label className="text-xs text-muted-foreground">Target Loudness</Label>
+              <span className="text-xs text-muted-foreground">{normalizationTarget} LUFS</span>
+            </div>
+            <Slider
+              value={[normalizationTarget]}
+              onValueChange={([value]) => setNormalizationTarget(value)}
+              min={MIN_TARGET_LUFS}
+              max={MAX_TARGET_LUFS}
+              step={1}
+              disabled={!isNormalizing}
+              className="w-full"
+            />
+          </div>
         </CollapsibleContent>
       </Collapsible>
 
@@ -0,0 +1,51 @@
+// A-B loop region and bookmark ticks drawn over the progress slider
+import { useAudioPlayer } from '@/contexts/AudioPlayerContext';
+import { useBookmarks } from '@/contexts/BookmarksContext';
+import { cn } from '@/lib/utils';
+
+interface TrackMarkersProps {
+  className?: string;
+}
+
+const TrackMarkers = ({ className }: TrackMarkersProps) => {
+  const { currentVideo, duration, abLoop, seek } = useAudioPlayer();
+  const { getBookmarksFor } = useBookmarks();
+
+  if (!currentVideo || duration <= 0) return null;
+
+  const percent = (time: number) => `${Math.min(100, Math.max(0, (time / duration) * 100))}%`;
+  const bookmarks = getBookmarksFor(currentVideo.id);
+
+  return (
+    <div className={cn('absolute inset-0 pointer-events-none', className)}>
+      {/* Loop region, or a single marker while only one point is set */}
+      {abLoop.a !== null && abLoop.b !== null ? (
+        <div
+          className="absolute top-1/2 -translate-y-1/2 h-2 rounded-full bg-primary/30 border-x-2 border-primary"
+          style={{ left: percent(abLoop.a), width: `calc(${percent(abLoop.b)} - ${percent(abLoop.a)})` }}
+        />
+      ) : (
+        [abLoop.a, abLoop.b].map((point, i) => point !== null && (
+          <div
+            key={i}
+            className="absolute top-1/2 -translate-y-1/2 w-0.5 h-3 bg-primary"
+            style={{ left: percent(point) }}
+          />
+        ))
+      )}
+
+      {bookmarks.map(bookmark => (
+        <button
+          key={bookmark.id}
+          type="button"
+          title={bookmark.name}
+          onClick={() => seek(bookmark.position)}
+          className="absolute -top-1 -translate-x-1/2 w-2 h-2 rounded-full bg-amber-400 ring-2 ring-background pointer-events-auto hover:scale-150 transition-transform"
+          style={{ left: percent(bookmark.position) }}
+        />
+      ))}
+    </div>
+  );
+};
+
+export default TrackMarkers;
@@ -19,6 +19,7 @@ import { useAuth } from '@/contexts/AuthContext';
 import { cn } from '@/lib/utils';
 import { PLATFORM_INFO, type SortMode, type NormalizedTrack } from '@/types/playlist';
 import PlaylistTrackItem from './PlaylistTrackItem';
+import AlbumModal, { type AlbumRef } from './AlbumModal';
 import PlaylistFilters from './PlaylistFilters';
 
 interface UniversalPlaylistImportProps {
@@ -58,6 +59,7 @@ const UniversalPlaylistImport = ({ isOpen, onClose, onImportComplete }: Universa
   const [playlistName, setPlaylistName] = useState('');
   const [showFilters, setShowFilters] = useState(false);
   const [isSaving, setIsSaving] = useState(false);
+  const [selectedAlbum, setSelectedAlbum] = useState<AlbumRef | null>(null);
   const fileInputRef = useRef<HTMLInputElement>(null);
 
   const handleImportUrl = async () => {
@@ -100,6 +102,11 @@ const UniversalPlaylistImport = ({ isOpen, onClose, onImportComplete }: Universa
             artist: track.artist,
             thumbnail: track.thumb_url || '',
             duration: track.duration_ms ? Math.floor(track.duration_ms / 1000) : undefined,
+          }, {
+            genre: track.genre,
+            mood: track.mood,
+            bpm: track.bpm,
+            key: track.key,
           });
         }
         
@@ -117,6 +124,7 @@ const UniversalPlaylistImport = ({ isOpen, onClose, onImportComplete }: Universa
     setManualInput('');
     setPlaylistName('');
     setShowFilters(false);
+    setSelectedAlbum(null);
     setActiveTab('url');
     onClose();
   };
@@ -171,9 +179,12 @@ const UniversalPlaylistImport = ({ isOpen, onClose, onImportComplete }: Universa
             onBack={reset}
             isSaving={isSaving}
             user={user}
+            onAlbumClick={(track) => setSelectedAlbum({ title: track.album, artist: track.artist })}
           />
         )}
       </DialogContent>
+
+      <AlbumModal album={selectedAlbum} onClose={() => setSelectedAlbum(null)} />
     </Dialog>
   );
 };
@@ -361,6 +372,7 @@ interface TrackSelectionViewProps {
   onBack: () => void;
   isSaving: boolean;
   user: any;
+  onAlbumClick: (track: NormalizedTrack) => void;
 }
 
 const TrackSelectionView = ({
@@ -385,6 +397,7 @@ const TrackSelectionView = ({
   onBack,
   isSaving,
   user,
+  onAlbumClick,
 }: TrackSelectionViewProps) => {
   const selectedIds = new Set(selectedTracks.map(t => t.id));
 
@@ -484,6 +497,7 @@ const TrackSelectionView = ({
               index={index + 1}
               isSelected={selectedIds.has(track.id)}
               onToggle={() => toggleTrackSelection(track.id)}
+              onAlbumClick={onAlbumClick}
             />
           ))}
           
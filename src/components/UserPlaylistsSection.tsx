@@ -1,7 +1,7 @@
 import { useState, useEffect } from 'react';
 import { Play, Plus, Trash2, Music2, MoreVertical } from 'lucide-react';
-import { useUserPlaylists, type UserPlaylist, type PlaylistSong } from '@/hooks/useUserPlaylists';
-import { useAudioPlayer, type Video } from '@/contexts/AudioPlayerContext';
+import { useUserPlaylists, playlistSongToVideo, type UserPlaylist, type PlaylistSong } from '@/hooks/useUserPlaylists';
+import { useAudioPlayer } from '@/contexts/AudioPlayerContext';
 import { useAuth } from '@/contexts/AuthContext';
 import { Button } from '@/components/ui/button';
 import { Skeleton } from '@/components/ui/skeleton';
@@ -41,22 +41,10 @@ const UserPlaylistsSection = () => {
       return;
     }
 
-    // Convert playlist songs to Video format
-    const videos: Video[] = songs.map(song => ({
-      id: song.video_id,
-      title: song.title,
-      thumbnail: song.thumbnail || '',
-      channelTitle: song.channel_title || 'Unknown Artist',
-      duration: song.duration || undefined,
-      // For free music tracks, we need to get the stream URL
-      // The video_id starts with 'free_' for Jamendo tracks
-      streamUrl: song.video_id.startsWith('free_') 
-        ? `https://mp3d.jamendo.com/download/track/${song.video_id.replace('free_', '')}/mp32`
-        : undefined,
-    }));
+    const videos = songs.map(playlistSongToVideo);
 
     setPlayerPlaylist(videos);
-    play(videos[0]);
+    play(videos[0], { source: 'playlist' });
   };
 
   const handleDeleteConfirm = async () => {
@@ -0,0 +1,66 @@
+// "Why this song?": where a recommended track came from and how it scored
+import { Info, Shuffle } from 'lucide-react';
+import type { Video } from '@/contexts/AudioPlayerContext';
+import { Button } from '@/components/ui/button';
+import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover';
+import { describeOrigin, scoreParts } from '@/lib/recommendation';
+import { cn } from '@/lib/utils';
+
+interface WhyThisSongProps {
+  video: Video;
+  className?: string;
+}
+
+const formatPoints = (value: number) => (value > 0 ? `+${value}` : `${value}`);
+
+const WhyThisSong = ({ video, className }: WhyThisSongProps) => {
+  const recommendation = video.recommendation;
+  if (!recommendation?.origin && !recommendation?.score) return null;
+
+  const { origin, score, shuffled } = recommendation;
+
+  return (
+    <Popover>
+      <PopoverTrigger asChild>
+        <Button
+          variant="ghost"
+          size="icon"
+          className={cn('h-8 w-8', className)}
+          onClick={(e) => e.stopPropagation()}
+        >
+          <Info className="w-4 h-4" />
+        </Button>
+      </PopoverTrigger>
+      <PopoverContent align="end" className="w-64 space-y-3" onClick={(e) => e.stopPropagation()}>
+        <h4 className="text-sm font-medium">Why this song?</h4>
+        {origin && <p className="text-sm text-muted-foreground">{describeOrigin(origin)}</p>}
+
+        {score && (
+          <div className="space-y-1">
+            {scoreParts(score).map(part => (
+              <div key={part.label} className="flex justify-between text-xs">
+                <span className="text-muted-foreground">{part.label}</span>
+                <span className={cn(part.value < 0 ? 'text-destructive' : 'text-foreground')}>
+                  {formatPoints(part.value)}
+                </span>
+              </div>
+            ))}
+            <div className="flex justify-between text-xs font-medium pt-1 border-t border-border">
+              <span>Score</span>
+              <span>{Math.round(score.total)}</span>
+            </div>
+          </div>
+        )}
+
+        {shuffled && (
+          <p className="flex items-center gap-1.5 text-xs text-muted-foreground">
+            <Shuffle className="w-3 h-3" />
+            Queue order shuffled
+          </p>
+        )}
+      </PopoverContent>
+    </Popover>
+  );
+};
+
+export default WhyThisSong;
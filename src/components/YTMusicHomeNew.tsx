@@ -4,6 +4,8 @@ import { useYTMusicAPI, type YTSong, type HomeFeed } from '@/hooks/useYTMusicAPI
 import { useAudioPlayer } from '@/contexts/AudioPlayerContext';
 import { Skeleton } from '@/components/ui/skeleton';
 import UserPlaylistsSection from './UserPlaylistsSection';
+import MadeForYouSection from './MadeForYouSection';
+import RadioStationsSection from './RadioStationsSection';
 import ArtistProfileModal from './ArtistProfileModal';
 import SongContextMenu from './SongContextMenu';
 import { cn } from '@/lib/utils';
@@ -68,6 +70,12 @@ const YTMusicHomeNew = () => {
         {/* User Playlists */}
         <UserPlaylistsSection />
 
+        {/* Daily mixes and weekly discovery */}
+        <MadeForYouSection />
+
+        {/* Radio Stations */}
+        <RadioStationsSection />
+
         {/* Trending Skeleton */}
         <section>
           <div className="flex items-center gap-2 mb-4">
@@ -123,6 +131,12 @@ const YTMusicHomeNew = () => {
       {/* User's Playlists */}
       <UserPlaylistsSection />
 
+      {/* Daily mixes and weekly discovery */}
+      <MadeForYouSection />
+
+      {/* Radio Stations */}
+      <RadioStationsSection />
+
       {/* Trending Section */}
       <section>
         <h2 className="text-xl font-bold text-foreground mb-4 flex items-center gap-2">
@@ -34,7 +34,7 @@ const YTMusicSearch = ({ searchQuery }: YTMusicSearchProps) => {
   const handlePlay = (track: FreeTrack) => {
     const video = toVideoFormat(track);
     addToPlaylist(video);
-    play(video);
+    play(video, { source: 'search' });
   };
 
   if (!searchQuery) {
@@ -1,8 +1,9 @@
 import { useState, useEffect, useCallback, useRef } from 'react';
-import { Play, Loader2, Search, Music, CheckCircle, TrendingUp } from 'lucide-react';
-import { useYTMusicAPI, type YTSong } from '@/hooks/useYTMusicAPI';
+import { Play, Loader2, Search, Music, CheckCircle, TrendingUp, Disc3 } from 'lucide-react';
+import { useYTMusicAPI, type YTSong, type AlbumSummary } from '@/hooks/useYTMusicAPI';
 import { useAudioPlayer } from '@/contexts/AudioPlayerContext';
 import ArtistProfileModal from './ArtistProfileModal';
+import AlbumModal, { type AlbumRef } from './AlbumModal';
 import { cn } from '@/lib/utils';
 
 interface YTMusicSearchNewProps {
@@ -12,10 +13,12 @@ interface YTMusicSearchNewProps {
 
 const YTMusicSearchNew = ({ searchQuery, onSearchChange }: YTMusicSearchNewProps) => {
   const [results, setResults] = useState<YTSong[]>([]);
+  const [albums, setAlbums] = useState<AlbumSummary[]>([]);
   const [suggestions, setSuggestions] = useState<string[]>([]);
   const [liveSuggestions, setLiveSuggestions] = useState<string[]>([]);
   const [isSearching, setIsSearching] = useState(false);
   const [selectedArtist, setSelectedArtist] = useState<{ name: string; channelId?: string } | null>(null);
+  const [selectedAlbum, setSelectedAlbum] = useState<AlbumRef | null>(null);
   const { search, getSuggestions, toVideoFormat } = useYTMusicAPI();
   const { play, currentVideo, isPlaying, setPlaylist } = useAudioPlayer();
   const searchTimeoutRef = useRef<NodeJS.Timeout>();
@@ -48,15 +51,17 @@ const YTMusicSearchNew = ({ searchQuery, onSearchChange }: YTMusicSearchNewProps
   const performSearch = useCallback(async () => {
     if (!searchQuery.trim()) {
       setResults([]);
+      setAlbums([]);
       setSuggestions([]);
       return;
     }
 
     setIsSearching(true);
     setLiveSuggestions([]); // Clear live suggestions when searching
-    const data = await search(searchQuery, 25);
+    const data = await search(searchQuery, 25, true);
     if (data) {
       setResults(data.songs);
+      setAlbums(data.albums);
       setSuggestions(data.suggestions);
       
       // Set playlist for queue
@@ -84,7 +89,7 @@ const YTMusicSearchNew = ({ searchQuery, onSearchChange }: YTMusicSearchNewProps
     // Set remaining songs as queue
     const queue = results.slice(index).map(toVideoFormat);
     setPlaylist(queue);
-    play(video);
+    play(video, { source: 'search' });
   };
 
   const handleSuggestionClick = (suggestion: string) => {
@@ -116,7 +121,7 @@ const YTMusicSearchNew = ({ searchQuery, onSearchChange }: YTMusicSearchNewProps
     );
   }
 
-  if (results.length === 0 && searchQuery) {
+  if (results.length === 0 && albums.length === 0 && searchQuery) {
     return (
       <div className="flex flex-col items-center justify-center py-20 text-center">
         <div className="w-20 h-20 rounded-2xl bg-secondary flex items-center justify-center mb-6">
@@ -172,6 +177,39 @@ const YTMusicSearchNew = ({ searchQuery, onSearchChange }: YTMusicSearchNewProps
         </div>
       )}
 
+      {/* Albums */}
+      {albums.length > 0 && (
+        <div>
+          <h3 className="text-sm font-medium text-muted-foreground mb-3">Albums</h3>
+          <div className="flex gap-4 overflow-x-auto pb-2">
+            {albums.map(album => (
+              <button
+                key={album.playlistId}
+                className="group w-36 flex-shrink-0 text-left"
+                onClick={() => setSelectedAlbum(album)}
+              >
+                <div className="relative aspect-square rounded-lg overflow-hidden bg-muted mb-2">
+                  {album.thumbnail ? (
+                    <img src={album.thumbnail} alt={album.title} className="w-full h-full object-cover" loading="lazy" />
+                  ) : (
+                    <div className="w-full h-full flex items-center justify-center">
+                      <Disc3 className="w-10 h-10 text-muted-foreground" />
+                    </div>
+                  )}
+                  <div className="absolute inset-0 bg-black/40 opacity-0 group-hover:opacity-100 transition-opacity flex items-center justify-center">
+                    <Disc3 className="w-8 h-8 text-white" />
+                  </div>
+                </div>
+                <h4 className="text-sm font-medium text-foreground line-clamp-1">{album.title}</h4>
+                <p className="text-xs text-muted-foreground line-clamp-1">
+                  {[album.artist, album.year].filter(Boolean).join(' • ')}
+                </p>
+              </button>
+            ))}
+          </div>
+        </div>
+      )}
+
       {/* Results Grid */}
       <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 xl:grid-cols-4 gap-4">
         {results.map((song, index) => {
@@ -269,6 +307,9 @@ const YTMusicSearchNew = ({ searchQuery, onSearchChange }: YTMusicSearchNewProps
         isOpen={!!selectedArtist}
         onClose={() => setSelectedArtist(null)}
       />
+
+      {/* Album Modal */}
+      <AlbumModal album={selectedAlbum} onClose={() => setSelectedAlbum(null)} />
     </div>
   );
 };
@@ -1,9 +1,83 @@
 // Audio Player Context with intelligent Spotify-like autoplay system
 // Includes Media Session API for background playback on mobile
 // Supports both YouTube (via IFrame API) and direct audio streaming (for free music)
+// through pluggable playback engines (see src/lib/playback)
 // Enhanced with YouTube Music API + AI-powered suggestions
 import React, { createContext, useContext, useState, useRef, ReactNode, useEffect, useCallback } from 'react';
-import { supabase } from '@/integrations/supabase/client';
+import {
+  PlaybackEngine,
+  PlaybackEngineEvents,
+  createDirectAudioElement,
+  createGraphAudioElement,
+  createHtml5Engine,
+  createYouTubeEngine,
+  loadYouTubeIframeAPI,
+  setGraphTrackGain,
+  pickEngine,
+} from '@/lib/playback';
+import {
+  DEFAULT_TARGET_LUFS,
+  MIN_TARGET_LUFS,
+  MAX_TARGET_LUFS,
+  cacheLoudness,
+  dbToGain,
+  gainToDb,
+  getCachedLoudness,
+  getChannelOffset,
+  learnChannelOffset,
+  measureLoudness,
+  normalizationGain,
+} from '@/lib/playback/loudness';
+import { captureTrackFeatures, getCachedFeatures } from '@/lib/playback/features';
+import {
+  SLEEP_FADE_SECONDS,
+  SleepTimer,
+  SleepTimerOption,
+  createSleepTimer,
+  endsWithCurrentTrack,
+  getSleepRemaining,
+  describeSleepTimer,
+} from '@/lib/playback/sleepTimer';
+import { clampSpeed, getSavedSpeed, saveSpeed } from '@/lib/playback/speed';
+import { hasOfflineCopy, markOfflinePlayed, getOfflineUrl } from '@/lib/offlineCache';
+import { PlaySource, createPlayId, startPlayEventSync, trackPlayEvent } from '@/lib/playEvents';
+import {
+  ListenOutcome,
+  Recommendation,
+  RecommendationReport,
+  Station,
+  StationRating,
+  StationSeed,
+  analyzeVideo,
+  autoplaySourcesFor,
+  buildRecommendations,
+  clampDiscovery,
+  createStation,
+  dislikedIds,
+  findStation,
+  gatherStationTracks,
+  getAffinity,
+  loadDiscovery,
+  loadStations,
+  rankCandidates,
+  rateStationTrack,
+  recordListen,
+  recordSkip,
+  saveDiscovery,
+  saveStations,
+  stationCandidateSources,
+  youtubeMusicSources,
+  youtubeMusicStationSources,
+} from '@/lib/recommendation';
+import {
+  PlayerSessionState,
+  clearSession,
+  isSessionRestoreEnabled,
+  loadSession,
+  saveSession,
+  setSessionRestoreEnabled,
+} from '@/lib/playback/session';
+import { toast } from 'sonner';
 
 export interface Video {
   id: string;
@@ -16,18 +90,36 @@ export interface Video {
   genre?: string;
   mood?: string;
   tempo?: 'slow' | 'medium' | 'fast';
-  // Direct audio URL (for free music mode)
+  // Measured for direct audio, or carried over from an imported playlist
+  bpm?: number;
+  key?: string;
+  // View count where the source reports one
+  views?: number;
+  // Album it was played from
+  album?: string;
+  // Direct audio URL (for free music mode and local files)
   streamUrl?: string;
+  // Where the track comes from; unset means YouTube
+  source?: VideoSource;
+  // Catalog licence for direct streams; offline copies need downloadAllowed
+  downloadAllowed?: boolean;
+  license?: string;
+  // Why autoplay queued it: origin, score breakdown, shuffle
+  recommendation?: Recommendation;
 }
 
+export type VideoSource = 'youtube' | 'jamendo' | 'local';
+
 // Media Session API for lock screen controls and background playback
+const MEDIA_SESSION_ALBUM = 'XT Builds';
+
 const updateMediaSession = (video: Video | null, isPlaying: boolean) => {
   if (!('mediaSession' in navigator) || !video) return;
 
   navigator.mediaSession.metadata = new MediaMetadata({
     title: video.title,
     artist: video.channelTitle,
-    album: 'XT Builds',
+    album: video.album || MEDIA_SESSION_ALBUM,
     artwork: [
       { src: video.thumbnail, sizes: '96x96', type: 'image/jpeg' },
       { src: video.thumbnail, sizes: '128x128', type: 'image/jpeg' },
@@ -41,6 +133,19 @@ const updateMediaSession = (video: Video | null, isPlaying: boolean) => {
   navigator.mediaSession.playbackState = isPlaying ? 'playing' : 'paused';
 };
 
+// A-B loop points in seconds; the loop is active once both are set
+export interface ABLoop {
+  a: number | null;
+  b: number | null;
+}
+
+const NO_LOOP: ABLoop = { a: null, b: null };
+
+export interface PlayOptions {
+  startAt?: number; // seconds
+  source?: PlaySource;
+}
+
 export interface SavedPlaylist {
   id: string;
   name: string;
@@ -63,9 +168,26 @@ interface AudioPlayerContextType {
   recentlyPlayed: Video[];
   autoplayQueue: Video[];
   savedPlaylists: SavedPlaylist[];
+  savedStations: Station[];
+  // Radio station steering the autoplay queue, if one is playing
+  currentStation: Station | null;
   isQueueBuilding: boolean;
+  // Every candidate the last queue build considered, including the rejected ones
+  recommendationReport: RecommendationReport | null;
+  // 0 sticks to familiar artists and hits, 100 goes for new artists and deep cuts
+  discovery: number;
+  crossfadeDuration: number;
+  isNormalizing: boolean;
+  normalizationTarget: number;
+  sleepTimer: SleepTimer | null;
+  // Seconds until the sleep timer stops playback, null while more tracks are to come
+  sleepTimerRemaining: number | null;
+  isSessionRestore: boolean;
+  playbackRate: number;
+  preservePitch: boolean;
+  abLoop: ABLoop;
   audioElement: HTMLAudioElement | null;
-  play: (video: Video) => void;
+  play: (video: Video, options?: PlayOptions) => void;
   pause: () => void;
   resume: () => void;
   stop: () => void;
@@ -82,127 +204,70 @@ interface AudioPlayerContextType {
   addNextInQueue: (video: Video) => void;
   setPlaylist: (videos: Video[]) => void;
   skipCurrent: () => void;
+  buildAutoplayQueue: (seed: Video) => Promise<Video[]>;
   removeFromQueue: (videoId: string) => void;
   clearQueue: () => void;
   saveQueueAsPlaylist: (name: string) => void;
   deletePlaylist: (id: string) => void;
-  playPlaylist: (playlist: SavedPlaylist, shuffle?: boolean) => void;
-}
-
-// YouTube IFrame API types
-interface YTPlayer {
-  playVideo: () => void;
-  pauseVideo: () => void;
-  stopVideo: () => void;
-  seekTo: (seconds: number, allowSeekAhead: boolean) => void;
-  getCurrentTime: () => number;
-  getDuration: () => number;
-  destroy: () => void;
-  setVolume: (volume: number) => void;
-  getVolume: () => number;
-  isMuted: () => boolean;
-  mute: () => void;
-  unMute: () => void;
-}
-
-interface YTPlayerEvent {
-  data: number;
-}
-
-interface YTPlayerOptions {
-  height: string;
-  width: string;
-  videoId: string;
-  playerVars?: {
-    autoplay?: number;
-    controls?: number;
-    disablekb?: number;
-    fs?: number;
-    modestbranding?: number;
-  };
-  events?: {
-    onReady?: () => void;
-    onStateChange?: (event: YTPlayerEvent) => void;
-  };
-}
-
-interface YTPlayerState {
-  PLAYING: number;
-  PAUSED: number;
-  ENDED: number;
+  playPlaylist: (playlist: SavedPlaylist, shuffle?: boolean, source?: PlaySource) => void;
+  startStation: (seed: StationSeed, thumbnail?: string) => Promise<void>;
+  resumeStation: (stationId: string) => Promise<void>;
+  rateStation: (video: Video, rating: StationRating) => void;
+  stopStation: () => void;
+  deleteStation: (stationId: string) => void;
+  setCrossfadeDuration: (seconds: number) => void;
+  setDiscovery: (value: number) => void;
+  setNormalizing: (enabled: boolean) => void;
+  setNormalizationTarget: (lufs: number) => void;
+  startSleepTimer: (option: SleepTimerOption) => void;
+  cancelSleepTimer: () => void;
+  setSessionRestore: (enabled: boolean) => void;
+  setPlaybackRate: (rate: number) => void;
+  setPreservePitch: (enabled: boolean) => void;
+  setLoopPoint: (point: 'a' | 'b', time?: number) => void;
+  clearLoop: () => void;
 }
 
-interface YTNamespace {
-  Player: new (elementId: string, options: YTPlayerOptions) => YTPlayer;
-  PlayerState: YTPlayerState;
+// One play of a track, from load until it ends or something else loads
+interface ActivePlay {
+  id: string;
+  video: Video;
+  source: PlaySource;
+  listenedSeconds: number;
+  lastPosition: number;
+  closed: boolean;
 }
 
-declare global {
-  interface Window {
-    YT: YTNamespace;
-    onYouTubeIframeAPIReady: () => void;
-  }
+// What playNext will play and where it comes from
+interface NextTrack {
+  video: Video;
+  index: number;
+  source: 'repeat' | 'playlist' | 'queue';
 }
 
 const AudioPlayerContext = createContext<AudioPlayerContextType | undefined>(undefined);
 
 const RECENTLY_PLAYED_KEY = 'recentlyPlayed';
 const AUTOPLAY_QUEUE_KEY = 'autoplayQueue';
-const SKIP_DATA_KEY = 'autoplaySkipData';
 const SAVED_PLAYLISTS_KEY = 'savedPlaylists';
 const VOLUME_KEY = 'playerVolume';
+const CROSSFADE_KEY = 'playerCrossfade';
+const NORMALIZE_KEY = 'playerNormalize';
+const NORMALIZE_TARGET_KEY = 'playerNormalizeTarget';
+const PRESERVE_PITCH_KEY = 'playerPreservePitch';
 const MAX_RECENT = 50;
-const QUEUE_SIZE = 25;
 const PRELOAD_THRESHOLD = 3;
 const DEFAULT_VOLUME = 80;
-
-// Genre/mood detection
-const GENRE_KEYWORDS: Record<string, string[]> = {
-  pop: ['pop', 'hits', 'chart', 'top 40', 'mainstream'],
-  rock: ['rock', 'guitar', 'band', 'alternative', 'indie'],
-  hiphop: ['hip hop', 'rap', 'trap', 'beats', 'rapper'],
-  electronic: ['edm', 'electronic', 'house', 'techno', 'dubstep', 'dj'],
-  rnb: ['r&b', 'soul', 'rnb', 'rhythm'],
-  jazz: ['jazz', 'swing', 'blues', 'saxophone'],
-  classical: ['classical', 'orchestra', 'symphony', 'piano', 'violin'],
-  country: ['country', 'western', 'nashville', 'folk'],
-  latin: ['latin', 'reggaeton', 'salsa', 'bachata', 'spanish'],
-  kpop: ['k-pop', 'kpop', 'korean', 'bts', 'blackpink'],
-};
-
-const MOOD_KEYWORDS: Record<string, string[]> = {
-  energetic: ['energy', 'pump', 'workout', 'hype', 'party', 'dance'],
-  chill: ['chill', 'relax', 'calm', 'peaceful', 'ambient', 'lofi'],
-  sad: ['sad', 'heartbreak', 'melancholy', 'emotional'],
-  happy: ['happy', 'joy', 'upbeat', 'fun', 'cheerful'],
-  romantic: ['love', 'romantic', 'romance', 'heart', 'ballad'],
-};
-
-const analyzeVideo = (video: Video): Video => {
-  const text = `${video.title} ${video.channelTitle}`.toLowerCase();
-  
-  let genre = 'pop';
-  for (const [g, keywords] of Object.entries(GENRE_KEYWORDS)) {
-    if (keywords.some(kw => text.includes(kw))) {
-      genre = g;
-      break;
-    }
-  }
-  
-  let mood = 'neutral';
-  for (const [m, keywords] of Object.entries(MOOD_KEYWORDS)) {
-    if (keywords.some(kw => text.includes(kw))) {
-      mood = m;
-      break;
-    }
-  }
-  
-  let tempo: 'slow' | 'medium' | 'fast' = 'medium';
-  if (text.match(/slow|ballad|acoustic|piano|ambient|lofi/)) tempo = 'slow';
-  else if (text.match(/fast|party|dance|edm|hype|workout/)) tempo = 'fast';
-  
-  return { ...video, genre, mood, tempo };
-};
+export const MAX_CROSSFADE = 12; // seconds
+const PRELOAD_AHEAD = 15; // seconds before the crossfade point to buffer the next track
+const SESSION_SAVE_INTERVAL = 5000; // ms
+// Largest position advance per progress tick still counted as listening (seeks aren't)
+const MAX_LISTEN_TICK = 2; // seconds
+// A volume change on a YouTube track is taken as a loudness correction for its
+// channel only if it's undone this soon after the next track starts
+const CORRECTION_REVERT_WINDOW = 20000; // ms
+// How near the earlier volume counts as undoing the correction
+const CORRECTION_REVERT_TOLERANCE_DB = 1.5;
 
 // Fisher-Yates shuffle algorithm
 const shuffleArray = <T,>(array: T[]): T[] => {
@@ -214,6 +279,10 @@ const shuffleArray = <T,>(array: T[]): T[] => {
   return shuffled;
 };
 
+// Shuffled autoplay tracks say so in "Why this song?"
+const shuffleQueue = (queue: Video[]): Video[] =>
+  shuffleArray(queue).map(video => ({ ...video, recommendation: { ...video.recommendation, shuffled: true } }));
+
 export const AudioPlayerProvider = ({ children }: { children: ReactNode }) => {
   const [currentVideo, setCurrentVideo] = useState<Video | null>(null);
   const [isPlaying, setIsPlaying] = useState(false);
@@ -229,18 +298,54 @@ export const AudioPlayerProvider = ({ children }: { children: ReactNode }) => {
   const [recentlyPlayed, setRecentlyPlayed] = useState<Video[]>([]);
   const [autoplayQueue, setAutoplayQueue] = useState<Video[]>([]);
   const [savedPlaylists, setSavedPlaylists] = useState<SavedPlaylist[]>([]);
+  const [savedStations, setSavedStations] = useState<Station[]>(loadStations);
+  const [currentStation, setCurrentStation] = useState<Station | null>(null);
   const [isQueueBuilding, setIsQueueBuilding] = useState(false);
+  const [recommendationReport, setRecommendationReport] = useState<RecommendationReport | null>(null);
+  const [discovery, setDiscoveryState] = useState(loadDiscovery);
   const [currentIndex, setCurrentIndex] = useState(-1);
+  const [crossfadeDuration, setCrossfadeState] = useState(0);
+  const [isNormalizing, setNormalizingState] = useState(false);
+  const [normalizationTarget, setNormalizationTargetState] = useState(DEFAULT_TARGET_LUFS);
+  const [sleepTimer, setSleepTimer] = useState<SleepTimer | null>(null);
+  const [sleepTimerRemaining, setSleepTimerRemaining] = useState<number | null>(null);
+  const [isSessionRestore, setSessionRestoreState] = useState(true);
+  const [playbackRate, setPlaybackRateState] = useState(1);
+  const [preservePitch, setPreservePitchState] = useState(true);
+  const [abLoop, setAbLoop] = useState<ABLoop>(NO_LOOP);
   
-  const playerRef = useRef<YTPlayer | null>(null);
-  const audioRef = useRef<HTMLAudioElement | null>(null); // For direct audio streaming
+  const enginesRef = useRef<PlaybackEngine[]>([]);
+  const engineRef = useRef<PlaybackEngine | null>(null); // Engine playing the current video
+  const loadedVideoRef = useRef<Video | null>(null);
   const intervalRef = useRef<NodeJS.Timeout | null>(null);
   const playNextRef = useRef<() => void>(() => {});
-  const skipDataRef = useRef<Map<string, number>>(new Map());
-  const apiKeyRef = useRef<string>('');
+  const peekNextRef = useRef<() => Video | null>(() => null);
+  const crossfadeRef = useRef<number>(0);
+  const normalizationRef = useRef({ enabled: false, target: DEFAULT_TARGET_LUFS });
+  const preservePitchRef = useRef<boolean>(true);
+  const abLoopRef = useRef<ABLoop>(NO_LOOP);
+  const sleepTimerRef = useRef<SleepTimer | null>(null);
+  const finishSleepRef = useRef<() => void>(() => {});
+  // Latest session snapshot, written periodically and on unload
+  const sessionRef = useRef<PlayerSessionState | null>(null);
+  // Per-track transition progress, reset on every load
+  const transitionRef = useRef({ preloaded: false, started: false });
+  // Set when the track change was triggered by playback itself rather than the user
+  const autoTransitionRef = useRef<boolean>(false);
+  // The play being reported to play_events, and where new plays come from
+  const activePlayRef = useRef<ActivePlay | null>(null);
+  const playSourceRef = useRef<PlaySource>('browse');
+  // Read when the queue is built, which can be long after the station changed
+  const stationRef = useRef<Station | null>(null);
+  // Ends the audio-feature capture of the current direct-audio track
+  const stopFeatureCaptureRef = useRef<(() => void) | null>(null);
+  const shuffleNextIndexRef = useRef<number | null>(null);
   const preloadTimeoutRef = useRef<NodeJS.Timeout | null>(null);
   const previousVolumeRef = useRef<number>(DEFAULT_VOLUME);
-  const isDirectAudioRef = useRef<boolean>(false); // Track if using direct audio
+  // Volume change during the current YouTube track, and one from the previous
+  // track waiting to be undone (see setVolume)
+  const volumeCorrectionRef = useRef<{ channel: string; fromVolume: number; toVolume: number } | null>(null);
+  const pendingCorrectionRef = useRef<{ channel: string; correctionDb: number; fromVolume: number; expiresAt: number } | null>(null);
 
   // Load data from localStorage
   useEffect(() => {
@@ -262,15 +367,6 @@ export const AudioPlayerProvider = ({ children }: { children: ReactNode }) => {
       }
     }
     
-    const storedSkips = localStorage.getItem(SKIP_DATA_KEY);
-    if (storedSkips) {
-      try {
-        skipDataRef.current = new Map(Object.entries(JSON.parse(storedSkips)));
-      } catch (e) {
-        console.error('Failed to parse skip data:', e);
-      }
-    }
-
     const storedPlaylists = localStorage.getItem(SAVED_PLAYLISTS_KEY);
     if (storedPlaylists) {
       try {
@@ -286,11 +382,77 @@ export const AudioPlayerProvider = ({ children }: { children: ReactNode }) => {
       setVolumeState(vol);
       previousVolumeRef.current = vol;
     }
-    
-    const storedApiKey = localStorage.getItem('youtube_api_key');
-    if (storedApiKey) {
-      apiKeyRef.current = storedApiKey;
+
+    const storedCrossfade = localStorage.getItem(CROSSFADE_KEY);
+    if (storedCrossfade) {
+      const seconds = parseFloat(storedCrossfade);
+      if (!isNaN(seconds)) {
+        setCrossfadeState(seconds);
+        crossfadeRef.current = seconds;
+      }
     }
+
+    const storedNormalize = localStorage.getItem(NORMALIZE_KEY) === 'true';
+    const storedTarget = parseFloat(localStorage.getItem(NORMALIZE_TARGET_KEY) || '');
+    const target = isNaN(storedTarget) ? DEFAULT_TARGET_LUFS : storedTarget;
+    setNormalizingState(storedNormalize);
+    setNormalizationTargetState(target);
+    normalizationRef.current = { enabled: storedNormalize, target };
+
+    const storedPreservePitch = localStorage.getItem(PRESERVE_PITCH_KEY) !== 'false';
+    setPreservePitchState(storedPreservePitch);
+    preservePitchRef.current = storedPreservePitch;
+
+
+    // Restore the last session paused at its last position; resume() loads it
+    const restoreEnabled = isSessionRestoreEnabled();
+    setSessionRestoreState(restoreEnabled);
+    const session = restoreEnabled ? loadSession() : null;
+    if (session) {
+      setPlaylistState(session.playlist);
+      setCurrentIndex(session.currentIndex);
+      setIsShuffle(session.isShuffle);
+      setRepeatModeState(session.repeatMode);
+      setIsAutoplay(session.isAutoplay);
+      if (session.currentVideo) {
+        setCurrentVideo(session.currentVideo);
+        setProgress(session.progress);
+        setDuration(session.duration);
+        console.log(`[Session] Restored "${session.currentVideo.title}" at ${Math.floor(session.progress)}s`);
+      }
+    }
+  }, []);
+
+  // Keep the session snapshot current
+  useEffect(() => {
+    sessionRef.current = isSessionRestore
+      ? { currentVideo, progress, duration, playlist, currentIndex, isShuffle, repeatMode, isAutoplay }
+      : null;
+  }, [isSessionRestore, currentVideo, progress, duration, playlist, currentIndex, isShuffle, repeatMode, isAutoplay]);
+
+  // Persist it periodically and when the page (or Electron window) goes away
+  useEffect(() => {
+    const persist = () => {
+      if (sessionRef.current) saveSession(sessionRef.current);
+    };
+    // Listening stops with the page; the event is flushed on the next launch
+    const handleUnload = () => {
+      persist();
+      const activePlay = activePlayRef.current;
+      if (activePlay && !activePlay.closed) {
+        trackPlayEvent('pause', activePlay, engineRef.current?.getCurrentTime() ?? activePlay.lastPosition);
+        activePlay.closed = true;
+      }
+    };
+
+    const interval = setInterval(persist, SESSION_SAVE_INTERVAL);
+    const stopPlayEventSync = startPlayEventSync();
+    window.addEventListener('beforeunload', handleUnload);
+    return () => {
+      clearInterval(interval);
+      stopPlayEventSync();
+      window.removeEventListener('beforeunload', handleUnload);
+    };
   }, []);
 
   // Save autoplay queue
@@ -316,204 +478,108 @@ export const AudioPlayerProvider = ({ children }: { children: ReactNode }) => {
     });
   }, []);
 
-  // Record skip for learning
-  const recordSkip = useCallback((videoId: string) => {
-    const count = (skipDataRef.current.get(videoId) || 0) + 1;
-    skipDataRef.current.set(videoId, count);
-    localStorage.setItem(SKIP_DATA_KEY, JSON.stringify(Object.fromEntries(skipDataRef.current)));
-  }, []);
-
-  // Fetch related songs using YouTube Music edge function
-  const fetchRelatedFromYTMusic = useCallback(async (videoId: string): Promise<Video[]> => {
-    try {
-      console.log(`[Autoplay] Fetching related songs for: ${videoId}`);
-      const { data, error } = await supabase.functions.invoke('youtube-music', {
-        body: { action: 'related', videoId, limit: 25 }
-      });
-
-      if (error) throw error;
-      
-      const songs = data?.data || [];
-      return songs.map((song: any) => ({
-        id: song.videoId,
-        title: song.title,
-        thumbnail: song.thumbnail,
-        channelTitle: song.artist,
-        duration: song.duration,
-      }));
-    } catch (err) {
-      console.error('[Autoplay] Error fetching related:', err);
-      return [];
-    }
-  }, []);
-
-  // Get AI-enhanced suggestions for variety
-  const getAISuggestions = useCallback(async (seed: Video): Promise<string[]> => {
-    try {
-      const { data, error } = await supabase.functions.invoke('smart-suggestions', {
-        body: {
-          currentSong: { title: seed.title, artist: seed.channelTitle },
-          recentHistory: recentlyPlayed.slice(0, 10).map(v => v.channelTitle),
-        }
-      });
-
-      if (error) throw error;
-      return data?.suggestions || [];
-    } catch (err) {
-      console.error('[Autoplay] AI suggestions error:', err);
+  // Build autoplay queue from the seed (see src/lib/recommendation)
+  const buildAutoplayQueue = useCallback(async (seed: Video): Promise<Video[]> => {
+    const station = stationRef.current;
+    const sources = station
+      ? stationCandidateSources(station, youtubeMusicSources, youtubeMusicStationSources)
+      : autoplaySourcesFor(seed);
+    if (!sources) {
+      console.log(`[Autoplay] No autoplay source for "${seed.title}"`);
       return [];
     }
-  }, [recentlyPlayed]);
-
-  // Search songs from suggestions
-  const searchFromSuggestion = useCallback(async (query: string): Promise<Video[]> => {
-    try {
-      const { data, error } = await supabase.functions.invoke('youtube-music', {
-        body: { action: 'search', query, limit: 6 }
-      });
 
-      if (error) throw error;
-      const songs = data?.data?.songs || [];
-      return songs.map((song: any) => ({
-        id: song.videoId,
-        title: song.title,
-        thumbnail: song.thumbnail,
-        channelTitle: song.artist,
-        duration: song.duration,
-      }));
-    } catch (err) {
-      console.error('[Autoplay] Search error:', err);
-      return [];
-    }
-  }, []);
-
-  // Build autoplay queue using YouTube Music API + AI
-  const buildAutoplayQueue = useCallback(async (seed: Video) => {
     setIsQueueBuilding(true);
     console.log(`[Autoplay] Building smart queue from: "${seed.title}"`);
-    
-    const excludeIds = new Set([
-      seed.id,
-      ...recentlyPlayed.slice(0, 20).map(v => v.id),
-      ...autoplayQueue.map(v => v.id),
-    ]);
-    
-    let allVideos: Video[] = [];
-
-    try {
-      // Step 1: Get related songs from YouTube Music (primary source)
-      const relatedVideos = await fetchRelatedFromYTMusic(seed.id);
-      const filteredRelated = relatedVideos.filter(v => !excludeIds.has(v.id));
-      allVideos.push(...filteredRelated);
-      filteredRelated.forEach(v => excludeIds.add(v.id));
-      
-      console.log(`[Autoplay] Got ${filteredRelated.length} related songs`);
 
-      // Step 2: Get AI suggestions for variety (runs in parallel)
-      const aiSuggestions = await getAISuggestions(seed);
-      
-      // Step 3: Search for AI suggestions (limited to 2 for performance)
-      if (aiSuggestions.length > 0) {
-        const searchPromises = aiSuggestions.slice(0, 2).map(query => searchFromSuggestion(query));
-        const searchResults = await Promise.all(searchPromises);
-        
-        for (const songs of searchResults) {
-          const filtered = songs.filter(v => !excludeIds.has(v.id));
-          allVideos.push(...filtered);
-          filtered.forEach(v => excludeIds.add(v.id));
-        }
-        
-        console.log(`[Autoplay] Added songs from ${aiSuggestions.length} AI suggestions`);
-      }
-    } catch (error) {
-      console.error('[Autoplay] Error building queue:', error);
-    }
+    const { queue, report } = await buildRecommendations(seed, {
+      sources,
+      recent: recentlyPlayed,
+      affinity: await getAffinity(),
+      station,
+      discovery,
+      exclude: [
+        ...recentlyPlayed.slice(0, 20).map(v => v.id),
+        ...autoplayQueue.map(v => v.id),
+        ...(station ? dislikedIds(station) : []),
+      ],
+    });
 
-    // If we got no results from edge function, try legacy API method
-    if (allVideos.length === 0) {
-      const apiKey = apiKeyRef.current || localStorage.getItem('youtube_api_key');
-      if (apiKey) {
-        console.log('[Autoplay] Falling back to direct API');
-        try {
-          const response = await fetch(
-            `https://www.googleapis.com/youtube/v3/search?part=snippet&maxResults=20&q=${encodeURIComponent(seed.channelTitle + ' songs')}&type=video&videoCategoryId=10&key=${apiKey}`
-          );
-          
-          if (response.ok) {
-            const data = await response.json();
-            allVideos = (data.items || [])
-              .filter((item: any) => !excludeIds.has(item.id.videoId))
-              .map((item: any) => analyzeVideo({
-                id: item.id.videoId,
-                title: item.snippet.title,
-                thumbnail: item.snippet.thumbnails.medium?.url || item.snippet.thumbnails.default?.url,
-                channelTitle: item.snippet.channelTitle,
-                channelId: item.snippet.channelId,
-              }));
-          }
-        } catch (e) {
-          console.error('[Autoplay] Fallback API error:', e);
-        }
-      }
-    }
-    
-    // Rank videos
-    const seedAnalyzed = analyzeVideo(seed);
-    const recentChannels = new Set(recentlyPlayed.slice(0, 5).map(v => v.channelId));
-    
-    let ranked = allVideos
-      .map(video => {
-        const analyzed = analyzeVideo(video);
-        let score = 50;
-        
-        // Same artist bonus
-        if (video.channelTitle?.toLowerCase() === seed.channelTitle?.toLowerCase()) {
-          score += 35;
-        }
-        
-        // Same genre
-        if (analyzed.genre === seedAnalyzed.genre) score += 15;
-        
-        // Same mood
-        if (analyzed.mood === seedAnalyzed.mood) score += 10;
-        
-        // Same tempo
-        if (analyzed.tempo === seedAnalyzed.tempo) score += 5;
-        
-        // Variety penalty
-        if (recentChannels.has(video.channelId)) score -= 15;
-        
-        // Skip penalty
-        const skips = skipDataRef.current.get(video.id) || 0;
-        if (skips >= 3) score -= 25;
-        
-        // Discovery bonus (10% chance of variety)
-        score += Math.random() * 12;
-        
-        return { video: analyzed, score };
-      })
-      .sort((a, b) => b.score - a.score)
-      .map(s => s.video)
-      .slice(0, QUEUE_SIZE);
-    
     // Apply shuffle if enabled
-    if (isShuffle) {
-      ranked = shuffleArray(ranked);
-    }
-    
+    const ranked = isShuffle ? shuffleQueue(queue) : queue;
+
     setAutoplayQueue(ranked);
+    setRecommendationReport(report);
     setIsQueueBuilding(false);
     console.log(`[Autoplay] Smart queue built with ${ranked.length} songs${isShuffle ? ' (shuffled)' : ''}`);
-  }, [recentlyPlayed, autoplayQueue, fetchRelatedFromYTMusic, getAISuggestions, searchFromSuggestion, isShuffle]);
+    return ranked;
+  }, [recentlyPlayed, autoplayQueue, isShuffle, discovery]);
+
+  // Tell the listening history how much of the loaded track was heard
+  const reportListen = useCallback((outcome: ListenOutcome) => {
+    const video = loadedVideoRef.current;
+    const engine = engineRef.current;
+    if (!video || !engine) return;
+
+    const trackDuration = engine.getDuration();
+    const percent = outcome === 'complete' ? 100
+      : trackDuration > 0 ? (engine.getCurrentTime() / trackDuration) * 100 : 0;
+    recordListen(video, percent, outcome).catch(e => console.error('[Autoplay] Failed to record listen:', e));
+  }, []);
+
+  // Record a play event for the active play; 'skip' and 'end' close it
+  const logPlayEvent = useCallback((type: 'pause' | 'resume' | 'seek' | 'skip' | 'end', position?: number, fromPosition?: number) => {
+    const activePlay = activePlayRef.current;
+    const engine = engineRef.current;
+    if (!activePlay || activePlay.closed) return;
 
-  // Load YouTube API and ensure background playback
+    const at = position ?? engine?.getCurrentTime() ?? activePlay.lastPosition;
+    trackPlayEvent(type, activePlay, at, { fromPosition, duration: engine?.getDuration() });
+    if (type === 'skip' || type === 'end') activePlay.closed = true;
+  }, []);
+
+  // Create playback engines, load YouTube API and ensure background playback
   useEffect(() => {
-    if (!window.YT) {
-      const tag = document.createElement('script');
-      tag.src = 'https://www.youtube.com/iframe_api';
-      const firstScriptTag = document.getElementsByTagName('script')[0];
-      firstScriptTag.parentNode?.insertBefore(tag, firstScriptTag);
-    }
+    const engineEvents: PlaybackEngineEvents = {
+      onReady: (dur) => {
+        setDuration(dur);
+      },
+      onPlay: () => {
+        setIsPlaying(true);
+        // Update media session for lock screen
+        updateMediaSession(loadedVideoRef.current, true);
+      },
+      onPause: () => {
+        setIsPlaying(false);
+        updateMediaSession(loadedVideoRef.current, false);
+      },
+      onEnded: () => {
+        reportListen('complete');
+        logPlayEvent('end');
+        setIsPlaying(false);
+        setProgress(0);
+        if (endsWithCurrentTrack(sleepTimerRef.current)) {
+          finishSleepRef.current();
+          return;
+        }
+        autoTransitionRef.current = true;
+        playNextRef.current();
+      },
+      onError: () => {
+        // Try next song on error
+        playNextRef.current();
+      },
+    };
+
+    // Order matters: the first engine that can play a video wins
+    enginesRef.current = [
+      // Direct audio goes through the shared Web Audio graph (EQ, limiter, visualizer)
+      // unless its host doesn't allow CORS
+      createHtml5Engine(engineEvents, createGraphAudioElement, createDirectAudioElement, setGraphTrackGain),
+      createYouTubeEngine(engineEvents),
+    ];
+
+    loadYouTubeIframeAPI();
 
     // Prevent playback interruption when switching tabs
     // Some browsers may pause media when tab loses focus
@@ -535,212 +601,251 @@ export const AudioPlayerProvider = ({ children }: { children: ReactNode }) => {
       if (intervalRef.current) clearInterval(intervalRef.current);
       if (preloadTimeoutRef.current) clearTimeout(preloadTimeoutRef.current);
       document.removeEventListener('visibilitychange', handleVisibilityChange);
+      enginesRef.current.forEach(engine => engine.unload());
+      enginesRef.current = [];
     };
-  }, []);
+  }, [reportListen, logPlayEvent]);
 
-  // Apply volume to player (both YT and direct audio)
+  // Apply volume to every engine so the next one loaded starts at the same level
   const applyVolume = useCallback((vol: number) => {
-    if (playerRef.current) {
-      playerRef.current.setVolume(vol);
-    }
-    if (audioRef.current) {
-      audioRef.current.volume = vol / 100;
+    enginesRef.current.forEach(engine => engine.setVolume(vol));
+  }, []);
+
+  // Normalization gain for a video, if it's known up front.
+  // Direct audio uses the measured loudness, YouTube the learned channel offset.
+  const getTrackGain = useCallback((video: Video) => {
+    const { enabled, target } = normalizationRef.current;
+    if (!enabled) return 1;
+    if (video.streamUrl) {
+      const lufs = getCachedLoudness(video.id);
+      return lufs === null ? 1 : normalizationGain(lufs, target);
     }
+    return dbToGain(getChannelOffset(video.channelTitle));
   }, []);
 
-  // Initialize direct audio player (for free music)
-  const initDirectAudio = useCallback((streamUrl: string, video: Video) => {
-    // Clean up YouTube player if exists
-    if (playerRef.current) {
-      playerRef.current.destroy();
-      playerRef.current = null;
+  // Measure an uncached direct-audio track in the background and apply
+  // the gain if it's still playing once the result is in
+  const measureTrackLoudness = useCallback(async (video: Video) => {
+    if (!video.streamUrl || getCachedLoudness(video.id) !== null) return;
+
+    const lufs = await measureLoudness(video.streamUrl);
+    if (lufs === null) return;
+    cacheLoudness(video.id, lufs);
+    console.log(`[Loudness] "${video.title}": ${lufs.toFixed(1)} LUFS`);
+
+    if (loadedVideoRef.current?.id === video.id) {
+      engineRef.current?.setTrackGain(getTrackGain(video));
     }
-    
-    isDirectAudioRef.current = true;
-    
-    // Create or reuse audio element
-    if (!audioRef.current) {
-      audioRef.current = new Audio();
+  }, [getTrackGain]);
+
+  // Load a video into whichever engine can play it and start playback
+  const loadVideo = useCallback((video: Video, fadeIn = 0, startAt = 0, source: PlaySource = playSourceRef.current) => {
+    const engine = pickEngine(enginesRef.current, video);
+    if (engineRef.current && engineRef.current !== engine) {
+      engineRef.current.unload();
     }
-    
-    const audio = audioRef.current;
-    audio.src = streamUrl;
-    audio.volume = isMuted ? 0 : volume / 100;
-    
-    // Set up event handlers
-    audio.onloadedmetadata = () => {
-      setDuration(audio.duration);
-    };
-    
-    audio.onplay = () => {
-      setIsPlaying(true);
-      updateMediaSession(video, true);
-    };
-    
-    audio.onpause = () => {
-      setIsPlaying(false);
-      updateMediaSession(video, false);
-    };
-    
-    audio.onended = () => {
-      setIsPlaying(false);
-      setProgress(0);
-      playNextRef.current();
-    };
-    
-    audio.onerror = (e) => {
-      console.error('[DirectAudio] Playback error:', e);
-      // Try next song on error
-      playNextRef.current();
+    engineRef.current = engine;
+    // Loop points belong to a single video
+    if (loadedVideoRef.current?.id !== video.id) {
+      setAbLoop(NO_LOOP);
+      abLoopRef.current = NO_LOOP;
+      const correction = volumeCorrectionRef.current;
+      volumeCorrectionRef.current = null;
+      pendingCorrectionRef.current = correction && correction.toVolume !== correction.fromVolume
+        ? {
+            channel: correction.channel,
+            correctionDb: gainToDb(correction.toVolume / correction.fromVolume),
+            fromVolume: correction.fromVolume,
+            expiresAt: Date.now() + CORRECTION_REVERT_WINDOW,
+          }
+        : null;
+    }
+    loadedVideoRef.current = video;
+    transitionRef.current = { preloaded: false, started: false };
+    // Whatever was playing and didn't finish was skipped
+    logPlayEvent('skip');
+    activePlayRef.current = {
+      id: createPlayId(),
+      video,
+      source,
+      listenedSeconds: 0,
+      lastPosition: startAt,
+      closed: false,
     };
-    
-    // Start playback
-    audio.play().catch(e => {
-      console.error('[DirectAudio] Failed to start:', e);
-    });
-    
-    // Progress tracking
-    if (intervalRef.current) clearInterval(intervalRef.current);
-    intervalRef.current = setInterval(() => {
-      if (audioRef.current) {
-        setProgress(audioRef.current.currentTime);
-      }
-    }, 500);
-  }, [volume, isMuted]);
-
-  // Initialize YouTube player
-  const initPlayer = useCallback((videoId: string) => {
-    // Clean up direct audio if exists
-    if (audioRef.current) {
-      audioRef.current.pause();
-      audioRef.current.src = '';
+    trackPlayEvent('start', activePlayRef.current, startAt);
+    // Every track that starts counts towards an "after N tracks" sleep timer
+    setSleepTimer(prev => (
+      prev?.mode === 'tracks' ? { ...prev, tracksLeft: prev.tracksLeft - 1 } : prev
+    ));
+
+    engine.setVolume(isMuted ? 0 : volume);
+    // Each video plays at the speed it was last played at
+    const rate = getSavedSpeed(video.id);
+    setPlaybackRateState(rate);
+    engine.setPlaybackRate(rate, preservePitchRef.current);
+    const loadOptions = { fadeIn, startAt, gain: getTrackGain(video) };
+    if (hasOfflineCopy(video.id)) {
+      markOfflinePlayed(video.id).catch(e => console.error('[Offline] Failed to update last played:', e));
     }
-    isDirectAudioRef.current = false;
-    
-    if (playerRef.current) {
-      playerRef.current.destroy();
+    if (!navigator.onLine && hasOfflineCopy(video.id)) {
+      // Play the downloaded copy; the stream URL can't be reached offline
+      getOfflineUrl(video.id)
+        .catch(e => {
+          console.error('[Offline] Failed to read download:', e);
+          return null;
+        })
+        .then(url => {
+          if (loadedVideoRef.current !== video) return;
+          console.log(`[Offline] Playing downloaded copy of "${video.title}"`);
+          engine.load(url ? { ...video, streamUrl: url } : video, loadOptions);
+        });
+    } else {
+      engine.load(video, loadOptions);
+    }
+    if (normalizationRef.current.enabled) {
+      measureTrackLoudness(video);
+    }
+    // Measure BPM, brightness and energy the first time a direct-audio track plays
+    stopFeatureCaptureRef.current?.();
+    stopFeatureCaptureRef.current = null;
+    if (engine.kind === 'html5' && !getCachedFeatures(video.id)) {
+      stopFeatureCaptureRef.current = captureTrackFeatures(
+        video.id,
+        () => (loadedVideoRef.current === video ? engine.getCurrentTime() : 0)
+      );
     }
 
-    const onReady = () => {
-      playerRef.current?.playVideo();
-      // Apply saved volume
-      playerRef.current?.setVolume(isMuted ? 0 : volume);
-      const dur = playerRef.current?.getDuration() || 0;
-      setDuration(dur);
-      
-      if (intervalRef.current) clearInterval(intervalRef.current);
-      intervalRef.current = setInterval(() => {
-        const currentTime = playerRef.current?.getCurrentTime() || 0;
-        setProgress(currentTime);
-        
-        // Preload next song when near end (5 seconds before)
-        const remaining = dur - currentTime;
-        if (remaining <= 5 && remaining > 4 && autoplayQueue.length > 0) {
-          const next = autoplayQueue[0];
-          console.log(`[Autoplay] Preloading: "${next.title}"`);
-        }
-      }, 500);
-    };
+    // Progress tracking, plus gapless preload and crossfade near the end
+    if (intervalRef.current) clearInterval(intervalRef.current);
+    intervalRef.current = setInterval(() => {
+      const active = engineRef.current;
+      if (!active) return;
+
+      const currentTime = active.getCurrentTime();
+      setProgress(currentTime);
+
+      // Count normal playback only - not seeks or loop jumps
+      const activePlay = activePlayRef.current;
+      if (activePlay && !activePlay.closed) {
+        const advance = currentTime - activePlay.lastPosition;
+        if (advance > 0 && advance <= MAX_LISTEN_TICK) activePlay.listenedSeconds += advance;
+        activePlay.lastPosition = currentTime;
+      }
 
-    const onStateChange = (event: YTPlayerEvent) => {
-      if (event.data === 1) {
-        setIsPlaying(true);
-        // Update media session for lock screen
-        if (currentVideo) {
-          updateMediaSession(currentVideo, true);
-        }
-      } else if (event.data === 2) {
-        setIsPlaying(false);
-        if (currentVideo) {
-          updateMediaSession(currentVideo, false);
+      // A-B loop: jump back to A once B is reached
+      const loop = abLoopRef.current;
+      if (loop.a !== null && loop.b !== null) {
+        if (currentTime >= loop.b) {
+          active.seek(loop.a);
+          setProgress(loop.a);
         }
-      } else if (event.data === 0) {
-        setIsPlaying(false);
-        setProgress(0);
-        playNextRef.current();
+        // Never preload or crossfade out of a loop
+        return;
       }
-    };
 
-    let playerDiv = document.getElementById('youtube-player');
-    if (!playerDiv) {
-      const div = document.createElement('div');
-      div.id = 'youtube-player';
-      div.style.position = 'absolute';
-      div.style.left = '-9999px';
-      document.body.appendChild(div);
-    }
+      const remaining = active.getDuration() - currentTime;
+      if (!active.getDuration() || !isFinite(remaining)) return;
+      // Playback stops after this track - nothing to preload or crossfade into
+      if (endsWithCurrentTrack(sleepTimerRef.current)) return;
 
-    const checkYT = () => {
-      if (window.YT && window.YT.Player) {
-        playerRef.current = new window.YT.Player('youtube-player', {
-          height: '1',
-          width: '1',
-          videoId: videoId,
-          playerVars: {
-            autoplay: 1,
-            controls: 0,
-            disablekb: 1,
-            fs: 0,
-            modestbranding: 1,
-          },
-          events: {
-            onReady,
-            onStateChange,
-          },
-        });
-      } else {
-        setTimeout(checkYT, 100);
+      const crossfade = crossfadeRef.current;
+      const transition = transitionRef.current;
+
+      // Offline copies load asynchronously, so there is nothing to preload
+      if (!transition.preloaded && navigator.onLine && remaining <= crossfade + PRELOAD_AHEAD) {
+        transition.preloaded = true;
+        const next = peekNextRef.current();
+        if (next && pickEngine(enginesRef.current, next) === active) {
+          console.log(`[Autoplay] Preloading: "${next.title}"`);
+          active.preload(next);
+        }
       }
-    };
 
-    checkYT();
-  }, [autoplayQueue, volume, isMuted, currentVideo]);
+      if (crossfade > 0 && !transition.started && remaining <= crossfade) {
+        transition.started = true;
+        const next = peekNextRef.current();
+        if (next && active.isPreloaded(next)) {
+          // Overlap both tracks
+          reportListen('complete');
+          logPlayEvent('end');
+          autoTransitionRef.current = true;
+          playNextRef.current();
+        } else {
+          // Can't overlap (YouTube, or switching engines) - fade out, fade the next one in on end
+          active.fadeOut(remaining);
+        }
+      }
+    }, 500);
+  }, [volume, isMuted, getTrackGain, measureTrackLoudness, reportListen, logPlayEvent]);
 
-  // Play next logic
-  const playNext = useCallback(() => {
+  // Work out what playNext will play without touching playback.
+  // Shuffle picks are remembered so a preloaded track is the one that plays.
+  const resolveNext = useCallback((): NextTrack | null => {
     // Repeat one
     if (repeatMode === 'one' && currentVideo) {
-      initPlayer(currentVideo.id);
-      return;
+      return { video: currentVideo, index: currentIndex, source: 'repeat' };
     }
 
     // Check playlist first
     let nextIndex: number;
     if (isShuffle && playlist.length > 1) {
-      // Pick random index different from current
-      do {
-        nextIndex = Math.floor(Math.random() * playlist.length);
-      } while (nextIndex === currentIndex && playlist.length > 1);
+      nextIndex = shuffleNextIndexRef.current ?? -1;
+      if (nextIndex < 0 || nextIndex >= playlist.length || nextIndex === currentIndex) {
+        // Pick random index different from current
+        do {
+          nextIndex = Math.floor(Math.random() * playlist.length);
+        } while (nextIndex === currentIndex && playlist.length > 1);
+        shuffleNextIndexRef.current = nextIndex;
+      }
     } else {
       nextIndex = currentIndex + 1;
     }
 
     if (nextIndex < playlist.length) {
-      const nextVideo = playlist[nextIndex];
-      setCurrentIndex(nextIndex);
-      setCurrentVideo(nextVideo);
-      addToRecentlyPlayed(nextVideo);
-      initPlayer(nextVideo.id);
-      return;
+      return { video: playlist[nextIndex], index: nextIndex, source: 'playlist' };
     }
-    
+
     // Repeat all playlist
     if (repeatMode === 'all' && playlist.length > 0) {
       const startIndex = isShuffle ? Math.floor(Math.random() * playlist.length) : 0;
-      setCurrentIndex(startIndex);
-      setCurrentVideo(playlist[startIndex]);
-      addToRecentlyPlayed(playlist[startIndex]);
-      initPlayer(playlist[startIndex].id);
-      return;
+      return { video: playlist[startIndex], index: startIndex, source: 'playlist' };
     }
 
     // Autoplay from queue
     if (isAutoplay && autoplayQueue.length > 0) {
-      const nextVideo = autoplayQueue[0];
+      return { video: autoplayQueue[0], index: -1, source: 'queue' };
+    }
+
+    return null;
+  }, [repeatMode, currentVideo, currentIndex, playlist, isShuffle, isAutoplay, autoplayQueue]);
+
+  // Play next logic
+  const playNext = useCallback(() => {
+    // Automatic transitions fade the next track in
+    const fadeIn = autoTransitionRef.current ? crossfadeRef.current : 0;
+    autoTransitionRef.current = false;
+
+    const next = resolveNext();
+    shuffleNextIndexRef.current = null;
+
+    if (next?.source === 'repeat') {
+      loadVideo(next.video, fadeIn);
+      return;
+    }
+
+    if (next?.source === 'playlist') {
+      setCurrentIndex(next.index);
+      setCurrentVideo(next.video);
+      addToRecentlyPlayed(next.video);
+      loadVideo(next.video, fadeIn);
+      return;
+    }
+
+    if (next?.source === 'queue') {
       setAutoplayQueue(prev => prev.slice(1));
-      setCurrentVideo(nextVideo);
-      addToRecentlyPlayed(nextVideo);
-      initPlayer(nextVideo.id);
+      setCurrentVideo(next.video);
+      addToRecentlyPlayed(next.video);
+      loadVideo(next.video, fadeIn, 0, 'autoplay');
       
       // Rebuild queue if running low
       if (autoplayQueue.length <= PRELOAD_THRESHOLD && currentVideo) {
@@ -754,8 +859,8 @@ export const AudioPlayerProvider = ({ children }: { children: ReactNode }) => {
       buildAutoplayQueue(currentVideo);
     }
   }, [
-    repeatMode, currentVideo, currentIndex, playlist, isShuffle,
-    isAutoplay, autoplayQueue, initPlayer, addToRecentlyPlayed, buildAutoplayQueue
+    resolveNext, currentVideo, isAutoplay, autoplayQueue,
+    loadVideo, addToRecentlyPlayed, buildAutoplayQueue
   ]);
 
   // Keep ref updated
@@ -763,32 +868,29 @@ export const AudioPlayerProvider = ({ children }: { children: ReactNode }) => {
     playNextRef.current = playNext;
   }, [playNext]);
 
+  useEffect(() => {
+    peekNextRef.current = () => resolveNext()?.video ?? null;
+  }, [resolveNext]);
+
   // Play previous
   const playPrevious = useCallback(() => {
     if (progress > 3) {
-      if (isDirectAudioRef.current && audioRef.current) {
-        audioRef.current.currentTime = 0;
-      } else {
-        playerRef.current?.seekTo(0, true);
-      }
+      logPlayEvent('seek', 0);
+      if (activePlayRef.current) activePlayRef.current.lastPosition = 0;
+      engineRef.current?.seek(0);
       setProgress(0);
     } else if (currentIndex > 0) {
       const prevVideo = playlist[currentIndex - 1];
       setCurrentIndex(prev => prev - 1);
       setCurrentVideo(prevVideo);
       addToRecentlyPlayed(prevVideo);
-      
-      // Check if direct audio or YouTube
-      if (prevVideo.streamUrl) {
-        initDirectAudio(prevVideo.streamUrl, prevVideo);
-      } else {
-        initPlayer(prevVideo.id);
-      }
+      loadVideo(prevVideo);
     }
-  }, [currentIndex, playlist, progress, initPlayer, initDirectAudio, addToRecentlyPlayed]);
+  }, [currentIndex, playlist, progress, loadVideo, addToRecentlyPlayed, logPlayEvent]);
 
   // Main play function - supports both YouTube and direct audio
-  const play = useCallback((video: Video) => {
+  const play = useCallback((video: Video, options: PlayOptions = {}) => {
+    const { startAt = 0, source = 'browse' } = options;
     const analyzed = analyzeVideo(video);
     // Preserve streamUrl if present
     if (video.streamUrl) {
@@ -805,41 +907,48 @@ export const AudioPlayerProvider = ({ children }: { children: ReactNode }) => {
     // Reset queue for new context
     setAutoplayQueue([]);
     
-    const index = playlist.findIndex(v => v.id === video.id);
-    if (index >= 0) {
-      setCurrentIndex(index);
+    if (source === 'radio') {
+      // A station replaces the playlist; everything after this comes from its queue
+      setPlaylistState([analyzed]);
+      setCurrentIndex(0);
     } else {
-      setPlaylistState(prev => [...prev, analyzed]);
-      setCurrentIndex(playlist.length);
+      // Picking something outside the station's queue ends the station
+      if (source !== 'autoplay') {
+        stationRef.current = null;
+        setCurrentStation(null);
+      }
+
+      const index = playlist.findIndex(v => v.id === video.id);
+      if (index >= 0) {
+        setCurrentIndex(index);
+      } else {
+        setPlaylistState(prev => [...prev, analyzed]);
+        setCurrentIndex(playlist.length);
+      }
     }
     
-    // Use direct audio for free music, YouTube for API mode
-    if (video.streamUrl) {
-      initDirectAudio(video.streamUrl, analyzed);
-    } else {
-      initPlayer(video.id);
-    }
+    // Engine is picked per video: direct audio for free music, YouTube for API mode
+    playSourceRef.current = source;
+    loadVideo(analyzed, 0, startAt);
     
-    // Build autoplay queue in background (only for YouTube mode)
-    if (isAutoplay && !video.streamUrl) {
+    // Build autoplay queue in background, from the seed's own catalog
+    if (isAutoplay || source === 'radio') {
       setTimeout(() => buildAutoplayQueue(analyzed), 1000);
     }
-  }, [initPlayer, initDirectAudio, addToRecentlyPlayed, playlist, isAutoplay, buildAutoplayQueue]);
+  }, [loadVideo, addToRecentlyPlayed, playlist, isAutoplay, buildAutoplayQueue]);
 
   // Skip current (with learning)
   const skipCurrent = useCallback(() => {
     if (currentVideo) {
       recordSkip(currentVideo.id);
+      reportListen('skip');
     }
     playNext();
-  }, [currentVideo, recordSkip, playNext]);
+  }, [currentVideo, playNext, reportListen]);
 
   const pause = () => {
-    if (isDirectAudioRef.current && audioRef.current) {
-      audioRef.current.pause();
-    } else {
-      playerRef.current?.pauseVideo();
-    }
+    logPlayEvent('pause');
+    engineRef.current?.pause();
     setIsPlaying(false);
     if (currentVideo) {
       updateMediaSession(currentVideo, false);
@@ -847,11 +956,15 @@ export const AudioPlayerProvider = ({ children }: { children: ReactNode }) => {
   };
 
   const resume = () => {
-    if (isDirectAudioRef.current && audioRef.current) {
-      audioRef.current.play();
-    } else {
-      playerRef.current?.playVideo();
+    // A restored session has nothing loaded yet - start it where it left off
+    if (!loadedVideoRef.current && currentVideo) {
+      loadVideo(currentVideo, 0, progress);
+      setIsPlaying(true);
+      updateMediaSession(currentVideo, true);
+      return;
     }
+    engineRef.current?.play();
+    logPlayEvent('resume');
     setIsPlaying(true);
     if (currentVideo) {
       updateMediaSession(currentVideo, true);
@@ -860,19 +973,20 @@ export const AudioPlayerProvider = ({ children }: { children: ReactNode }) => {
 
   const stop = () => {
     if (intervalRef.current) clearInterval(intervalRef.current);
+    stopFeatureCaptureRef.current?.();
+    stopFeatureCaptureRef.current = null;
+    logPlayEvent('skip');
     
-    if (isDirectAudioRef.current && audioRef.current) {
-      audioRef.current.pause();
-      audioRef.current.src = '';
-    } else {
-      playerRef.current?.stopVideo();
-    }
+    engineRef.current?.stop();
+    engineRef.current = null;
+    loadedVideoRef.current = null;
     
     setCurrentVideo(null);
     setIsPlaying(false);
     setProgress(0);
     setAutoplayQueue([]);
-    isDirectAudioRef.current = false;
+    stationRef.current = null;
+    setCurrentStation(null);
     
     // Clear media session
     if ('mediaSession' in navigator) {
@@ -926,17 +1040,55 @@ export const AudioPlayerProvider = ({ children }: { children: ReactNode }) => {
   const toggleMinimize = () => setIsMinimized(!isMinimized);
 
   const seek = (time: number) => {
-    if (isDirectAudioRef.current && audioRef.current) {
-      audioRef.current.currentTime = time;
-    } else {
-      playerRef.current?.seekTo(time, true);
-    }
+    // Seeking back out of the crossfade window cancels the pending transition
+    transitionRef.current.started = false;
+    logPlayEvent('seek', time, engineRef.current?.getCurrentTime());
+    if (activePlayRef.current) activePlayRef.current.lastPosition = time;
+    engineRef.current?.seek(time);
     setProgress(time);
   };
 
+  // A-B loop, defaulting to the current position
+  const setLoopPoint = useCallback((point: 'a' | 'b', time: number = progress) => {
+    setAbLoop(prev => {
+      const next = { ...prev, [point]: time };
+      // Keep A before B whichever order they were set in
+      if (next.a !== null && next.b !== null && next.a > next.b) {
+        return { a: next.b, b: next.a };
+      }
+      return next;
+    });
+  }, [progress]);
+
+  const clearLoop = useCallback(() => {
+    setAbLoop(NO_LOOP);
+  }, []);
+
+  useEffect(() => {
+    abLoopRef.current = abLoop;
+  }, [abLoop]);
+
   // Volume control
   const setVolume = useCallback((vol: number) => {
     const clampedVol = Math.max(0, Math.min(100, vol));
+    // YouTube loudness can't be measured, so learn from the user's corrections.
+    // Only a change undone once the track is over says the channel was too
+    // loud or quiet; one that's kept (a noisy room) is just the new volume.
+    const video = loadedVideoRef.current;
+    const pending = pendingCorrectionRef.current;
+    if (pending && Date.now() > pending.expiresAt) {
+      pendingCorrectionRef.current = null;
+    } else if (pending && clampedVol > 0 && Math.abs(gainToDb(clampedVol / pending.fromVolume)) <= CORRECTION_REVERT_TOLERANCE_DB) {
+      learnChannelOffset(pending.channel, pending.correctionDb);
+      pendingCorrectionRef.current = null;
+      volumeCorrectionRef.current = null;
+    } else if (normalizationRef.current.enabled && video && engineRef.current?.kind === 'youtube' && volume > 0 && clampedVol > 0) {
+      volumeCorrectionRef.current = {
+        channel: video.channelTitle,
+        fromVolume: volumeCorrectionRef.current?.fromVolume ?? volume,
+        toVolume: clampedVol,
+      };
+    }
     setVolumeState(clampedVol);
     setIsMuted(clampedVol === 0);
     applyVolume(clampedVol);
@@ -944,7 +1096,7 @@ export const AudioPlayerProvider = ({ children }: { children: ReactNode }) => {
     if (clampedVol > 0) {
       previousVolumeRef.current = clampedVol;
     }
-  }, [applyVolume]);
+  }, [volume, applyVolume]);
 
   const toggleMute = useCallback(() => {
     if (isMuted) {
@@ -975,7 +1127,7 @@ export const AudioPlayerProvider = ({ children }: { children: ReactNode }) => {
       const newValue = !prev;
       // Reshuffle queue if enabling shuffle
       if (newValue && autoplayQueue.length > 0) {
-        setAutoplayQueue(shuffleArray(autoplayQueue));
+        setAutoplayQueue(shuffleQueue(autoplayQueue));
       }
       console.log(`[Shuffle] ${newValue ? 'Enabled' : 'Disabled'}`);
       return newValue;
@@ -986,6 +1138,135 @@ export const AudioPlayerProvider = ({ children }: { children: ReactNode }) => {
     setRepeatModeState(mode);
   }, []);
 
+  const setCrossfadeDuration = useCallback((seconds: number) => {
+    const clamped = Math.max(0, Math.min(MAX_CROSSFADE, seconds));
+    setCrossfadeState(clamped);
+    crossfadeRef.current = clamped;
+    localStorage.setItem(CROSSFADE_KEY, clamped.toString());
+  }, []);
+
+  // Applies from the next queue build
+  const setDiscovery = useCallback((value: number) => {
+    const clamped = clampDiscovery(value);
+    setDiscoveryState(clamped);
+    saveDiscovery(clamped);
+  }, []);
+
+  const setPlaybackRate = useCallback((rate: number) => {
+    const clamped = clampSpeed(rate);
+    setPlaybackRateState(clamped);
+    engineRef.current?.setPlaybackRate(clamped, preservePitchRef.current);
+    if (loadedVideoRef.current) {
+      saveSpeed(loadedVideoRef.current.id, clamped);
+    }
+  }, []);
+
+  const setPreservePitch = useCallback((enabled: boolean) => {
+    setPreservePitchState(enabled);
+    preservePitchRef.current = enabled;
+    localStorage.setItem(PRESERVE_PITCH_KEY, enabled.toString());
+    engineRef.current?.setPlaybackRate(playbackRate, enabled);
+  }, [playbackRate]);
+
+  const setSessionRestore = useCallback((enabled: boolean) => {
+    setSessionRestoreState(enabled);
+    setSessionRestoreEnabled(enabled);
+    if (!enabled) {
+      sessionRef.current = null;
+      clearSession();
+    }
+  }, []);
+
+  // Sleep timer
+  const startSleepTimer = useCallback((option: SleepTimerOption) => {
+    // "After N tracks" means N more after the one already playing
+    const timer = option.mode === 'tracks'
+      ? createSleepTimer({ ...option, tracks: option.tracks + 1 })
+      : createSleepTimer(option);
+    setSleepTimer(timer);
+    console.log('[SleepTimer] Started:', timer);
+  }, []);
+
+  const cancelSleepTimer = useCallback(() => {
+    setSleepTimer(null);
+    setSleepTimerRemaining(null);
+    // Undo any fade in progress
+    applyVolume(isMuted ? 0 : volume);
+    console.log('[SleepTimer] Cancelled');
+  }, [applyVolume, isMuted, volume]);
+
+  useEffect(() => {
+    sleepTimerRef.current = sleepTimer;
+  }, [sleepTimer]);
+
+  useEffect(() => {
+    finishSleepRef.current = () => {
+      console.log('[SleepTimer] Time is up - pausing');
+      pause();
+      setSleepTimer(null);
+      setSleepTimerRemaining(null);
+      // Restore the volume that was faded out so the next play starts normally
+      applyVolume(isMuted ? 0 : volume);
+    };
+  });
+
+  // Count down, fading the volume out over the last stretch
+  useEffect(() => {
+    if (!sleepTimer) return;
+
+    const tick = () => {
+      const engine = engineRef.current;
+      // Track-bound timers wait until the track's duration is known
+      if (sleepTimer.mode !== 'duration' && !engine?.getDuration()) return;
+      const trackRemaining = engine ? engine.getDuration() - engine.getCurrentTime() : 0;
+      const remaining = getSleepRemaining(sleepTimer, trackRemaining);
+      setSleepTimerRemaining(remaining);
+      if (remaining === null) return;
+
+      if (remaining <= 0) {
+        finishSleepRef.current();
+      } else if (remaining <= SLEEP_FADE_SECONDS) {
+        applyVolume((isMuted ? 0 : volume) * (remaining / SLEEP_FADE_SECONDS));
+      }
+    };
+
+    tick();
+    const interval = setInterval(tick, 1000);
+    return () => clearInterval(interval);
+  }, [sleepTimer, volume, isMuted, applyVolume]);
+
+  // Lock screens have no sleep timer control, so show it in the album line.
+  // Minute precision keeps the metadata from being rewritten every second.
+  const sleepDescription = sleepTimer ? describeSleepTimer(sleepTimer, sleepTimerRemaining) : null;
+  useEffect(() => {
+    if (!('mediaSession' in navigator) || !navigator.mediaSession.metadata) return;
+    const album = currentVideo?.album || MEDIA_SESSION_ALBUM;
+    navigator.mediaSession.metadata.album = sleepDescription ? `${album} · ${sleepDescription}` : album;
+  }, [sleepDescription, currentVideo, isPlaying]);
+
+  // Re-apply the current track's gain whenever the normalization settings change
+  const updateNormalization = useCallback((enabled: boolean, target: number) => {
+    normalizationRef.current = { enabled, target };
+    const video = loadedVideoRef.current;
+    if (video) {
+      engineRef.current?.setTrackGain(getTrackGain(video));
+      if (enabled) measureTrackLoudness(video);
+    }
+  }, [getTrackGain, measureTrackLoudness]);
+
+  const setNormalizing = useCallback((enabled: boolean) => {
+    setNormalizingState(enabled);
+    localStorage.setItem(NORMALIZE_KEY, enabled.toString());
+    updateNormalization(enabled, normalizationRef.current.target);
+  }, [updateNormalization]);
+
+  const setNormalizationTarget = useCallback((lufs: number) => {
+    const clamped = Math.max(MIN_TARGET_LUFS, Math.min(MAX_TARGET_LUFS, lufs));
+    setNormalizationTargetState(clamped);
+    localStorage.setItem(NORMALIZE_TARGET_KEY, clamped.toString());
+    updateNormalization(normalizationRef.current.enabled, clamped);
+  }, [updateNormalization]);
+
   const addToPlaylist = useCallback((video: Video) => {
     setPlaylistState(prev => {
       if (prev.find(v => v.id === video.id)) return prev;
@@ -1044,16 +1325,87 @@ export const AudioPlayerProvider = ({ children }: { children: ReactNode }) => {
     setSavedPlaylists(prev => prev.filter(p => p.id !== id));
   }, []);
 
-  const playPlaylist = useCallback((savedPlaylist: SavedPlaylist, shuffle = false) => {
+  const playPlaylist = useCallback((savedPlaylist: SavedPlaylist, shuffle = false, source: PlaySource = 'playlist') => {
     if (savedPlaylist.videos.length === 0) return;
+    playSourceRef.current = source;
+    stationRef.current = null;
+    setCurrentStation(null);
     
     const videos = shuffle ? shuffleArray(savedPlaylist.videos) : savedPlaylist.videos;
     setPlaylistState(videos);
     setCurrentIndex(0);
     setCurrentVideo(videos[0]);
     addToRecentlyPlayed(videos[0]);
-    initPlayer(videos[0].id);
-  }, [initPlayer, addToRecentlyPlayed]);
+    loadVideo(videos[0]);
+  }, [loadVideo, addToRecentlyPlayed]);
+
+  // Radio stations (see src/lib/recommendation/stations)
+  const storeStation = useCallback((station: Station) => {
+    if (stationRef.current?.id === station.id) {
+      stationRef.current = station;
+      setCurrentStation(station);
+    }
+    setSavedStations(prev => saveStations([station, ...prev.filter(s => s.id !== station.id)]));
+  }, []);
+
+  const playStation = useCallback(async (station: Station) => {
+    const started = { ...station, lastPlayedAt: Date.now() };
+    stationRef.current = started;
+    setCurrentStation(started);
+    storeStation(started);
+    setIsAutoplay(true);
+    setIsQueueBuilding(true);
+    console.log(`[Radio] Starting "${started.name}"`);
+
+    const tracks = await gatherStationTracks(started, youtubeMusicStationSources);
+    setIsQueueBuilding(false);
+    // Something else was played while the seed tracks loaded
+    if (stationRef.current !== started) return;
+
+    if (tracks.length === 0) {
+      stationRef.current = null;
+      setCurrentStation(null);
+      toast.error(`Couldn't start ${started.name}`);
+      return;
+    }
+
+    const [first] = rankCandidates(tracks, { seed: tracks[0], recent: recentlyPlayed, station: started, discovery });
+    play(first, { source: 'radio' });
+  }, [play, recentlyPlayed, storeStation, discovery]);
+
+  // Starting a station that was played before resumes it with its feedback
+  const startStation = useCallback(async (seed: StationSeed, thumbnail?: string) => {
+    const fresh = createStation(seed, thumbnail);
+    const existing = findStation(savedStations, seed);
+    await playStation(existing ? { ...existing, seeds: fresh.seeds } : fresh);
+  }, [savedStations, playStation]);
+
+  const resumeStation = useCallback(async (stationId: string) => {
+    const station = savedStations.find(s => s.id === stationId);
+    if (station) await playStation(station);
+  }, [savedStations, playStation]);
+
+  // Feedback reweights the station's next batch; a disliked track is dropped right away
+  const rateStation = useCallback((video: Video, rating: StationRating) => {
+    const station = stationRef.current;
+    if (!station) return;
+    storeStation(rateStationTrack(station, video, rating));
+
+    if (rating === 'less') {
+      setAutoplayQueue(prev => prev.filter(v => v.id !== video.id));
+      if (currentVideo?.id === video.id) skipCurrent();
+    }
+  }, [currentVideo, skipCurrent, storeStation]);
+
+  const stopStation = useCallback(() => {
+    stationRef.current = null;
+    setCurrentStation(null);
+  }, []);
+
+  const deleteStation = useCallback((stationId: string) => {
+    if (stationRef.current?.id === stationId) stopStation();
+    setSavedStations(prev => saveStations(prev.filter(s => s.id !== stationId)));
+  }, [stopStation]);
 
   return (
     <AudioPlayerContext.Provider
@@ -1072,8 +1424,21 @@ export const AudioPlayerProvider = ({ children }: { children: ReactNode }) => {
         recentlyPlayed,
         autoplayQueue,
         savedPlaylists,
+        savedStations,
+        currentStation,
         isQueueBuilding,
-        audioElement: audioRef.current,
+        recommendationReport,
+        discovery,
+        crossfadeDuration,
+        isNormalizing,
+        normalizationTarget,
+        sleepTimer,
+        sleepTimerRemaining,
+        isSessionRestore,
+        playbackRate,
+        preservePitch,
+        abLoop,
+        audioElement: engineRef.current?.getMediaElement() ?? null,
         play,
         pause,
         resume,
@@ -1091,11 +1456,28 @@ export const AudioPlayerProvider = ({ children }: { children: ReactNode }) => {
         addNextInQueue,
         setPlaylist,
         skipCurrent,
+        buildAutoplayQueue,
         removeFromQueue,
         clearQueue,
         saveQueueAsPlaylist,
         deletePlaylist,
         playPlaylist,
+        startStation,
+        resumeStation,
+        rateStation,
+        stopStation,
+        deleteStation,
+        setCrossfadeDuration,
+        setDiscovery,
+        setNormalizing,
+        setNormalizationTarget,
+        startSleepTimer,
+        cancelSleepTimer,
+        setSessionRestore,
+        setPlaybackRate,
+        setPreservePitch,
+        setLoopPoint,
+        clearLoop,
       }}
     >
       {children}
@@ -0,0 +1,275 @@
+// Bookmarks context - named positions within tracks (stored per account when
+// signed in) and deep links that open a track at a given position
+import { createContext, useContext, useState, useEffect, useCallback, useRef, ReactNode } from 'react';
+import { useSearchParams } from 'react-router-dom';
+import { supabase } from '@/integrations/supabase/client';
+import type { Json } from '@/integrations/supabase/types';
+import { useAuth } from './AuthContext';
+import { useAudioPlayer, Video } from './AudioPlayerContext';
+import { toast } from 'sonner';
+
+export interface TrackBookmark {
+  id: string;
+  videoId: string;
+  name: string;
+  position: number; // seconds
+  video: Video;
+  createdAt: string;
+}
+
+interface BookmarksContextType {
+  bookmarks: TrackBookmark[];
+  getBookmarksFor: (videoId: string) => TrackBookmark[];
+  addBookmark: (video: Video, position: number, name?: string) => Promise<boolean>;
+  deleteBookmark: (bookmarkId: string) => Promise<void>;
+  playBookmark: (bookmark: TrackBookmark) => void;
+  copyBookmarkLink: (bookmark: TrackBookmark) => Promise<void>;
+}
+
+const BookmarksContext = createContext<BookmarksContextType | undefined>(undefined);
+
+const BOOKMARKS_KEY = 'trackBookmarks';
+
+const formatPosition = (seconds: number) => {
+  const mins = Math.floor(seconds / 60);
+  const secs = Math.floor(seconds % 60);
+  return `${mins}:${secs.toString().padStart(2, '0')}`;
+};
+
+const loadLocalBookmarks = (): TrackBookmark[] => {
+  const stored = localStorage.getItem(BOOKMARKS_KEY);
+  if (!stored) return [];
+  try {
+    return JSON.parse(stored);
+  } catch (e) {
+    console.error('Failed to parse bookmarks:', e);
+    return [];
+  }
+};
+
+// Bookmarks saved while signed out move to the account on sign-in; they stay
+// local if the copy fails, to be tried again next time
+const migrateLocalBookmarks = async (userId: string) => {
+  const local = loadLocalBookmarks();
+  if (local.length === 0) return;
+
+  const { error } = await supabase
+    .from('track_bookmarks')
+    .insert(local.map(bookmark => ({
+      user_id: userId,
+      video_id: bookmark.videoId,
+      name: bookmark.name,
+      position: bookmark.position,
+      video: bookmark.video as unknown as Json,
+      created_at: bookmark.createdAt,
+    })));
+
+  if (error) {
+    console.error('Error moving bookmarks to the account:', error);
+    return;
+  }
+  localStorage.removeItem(BOOKMARKS_KEY);
+  toast.success(`Moved ${local.length} bookmark${local.length === 1 ? '' : 's'} to your account`);
+};
+
+// Links use the hash route so they work in the web build and in Electron
+const buildBookmarkLink = (bookmark: TrackBookmark) => {
+  const params = new URLSearchParams({ v: bookmark.videoId, t: Math.floor(bookmark.position).toString() });
+  return `${window.location.origin}${window.location.pathname}#/?${params.toString()}`;
+};
+
+export const BookmarksProvider = ({ children }: { children: ReactNode }) => {
+  const { user } = useAuth();
+  const { play, seek, currentVideo, recentlyPlayed, playlist } = useAudioPlayer();
+  const [bookmarks, setBookmarks] = useState<TrackBookmark[]>([]);
+  const [isLoaded, setIsLoaded] = useState(false);
+  const [searchParams, setSearchParams] = useSearchParams();
+  const deepLinkHandledRef = useRef(false);
+
+  // Bookmarks live in the account when signed in, in localStorage otherwise
+  useEffect(() => {
+    setIsLoaded(false);
+    if (!user) {
+      setBookmarks(loadLocalBookmarks());
+      setIsLoaded(true);
+      return;
+    }
+
+    const fetchBookmarks = async () => {
+      await migrateLocalBookmarks(user.id);
+
+      const { data, error } = await supabase
+        .from('track_bookmarks')
+        .select('*')
+        .eq('user_id', user.id)
+        .order('position', { ascending: true });
+
+      if (error) {
+        console.error('Error fetching bookmarks:', error);
+      } else {
+        setBookmarks((data || []).map(row => ({
+          id: row.id,
+          videoId: row.video_id,
+          name: row.name,
+          position: row.position,
+          video: row.video as unknown as Video,
+          createdAt: row.created_at,
+        })));
+      }
+      setIsLoaded(true);
+    };
+
+    fetchBookmarks();
+  }, [user]);
+
+  const getBookmarksFor = useCallback((videoId: string) => {
+    return bookmarks
+      .filter(b => b.videoId === videoId)
+      .sort((a, b) => a.position - b.position);
+  }, [bookmarks]);
+
+  const addBookmark = useCallback(async (video: Video, position: number, name?: string): Promise<boolean> => {
+    const label = name?.trim() || `Bookmark at ${formatPosition(position)}`;
+
+    if (user) {
+      const { data, error } = await supabase
+        .from('track_bookmarks')
+        .insert({
+          user_id: user.id,
+          video_id: video.id,
+          name: label,
+          position,
+          video: video as unknown as Json,
+        })
+        .select()
+        .single();
+
+      if (error) {
+        toast.error('Failed to save bookmark');
+        return false;
+      }
+
+      setBookmarks(prev => [...prev, {
+        id: data.id,
+        videoId: data.video_id,
+        name: data.name,
+        position: data.position,
+        video,
+        createdAt: data.created_at,
+      }]);
+    } else {
+      const saved: TrackBookmark = {
+        id: `bm_${Date.now()}`,
+        videoId: video.id,
+        name: label,
+        position,
+        video,
+        createdAt: new Date().toISOString(),
+      };
+      setBookmarks(prev => {
+        const updated = [...prev, saved];
+        localStorage.setItem(BOOKMARKS_KEY, JSON.stringify(updated));
+        return updated;
+      });
+    }
+
+    toast.success(`Bookmarked "${label}"`);
+    return true;
+  }, [user]);
+
+  const deleteBookmark = useCallback(async (bookmarkId: string) => {
+    if (user) {
+      const { error } = await supabase
+        .from('track_bookmarks')
+        .delete()
+        .eq('id', bookmarkId)
+        .eq('user_id', user.id);
+
+      if (error) {
+        toast.error('Failed to delete bookmark');
+        return;
+      }
+      setBookmarks(prev => prev.filter(b => b.id !== bookmarkId));
+    } else {
+      setBookmarks(prev => {
+        const updated = prev.filter(b => b.id !== bookmarkId);
+        localStorage.setItem(BOOKMARKS_KEY, JSON.stringify(updated));
+        return updated;
+      });
+    }
+  }, [user]);
+
+  const playBookmark = useCallback((bookmark: TrackBookmark) => {
+    if (currentVideo?.id === bookmark.videoId) {
+      seek(bookmark.position);
+    } else {
+      play(bookmark.video, { startAt: bookmark.position, source: 'library' });
+    }
+  }, [currentVideo, play, seek]);
+
+  const copyBookmarkLink = useCallback(async (bookmark: TrackBookmark) => {
+    try {
+      await navigator.clipboard.writeText(buildBookmarkLink(bookmark));
+      toast.success('Link copied');
+    } catch (e) {
+      console.error('Failed to copy bookmark link:', e);
+      toast.error('Failed to copy link');
+    }
+  }, []);
+
+  // Deep links: #/?v=<videoId>&t=<seconds>
+  useEffect(() => {
+    const videoId = searchParams.get('v');
+    if (!videoId || !isLoaded || deepLinkHandledRef.current) return;
+    deepLinkHandledRef.current = true;
+
+    const position = Math.max(0, parseFloat(searchParams.get('t') || '0') || 0);
+    const known = [...bookmarks.map(b => b.video), ...recentlyPlayed, ...playlist];
+    let video = known.find(v => v.id === videoId);
+
+    // YouTube videos can be played from the id alone; direct streams need their URL
+    if (!video && !videoId.startsWith('free_') && !videoId.startsWith('local_')) {
+      video = {
+        id: videoId,
+        title: 'Shared track',
+        thumbnail: `https://i.ytimg.com/vi/${videoId}/hqdefault.jpg`,
+        channelTitle: '',
+      };
+    }
+
+    if (video) {
+      console.log(`[Bookmarks] Opening deep link: "${video.title}" at ${position}s`);
+      play(video, { startAt: position });
+    } else {
+      toast.error("This track isn't available on this device");
+    }
+
+    const next = new URLSearchParams(searchParams);
+    next.delete('v');
+    next.delete('t');
+    setSearchParams(next, { replace: true });
+  }, [searchParams, setSearchParams, isLoaded, bookmarks, recentlyPlayed, playlist, play]);
+
+  return (
+    <BookmarksContext.Provider
+      value={{
+        bookmarks,
+        getBookmarksFor,
+        addBookmark,
+        deleteBookmark,
+        playBookmark,
+        copyBookmarkLink,
+      }}
+    >
+      {children}
+    </BookmarksContext.Provider>
+  );
+};
+
+export const useBookmarks = () => {
+  const context = useContext(BookmarksContext);
+  if (!context) {
+    throw new Error('useBookmarks must be used within a BookmarksProvider');
+  }
+  return context;
+};
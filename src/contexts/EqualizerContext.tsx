@@ -0,0 +1,226 @@
+// Equalizer context - active curve for direct-audio playback plus
+// user-saved custom presets (stored per account when signed in)
+import { createContext, useContext, useState, useEffect, useCallback, ReactNode } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import { useAuth } from './AuthContext';
+import { setGraphEqualizer } from '@/lib/playback';
+import {
+  EQ_PRESETS,
+  DEFAULT_EQUALIZER,
+  EqualizerPreset,
+  EqualizerSettings,
+  CUSTOM_CURVE_ID,
+  clampGain,
+} from '@/lib/playback/equalizer';
+import { toast } from 'sonner';
+
+interface EqualizerContextType {
+  settings: EqualizerSettings;
+  presets: EqualizerPreset[];
+  customPresets: EqualizerPreset[];
+  setEnabled: (enabled: boolean) => void;
+  selectPreset: (presetId: string) => void;
+  setBandGain: (band: number, db: number) => void;
+  setPreamp: (db: number) => void;
+  saveCustomPreset: (name: string) => Promise<boolean>;
+  deleteCustomPreset: (presetId: string) => Promise<void>;
+}
+
+const EqualizerContext = createContext<EqualizerContextType | undefined>(undefined);
+
+const EQUALIZER_KEY = 'equalizerSettings';
+const CUSTOM_PRESETS_KEY = 'equalizerCustomPresets';
+
+const loadSettings = (): EqualizerSettings => {
+  const stored = localStorage.getItem(EQUALIZER_KEY);
+  if (!stored) return DEFAULT_EQUALIZER;
+  try {
+    return { ...DEFAULT_EQUALIZER, ...JSON.parse(stored) };
+  } catch (e) {
+    console.error('Failed to parse equalizer settings:', e);
+    return DEFAULT_EQUALIZER;
+  }
+};
+
+const loadLocalPresets = (): EqualizerPreset[] => {
+  const stored = localStorage.getItem(CUSTOM_PRESETS_KEY);
+  if (!stored) return [];
+  try {
+    return JSON.parse(stored);
+  } catch (e) {
+    console.error('Failed to parse equalizer presets:', e);
+    return [];
+  }
+};
+
+export const EqualizerProvider = ({ children }: { children: ReactNode }) => {
+  const { user } = useAuth();
+  const [settings, setSettings] = useState<EqualizerSettings>(loadSettings);
+  const [customPresets, setCustomPresets] = useState<EqualizerPreset[]>([]);
+
+  // Push the curve into the audio graph and remember it locally
+  useEffect(() => {
+    setGraphEqualizer(settings);
+    localStorage.setItem(EQUALIZER_KEY, JSON.stringify(settings));
+  }, [settings]);
+
+  // Custom presets live in the account when signed in, in localStorage otherwise
+  useEffect(() => {
+    if (!user) {
+      setCustomPresets(loadLocalPresets());
+      return;
+    }
+
+    const fetchPresets = async () => {
+      const { data, error } = await supabase
+        .from('equalizer_presets')
+        .select('*')
+        .eq('user_id', user.id)
+        .order('created_at', { ascending: true });
+
+      if (error) {
+        console.error('Error fetching equalizer presets:', error);
+        return;
+      }
+
+      setCustomPresets((data || []).map(row => ({
+        id: row.id,
+        name: row.name,
+        gains: row.gains,
+        preamp: row.preamp,
+        custom: true,
+      })));
+    };
+
+    fetchPresets();
+  }, [user]);
+
+  const setEnabled = useCallback((enabled: boolean) => {
+    setSettings(prev => ({ ...prev, enabled }));
+  }, []);
+
+  const selectPreset = useCallback((presetId: string) => {
+    const preset = [...EQ_PRESETS, ...customPresets].find(p => p.id === presetId);
+    if (!preset) return;
+    setSettings(prev => ({
+      ...prev,
+      enabled: true,
+      presetId: preset.id,
+      gains: [...preset.gains],
+      preamp: preset.preamp,
+    }));
+  }, [customPresets]);
+
+  const setBandGain = useCallback((band: number, db: number) => {
+    setSettings(prev => {
+      const gains = [...prev.gains];
+      gains[band] = clampGain(db);
+      return { ...prev, presetId: CUSTOM_CURVE_ID, gains };
+    });
+  }, []);
+
+  const setPreamp = useCallback((db: number) => {
+    setSettings(prev => ({ ...prev, presetId: CUSTOM_CURVE_ID, preamp: clampGain(db) }));
+  }, []);
+
+  const saveCustomPreset = useCallback(async (name: string): Promise<boolean> => {
+    const trimmed = name.trim();
+    if (!trimmed) return false;
+
+    if (user) {
+      const { data, error } = await supabase
+        .from('equalizer_presets')
+        .upsert({
+          user_id: user.id,
+          name: trimmed,
+          gains: settings.gains,
+          preamp: settings.preamp,
+        }, { onConflict: 'user_id,name' })
+        .select()
+        .single();
+
+      if (error) {
+        toast.error('Failed to save preset');
+        return false;
+      }
+
+      const saved: EqualizerPreset = {
+        id: data.id,
+        name: data.name,
+        gains: data.gains,
+        preamp: data.preamp,
+        custom: true,
+      };
+      setCustomPresets(prev => [...prev.filter(p => p.id !== saved.id), saved]);
+      setSettings(prev => ({ ...prev, presetId: saved.id }));
+    } else {
+      const saved: EqualizerPreset = {
+        id: `eq_${Date.now()}`,
+        name: trimmed,
+        gains: [...settings.gains],
+        preamp: settings.preamp,
+        custom: true,
+      };
+      setCustomPresets(prev => {
+        const updated = [...prev.filter(p => p.name !== trimmed), saved];
+        localStorage.setItem(CUSTOM_PRESETS_KEY, JSON.stringify(updated));
+        return updated;
+      });
+      setSettings(prev => ({ ...prev, presetId: saved.id }));
+    }
+
+    toast.success(`Saved preset "${trimmed}"`);
+    return true;
+  }, [user, settings.gains, settings.preamp]);
+
+  const deleteCustomPreset = useCallback(async (presetId: string) => {
+    if (user) {
+      const { error } = await supabase
+        .from('equalizer_presets')
+        .delete()
+        .eq('id', presetId)
+        .eq('user_id', user.id);
+
+      if (error) {
+        toast.error('Failed to delete preset');
+        return;
+      }
+      setCustomPresets(prev => prev.filter(p => p.id !== presetId));
+    } else {
+      setCustomPresets(prev => {
+        const updated = prev.filter(p => p.id !== presetId);
+        localStorage.setItem(CUSTOM_PRESETS_KEY, JSON.stringify(updated));
+        return updated;
+      });
+    }
+
+    // Keep the curve but mark it as unsaved
+    setSettings(prev => (prev.presetId === presetId ? { ...prev, presetId: CUSTOM_CURVE_ID } : prev));
+  }, [user]);
+
+  return (
+    <EqualizerContext.Provider
+      value={{
+        settings,
+        presets: [...EQ_PRESETS, ...customPresets],
+        customPresets,
+        setEnabled,
+        selectPreset,
+        setBandGain,
+        setPreamp,
+        saveCustomPreset,
+        deleteCustomPreset,
+      }}
+    >
+      {children}
+    </EqualizerContext.Provider>
+  );
+};
+
+export const useEqualizer = () => {
+  const context = useContext(EqualizerContext);
+  if (!context) {
+    throw new Error('useEqualizer must be used within an EqualizerProvider');
+  }
+  return context;
+};
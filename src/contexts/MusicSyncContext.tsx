@@ -140,7 +140,7 @@ export const MusicSyncProvider = ({ children }: { children: React.ReactNode }) =
 
         case 'song_change':
           if (event.video) {
-            play(event.video);
+            play(event.video, { source: 'sync' });
             if (event.position !== undefined && event.position > 0) {
               setTimeout(() => seek(event.position!), 500);
             }
@@ -164,7 +164,7 @@ export const MusicSyncProvider = ({ children }: { children: React.ReactNode }) =
 
     // Load the current song and sync to position
     if (session.currentVideo && (!currentVideo || currentVideo.id !== session.currentVideo.id)) {
-      play(session.currentVideo);
+      play(session.currentVideo, { source: 'sync' });
       
       // Calculate catch-up position
       const targetPosition = getCurrentSyncPosition();
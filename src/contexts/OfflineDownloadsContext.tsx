@@ -0,0 +1,239 @@
+// Offline downloads context - download queue, progress and the stored tracks
+// (storage and eviction live in src/lib/offlineCache)
+import { createContext, useContext, useState, useEffect, useCallback, useRef, ReactNode } from 'react';
+import { MAX_TRACK_IDS } from '@api';
+import { callApi } from '@/lib/api';
+import type { Video } from './AudioPlayerContext';
+import type { FreeTrack } from '@/hooks/useFreeMusicCatalog';
+import {
+  OfflineTrack,
+  loadOfflineTracks,
+  deleteOfflineTracks,
+  downloadTrack,
+  makeRoomFor,
+  mayDownload,
+  getOfflineLimit,
+  setOfflineLimit,
+} from '@/lib/offlineCache';
+import { toast } from 'sonner';
+
+interface OfflineDownloadsContextType {
+  downloads: OfflineTrack[];
+  progress: Record<string, number>; // 0-1 for queued and active downloads
+  usedBytes: number;
+  limitBytes: number;
+  isOnline: boolean;
+  canDownload: (video: Video) => boolean;
+  isDownloaded: (videoId: string) => boolean;
+  download: (videos: Video[]) => Promise<void>;
+  removeDownload: (videoId: string) => Promise<void>;
+  clearDownloads: () => Promise<void>;
+  setLimitBytes: (bytes: number) => void;
+}
+
+const OfflineDownloadsContext = createContext<OfflineDownloadsContextType | undefined>(undefined);
+
+const sortByNewest = (tracks: OfflineTrack[]) =>
+  [...tracks].sort((a, b) => b.downloadedAt - a.downloadedAt);
+
+// Tracks saved before the catalog reported licences need a lookup first
+const resolveLicences = async (videos: Video[]): Promise<Video[]> => {
+  const unknown = videos.filter(v => v.downloadAllowed === undefined);
+  if (unknown.length === 0) return videos;
+
+  // The catalog looks up at most MAX_TRACK_IDS tracks per call
+  const trackIds = unknown.map(v => v.id.replace('free_', ''));
+  const batches: string[][] = [];
+  for (let i = 0; i < trackIds.length; i += MAX_TRACK_IDS) {
+    batches.push(trackIds.slice(i, i + MAX_TRACK_IDS));
+  }
+
+  let tracks: FreeTrack[];
+  try {
+    const results = await Promise.all(batches.map(batch => callApi('music-catalog', 'tracks', { trackIds: batch })));
+    tracks = results.flat();
+  } catch {
+    throw new Error("Couldn't check the track licences");
+  }
+
+  const byId = new Map<string, FreeTrack>(tracks.map(t => [`free_${t.id}`, t]));
+  return videos.map(v => {
+    if (v.downloadAllowed !== undefined) return v;
+    const track = byId.get(v.id);
+    return {
+      ...v,
+      downloadAllowed: track?.downloadAllowed ?? false,
+      license: track?.license,
+      streamUrl: v.streamUrl || track?.streamUrl,
+    };
+  });
+};
+
+export const OfflineDownloadsProvider = ({ children }: { children: ReactNode }) => {
+  const [downloads, setDownloads] = useState<OfflineTrack[]>([]);
+  const [progress, setProgress] = useState<Record<string, number>>({});
+  const [limitBytes, setLimitBytesState] = useState(getOfflineLimit);
+  const [isOnline, setIsOnline] = useState(() => navigator.onLine);
+  // Downloads run one at a time
+  const queueRef = useRef<Promise<void>>(Promise.resolve());
+  const pendingRef = useRef(new Set<string>());
+
+  useEffect(() => {
+    loadOfflineTracks()
+      .then(tracks => setDownloads(sortByNewest(tracks)))
+      .catch(e => console.error('[Offline] Failed to load downloads:', e));
+  }, []);
+
+  useEffect(() => {
+    const update = () => setIsOnline(navigator.onLine);
+    window.addEventListener('online', update);
+    window.addEventListener('offline', update);
+    return () => {
+      window.removeEventListener('online', update);
+      window.removeEventListener('offline', update);
+    };
+  }, []);
+
+  const isDownloaded = useCallback((videoId: string) => {
+    return downloads.some(d => d.id === videoId);
+  }, [downloads]);
+
+  const download = useCallback(async (videos: Video[]) => {
+    const candidates = videos.filter(v =>
+      mayDownload(v) && !pendingRef.current.has(v.id) && !downloads.some(d => d.id === v.id)
+    );
+    if (candidates.length === 0) {
+      if (videos.length > 0 && videos.every(v => downloads.some(d => d.id === v.id))) {
+        toast.info('Already downloaded');
+      }
+      return;
+    }
+
+    candidates.forEach(v => pendingRef.current.add(v.id));
+    setProgress(prev => ({ ...prev, ...Object.fromEntries(candidates.map(v => [v.id, 0])) }));
+    const clearPending = (ids: string[]) => {
+      ids.forEach(id => pendingRef.current.delete(id));
+      setProgress(prev => {
+        const next = { ...prev };
+        ids.forEach(id => delete next[id]);
+        return next;
+      });
+    };
+
+    let allowed: Video[];
+    try {
+      allowed = (await resolveLicences(candidates)).filter(v => v.downloadAllowed);
+    } catch (e) {
+      clearPending(candidates.map(v => v.id));
+      toast.error(e instanceof Error ? e.message : 'Download failed');
+      return;
+    }
+
+    const refused = candidates.filter(c => !allowed.some(a => a.id === c.id));
+    if (refused.length > 0) {
+      clearPending(refused.map(v => v.id));
+      toast.info(refused.length === 1
+        ? `"${refused[0].title}" isn't licensed for offline use`
+        : `${refused.length} tracks aren't licensed for offline use`);
+    }
+    if (allowed.length === 0) return;
+
+    // Tracks from this batch are never evicted to make room for each other
+    const keep = new Set(allowed.map(v => v.id));
+    const completed: string[] = [];
+    const run = async () => {
+      for (const video of allowed) {
+        try {
+          const { track, evicted } = await downloadTrack(
+            video,
+            value => setProgress(prev => ({ ...prev, [video.id]: value })),
+            keep
+          );
+          setDownloads(prev => sortByNewest([
+            track,
+            ...prev.filter(d => d.id !== track.id && !evicted.includes(d.id)),
+          ]));
+          completed.push(video.title);
+        } catch (e) {
+          console.error(`[Offline] Failed to download "${video.title}":`, e);
+          toast.error(e instanceof Error ? e.message : `Failed to download "${video.title}"`);
+        } finally {
+          clearPending([video.id]);
+        }
+      }
+    };
+
+    queueRef.current = queueRef.current.then(run);
+    await queueRef.current;
+
+    if (completed.length > 0) {
+      toast.success(completed.length === 1
+        ? `Downloaded "${completed[0]}"`
+        : `Downloaded ${completed.length} tracks`);
+    }
+  }, [downloads]);
+
+  const removeDownload = useCallback(async (videoId: string) => {
+    try {
+      await deleteOfflineTracks([videoId]);
+      setDownloads(prev => prev.filter(d => d.id !== videoId));
+    } catch (e) {
+      console.error('[Offline] Failed to delete download:', e);
+      toast.error('Failed to delete download');
+    }
+  }, []);
+
+  const clearDownloads = useCallback(async () => {
+    try {
+      await deleteOfflineTracks(downloads.map(d => d.id));
+      setDownloads([]);
+      toast.success('Downloads cleared');
+    } catch (e) {
+      console.error('[Offline] Failed to clear downloads:', e);
+      toast.error('Failed to clear downloads');
+    }
+  }, [downloads]);
+
+  // Lowering the limit evicts the least recently played downloads right away
+  const setLimitBytes = useCallback((bytes: number) => {
+    setOfflineLimit(bytes);
+    setLimitBytesState(bytes);
+    makeRoomFor(0)
+      .then(evicted => {
+        if (evicted.length > 0) {
+          setDownloads(prev => prev.filter(d => !evicted.includes(d.id)));
+        }
+      })
+      .catch(e => console.error('[Offline] Failed to apply storage limit:', e));
+  }, []);
+
+  const usedBytes = downloads.reduce((sum, d) => sum + d.size, 0);
+
+  return (
+    <OfflineDownloadsContext.Provider
+      value={{
+        downloads,
+        progress,
+        usedBytes,
+        limitBytes,
+        isOnline,
+        canDownload: mayDownload,
+        isDownloaded,
+        download,
+        removeDownload,
+        clearDownloads,
+        setLimitBytes,
+      }}
+    >
+      {children}
+    </OfflineDownloadsContext.Provider>
+  );
+};
+
+export const useOfflineDownloads = () => {
+  const context = useContext(OfflineDownloadsContext);
+  if (!context) {
+    throw new Error('useOfflineDownloads must be used within an OfflineDownloadsProvider');
+  }
+  return context;
+};
@@ -0,0 +1,51 @@
+import { useState, useCallback } from 'react';
+import { toast } from 'sonner';
+import { useYTMusicAPI, type Album, type AlbumSummary } from '@/hooks/useYTMusicAPI';
+import { useAudioPlayer, type Video } from '@/contexts/AudioPlayerContext';
+
+// Album tracks as player videos, tagged with the album
+export const albumToVideos = (album: Album): Video[] =>
+  album.tracks.map(track => ({
+    id: track.videoId,
+    title: track.title,
+    thumbnail: track.thumbnail,
+    channelTitle: track.artist || album.artist,
+    duration: track.duration,
+    album: album.title,
+  }));
+
+// Play or queue a whole album in track order; summaries are loaded first
+export const useAlbumPlayback = () => {
+  const [loadingId, setLoadingId] = useState<string | null>(null);
+  const { getAlbum } = useYTMusicAPI();
+  const { play, setPlaylist, addToPlaylist } = useAudioPlayer();
+
+  const loadTracks = useCallback(async (album: Album | AlbumSummary): Promise<Video[]> => {
+    if ('tracks' in album) return albumToVideos(album);
+
+    setLoadingId(album.playlistId);
+    const loaded = await getAlbum({ playlistId: album.playlistId });
+    setLoadingId(null);
+    if (!loaded || loaded.tracks.length === 0) {
+      toast.error(`Couldn't load "${album.title}"`);
+      return [];
+    }
+    return albumToVideos(loaded);
+  }, [getAlbum]);
+
+  const playAlbum = useCallback(async (album: Album | AlbumSummary, startIndex = 0) => {
+    const videos = await loadTracks(album);
+    if (!videos[startIndex]) return;
+    setPlaylist(videos);
+    play(videos[startIndex], { source: 'browse' });
+  }, [loadTracks, setPlaylist, play]);
+
+  const queueAlbum = useCallback(async (album: Album | AlbumSummary) => {
+    const videos = await loadTracks(album);
+    if (videos.length === 0) return;
+    videos.forEach(addToPlaylist);
+    toast.success(`Added ${videos.length} tracks from "${album.title}" to the queue`);
+  }, [loadTracks, addToPlaylist]);
+
+  return { playAlbum, queueAlbum, loadingId };
+};
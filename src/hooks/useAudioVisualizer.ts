@@ -1,4 +1,5 @@
 import { useEffect, useRef, useState, useCallback } from 'react';
+import { connectMediaElement, createGraphAnalyser, disconnectGraphAnalyser, resumeAudioGraph } from '@/lib/playback';
 
 interface VisualizerData {
   frequencyData: Uint8Array | null;
@@ -22,9 +23,7 @@ export const useAudioVisualizer = (
 ) => {
   const { fftSize = 256, smoothingTimeConstant = 0.8 } = options;
   
-  const audioContextRef = useRef<AudioContext | null>(null);
   const analyserRef = useRef<AnalyserNode | null>(null);
-  const sourceRef = useRef<MediaElementAudioSourceNode | null>(null);
   const animationRef = useRef<number | null>(null);
   const connectedElementRef = useRef<HTMLAudioElement | null>(null);
   
@@ -38,44 +37,19 @@ export const useAudioVisualizer = (
     trebleLevel: 0,
   });
 
-  // Initialize audio context and analyser
+  // Tap the shared audio graph with an analyser of our own, so other
+  // visualizers' FFT settings don't interfere
   const initialize = useCallback(() => {
     if (!audioElement || connectedElementRef.current === audioElement) return;
 
     try {
-      // Create audio context if needed
-      if (!audioContextRef.current) {
-        const AudioContextClass = window.AudioContext || (window as any).webkitAudioContext;
-        audioContextRef.current = new AudioContextClass();
-      }
-
-      const audioContext = audioContextRef.current;
-
-      // Create analyser if needed
       if (!analyserRef.current) {
-        const analyser = audioContext.createAnalyser();
-        analyser.fftSize = fftSize;
-        analyser.smoothingTimeConstant = smoothingTimeConstant;
-        analyserRef.current = analyser;
+        analyserRef.current = createGraphAnalyser(fftSize, smoothingTimeConstant);
       }
 
-      // Connect source only if it's a new audio element
-      if (connectedElementRef.current !== audioElement) {
-        // Clean up old source
-        if (sourceRef.current) {
-          try {
-            sourceRef.current.disconnect();
-          } catch (e) {
-            // Source might already be disconnected
-          }
-        }
-
-        const source = audioContext.createMediaElementSource(audioElement);
-        source.connect(analyserRef.current);
-        analyserRef.current.connect(audioContext.destination);
-        sourceRef.current = source;
-        connectedElementRef.current = audioElement;
-      }
+      // The player normally connects its elements already; this is a no-op then
+      connectMediaElement(audioElement);
+      connectedElementRef.current = audioElement;
 
       setData(prev => ({ ...prev, isActive: true }));
     } catch (error) {
@@ -136,10 +110,7 @@ export const useAudioVisualizer = (
   useEffect(() => {
     if (audioElement && isPlaying) {
       initialize();
-      
-      if (audioContextRef.current?.state === 'suspended') {
-        audioContextRef.current.resume();
-      }
+      resumeAudioGraph();
       
       analyze();
     } else if (animationRef.current) {
@@ -154,6 +125,17 @@ export const useAudioVisualizer = (
     };
   }, [audioElement, isPlaying, initialize, analyze]);
 
+  // New settings need a new analyser; the old one is dropped from the graph
+  useEffect(() => {
+    return () => {
+      if (analyserRef.current) {
+        disconnectGraphAnalyser(analyserRef.current);
+        analyserRef.current = null;
+        connectedElementRef.current = null;
+      }
+    };
+  }, [fftSize, smoothingTimeConstant]);
+
   // Cleanup on unmount
   useEffect(() => {
     return () => {
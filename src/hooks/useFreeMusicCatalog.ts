@@ -1,50 +1,43 @@
 import { useState, useCallback } from 'react';
-import { supabase } from '@/integrations/supabase/client';
 import { toast } from 'sonner';
-
-export interface FreeTrack {
-  id: string;
-  title: string;
-  artist: string;
-  thumbnail: string;
-  streamUrl: string;
-  duration: number;
-  genre?: string;
-}
-
-export interface CuratedPlaylist {
-  name: string;
-  genre: string;
-  tracks: FreeTrack[];
-}
-
-export interface HomeData {
-  trending: FreeTrack[];
-  playlists: CuratedPlaylist[];
-}
+import type { CatalogHome, CatalogTrack, CuratedPlaylist } from '@api';
+import type { Video } from '@/contexts/AudioPlayerContext';
+import { callApi, type ApiAction, type ApiData, type ApiParams } from '@/lib/api';
+
+export type FreeTrack = CatalogTrack;
+export type HomeData = CatalogHome;
+export type { CuratedPlaylist };
+
+// The catalog reports this when Jamendo has no genre tags for a track
+const PLACEHOLDER_GENRE = 'Music';
+
+// Convert FreeTrack to Video format for the player
+export const freeTrackToVideo = (track: FreeTrack): Video => ({
+  id: `free_${track.id}`,
+  title: track.title,
+  thumbnail: track.thumbnail,
+  channelTitle: track.artist,
+  duration: formatDuration(track.duration),
+  streamUrl: track.streamUrl, // Direct audio URL
+  source: 'jamendo',
+  genre: track.genre && track.genre !== PLACEHOLDER_GENRE ? track.genre : undefined,
+  downloadAllowed: track.downloadAllowed,
+  license: track.license,
+});
 
 export const useFreeMusicCatalog = () => {
   const [isLoading, setIsLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
 
-  const callMusicCatalog = useCallback(async (action: string, params: Record<string, any> = {}) => {
+  const callMusicCatalog = useCallback(async <A extends ApiAction<'music-catalog'>>(
+    action: A,
+    params?: ApiParams<'music-catalog', A>
+  ): Promise<ApiData<'music-catalog', A> | null> => {
     setIsLoading(true);
     setError(null);
 
     try {
-      const { data, error: fnError } = await supabase.functions.invoke('music-catalog', {
-        body: { action, ...params }
-      });
-
-      if (fnError) {
-        throw new Error(fnError.message);
-      }
-
-      if (data.error) {
-        throw new Error(data.error);
-      }
-
-      return data.data;
+      return await callApi('music-catalog', action, params);
     } catch (err) {
       const message = err instanceof Error ? err.message : 'Failed to fetch music';
       setError(message);
@@ -75,6 +68,11 @@ export const useFreeMusicCatalog = () => {
     return result || [];
   }, [callMusicCatalog]);
 
+  const getTracks = useCallback(async (trackIds: string[]): Promise<FreeTrack[]> => {
+    const result = await callMusicCatalog('tracks', { trackIds });
+    return result || [];
+  }, [callMusicCatalog]);
+
   const getPlaylists = useCallback(async (): Promise<CuratedPlaylist[]> => {
     const result = await callMusicCatalog('playlists');
     return result || [];
@@ -85,15 +83,7 @@ export const useFreeMusicCatalog = () => {
     return result;
   }, [callMusicCatalog]);
 
-  // Convert FreeTrack to Video format for the player
-  const toVideoFormat = useCallback((track: FreeTrack) => ({
-    id: `free_${track.id}`,
-    title: track.title,
-    thumbnail: track.thumbnail,
-    channelTitle: track.artist,
-    duration: formatDuration(track.duration),
-    streamUrl: track.streamUrl, // Direct audio URL
-  }), []);
+  const toVideoFormat = useCallback((track: FreeTrack) => freeTrackToVideo(track), []);
 
   return {
     isLoading,
@@ -102,6 +92,7 @@ export const useFreeMusicCatalog = () => {
     search,
     getByGenre,
     getSimilar,
+    getTracks,
     getPlaylists,
     getHomeData,
     toVideoFormat,
@@ -0,0 +1,253 @@
+// "Made for you": daily mixes and a weekly discovery playlist, generated on
+// the first open of the day (or week) from the signed-in user's listening
+// history and liked songs, and stored as flagged rows in playlists
+import { useState, useCallback, useEffect } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import { useAuth } from '@/contexts/AuthContext';
+import type { Video } from '@/contexts/AudioPlayerContext';
+import {
+  autoplaySourcesFor,
+  buildDailyMixes,
+  buildWeeklyDiscovery,
+  dailyMixSeed,
+  weeklyDiscoverySeed,
+  type GeneratedMix,
+  type MixSourceTrack,
+} from '@/lib/recommendation';
+import type { UserPlaylist } from './useUserPlaylists';
+
+export type GeneratedKind = 'daily_mix' | 'weekly_discovery';
+
+const HISTORY_LIMIT = 500;
+const LIKED_LIMIT = 500;
+// A like counts as much as a couple of full listens
+const LIKED_WEIGHT = 2;
+// Tracks mostly skipped don't seed mixes
+const MIN_LISTEN_RATIO = 0.3;
+const WEEKLY_DISCOVERY_NAME = 'Weekly Discovery';
+// Seeds already tried, by kind, so a day (or week) with too little history
+// to build anything isn't retried on every open
+const MIX_ATTEMPTS_KEY = 'generatedMixAttempts';
+
+const loadAttempts = (): Partial<Record<GeneratedKind, string>> => {
+  try {
+    return JSON.parse(localStorage.getItem(MIX_ATTEMPTS_KEY) || '{}');
+  } catch {
+    return {};
+  }
+};
+
+const saveAttempt = (kind: GeneratedKind, seed: string) => {
+  localStorage.setItem(MIX_ATTEMPTS_KEY, JSON.stringify({ ...loadAttempts(), [kind]: seed }));
+};
+
+// Shared by every mounted hook so a day's mixes are only generated once
+let generation: Promise<void> | null = null;
+
+const loadSourceTracks = async (userId: string) => {
+  const [history, liked] = await Promise.all([
+    supabase
+      .from('listening_history')
+      .select('video_id, title, thumbnail, channel_title, duration, genre, mood, play_count, skip_count, listened_total')
+      .eq('user_id', userId)
+      .order('played_at', { ascending: false })
+      .limit(HISTORY_LIMIT),
+    supabase
+      .from('liked_songs')
+      .select('video_id, title, thumbnail, channel_title, duration')
+      .eq('user_id', userId)
+      .order('liked_at', { ascending: false })
+      .limit(LIKED_LIMIT),
+  ]);
+  if (history.error) throw history.error;
+  if (liked.error) throw liked.error;
+
+  const tracks = new Map<string, MixSourceTrack>();
+  const toVideo = (row: { video_id: string; title: string; thumbnail: string | null; channel_title: string | null; duration: string | null }): Video => ({
+    id: row.video_id,
+    title: row.title,
+    thumbnail: row.thumbnail || '',
+    channelTitle: row.channel_title || 'Unknown Artist',
+    duration: row.duration || undefined,
+  });
+
+  for (const row of history.data || []) {
+    const plays = Math.max(1, row.play_count ?? 1);
+    // Same enjoyment signal as the listening-history function
+    const ratio = row.listened_total > 0
+      ? Math.min(1, row.listened_total / plays)
+      : Math.max(0, 1 - (row.skip_count ?? 0) / plays);
+    if (ratio < MIN_LISTEN_RATIO) continue;
+    tracks.set(row.video_id, {
+      video: { ...toVideo(row), genre: row.genre || undefined, mood: row.mood || undefined },
+      weight: ratio * Math.log2(1 + plays),
+    });
+  }
+
+  for (const row of liked.data || []) {
+    const existing = tracks.get(row.video_id);
+    tracks.set(row.video_id, {
+      video: existing?.video ?? toVideo(row),
+      weight: (existing?.weight ?? 0) + LIKED_WEIGHT,
+    });
+  }
+
+  const heard = new Set([...(history.data || []), ...(liked.data || [])].map(row => row.video_id));
+  return { tracks: [...tracks.values()], heard };
+};
+
+// Replace the previous playlists of this kind with the new ones. The seed is
+// written last, so mixes cut short by an error don't count as generated: the
+// next run deletes them along with the old ones and starts over.
+const storeMixes = async (userId: string, kind: GeneratedKind, seed: string, mixes: GeneratedMix[]) => {
+  const ids: string[] = [];
+  for (const mix of mixes) {
+    const { data: playlist, error } = await supabase
+      .from('playlists')
+      .insert({
+        user_id: userId,
+        name: mix.name,
+        description: mix.description,
+        cover_url: mix.videos[0]?.thumbnail || null,
+        generated: true,
+        generated_kind: kind,
+      })
+      .select()
+      .single();
+    if (error) throw error;
+    ids.push(playlist.id);
+
+    const { error: songsError } = await supabase
+      .from('playlist_songs')
+      .insert(mix.videos.map((video, position) => ({
+        playlist_id: playlist.id,
+        video_id: video.id,
+        title: video.title,
+        thumbnail: video.thumbnail || null,
+        channel_title: video.channelTitle || null,
+        duration: video.duration || null,
+        position,
+        genre: video.genre ?? null,
+        mood: video.mood ?? null,
+        bpm: video.bpm ?? null,
+        musical_key: video.key ?? null,
+      })));
+    if (songsError) throw songsError;
+  }
+
+  const { error: deleteError } = await supabase
+    .from('playlists')
+    .delete()
+    .eq('user_id', userId)
+    .eq('generated_kind', kind)
+    .not('id', 'in', `(${ids.join(',')})`);
+  if (deleteError) throw deleteError;
+
+  const { error: seedError } = await supabase
+    .from('playlists')
+    .update({ generated_seed: seed })
+    .in('id', ids);
+  if (seedError) throw seedError;
+};
+
+// Generate whatever is missing for today's/this week's seed
+const generateIfStale = async (userId: string) => {
+  const { data, error } = await supabase
+    .from('playlists')
+    .select('generated_kind, generated_seed')
+    .eq('user_id', userId)
+    .eq('generated', true);
+  if (error) throw error;
+
+  const attempts = loadAttempts();
+  const current = (kind: GeneratedKind, seed: string) =>
+    attempts[kind] === seed || (data || []).some(p => p.generated_kind === kind && p.generated_seed === seed);
+  const dailySeed = dailyMixSeed(userId);
+  const weeklySeed = weeklyDiscoverySeed(userId);
+  if (current('daily_mix', dailySeed) && current('weekly_discovery', weeklySeed)) return;
+
+  const { tracks, heard } = await loadSourceTracks(userId);
+
+  if (!current('daily_mix', dailySeed)) {
+    const mixes = buildDailyMixes(tracks, dailySeed);
+    console.log(`[Mixes] Generated ${mixes.length} daily mixes from ${tracks.length} tracks`);
+    if (mixes.length > 0) await storeMixes(userId, 'daily_mix', dailySeed, mixes);
+    saveAttempt('daily_mix', dailySeed);
+  }
+
+  if (!current('weekly_discovery', weeklySeed)) {
+    const videos = tracks.length > 0 ? await buildWeeklyDiscovery(tracks, heard, autoplaySourcesFor, weeklySeed) : [];
+    console.log(`[Mixes] Generated weekly discovery with ${videos.length} tracks`);
+    if (videos.length > 0) {
+      await storeMixes(userId, 'weekly_discovery', weeklySeed, [{
+        name: WEEKLY_DISCOVERY_NAME,
+        description: 'New to you, picked from what you play most',
+        videos,
+      }]);
+    }
+    saveAttempt('weekly_discovery', weeklySeed);
+  }
+};
+
+export const useGeneratedPlaylists = () => {
+  const { user } = useAuth();
+  const [playlists, setPlaylists] = useState<UserPlaylist[]>([]);
+  const [isGenerating, setIsGenerating] = useState(false);
+
+  const fetchGenerated = useCallback(async () => {
+    if (!user) {
+      setPlaylists([]);
+      return;
+    }
+
+    const { data, error } = await supabase
+      .from('playlists')
+      .select('*')
+      .eq('user_id', user.id)
+      .eq('generated', true)
+      .not('generated_seed', 'is', null)
+      .order('name', { ascending: true });
+
+    if (error) {
+      console.error('Failed to fetch generated playlists:', error);
+      return;
+    }
+    // Weekly discovery first, then the daily mixes in order
+    setPlaylists((data || []).sort((a, b) =>
+      Number(a.generated_kind === 'daily_mix') - Number(b.generated_kind === 'daily_mix')
+    ));
+  }, [user]);
+
+  useEffect(() => {
+    if (!user) {
+      setPlaylists([]);
+      return;
+    }
+
+    let cancelled = false;
+    const run = async () => {
+      setIsGenerating(true);
+      generation ??= generateIfStale(user.id)
+        .catch(e => console.error('[Mixes] Failed to generate playlists:', e))
+        .finally(() => {
+          generation = null;
+        });
+      await generation;
+      if (!cancelled) {
+        setIsGenerating(false);
+        fetchGenerated();
+      }
+    };
+    run();
+
+    return () => {
+      cancelled = true;
+    };
+  }, [user, fetchGenerated]);
+
+  return {
+    playlists,
+    isGenerating,
+    fetchGenerated,
+  };
+};
@@ -1,13 +1,18 @@
 // Keyboard shortcuts hook for playback control
 import { useEffect, useCallback } from 'react';
 import { useAudioPlayer } from '@/contexts/AudioPlayerContext';
+import { useBookmarks } from '@/contexts/BookmarksContext';
 import { toast } from 'sonner';
+import { stepSpeed, formatSpeed } from '@/lib/playback/speed';
 
 interface ShortcutConfig {
   enabled: boolean;
   showToasts: boolean;
 }
 
+// Durations the sleep timer shortcut steps through
+const SLEEP_STEPS = [15, 30, 60];
+
 const defaultConfig: ShortcutConfig = {
   enabled: true,
   showToasts: true,
@@ -36,7 +41,16 @@ export const useKeyboardShortcuts = (config: Partial<ShortcutConfig> = {}) => {
     setRepeatMode,
     toggleAutoplay,
     isAutoplay,
+    sleepTimer,
+    startSleepTimer,
+    cancelSleepTimer,
+    playbackRate,
+    setPlaybackRate,
+    abLoop,
+    setLoopPoint,
+    clearLoop,
   } = useAudioPlayer();
+  const { addBookmark } = useBookmarks();
 
   const showShortcutToast = useCallback((message: string) => {
     if (showToasts) {
@@ -157,6 +171,67 @@ export const useKeyboardShortcuts = (config: Partial<ShortcutConfig> = {}) => {
         showShortcutToast(isAutoplay ? '📻 Autoplay off' : '📻 Autoplay on');
         break;
 
+      // < / > - Slower / faster (Shift + , / .)
+      case '<':
+      case '>': {
+        e.preventDefault();
+        const newRate = stepSpeed(playbackRate, e.key === '>' ? 1 : -1);
+        setPlaybackRate(newRate);
+        showShortcutToast(`⏱️ Speed ${formatSpeed(newRate)}`);
+        break;
+      }
+
+      // [ / ] - Set loop point A / B at the current position
+      case '[':
+      case ']':
+        e.preventDefault();
+        if (currentVideo) {
+          const point = e.key === '[' ? 'a' : 'b';
+          setLoopPoint(point, progress);
+          showShortcutToast(`🔁 Loop ${point.toUpperCase()} set`);
+        }
+        break;
+
+      // \ - Clear A-B loop
+      case '\\':
+        e.preventDefault();
+        if (abLoop.a !== null || abLoop.b !== null) {
+          clearLoop();
+          showShortcutToast('🔁 Loop cleared');
+        }
+        break;
+
+      // B - Bookmark the current position
+      case 'b':
+        e.preventDefault();
+        if (currentVideo) {
+          addBookmark(currentVideo, progress);
+        }
+        break;
+
+      // Z - Cycle sleep timer: 15 / 30 / 60 min, end of track, off
+      case 'z': {
+        e.preventDefault();
+        if (!sleepTimer) {
+          startSleepTimer({ mode: 'duration', minutes: SLEEP_STEPS[0] });
+          showShortcutToast(`😴 Sleep in ${SLEEP_STEPS[0]} min`);
+        } else if (sleepTimer.mode === 'duration') {
+          const minutesLeft = (sleepTimer.endsAt - Date.now()) / 60000;
+          const nextStep = SLEEP_STEPS.find(m => m > minutesLeft + 1);
+          if (nextStep) {
+            startSleepTimer({ mode: 'duration', minutes: nextStep });
+            showShortcutToast(`😴 Sleep in ${nextStep} min`);
+          } else {
+            startSleepTimer({ mode: 'endOfTrack' });
+            showShortcutToast('😴 Sleep at end of track');
+          }
+        } else {
+          cancelSleepTimer();
+          showShortcutToast('⏰ Sleep timer off');
+        }
+        break;
+      }
+
       // 0-9 - Seek to percentage
       case '0':
       case '1':
@@ -238,6 +313,15 @@ export const useKeyboardShortcuts = (config: Partial<ShortcutConfig> = {}) => {
     setRepeatMode,
     toggleAutoplay,
     isAutoplay,
+    sleepTimer,
+    startSleepTimer,
+    cancelSleepTimer,
+    playbackRate,
+    setPlaybackRate,
+    abLoop,
+    setLoopPoint,
+    clearLoop,
+    addBookmark,
     showShortcutToast,
   ]);
 
@@ -262,6 +346,11 @@ export const useKeyboardShortcuts = (config: Partial<ShortcutConfig> = {}) => {
       { key: 'S', action: 'Toggle shuffle' },
       { key: 'R', action: 'Cycle repeat' },
       { key: 'A', action: 'Toggle autoplay' },
+      { key: '</>', action: 'Speed down/up' },
+      { key: '[/]', action: 'Set loop A/B' },
+      { key: '\\', action: 'Clear loop' },
+      { key: 'B', action: 'Add bookmark' },
+      { key: 'Z', action: 'Cycle sleep timer' },
       { key: '0-9', action: 'Seek to %' },
       { key: 'Home', action: 'Go to start' },
       { key: 'End', action: 'Go to end' },
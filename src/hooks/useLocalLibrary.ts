@@ -0,0 +1,74 @@
+// Local library hook - folders, scanning and the IndexedDB track index
+import { useState, useEffect, useCallback, useMemo } from 'react';
+import { toast } from 'sonner';
+import {
+  LocalTrack,
+  getDesktopLibrary,
+  loadIndexedTracks,
+  saveIndexedTracks,
+  sortLocalTracks,
+  localTrackToVideo,
+} from '@/lib/localLibrary';
+
+export const useLocalLibrary = () => {
+  const bridge = useMemo(() => getDesktopLibrary(), []);
+  const [tracks, setTracks] = useState<LocalTrack[]>([]);
+  const [folders, setFolders] = useState<string[]>([]);
+  const [isScanning, setIsScanning] = useState(false);
+
+  // Show the last index right away
+  useEffect(() => {
+    if (!bridge) return;
+
+    bridge.getFolders().then(setFolders);
+    loadIndexedTracks()
+      .then(indexed => setTracks(sortLocalTracks(indexed)))
+      .catch(e => console.error('[Library] Failed to load index:', e));
+  }, [bridge]);
+
+  const rescan = useCallback(async () => {
+    if (!bridge) return;
+    setIsScanning(true);
+    try {
+      const scanned = sortLocalTracks(await bridge.scan());
+      setTracks(scanned);
+      await saveIndexedTracks(scanned);
+      console.log(`[Library] Indexed ${scanned.length} local tracks`);
+    } catch (e) {
+      console.error('[Library] Scan failed:', e);
+      toast.error('Failed to scan music folders');
+    } finally {
+      setIsScanning(false);
+    }
+  }, [bridge]);
+
+  const addFolders = useCallback(async () => {
+    if (!bridge) return;
+    const updated = await bridge.addFolders();
+    if (updated.length !== folders.length) {
+      setFolders(updated);
+      await rescan();
+    }
+  }, [bridge, folders.length, rescan]);
+
+  const removeFolder = useCallback(async (folder: string) => {
+    if (!bridge) return;
+    setFolders(await bridge.removeFolder(folder));
+    const remaining = tracks.filter(t => t.folder !== folder);
+    setTracks(remaining);
+    await saveIndexedTracks(remaining);
+  }, [bridge, tracks]);
+
+  const videos = useMemo(() => tracks.map(localTrackToVideo), [tracks]);
+
+  return {
+    isAvailable: !!bridge,
+    tracks,
+    videos,
+    folders,
+    isScanning,
+    addFolders,
+    removeFolder,
+    rescan,
+  };
+};
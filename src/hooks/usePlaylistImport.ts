@@ -1,5 +1,5 @@
 import { useState, useCallback, useMemo } from 'react';
-import { supabase } from '@/integrations/supabase/client';
+import { callApi } from '@/lib/api';
 import { toast } from 'sonner';
 import type { 
   NormalizedTrack, 
@@ -64,20 +64,15 @@ export const usePlaylistImport = (): UsePlaylistImportReturn => {
     setError(null);
     
     try {
-      const { data, error: invokeError } = await supabase.functions.invoke('import-playlist', {
-        body: { 
-          url,
-          deduplicate: options?.deduplicate ?? true,
-          enrichWithYouTube: options?.enrichWithYouTube ?? true,
-        }
+      const importResult = await callApi('import-playlist', 'url', {
+        url,
+        deduplicate: options?.deduplicate ?? true,
+        enrichWithYouTube: options?.enrichWithYouTube ?? true,
       });
-
-      if (invokeError) throw invokeError;
-      if (data.status === 'error') {
-        throw new Error(data.error || data.error_message || 'Import failed');
+      if (importResult.status === 'error') {
+        throw new Error(importResult.error_message || 'Import failed');
       }
 
-      const importResult: PlaylistResult = data.data;
       setResult(importResult);
       setTracks(importResult.tracks.map(t => ({ ...t, selected: false })));
       setSelectedIds(new Set());
@@ -104,21 +99,16 @@ export const usePlaylistImport = (): UsePlaylistImportReturn => {
     setError(null);
     
     try {
-      const { data, error: invokeError } = await supabase.functions.invoke('import-playlist', {
-        body: { 
-          fileContent: content,
-          fileFormat: format,
-          deduplicate: true,
-          enrichWithYouTube: true,
-        }
+      const importResult = await callApi('import-playlist', 'file', {
+        fileContent: content,
+        fileFormat: format,
+        deduplicate: true,
+        enrichWithYouTube: true,
       });
-
-      if (invokeError) throw invokeError;
-      if (data.status === 'error') {
-        throw new Error(data.error || 'Import failed');
+      if (importResult.status === 'error') {
+        throw new Error(importResult.error_message || 'Import failed');
       }
 
-      const importResult: PlaylistResult = data.data;
       setResult(importResult);
       setTracks(importResult.tracks.map(t => ({ ...t, selected: false })));
       setSelectedIds(new Set());
@@ -139,20 +129,15 @@ export const usePlaylistImport = (): UsePlaylistImportReturn => {
     setError(null);
     
     try {
-      const { data, error: invokeError } = await supabase.functions.invoke('import-playlist', {
-        body: { 
-          manualInput: input,
-          deduplicate: true,
-          enrichWithYouTube: true,
-        }
+      const importResult = await callApi('import-playlist', 'manual', {
+        manualInput: input,
+        deduplicate: true,
+        enrichWithYouTube: true,
       });
-
-      if (invokeError) throw invokeError;
-      if (data.status === 'error') {
-        throw new Error(data.error || 'Import failed');
+      if (importResult.status === 'error') {
+        throw new Error(importResult.error_message || 'Import failed');
       }
 
-      const importResult: PlaylistResult = data.data;
       setResult(importResult);
       setTracks(importResult.tracks.map(t => ({ ...t, selected: false })));
       setSelectedIds(new Set());
@@ -170,12 +155,8 @@ export const usePlaylistImport = (): UsePlaylistImportReturn => {
   // Search tracks
   const searchTracks = useCallback(async (query: string): Promise<NormalizedTrack[]> => {
     try {
-      const { data, error: invokeError } = await supabase.functions.invoke('import-playlist', {
-        body: { searchQuery: query }
-      });
-
-      if (invokeError) throw invokeError;
-      return data.data?.tracks || [];
+      const { tracks } = await callApi('import-playlist', 'search', { searchQuery: query });
+      return tracks;
     } catch (err) {
       console.error('Search failed:', err);
       return [];
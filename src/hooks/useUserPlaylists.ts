@@ -3,6 +3,9 @@ import { supabase } from '@/integrations/supabase/client';
 import { useAuth } from '@/contexts/AuthContext';
 import { toast } from 'sonner';
 import type { FreeTrack } from './useFreeMusicCatalog';
+import type { Video } from '@/contexts/AudioPlayerContext';
+import { callApi } from '@/lib/api';
+import { PLATFORM_INFO } from '@/types/playlist';
 
 export interface UserPlaylist {
   id: string;
@@ -12,6 +15,19 @@ export interface UserPlaylist {
   created_at: string;
   updated_at: string;
   song_count?: number;
+  // Daily mixes and weekly discovery (see useGeneratedPlaylists)
+  generated?: boolean;
+  generated_kind?: string | null;
+}
+
+// A song picked from search or an import, to add to a playlist
+export interface SongToAdd {
+  id: string;
+  title: string;
+  artist: string;
+  thumbnail: string;
+  streamUrl?: string;
+  duration?: number; // seconds
 }
 
 export interface PlaylistSong {
@@ -22,9 +38,42 @@ export interface PlaylistSong {
   channel_title: string | null;
   duration: string | null;
   position: number;
+  // Audio metadata from imported playlists
+  genre?: string | null;
+  mood?: string | null;
+  bpm?: number | null;
+  musical_key?: string | null;
   streamUrl?: string;
 }
 
+// A stored playlist song as a player video; free tracks (ids starting with
+// 'free_') stream from Jamendo
+export const playlistSongToVideo = (song: PlaylistSong): Video => {
+  const isFree = song.video_id.startsWith('free_');
+  return {
+    id: song.video_id,
+    title: song.title,
+    thumbnail: song.thumbnail || '',
+    channelTitle: song.channel_title || 'Unknown Artist',
+    duration: song.duration || undefined,
+    streamUrl: isFree
+      ? `https://mp3d.jamendo.com/download/track/${song.video_id.replace('free_', '')}/mp32`
+      : undefined,
+    source: isFree ? 'jamendo' : undefined,
+    genre: song.genre || undefined,
+    mood: song.mood || undefined,
+    bpm: song.bpm || undefined,
+    key: song.musical_key || undefined,
+  };
+};
+
+export interface TrackAudioMetadata {
+  genre?: string;
+  mood?: string;
+  bpm?: number;
+  key?: string;
+}
+
 export const useUserPlaylists = () => {
   const { user } = useAuth();
   const [playlists, setPlaylists] = useState<UserPlaylist[]>([]);
@@ -43,6 +92,7 @@ export const useUserPlaylists = () => {
         .from('playlists')
         .select('*')
         .eq('user_id', user.id)
+        .eq('generated', false)
         .order('updated_at', { ascending: false });
 
       if (error) throw error;
@@ -121,7 +171,8 @@ export const useUserPlaylists = () => {
   // Add song to playlist
   const addSongToPlaylist = useCallback(async (
     playlistId: string, 
-    track: FreeTrack | { id: string; title: string; artist: string; thumbnail: string; streamUrl?: string; duration?: number }
+    track: FreeTrack | SongToAdd,
+    metadata: TrackAudioMetadata = {}
   ) => {
     if (!user) {
       toast.error('Please sign in to add songs');
@@ -151,6 +202,10 @@ export const useUserPlaylists = () => {
             ? `${Math.floor(track.duration / 60)}:${(track.duration % 60).toString().padStart(2, '0')}`
             : null,
           position: nextPosition,
+          genre: metadata.genre ?? null,
+          mood: metadata.mood ?? null,
+          bpm: metadata.bpm ?? null,
+          musical_key: metadata.key ?? null,
         });
 
       if (error) {
@@ -222,51 +277,44 @@ export const useUserPlaylists = () => {
     try {
       console.log('[ImportPlaylist] Importing from URL:', url);
       
-      const { data, error } = await supabase.functions.invoke('import-playlist', {
-        body: { url }
-      });
-
-      if (error) throw error;
-      if (data.error) throw new Error(data.error);
-
-      const importData = data.data;
+      const result = await callApi('import-playlist', 'url', { url });
       
-      console.log('[ImportPlaylist] Received data:', importData);
+      console.log('[ImportPlaylist] Received data:', result);
       
-      if (!importData || !importData.tracks || importData.tracks.length === 0) {
-        toast.error(importData?.note || 'No tracks found in playlist');
+      if (result.status === 'error' || result.tracks.length === 0) {
+        toast.error(result.error_message || 'No tracks found in playlist');
         return null;
       }
       
       // Create the playlist
       const playlist = await createPlaylist(
-        importData.name,
-        `Imported from ${importData.source}`
+        result.playlist_name,
+        `Imported from ${PLATFORM_INFO[result.playlist_source].name}`
       );
 
       if (!playlist) return null;
 
       // Add tracks to playlist
       let addedCount = 0;
-      for (const track of importData.tracks) {
+      for (const track of result.tracks) {
         // Convert to format expected by addSongToPlaylist
-        const trackData = {
-          id: track.videoId || track.id,
+        const trackData: SongToAdd = {
+          id: track.video_id || track.id,
           title: track.title,
           artist: track.artist,
-          thumbnail: track.thumbnail,
-          duration: track.duration,
+          thumbnail: track.thumb_url || '',
+          duration: track.duration_ms ? Math.round(track.duration_ms / 1000) : undefined,
         };
         
         const success = await addSongToPlaylist(playlist.id, trackData);
         if (success) addedCount++;
       }
 
-      if (importData.note) {
-        toast.info(importData.note);
+      for (const warning of result.warnings || []) {
+        toast.info(warning);
       }
 
-      toast.success(`Imported ${addedCount} tracks to "${importData.name}"!`);
+      toast.success(`Imported ${addedCount} tracks to "${result.playlist_name}"!`);
       await fetchPlaylists();
       return playlist;
     } catch (error) {
@@ -277,14 +325,16 @@ export const useUserPlaylists = () => {
   }, [user, createPlaylist, addSongToPlaylist, fetchPlaylists]);
 
   // Search for songs to add
-  const searchSongs = useCallback(async (query: string) => {
+  const searchSongs = useCallback(async (query: string): Promise<SongToAdd[]> => {
     try {
-      const { data, error } = await supabase.functions.invoke('import-playlist', {
-        body: { searchQuery: query }
-      });
-
-      if (error) throw error;
-      return data.data?.tracks || [];
+      const { tracks } = await callApi('import-playlist', 'search', { searchQuery: query });
+      return tracks.map(track => ({
+        id: track.id,
+        title: track.title,
+        artist: track.artist,
+        thumbnail: track.thumb_url || '',
+        duration: track.duration_ms ? Math.round(track.duration_ms / 1000) : undefined,
+      }));
     } catch (error) {
       console.error('Search failed:', error);
       return [];
@@ -1,66 +1,36 @@
 import { useState, useCallback } from 'react';
-import { supabase } from '@/integrations/supabase/client';
 import { toast } from 'sonner';
+import type { Album, AlbumSummary, ArtistResponse, Discography, HomeFeed, SearchResponse, Song } from '@api';
+import { callApi, isRetryable, type ApiAction, type ApiData, type ApiParams } from '@/lib/api';
 
-export interface YTSong {
-  videoId: string;
-  title: string;
-  artist: string;
-  duration: string;
-  thumbnail: string;
-  views: string;
-  isOfficial: boolean;
-  isVerified: boolean;
-  score: number;
-}
+export type YTSong = Song;
+export type SearchResult = SearchResponse;
+export type ArtistInfo = ArtistResponse;
+export type { Album, AlbumSummary, Discography, HomeFeed };
 
-export interface SearchResult {
-  query: string;
-  songs: YTSong[];
-  suggestions: string[];
-}
-
-export interface ArtistInfo {
-  artist: string;
-  verified: boolean;
-  channelId: string;
-  topTracks: YTSong[];
-  thumbnail: string;
-}
-
-export interface HomeFeed {
-  trending: YTSong[];
-  genres: { name: string; songs: YTSong[] }[];
-}
+type YTMusicAction = ApiAction<'youtube-music'>;
 
 export const useYTMusicAPI = () => {
   const [isLoading, setIsLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
 
-  const callYTMusic = useCallback(async (action: string, params: Record<string, any> = {}, retries = 2) => {
+  const callYTMusic = useCallback(async <A extends YTMusicAction>(
+    action: A,
+    params?: ApiParams<'youtube-music', A>,
+    retries = 2
+  ): Promise<ApiData<'youtube-music', A> | null> => {
     setIsLoading(true);
     setError(null);
 
     for (let attempt = 0; attempt <= retries; attempt++) {
       try {
-        const { data, error: fnError } = await supabase.functions.invoke('youtube-music', {
-          body: { action, ...params }
-        });
-
-        if (fnError) {
-          throw new Error(fnError.message);
-        }
-
-        if (data?.error) {
-          throw new Error(data.error);
-        }
-
+        const data = await callApi('youtube-music', action, params);
         setIsLoading(false);
-        return data?.data;
+        return data;
       } catch (err) {
         const message = err instanceof Error ? err.message : 'Failed to fetch music';
         
-        if (attempt === retries) {
+        if (attempt === retries || !isRetryable(err)) {
           setError(message);
           console.error('[YTMusic]', message);
           setIsLoading(false);
@@ -77,9 +47,9 @@ export const useYTMusicAPI = () => {
     return null;
   }, []);
 
-  // Search for songs
-  const search = useCallback(async (query: string, limit?: number): Promise<SearchResult | null> => {
-    const result = await callYTMusic('search', { query, limit });
+  // Search for songs, and albums too when asked
+  const search = useCallback(async (query: string, limit?: number, albums?: boolean): Promise<SearchResult | null> => {
+    const result = await callYTMusic('search', { query, limit, albums });
     return result;
   }, [callYTMusic]);
 
@@ -107,6 +77,20 @@ export const useYTMusicAPI = () => {
     return result;
   }, [callYTMusic]);
 
+  // Get an album's tracks, by playlist id or by title and artist
+  const getAlbum = useCallback(async (
+    album: { playlistId?: string; title?: string; artist?: string }
+  ): Promise<Album | null> => {
+    const result = await callYTMusic('album', album);
+    return result;
+  }, [callYTMusic]);
+
+  // Get an artist's albums and singles, by channel or by name
+  const getDiscography = useCallback(async (channelId?: string, artist?: string): Promise<Discography | null> => {
+    const result = await callYTMusic('artist_discography', { channelId, artist });
+    return result;
+  }, [callYTMusic]);
+
   // Get home feed
   const getHomeFeed = useCallback(async (): Promise<HomeFeed | null> => {
     const result = await callYTMusic('home');
@@ -130,6 +114,8 @@ export const useYTMusicAPI = () => {
     getTrending,
     getRelated,
     getArtist,
+    getAlbum,
+    getDiscography,
     getHomeFeed,
     toVideoFormat,
   };
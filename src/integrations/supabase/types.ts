@@ -14,6 +14,60 @@ export type Database = {
   }
   public: {
     Tables: {
+      edge_cache: {
+        Row: {
+          etag: string
+          fresh_until: string
+          key: string
+          stale_until: string
+          stored_at: string
+          value: Json
+        }
+        Insert: {
+          etag: string
+          fresh_until: string
+          key: string
+          stale_until: string
+          stored_at?: string
+          value: Json
+        }
+        Update: {
+          etag?: string
+          fresh_until?: string
+          key?: string
+          stale_until?: string
+          stored_at?: string
+          value?: Json
+        }
+        Relationships: []
+      }
+      equalizer_presets: {
+        Row: {
+          created_at: string
+          gains: number[]
+          id: string
+          name: string
+          preamp: number
+          user_id: string
+        }
+        Insert: {
+          created_at?: string
+          gains: number[]
+          id?: string
+          name: string
+          preamp?: number
+          user_id: string
+        }
+        Update: {
+          created_at?: string
+          gains?: number[]
+          id?: string
+          name?: string
+          preamp?: number
+          user_id?: string
+        }
+        Relationships: []
+      }
       liked_songs: {
         Row: {
           channel_title: string | null
@@ -50,8 +104,13 @@ export type Database = {
       listening_history: {
         Row: {
           channel_title: string | null
+          complete_count: number
           duration: string | null
+          genre: string | null
           id: string
+          last_listened_ratio: number | null
+          listened_total: number
+          mood: string | null
           play_count: number | null
           played_at: string
           skip_count: number | null
@@ -62,8 +121,13 @@ export type Database = {
         }
         Insert: {
           channel_title?: string | null
+          complete_count?: number
           duration?: string | null
+          genre?: string | null
           id?: string
+          last_listened_ratio?: number | null
+          listened_total?: number
+          mood?: string | null
           play_count?: number | null
           played_at?: string
           skip_count?: number | null
@@ -74,8 +138,13 @@ export type Database = {
         }
         Update: {
           channel_title?: string | null
+          complete_count?: number
           duration?: string | null
+          genre?: string | null
           id?: string
+          last_listened_ratio?: number | null
+          listened_total?: number
+          mood?: string | null
           play_count?: number | null
           played_at?: string
           skip_count?: number | null
@@ -86,12 +155,67 @@ export type Database = {
         }
         Relationships: []
       }
+      play_events: {
+        Row: {
+          channel_title: string | null
+          created_at: string
+          duration: number | null
+          event_type: string
+          from_position: number | null
+          id: string
+          listened_seconds: number
+          occurred_at: string
+          play_id: string
+          position: number
+          source: string
+          title: string | null
+          user_id: string
+          video_id: string
+        }
+        Insert: {
+          channel_title?: string | null
+          created_at?: string
+          duration?: number | null
+          event_type: string
+          from_position?: number | null
+          id: string
+          listened_seconds?: number
+          occurred_at: string
+          play_id: string
+          position: number
+          source: string
+          title?: string | null
+          user_id: string
+          video_id: string
+        }
+        Update: {
+          channel_title?: string | null
+          created_at?: string
+          duration?: number | null
+          event_type?: string
+          from_position?: number | null
+          id?: string
+          listened_seconds?: number
+          occurred_at?: string
+          play_id?: string
+          position?: number
+          source?: string
+          title?: string | null
+          user_id?: string
+          video_id?: string
+        }
+        Relationships: []
+      }
       playlist_songs: {
         Row: {
           added_at: string
+          bpm: number | null
           channel_title: string | null
           duration: string | null
+          genre: string | null
           id: string
+          mood: string | null
+          musical_key: string | null
           playlist_id: string
           position: number
           thumbnail: string | null
@@ -100,9 +224,13 @@ export type Database = {
         }
         Insert: {
           added_at?: string
+          bpm?: number | null
           channel_title?: string | null
           duration?: string | null
+          genre?: string | null
           id?: string
+          mood?: string | null
+          musical_key?: string | null
           playlist_id: string
           position?: number
           thumbnail?: string | null
@@ -111,9 +239,13 @@ export type Database = {
         }
         Update: {
           added_at?: string
+          bpm?: number | null
           channel_title?: string | null
           duration?: string | null
+          genre?: string | null
           id?: string
+          mood?: string | null
+          musical_key?: string | null
           playlist_id?: string
           position?: number
           thumbnail?: string | null
@@ -135,6 +267,9 @@ export type Database = {
           cover_url: string | null
           created_at: string
           description: string | null
+          generated: boolean
+          generated_kind: string | null
+          generated_seed: string | null
           id: string
           is_public: boolean | null
           name: string
@@ -145,6 +280,9 @@ export type Database = {
           cover_url?: string | null
           created_at?: string
           description?: string | null
+          generated?: boolean
+          generated_kind?: string | null
+          generated_seed?: string | null
           id?: string
           is_public?: boolean | null
           name: string
@@ -155,6 +293,9 @@ export type Database = {
           cover_url?: string | null
           created_at?: string
           description?: string | null
+          generated?: boolean
+          generated_kind?: string | null
+          generated_seed?: string | null
           id?: string
           is_public?: boolean | null
           name?: string
@@ -193,6 +334,24 @@ export type Database = {
         }
         Relationships: []
       }
+      rate_limit_buckets: {
+        Row: {
+          bucket_key: string
+          tokens: number
+          updated_at: string
+        }
+        Insert: {
+          bucket_key: string
+          tokens: number
+          updated_at?: string
+        }
+        Update: {
+          bucket_key?: string
+          tokens?: number
+          updated_at?: string
+        }
+        Relationships: []
+      }
       sync_events: {
         Row: {
           created_at: string
@@ -329,6 +488,36 @@ export type Database = {
         }
         Relationships: []
       }
+      track_bookmarks: {
+        Row: {
+          created_at: string
+          id: string
+          name: string
+          position: number
+          user_id: string
+          video: Json
+          video_id: string
+        }
+        Insert: {
+          created_at?: string
+          id?: string
+          name: string
+          position: number
+          user_id: string
+          video: Json
+          video_id: string
+        }
+        Update: {
+          created_at?: string
+          id?: string
+          name?: string
+          position?: number
+          user_id?: string
+          video?: Json
+          video_id?: string
+        }
+        Relationships: []
+      }
       user_roles: {
         Row: {
           id: string
@@ -352,7 +541,33 @@ export type Database = {
       [_ in never]: never
     }
     Functions: {
-      [_ in never]: never
+      consume_rate_limit: {
+        Args: {
+          p_capacity: number
+          p_cost: number
+          p_key: string
+          p_refill_per_second: number
+        }
+        Returns: {
+          allowed: boolean
+          remaining: number
+          reset_ms: number
+        }[]
+      }
+      record_listen: {
+        Args: {
+          p_channel_title: string
+          p_duration: string
+          p_genre: string
+          p_mood: string
+          p_ratio: number
+          p_skipped: boolean
+          p_thumbnail: string
+          p_title: string
+          p_video_id: string
+        }
+        Returns: undefined
+      }
     }
     Enums: {
       app_role: "user" | "premium"
@@ -0,0 +1,129 @@
+// Typed edge function calls, checked against the shared contracts
+// (supabase/functions/_shared/api). Params are validated before sending and
+// responses on arrival; failures throw an ApiError with the server's code.
+import { FunctionsHttpError } from '@supabase/supabase-js';
+import type { z } from 'zod';
+import { supabase } from '@/integrations/supabase/client';
+import {
+  API_CONTRACTS,
+  API_ERROR_STATUS,
+  API_VERSION,
+  apiErrorBodySchema,
+  type ActionContract,
+  type ApiContracts,
+  type ApiErrorCode,
+} from '@api';
+
+export type ApiFunction = keyof ApiContracts;
+export type ApiAction<F extends ApiFunction> = keyof ApiContracts[F] & string;
+
+type ContractOf<F extends ApiFunction, A extends ApiAction<F>> = ApiContracts[F][A];
+
+export type ApiParams<F extends ApiFunction, A extends ApiAction<F>> =
+  ContractOf<F, A> extends ActionContract<infer Request, z.ZodTypeAny> ? z.input<Request> : never;
+
+export type ApiData<F extends ApiFunction, A extends ApiAction<F>> =
+  ContractOf<F, A> extends ActionContract<z.ZodTypeAny, infer Response> ? z.output<Response> : never;
+
+export interface ApiError extends Error {
+  code: ApiErrorCode;
+  status: number;
+  details?: unknown;
+}
+
+export const apiError = (code: ApiErrorCode, message: string, status = API_ERROR_STATUS[code], details?: unknown): ApiError =>
+  Object.assign(new Error(message), { name: 'ApiError', code, status, details });
+
+export const isApiError = (error: unknown): error is ApiError =>
+  error instanceof Error && error.name === 'ApiError';
+
+// Server and network trouble is worth retrying; bad requests aren't
+export const isRetryable = (error: unknown) =>
+  !isApiError(error) || (error.status >= 500 && error.code !== 'INVALID_RESPONSE');
+
+// Structured error from a non-2xx response, when the body has one
+async function toApiError(fnError: Error): Promise<ApiError> {
+  if (fnError instanceof FunctionsHttpError && fnError.context instanceof Response) {
+    const response: Response = fnError.context;
+    const body = apiErrorBodySchema.safeParse(await response.json().catch(() => null));
+    if (body.success) {
+      return apiError(body.data.code, body.data.error, response.status, body.data.details);
+    }
+    return apiError(response.status >= 500 ? 'UPSTREAM_ERROR' : 'INVALID_REQUEST', fnError.message, response.status);
+  }
+  return apiError('UPSTREAM_ERROR', fnError.message, 0);
+}
+
+// Functions that answer GETs with an ETag (see _shared/cache.ts). Their calls
+// go out as GETs, revalidated with If-None-Match against the last response.
+const CACHEABLE_FUNCTIONS = new Set<ApiFunction>(['music-catalog', 'youtube-music']);
+type FunctionReply = { data?: unknown } | null;
+
+// Last reply per GET, oldest dropped first
+const MAX_ETAGS = 200;
+const etagCache = new Map<string, { etag: string; data: FunctionReply }>();
+
+// Strings go as they are, everything else as JSON, the way readParams reads it
+const toQuery = (params: Record<string, unknown>) => {
+  const query = new URLSearchParams();
+  for (const [name, value] of Object.entries(params)) {
+    if (value === undefined) continue;
+    query.set(name, typeof value === 'string' ? value : JSON.stringify(value));
+  }
+  return query.toString();
+};
+
+// The function's JSON reply, or throws its error
+async function invokeCached(fn: ApiFunction, params: Record<string, unknown>): Promise<FunctionReply> {
+  const path = `${fn}?${toQuery(params)}`;
+  const cached = etagCache.get(path);
+
+  const { data, error, response } = await supabase.functions.invoke(path, {
+    method: 'GET',
+    headers: cached ? { 'If-None-Match': cached.etag } : undefined,
+  });
+  if (error) {
+    if (cached && error instanceof FunctionsHttpError && error.context instanceof Response && error.context.status === 304) {
+      return cached.data;
+    }
+    throw await toApiError(error);
+  }
+
+  const etag = response?.headers.get('ETag');
+  etagCache.delete(path);
+  if (etag) {
+    etagCache.set(path, { etag, data });
+    if (etagCache.size > MAX_ETAGS) etagCache.delete(etagCache.keys().next().value as string);
+  }
+  return data;
+}
+
+export async function callApi<F extends ApiFunction, A extends ApiAction<F>>(
+  fn: F,
+  action: A,
+  ...[params]: Record<string, never> extends ApiParams<F, A> ? [params?: ApiParams<F, A>] : [params: ApiParams<F, A>]
+): Promise<ApiData<F, A>> {
+  const contract = API_CONTRACTS[fn][action] as ActionContract;
+
+  const request = contract.request.safeParse(params ?? {});
+  if (!request.success) {
+    throw apiError('INVALID_REQUEST', `${fn}/${action}: ${request.error.issues[0]?.message}`, 400, request.error.issues);
+  }
+
+  const body = { version: API_VERSION, action, ...request.data };
+  let data: FunctionReply;
+  if (CACHEABLE_FUNCTIONS.has(fn)) {
+    data = await invokeCached(fn, body);
+  } else {
+    const result = await supabase.functions.invoke(fn, { body });
+    if (result.error) throw await toApiError(result.error);
+    data = result.data;
+  }
+
+  const response = contract.response.safeParse(data?.data);
+  if (!response.success) {
+    console.error(`[API] ${fn}/${action} response doesn't match the contract:`, response.error.issues);
+    throw apiError('INVALID_RESPONSE', `Unexpected response from ${fn}`, 500, response.error.issues);
+  }
+  return response.data;
+}
@@ -0,0 +1,114 @@
+// Local audio library (desktop build only)
+// The Electron preload exposes window.xtDesktop.library; scanned tracks are
+// indexed in IndexedDB so the library loads instantly on the next launch.
+import type { Video } from '@/contexts/AudioPlayerContext';
+
+// Shape returned by the main process (electron-library.mjs)
+export interface LocalTrack {
+  id: string;
+  path: string;
+  folder: string;
+  url: string; // xt-local:// URL the audio element can stream
+  title: string;
+  artist: string;
+  album?: string;
+  genre?: string;
+  trackNumber?: number;
+  art?: string; // xt-local:// URL of the embedded cover
+  size: number;
+  modifiedAt: number;
+}
+
+export interface DesktopLibraryBridge {
+  getFolders: () => Promise<string[]>;
+  addFolders: () => Promise<string[]>;
+  removeFolder: (folder: string) => Promise<string[]>;
+  scan: () => Promise<LocalTrack[]>;
+}
+
+declare global {
+  interface Window {
+    xtDesktop?: {
+      library: DesktopLibraryBridge;
+    };
+  }
+}
+
+const DB_NAME = 'xtplayer-library';
+const DB_VERSION = 2;
+const TRACKS_STORE = 'tracks';
+
+export const getDesktopLibrary = (): DesktopLibraryBridge | null => window.xtDesktop?.library ?? null;
+
+const openDatabase = () => new Promise<IDBDatabase>((resolve, reject) => {
+  const request = indexedDB.open(DB_NAME, DB_VERSION);
+  request.onupgradeneeded = (event) => {
+    const db = request.result;
+    if (!db.objectStoreNames.contains(TRACKS_STORE)) {
+      const store = db.createObjectStore(TRACKS_STORE, { keyPath: 'id' });
+      store.createIndex('folder', 'folder');
+    } else if (event.oldVersion < 2) {
+      // Version 1 kept covers inline as data URLs; they return on the next scan
+      const cursorRequest = request.transaction!.objectStore(TRACKS_STORE).openCursor();
+      cursorRequest.onsuccess = () => {
+        const cursor = cursorRequest.result;
+        if (!cursor) return;
+        cursor.update({ ...cursor.value, art: undefined });
+        cursor.continue();
+      };
+    }
+  };
+  request.onsuccess = () => resolve(request.result);
+  request.onerror = () => reject(request.error);
+});
+
+const requestToPromise = <T>(request: IDBRequest<T>) => new Promise<T>((resolve, reject) => {
+  request.onsuccess = () => resolve(request.result);
+  request.onerror = () => reject(request.error);
+});
+
+export const loadIndexedTracks = async (): Promise<LocalTrack[]> => {
+  const db = await openDatabase();
+  try {
+    const tx = db.transaction(TRACKS_STORE, 'readonly');
+    return await requestToPromise(tx.objectStore(TRACKS_STORE).getAll() as IDBRequest<LocalTrack[]>);
+  } finally {
+    db.close();
+  }
+};
+
+// Replace the whole index with a fresh scan
+export const saveIndexedTracks = async (tracks: LocalTrack[]) => {
+  const db = await openDatabase();
+  try {
+    const tx = db.transaction(TRACKS_STORE, 'readwrite');
+    const store = tx.objectStore(TRACKS_STORE);
+    store.clear();
+    tracks.forEach(track => store.put(track));
+    await new Promise<void>((resolve, reject) => {
+      tx.oncomplete = () => resolve();
+      tx.onerror = () => reject(tx.error);
+    });
+  } finally {
+    db.close();
+  }
+};
+
+export const sortLocalTracks = (tracks: LocalTrack[]) =>
+  [...tracks].sort((a, b) =>
+    a.artist.localeCompare(b.artist) ||
+    (a.album || '').localeCompare(b.album || '') ||
+    (a.trackNumber ?? 0) - (b.trackNumber ?? 0) ||
+    a.title.localeCompare(b.title)
+  );
+
+// Convert a LocalTrack to Video format for the player
+export const localTrackToVideo = (track: LocalTrack): Video => ({
+  id: `local_${track.id}`,
+  title: track.title,
+  thumbnail: track.art || '/placeholder.svg',
+  channelTitle: track.artist,
+  genre: track.genre?.toLowerCase(),
+  streamUrl: track.url,
+  source: 'local',
+});
@@ -0,0 +1,267 @@
+// Offline downloads for direct-stream tracks (Jamendo)
+// Audio blobs live in IndexedDB next to a small metadata record. The total is
+// kept under a user-chosen cap (and the browser's quota) by evicting the
+// least recently played downloads first. Only tracks whose licence allows
+// downloading are stored; YouTube audio is never cached.
+import type { Video } from '@/contexts/AudioPlayerContext';
+
+export interface OfflineTrack {
+  id: string;
+  video: Video;
+  size: number; // bytes
+  mimeType: string;
+  license?: string;
+  downloadedAt: number;
+  lastPlayedAt: number;
+}
+
+const DB_NAME = 'xtplayer-offline';
+const DB_VERSION = 1;
+const TRACKS_STORE = 'tracks';
+const AUDIO_STORE = 'audio';
+const LIMIT_KEY = 'offlineStorageLimit';
+const MB = 1024 * 1024;
+// Leave some of the browser quota for everything else the app stores
+const QUOTA_SHARE = 0.8;
+// Blob URLs kept alive at once (current track plus the one fading out)
+const MAX_LIVE_URLS = 2;
+
+export const OFFLINE_LIMITS_MB = [250, 500, 1024, 2048, 4096];
+export const DEFAULT_OFFLINE_LIMIT_MB = 1024;
+
+// Ids with an offline copy, so the player can check synchronously
+const downloadedIds = new Set<string>();
+const liveUrls: string[] = [];
+
+export const isDirectStream = (video: Video) =>
+  video.source === 'jamendo' || video.id.startsWith('free_');
+
+// Licence flag may be unknown for tracks saved before it was tracked
+export const mayDownload = (video: Video) =>
+  isDirectStream(video) && !!video.streamUrl && video.downloadAllowed !== false;
+
+export const hasOfflineCopy = (id: string) => downloadedIds.has(id);
+
+export const formatBytes = (bytes: number) => {
+  if (bytes >= 1024 * MB) return `${(bytes / (1024 * MB)).toFixed(1)} GB`;
+  if (bytes >= MB) return `${(bytes / MB).toFixed(1)} MB`;
+  return `${Math.max(1, Math.round(bytes / 1024))} KB`;
+};
+
+export const getOfflineLimit = (): number => {
+  const stored = parseInt(localStorage.getItem(LIMIT_KEY) || '', 10);
+  return (isFinite(stored) && stored > 0 ? stored : DEFAULT_OFFLINE_LIMIT_MB) * MB;
+};
+
+export const setOfflineLimit = (bytes: number) => {
+  localStorage.setItem(LIMIT_KEY, Math.round(bytes / MB).toString());
+};
+
+const openDatabase = () => new Promise<IDBDatabase>((resolve, reject) => {
+  const request = indexedDB.open(DB_NAME, DB_VERSION);
+  request.onupgradeneeded = () => {
+    const db = request.result;
+    if (!db.objectStoreNames.contains(TRACKS_STORE)) {
+      const store = db.createObjectStore(TRACKS_STORE, { keyPath: 'id' });
+      store.createIndex('lastPlayedAt', 'lastPlayedAt');
+    }
+    if (!db.objectStoreNames.contains(AUDIO_STORE)) {
+      db.createObjectStore(AUDIO_STORE);
+    }
+  };
+  request.onsuccess = () => resolve(request.result);
+  request.onerror = () => reject(request.error);
+});
+
+const requestToPromise = <T>(request: IDBRequest<T>) => new Promise<T>((resolve, reject) => {
+  request.onsuccess = () => resolve(request.result);
+  request.onerror = () => reject(request.error);
+});
+
+const transactionDone = (tx: IDBTransaction) => new Promise<void>((resolve, reject) => {
+  tx.oncomplete = () => resolve();
+  tx.onerror = () => reject(tx.error);
+  tx.onabort = () => reject(tx.error);
+});
+
+export const loadOfflineTracks = async (): Promise<OfflineTrack[]> => {
+  const db = await openDatabase();
+  try {
+    const tx = db.transaction(TRACKS_STORE, 'readonly');
+    const tracks = await requestToPromise(tx.objectStore(TRACKS_STORE).getAll() as IDBRequest<OfflineTrack[]>);
+    downloadedIds.clear();
+    tracks.forEach(t => downloadedIds.add(t.id));
+    return tracks;
+  } finally {
+    db.close();
+  }
+};
+
+export const deleteOfflineTracks = async (ids: string[]) => {
+  if (ids.length === 0) return;
+  const db = await openDatabase();
+  try {
+    const tx = db.transaction([TRACKS_STORE, AUDIO_STORE], 'readwrite');
+    ids.forEach(id => {
+      tx.objectStore(TRACKS_STORE).delete(id);
+      tx.objectStore(AUDIO_STORE).delete(id);
+    });
+    await transactionDone(tx);
+    ids.forEach(id => downloadedIds.delete(id));
+  } finally {
+    db.close();
+  }
+};
+
+// Space the downloads may use: the user's cap, or less if the browser is short
+const getAvailableLimit = async (usedByDownloads: number) => {
+  const limit = getOfflineLimit();
+  if (!navigator.storage?.estimate) return limit;
+  try {
+    const { quota = 0, usage = 0 } = await navigator.storage.estimate();
+    if (!quota) return limit;
+    const otherUsage = Math.max(0, usage - usedByDownloads);
+    return Math.min(limit, quota * QUOTA_SHARE - otherUsage);
+  } catch {
+    return limit;
+  }
+};
+
+// Evict least recently played downloads until `bytes` more fit
+// Returns the ids that were removed
+export const makeRoomFor = async (bytes: number, keep: Set<string> = new Set()): Promise<string[]> => {
+  const tracks = await loadOfflineTracks();
+  let used = tracks.reduce((sum, t) => sum + t.size, 0);
+  const limit = await getAvailableLimit(used);
+  if (bytes > limit) {
+    throw new Error(`Not enough storage (${formatBytes(bytes)} needed, ${formatBytes(Math.max(0, limit))} available)`);
+  }
+
+  const evicted: string[] = [];
+  const byAge = tracks
+    .filter(t => !keep.has(t.id))
+    .sort((a, b) => a.lastPlayedAt - b.lastPlayedAt);
+  for (const track of byAge) {
+    if (used + bytes <= limit) break;
+    evicted.push(track.id);
+    used -= track.size;
+  }
+  if (used + bytes > limit) {
+    throw new Error('Not enough storage for this download');
+  }
+
+  await deleteOfflineTracks(evicted);
+  if (evicted.length > 0) {
+    console.log(`[Offline] Evicted ${evicted.length} downloads to free space`);
+  }
+  return evicted;
+};
+
+// Stream a track into IndexedDB, reporting progress from 0 to 1
+export const downloadTrack = async (
+  video: Video,
+  onProgress: (progress: number) => void,
+  keep?: Set<string>
+): Promise<{ track: OfflineTrack; evicted: string[] }> => {
+  if (!video.streamUrl) {
+    throw new Error(`"${video.title}" has no direct stream`);
+  }
+
+  const response = await fetch(video.streamUrl);
+  if (!response.ok) {
+    throw new Error(`Download failed (${response.status})`);
+  }
+
+  const total = parseInt(response.headers.get('content-length') || '0', 10);
+  const mimeType = response.headers.get('content-type') || 'audio/mpeg';
+  // Make room up front when the size is known so a full cache fails fast
+  let evicted = total ? await makeRoomFor(total, keep) : [];
+
+  let blob: Blob;
+  if (response.body) {
+    const reader = response.body.getReader();
+    const chunks: Uint8Array[] = [];
+    let received = 0;
+    for (;;) {
+      const { done, value } = await reader.read();
+      if (done) break;
+      chunks.push(value);
+      received += value.length;
+      if (total) onProgress(Math.min(1, received / total));
+    }
+    blob = new Blob(chunks, { type: mimeType });
+  } else {
+    blob = await response.blob();
+  }
+  onProgress(1);
+
+  if (!total) {
+    evicted = await makeRoomFor(blob.size, keep);
+  }
+
+  const now = Date.now();
+  const track: OfflineTrack = {
+    id: video.id,
+    video: { ...video, downloadAllowed: true },
+    size: blob.size,
+    mimeType,
+    license: video.license,
+    downloadedAt: now,
+    lastPlayedAt: now,
+  };
+
+  const db = await openDatabase();
+  try {
+    const tx = db.transaction([TRACKS_STORE, AUDIO_STORE], 'readwrite');
+    tx.objectStore(AUDIO_STORE).put(blob, track.id);
+    tx.objectStore(TRACKS_STORE).put(track);
+    await transactionDone(tx);
+  } catch (e) {
+    if (e instanceof DOMException && e.name === 'QuotaExceededError') {
+      throw new Error('The browser ran out of storage');
+    }
+    throw e;
+  } finally {
+    db.close();
+  }
+
+  downloadedIds.add(track.id);
+  // Ask the browser not to clear downloads under storage pressure
+  navigator.storage?.persist?.().catch(() => undefined);
+  return { track, evicted };
+};
+
+// Record a play so eviction keeps recently played downloads
+export const markOfflinePlayed = async (id: string) => {
+  if (!downloadedIds.has(id)) return;
+  const db = await openDatabase();
+  try {
+    const tx = db.transaction(TRACKS_STORE, 'readwrite');
+    const store = tx.objectStore(TRACKS_STORE);
+    const track = await requestToPromise(store.get(id) as IDBRequest<OfflineTrack | undefined>);
+    if (track) store.put({ ...track, lastPlayedAt: Date.now() });
+    await transactionDone(tx);
+  } finally {
+    db.close();
+  }
+};
+
+// Blob URL for a downloaded track, or null when there is no copy
+export const getOfflineUrl = async (id: string): Promise<string | null> => {
+  if (!downloadedIds.has(id)) return null;
+  const db = await openDatabase();
+  try {
+    const tx = db.transaction(AUDIO_STORE, 'readonly');
+    const blob = await requestToPromise(tx.objectStore(AUDIO_STORE).get(id) as IDBRequest<Blob | undefined>);
+    if (!blob) return null;
+
+    const url = URL.createObjectURL(blob);
+    liveUrls.push(url);
+    while (liveUrls.length > MAX_LIVE_URLS) {
+      URL.revokeObjectURL(liveUrls.shift()!);
+    }
+    return url;
+  } finally {
+    db.close();
+  }
+};
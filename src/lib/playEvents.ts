@@ -0,0 +1,186 @@
+// Play events for signed-in users
+// Events are queued in localStorage and flushed to the play_events table in
+// batches; failed flushes (offline, server errors) are retried with backoff.
+// Each event remembers its account, so a queue built up offline is never
+// uploaded for whoever signs in next.
+import { supabase } from '@/integrations/supabase/client';
+import type { Video } from '@/contexts/AudioPlayerContext';
+
+export type PlayEventType = 'start' | 'pause' | 'resume' | 'seek' | 'skip' | 'end';
+
+// Where playback of a track was started from
+export type PlaySource = 'search' | 'autoplay' | 'playlist' | 'sync' | 'radio' | 'library' | 'browse';
+
+export interface PlayEvent {
+  id: string;
+  userId: string; // account signed in when it happened
+  playId: string;
+  videoId: string;
+  title: string;
+  channelTitle: string;
+  type: PlayEventType;
+  position: number; // seconds into the track
+  fromPosition?: number; // seeks only
+  listenedSeconds: number; // heard so far in this play
+  duration?: number;
+  source: PlaySource;
+  occurredAt: string;
+}
+
+const QUEUE_KEY = 'playEventQueue';
+const MAX_QUEUED = 1000;
+const BATCH_SIZE = 50;
+const FLUSH_THRESHOLD = 20;
+const FLUSH_INTERVAL = 30000; // ms
+const MIN_RETRY_DELAY = 5000; // ms
+const MAX_RETRY_DELAY = 5 * 60 * 1000; // ms
+
+let queue: PlayEvent[] | null = null;
+let isFlushing = false;
+let failedAttempts = 0;
+let retryAt = 0;
+// Kept up to date by startPlayEventSync
+let userId: string | null = null;
+
+const round = (seconds: number) => Math.round(seconds * 10) / 10;
+
+const getQueue = (): PlayEvent[] => {
+  if (queue) return queue;
+  const stored = localStorage.getItem(QUEUE_KEY);
+  queue = [];
+  if (stored) {
+    try {
+      queue = JSON.parse(stored);
+    } catch (e) {
+      console.error('Failed to parse play event queue:', e);
+    }
+  }
+  return queue!;
+};
+
+const saveQueue = () => {
+  // Keep the newest events if the queue has been offline for a long time
+  queue = getQueue().slice(-MAX_QUEUED);
+  try {
+    localStorage.setItem(QUEUE_KEY, JSON.stringify(queue));
+  } catch (e) {
+    // Storage full; the in-memory queue still gets flushed
+    console.error('Failed to save play event queue:', e);
+  }
+};
+
+export const createPlayId = () => crypto.randomUUID();
+
+export const trackPlayEvent = (
+  type: PlayEventType,
+  play: { id: string; video: Video; source: PlaySource; listenedSeconds: number },
+  position: number,
+  details: { fromPosition?: number; duration?: number } = {}
+) => {
+  // Events are only kept for accounts
+  if (!userId) return;
+
+  getQueue().push({
+    id: crypto.randomUUID(),
+    userId,
+    playId: play.id,
+    videoId: play.video.id,
+    title: play.video.title,
+    channelTitle: play.video.channelTitle,
+    type,
+    position: round(Math.max(0, position)),
+    fromPosition: details.fromPosition !== undefined ? round(Math.max(0, details.fromPosition)) : undefined,
+    listenedSeconds: round(play.listenedSeconds),
+    duration: details.duration && isFinite(details.duration) ? round(details.duration) : undefined,
+    source: play.source,
+    occurredAt: new Date().toISOString(),
+  });
+  saveQueue();
+
+  if (getQueue().length >= FLUSH_THRESHOLD) {
+    flushPlayEvents();
+  }
+};
+
+export const flushPlayEvents = async () => {
+  const pending = getQueue();
+  if (isFlushing || pending.length === 0 || !navigator.onLine || Date.now() < retryAt) return;
+
+  isFlushing = true;
+  try {
+    const { data: { session } } = await supabase.auth.getSession();
+    // Events are only kept for accounts
+    if (!session) {
+      queue = [];
+      saveQueue();
+      return;
+    }
+    // Another account's events (or ones from before events had an account) are dropped
+    const own = getQueue().filter(event => event.userId === session.user.id);
+    if (own.length !== getQueue().length) {
+      queue = own;
+      saveQueue();
+    }
+
+    while (getQueue().length > 0) {
+      const batch = getQueue().slice(0, BATCH_SIZE);
+      const { error } = await supabase
+        .from('play_events')
+        .upsert(batch.map(event => ({
+          id: event.id,
+          user_id: session.user.id,
+          play_id: event.playId,
+          video_id: event.videoId,
+          title: event.title,
+          channel_title: event.channelTitle,
+          event_type: event.type,
+          position: event.position,
+          from_position: event.fromPosition ?? null,
+          listened_seconds: event.listenedSeconds,
+          duration: event.duration ?? null,
+          source: event.source,
+          occurred_at: event.occurredAt,
+        })), { onConflict: 'id', ignoreDuplicates: true });
+      if (error) throw error;
+
+      const sent = new Set(batch.map(e => e.id));
+      queue = getQueue().filter(e => !sent.has(e.id));
+      saveQueue();
+    }
+    failedAttempts = 0;
+    retryAt = 0;
+  } catch (e) {
+    failedAttempts++;
+    const delay = Math.min(MAX_RETRY_DELAY, MIN_RETRY_DELAY * 2 ** (failedAttempts - 1));
+    retryAt = Date.now() + delay;
+    console.error(`[PlayEvents] Flush failed, retrying in ${Math.round(delay / 1000)}s:`, e);
+  } finally {
+    isFlushing = false;
+  }
+};
+
+// Flush periodically, when the connection returns and when the page is hidden
+export const startPlayEventSync = () => {
+  const { data: { subscription } } = supabase.auth.onAuthStateChange((_event, session) => {
+    userId = session?.user.id ?? null;
+  });
+  const interval = setInterval(flushPlayEvents, FLUSH_INTERVAL);
+  const handleOnline = () => {
+    retryAt = 0;
+    flushPlayEvents();
+  };
+  const handleVisibility = () => {
+    if (document.hidden) flushPlayEvents();
+  };
+
+  window.addEventListener('online', handleOnline);
+  document.addEventListener('visibilitychange', handleVisibility);
+  flushPlayEvents();
+
+  return () => {
+    subscription.unsubscribe();
+    clearInterval(interval);
+    window.removeEventListener('online', handleOnline);
+    document.removeEventListener('visibilitychange', handleVisibility);
+  };
+};
@@ -0,0 +1,162 @@
+// Shared Web Audio graph for direct-audio playback:
+// media elements -> preamp -> 10-band EQ -> limiter -> analyser -> speakers
+// The preamp carries both the EQ preamp and the track's normalization gain.
+// One AudioContext for the whole app; the visualizer reads from the same analyser.
+// A second, unsmoothed analyser taps the limiter for audio-feature extraction.
+import { EQ_BANDS, EqualizerSettings, DEFAULT_EQUALIZER } from './equalizer';
+
+export interface AudioGraph {
+  context: AudioContext;
+  preamp: GainNode;
+  filters: BiquadFilterNode[];
+  limiter: DynamicsCompressorNode;
+  analyser: AnalyserNode;
+  featureAnalyser: AnalyserNode;
+}
+
+const RAMP_TIME_CONSTANT = 0.05;
+
+let graph: AudioGraph | null = null;
+let equalizer: EqualizerSettings = DEFAULT_EQUALIZER;
+let trackGain = 1;
+// A media element can only be wrapped in a source node once
+const sources = new WeakMap<HTMLMediaElement, MediaElementAudioSourceNode>();
+// Elements that must stay outside the graph (their audio isn't readable)
+const unrouted = new WeakSet<HTMLMediaElement>();
+
+const dbToGain = (db: number) => Math.pow(10, db / 20);
+
+const applyToGraph = (g: AudioGraph, settings: EqualizerSettings) => {
+  const now = g.context.currentTime;
+  const active = settings.enabled;
+  // Normalization boosts can push peaks past full scale too
+  const limiting = active || trackGain > 1;
+
+  g.preamp.gain.setTargetAtTime((active ? dbToGain(settings.preamp) : 1) * trackGain, now, RAMP_TIME_CONSTANT);
+  g.filters.forEach((filter, i) => {
+    filter.gain.setTargetAtTime(active ? settings.gains[i] || 0 : 0, now, RAMP_TIME_CONSTANT);
+  });
+
+  // Brickwall-ish limiter while anything can add gain; transparent otherwise
+  g.limiter.threshold.setTargetAtTime(limiting ? -1 : 0, now, RAMP_TIME_CONSTANT);
+  g.limiter.ratio.setTargetAtTime(limiting ? 20 : 1, now, RAMP_TIME_CONSTANT);
+};
+
+const createGraph = (): AudioGraph => {
+  const AudioContextClass = window.AudioContext || (window as unknown as { webkitAudioContext: typeof AudioContext }).webkitAudioContext;
+  const context = new AudioContextClass();
+
+  const preamp = context.createGain();
+
+  const filters = EQ_BANDS.map((frequency, i) => {
+    const filter = context.createBiquadFilter();
+    filter.type = i === 0 ? 'lowshelf' : i === EQ_BANDS.length - 1 ? 'highshelf' : 'peaking';
+    filter.frequency.value = frequency;
+    filter.Q.value = 1.4;
+    filter.gain.value = 0;
+    return filter;
+  });
+
+  const limiter = context.createDynamicsCompressor();
+  limiter.knee.value = 0;
+  limiter.attack.value = 0.003;
+  limiter.release.value = 0.25;
+
+  const analyser = context.createAnalyser();
+  analyser.fftSize = 256;
+  analyser.smoothingTimeConstant = 0.8;
+
+  // Larger window for frequency resolution, no smoothing so onsets stay sharp
+  const featureAnalyser = context.createAnalyser();
+  featureAnalyser.fftSize = 2048;
+  featureAnalyser.smoothingTimeConstant = 0;
+
+  const chain: AudioNode[] = [preamp, ...filters, limiter, analyser, context.destination];
+  for (let i = 0; i < chain.length - 1; i++) {
+    chain[i].connect(chain[i + 1]);
+  }
+  limiter.connect(featureAnalyser);
+
+  const created = { context, preamp, filters, limiter, analyser, featureAnalyser };
+  applyToGraph(created, equalizer);
+  return created;
+};
+
+export const getAudioGraph = (): AudioGraph => {
+  if (!graph) {
+    graph = createGraph();
+  }
+  return graph;
+};
+
+// Browsers start contexts suspended until a user gesture
+export const resumeAudioGraph = () => {
+  if (graph?.context.state === 'suspended') {
+    graph.context.resume();
+  }
+};
+
+// Route a media element through the graph (no-op if already connected)
+export const connectMediaElement = (element: HTMLMediaElement) => {
+  if (sources.has(element) || unrouted.has(element)) return;
+
+  try {
+    const g = getAudioGraph();
+    const source = g.context.createMediaElementSource(element);
+    source.connect(g.preamp);
+    sources.set(element, source);
+    element.addEventListener('play', resumeAudioGraph);
+  } catch (error) {
+    console.error('[AudioGraph] Failed to connect media element:', error);
+  }
+};
+
+// Audio element factory for the HTML5 engine. Cross-origin audio only
+// reaches the graph when fetched in CORS mode; without it the source node
+// outputs silence.
+export const createGraphAudioElement = () => {
+  const element = new Audio();
+  element.crossOrigin = 'anonymous';
+  connectMediaElement(element);
+  return element;
+};
+
+// For hosts that don't send CORS headers: plays straight to the speakers,
+// so EQ, normalization and feature capture don't apply
+export const createDirectAudioElement = () => {
+  const element = new Audio();
+  unrouted.add(element);
+  return element;
+};
+
+// A separate analyser after the limiter, so each visualizer keeps its own
+// FFT size and smoothing. Disconnect it when done.
+export const createGraphAnalyser = (fftSize: number, smoothingTimeConstant: number) => {
+  const g = getAudioGraph();
+  const analyser = g.context.createAnalyser();
+  analyser.fftSize = fftSize;
+  analyser.smoothingTimeConstant = smoothingTimeConstant;
+  g.limiter.connect(analyser);
+  return analyser;
+};
+
+export const disconnectGraphAnalyser = (analyser: AnalyserNode) => {
+  graph?.limiter.disconnect(analyser);
+};
+
+// Normalization gain (linear) for the track playing through the graph.
+// Unlike element volume it isn't capped at 1, so quiet tracks can be raised.
+export const setGraphTrackGain = (gain: number) => {
+  trackGain = gain;
+  if (graph) {
+    applyToGraph(graph, equalizer);
+  }
+};
+
+// Remembered so a graph created later starts with the current curve
+export const setGraphEqualizer = (settings: EqualizerSettings) => {
+  equalizer = settings;
+  if (graph) {
+    applyToGraph(graph, settings);
+  }
+};
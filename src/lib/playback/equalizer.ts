@@ -0,0 +1,48 @@
+// 10-band graphic equalizer definitions and built-in presets
+
+// Band centre frequencies in Hz (ISO octave bands)
+export const EQ_BANDS = [31, 62, 125, 250, 500, 1000, 2000, 4000, 8000, 16000];
+export const EQ_GAIN_RANGE = 12; // ±dB per band and for the preamp
+
+export interface EqualizerPreset {
+  id: string;
+  name: string;
+  gains: number[]; // dB, one per band
+  preamp: number; // dB
+  custom?: boolean;
+}
+
+export interface EqualizerSettings {
+  enabled: boolean;
+  presetId: string;
+  gains: number[];
+  preamp: number;
+}
+
+export const EQ_PRESETS: EqualizerPreset[] = [
+  { id: 'flat', name: 'Flat', gains: [0, 0, 0, 0, 0, 0, 0, 0, 0, 0], preamp: 0 },
+  { id: 'bass-boost', name: 'Bass Boost', gains: [7, 6, 5, 3, 1, 0, 0, 0, 0, 0], preamp: -4 },
+  { id: 'bass-cut', name: 'Bass Cut', gains: [-6, -5, -4, -2, 0, 0, 0, 0, 0, 0], preamp: 0 },
+  { id: 'vocal', name: 'Vocal', gains: [-2, -3, -2, 1, 4, 5, 4, 2, 0, -1], preamp: -3 },
+  { id: 'loudness', name: 'Loudness', gains: [6, 4, 0, 0, -2, 0, -1, -3, 4, 2], preamp: -4 },
+  { id: 'treble-boost', name: 'Treble Boost', gains: [0, 0, 0, 0, 0, 1, 3, 5, 6, 7], preamp: -4 },
+  { id: 'rock', name: 'Rock', gains: [5, 4, 3, 1, -1, -1, 1, 3, 4, 5], preamp: -3 },
+  { id: 'electronic', name: 'Electronic', gains: [5, 4, 1, 0, -2, 2, 1, 1, 4, 5], preamp: -3 },
+  { id: 'acoustic', name: 'Acoustic', gains: [4, 4, 3, 1, 2, 2, 3, 3, 3, 2], preamp: -3 },
+  { id: 'late-night', name: 'Late Night', gains: [-3, -2, 0, 1, 2, 2, 1, 0, -2, -3], preamp: 0 },
+];
+
+// Preset id used once the user edits a band away from the selected preset
+export const CUSTOM_CURVE_ID = 'custom';
+
+export const DEFAULT_EQUALIZER: EqualizerSettings = {
+  enabled: false,
+  presetId: 'flat',
+  gains: EQ_PRESETS[0].gains,
+  preamp: 0,
+};
+
+export const clampGain = (db: number) => Math.max(-EQ_GAIN_RANGE, Math.min(EQ_GAIN_RANGE, db));
+
+// Format a band frequency for labels ("31", "1k", "16k")
+export const formatBand = (hz: number) => (hz >= 1000 ? `${hz / 1000}k` : `${hz}`);
@@ -0,0 +1,33 @@
+// Linear gain ramp used for fade-in/fade-out and crossfades
+const FADE_STEP_MS = 50;
+
+// Ramps from `from` to `to` over `seconds`, calling `apply` with each gain (0-1).
+// Returns a cancel function; `onDone` is not called when cancelled.
+export const rampGain = (
+  from: number,
+  to: number,
+  seconds: number,
+  apply: (gain: number) => void,
+  onDone?: () => void
+): (() => void) => {
+  if (seconds <= 0) {
+    apply(to);
+    onDone?.();
+    return () => {};
+  }
+
+  const startedAt = Date.now();
+  const durationMs = seconds * 1000;
+  apply(from);
+
+  const timer = setInterval(() => {
+    const t = Math.min(1, (Date.now() - startedAt) / durationMs);
+    apply(from + (to - from) * t);
+    if (t >= 1) {
+      clearInterval(timer);
+      onDone?.();
+    }
+  }, FADE_STEP_MS);
+
+  return () => clearInterval(timer);
+};
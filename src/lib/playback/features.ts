@@ -0,0 +1,240 @@
+// Audio features for direct-audio tracks: BPM, spectral shape, loudness, energy
+// Measured live from the audio graph's feature analyser while a track plays
+// (onset detection by spectral flux, tempo by autocorrelation of the onset
+// envelope) and cached by track id. YouTube audio can't be read.
+import { getAudioGraph } from './audioGraph';
+
+export interface AudioFeatures {
+  bpm: number | null; // null when no steady beat was found
+  centroid: number; // Hz, mean spectral centroid ("brightness")
+  flatness: number; // 0 (tonal) to 1 (noise-like)
+  loudness: number; // dBFS, mean RMS as heard (after EQ and normalization)
+  onsetRate: number; // onsets per second
+  energy: number; // 0-1
+  analyzedSeconds: number;
+}
+
+interface Frame {
+  time: number; // media time, seconds
+  flux: number;
+  rms: number;
+  centroid: number;
+  flatness: number;
+}
+
+const FEATURES_CACHE_KEY = 'audioFeaturesCache';
+const MAX_CACHED_TRACKS = 500;
+const SAMPLE_INTERVAL = 20; // ms
+const FRAME_SECONDS = 0.02; // onset envelope resolution
+// Intros and crossfades with the previous track would skew the result
+const SKIP_START_SECONDS = 10;
+const TARGET_SECONDS = 45;
+const MIN_SECONDS = 20;
+// Larger media-time jumps between samples are seeks, not playback
+const MAX_FRAME_GAP = 1; // seconds
+const SILENCE_DB = -60;
+const MIN_BPM = 60;
+const MAX_BPM = 200;
+// Autocorrelation is biased towards this tempo to avoid octave errors
+const PREFERRED_BPM = 120;
+const MIN_BEAT_CONFIDENCE = 0.15;
+const MEAN_WINDOW = 12; // frames either side for the local mean
+const FLUX_COMPRESSION = 1000;
+
+const clamp01 = (value: number) => Math.max(0, Math.min(1, value));
+const mean = (values: number[]) => values.reduce((a, b) => a + b, 0) / (values.length || 1);
+
+// Parsed once; analyzeVideo looks features up for every ranked candidate
+let cache: Record<string, AudioFeatures> | null = null;
+
+const loadCache = (): Record<string, AudioFeatures> => {
+  if (cache) return cache;
+  cache = {};
+  const stored = localStorage.getItem(FEATURES_CACHE_KEY);
+  if (stored) {
+    try {
+      cache = JSON.parse(stored);
+    } catch (e) {
+      console.error('Failed to parse audio features cache:', e);
+    }
+  }
+  return cache!;
+};
+
+export const getCachedFeatures = (trackId: string): AudioFeatures | null => loadCache()[trackId] ?? null;
+
+const cacheFeatures = (trackId: string, features: AudioFeatures) => {
+  const current = loadCache();
+  delete current[trackId];
+  current[trackId] = features;
+  // Insertion order doubles as age; drop the oldest entries
+  cache = Object.fromEntries(Object.entries(current).slice(-MAX_CACHED_TRACKS));
+  localStorage.setItem(FEATURES_CACHE_KEY, JSON.stringify(cache));
+};
+
+// Onset strength on a regular media-time grid, minus its local mean
+const onsetEnvelope = (frames: Frame[]): number[] => {
+  const start = frames[0].time;
+  const length = Math.ceil((frames[frames.length - 1].time - start) / FRAME_SECONDS) + 1;
+  const envelope = new Array<number>(length).fill(0);
+  for (const frame of frames) {
+    const index = Math.round((frame.time - start) / FRAME_SECONDS);
+    envelope[index] = Math.max(envelope[index], frame.flux);
+  }
+
+  return envelope.map((value, i) => {
+    const window = envelope.slice(Math.max(0, i - MEAN_WINDOW), i + MEAN_WINDOW + 1);
+    return Math.max(0, value - mean(window));
+  });
+};
+
+const estimateBpm = (envelope: number[]): number | null => {
+  const minLag = Math.floor(60 / (MAX_BPM * FRAME_SECONDS));
+  const maxLag = Math.ceil(60 / (MIN_BPM * FRAME_SECONDS));
+  if (envelope.length < maxLag * 4) return null;
+
+  const correlation = (lag: number) => {
+    let sum = 0;
+    for (let i = 0; i + lag < envelope.length; i++) {
+      sum += envelope[i] * envelope[i + lag];
+    }
+    return sum / (envelope.length - lag);
+  };
+
+  const zeroLag = correlation(0);
+  if (zeroLag === 0) return null;
+
+  const scores: number[] = [];
+  let bestLag = -1;
+  let bestScore = 0;
+  for (let lag = minLag - 1; lag <= maxLag + 1; lag++) {
+    scores[lag] = correlation(lag);
+    if (lag < minLag || lag > maxLag) continue;
+    const bpm = 60 / (lag * FRAME_SECONDS);
+    const weight = Math.exp(-0.5 * Math.log2(bpm / PREFERRED_BPM) ** 2);
+    if (scores[lag] * weight > bestScore) {
+      bestScore = scores[lag] * weight;
+      bestLag = lag;
+    }
+  }
+  if (bestLag < 0 || scores[bestLag] / zeroLag < MIN_BEAT_CONFIDENCE) return null;
+
+  // Parabolic interpolation between neighbouring lags
+  const [before, peak, after] = [scores[bestLag - 1], scores[bestLag], scores[bestLag + 1]];
+  const curvature = before - 2 * peak + after;
+  const offset = curvature !== 0 ? Math.max(-0.5, Math.min(0.5, 0.5 * (before - after) / curvature)) : 0;
+  return Math.round(60 / ((bestLag + offset) * FRAME_SECONDS));
+};
+
+const countOnsets = (envelope: number[]) => {
+  const average = mean(envelope);
+  const deviation = Math.sqrt(mean(envelope.map(v => (v - average) ** 2)));
+  const threshold = average + deviation;
+  let onsets = 0;
+  for (let i = 1; i < envelope.length - 1; i++) {
+    if (envelope[i] > threshold && envelope[i] >= envelope[i - 1] && envelope[i] > envelope[i + 1]) onsets++;
+  }
+  return onsets;
+};
+
+const summarize = (frames: Frame[], analyzedSeconds: number): AudioFeatures => {
+  const envelope = onsetEnvelope(frames);
+  const loudness = 20 * Math.log10(Math.sqrt(mean(frames.map(f => f.rms ** 2))));
+  const centroid = mean(frames.map(f => f.centroid));
+  const onsetRate = countOnsets(envelope) / analyzedSeconds;
+
+  const energy = clamp01(
+    0.45 * clamp01((loudness + 40) / 30) +
+    0.35 * clamp01(onsetRate / 4) +
+    0.2 * clamp01((centroid - 500) / 3000)
+  );
+
+  return {
+    bpm: estimateBpm(envelope),
+    centroid: Math.round(centroid),
+    flatness: Math.round(mean(frames.map(f => f.flatness)) * 1000) / 1000,
+    loudness: Math.round(loudness * 10) / 10,
+    onsetRate: Math.round(onsetRate * 100) / 100,
+    energy: Math.round(energy * 100) / 100,
+    analyzedSeconds: Math.round(analyzedSeconds),
+  };
+};
+
+// Sample the feature analyser while a track plays. Finishes by itself once
+// enough audio was heard; the returned function ends it early. Either way
+// the features are cached (and passed to onDone) if enough was analysed.
+export const captureTrackFeatures = (
+  trackId: string,
+  getMediaTime: () => number,
+  onDone?: (features: AudioFeatures) => void
+): (() => void) => {
+  const { context, featureAnalyser: analyser } = getAudioGraph();
+  const binHz = context.sampleRate / analyser.fftSize;
+  const timeData = new Float32Array(analyser.fftSize);
+  const frequencyData = new Float32Array(analyser.frequencyBinCount);
+  let previous: Float32Array | null = null;
+  let lastTime = -1;
+  let analyzedSeconds = 0;
+  let finished = false;
+  const frames: Frame[] = [];
+
+  const finish = () => {
+    if (finished) return;
+    finished = true;
+    clearInterval(interval);
+    if (analyzedSeconds < MIN_SECONDS || frames.length < 2) return;
+
+    const features = summarize(frames.sort((a, b) => a.time - b.time), analyzedSeconds);
+    cacheFeatures(trackId, features);
+    onDone?.(features);
+  };
+
+  const sample = () => {
+    const time = getMediaTime();
+    const gap = time - lastTime;
+    const continuous = lastTime >= 0 && gap > 0 && gap <= MAX_FRAME_GAP;
+    if (gap === 0) return; // paused
+    lastTime = time;
+    if (time < SKIP_START_SECONDS) return;
+
+    analyser.getFloatTimeDomainData(timeData);
+    const rms = Math.sqrt(timeData.reduce((sum, v) => sum + v * v, 0) / timeData.length);
+    if (20 * Math.log10(rms || 1e-12) < SILENCE_DB) {
+      previous = null;
+      return;
+    }
+
+    analyser.getFloatFrequencyData(frequencyData);
+    const magnitudes = frequencyData.map(db => Math.pow(10, db / 20));
+    let total = 0;
+    let weighted = 0;
+    let logSum = 0;
+    let flux = 0;
+    for (let i = 0; i < magnitudes.length; i++) {
+      const m = magnitudes[i];
+      total += m;
+      weighted += m * i * binHz;
+      logSum += Math.log(m + 1e-12);
+      if (previous) {
+        flux += Math.max(0, Math.log1p(FLUX_COMPRESSION * m) - Math.log1p(FLUX_COMPRESSION * previous[i]));
+      }
+    }
+    const hadPrevious = previous !== null;
+    previous = magnitudes;
+    // Flux needs two consecutive frames of normal playback
+    if (!continuous || !hadPrevious || total === 0) return;
+
+    analyzedSeconds += gap;
+    frames.push({
+      time,
+      flux,
+      rms,
+      centroid: weighted / total,
+      flatness: Math.exp(logSum / magnitudes.length) / (total / magnitudes.length),
+    });
+    if (analyzedSeconds >= TARGET_SECONDS) finish();
+  };
+
+  const interval = setInterval(sample, SAMPLE_INTERVAL);
+  return finish;
+};
@@ -0,0 +1,275 @@
+// HTML5 audio engine for direct stream URLs (free music mode)
+// Uses two media elements so the next track can be buffered ahead of time
+// and crossfaded with the outgoing one. A track whose host refuses CORS
+// falls back to a third element outside the audio graph.
+import type { Video } from '@/contexts/AudioPlayerContext';
+import type { PlaybackEngine, PlaybackEngineEvents } from './types';
+import { rampGain } from './fade';
+
+export const createHtml5Engine = (
+  events: PlaybackEngineEvents = {},
+  createElement: () => HTMLAudioElement = () => new Audio(),
+  createFallbackElement?: () => HTMLAudioElement,
+  // Output stage for the normalization gain (the audio graph's preamp)
+  applyTrackGain?: (gain: number) => void
+): PlaybackEngine => {
+  // Created lazily and reused, since a media element can only be
+  // attached to a Web Audio graph once
+  let active: HTMLAudioElement | null = null;
+  let standby: HTMLAudioElement | null = null;
+  let preloadedUrl: string | null = null;
+  // Set while the current track plays on the fallback element
+  let direct: HTMLAudioElement | null = null;
+  let onDirect = false;
+  // Start position of the current track, for replaying it on the fallback
+  let startAt = 0;
+  let volume = 100;
+  let playbackRate = 1;
+  let preservesPitch = true;
+  // Per-element fade gain (0-1) and normalization gain, multiplied with the user volume.
+  // Without an output stage the normalization gain goes into the element volume,
+  // which can't exceed 1, so it only boosts up to full scale.
+  const gains = new Map<HTMLAudioElement, number>();
+  const trackGains = new Map<HTMLAudioElement, number>();
+  const cancelFades = new Map<HTMLAudioElement, () => void>();
+
+  const applyGain = (el: HTMLAudioElement, gain: number) => {
+    gains.set(el, gain);
+    el.volume = Math.max(0, Math.min(1, (volume / 100) * gain * (trackGains.get(el) ?? 1)));
+  };
+
+  const setTrackGain = (el: HTMLAudioElement, gain: number) => {
+    if (applyTrackGain) {
+      applyTrackGain(gain);
+    } else {
+      trackGains.set(el, gain);
+    }
+  };
+
+  const fade = (el: HTMLAudioElement, to: number, seconds: number, onDone?: () => void) => {
+    cancelFades.get(el)?.();
+    cancelFades.set(el, rampGain(gains.get(el) ?? 1, to, seconds, gain => applyGain(el, gain), onDone));
+  };
+
+  const applyRate = (el: HTMLAudioElement) => {
+    // Loading a new source resets playbackRate to the default, so set both
+    el.defaultPlaybackRate = playbackRate;
+    el.playbackRate = playbackRate;
+    el.preservesPitch = preservesPitch;
+  };
+
+  const detach = (el: HTMLAudioElement) => {
+    el.onloadedmetadata = null;
+    el.onplay = null;
+    el.onpause = null;
+    el.onended = null;
+    el.onerror = null;
+  };
+
+  const release = (el: HTMLAudioElement | null) => {
+    if (!el) return;
+    cancelFades.get(el)?.();
+    // Detach handlers first so clearing the source doesn't fire onerror
+    detach(el);
+    el.pause();
+    el.removeAttribute('src');
+    el.load();
+  };
+
+  const attach = (el: HTMLAudioElement) => {
+    el.onloadedmetadata = () => {
+      events.onReady?.(el.duration);
+    };
+    el.onplay = () => events.onPlay?.();
+    el.onpause = () => events.onPause?.();
+    el.onended = () => events.onEnded?.();
+    el.onerror = (e) => {
+      if (fallBack(el)) return;
+      console.error('[DirectAudio] Playback error:', e);
+      events.onError?.(e);
+    };
+  };
+
+  // The element the current track is heard from
+  const current = () => (onDirect ? direct : active);
+
+  // A CORS-mode element errors on hosts that don't send CORS headers; retry
+  // the track once outside the graph (a genuinely broken URL errors again)
+  const fallBack = (el: HTMLAudioElement) => {
+    const url = el.getAttribute('src');
+    if (!createFallbackElement || !el.crossOrigin || el !== active || onDirect || !url) return false;
+    console.warn('[DirectAudio] No CORS access, playing outside the audio graph:', url);
+
+    release(el);
+    const fallback = direct || createFallbackElement();
+    direct = fallback;
+    release(fallback);
+    onDirect = true;
+    fallback.src = url;
+    if (startAt) fallback.currentTime = startAt;
+    attach(fallback);
+    applyRate(fallback);
+    applyGain(fallback, 1);
+    fallback.play().catch(e => {
+      console.error('[DirectAudio] Failed to start:', e);
+    });
+    return true;
+  };
+
+  const getActive = () => {
+    if (!active) {
+      active = createElement();
+    }
+    return active;
+  };
+
+  const getStandby = () => {
+    if (!standby) {
+      standby = createElement();
+    }
+    return standby;
+  };
+
+  // A preload the host refused (no CORS) doesn't count
+  const isPreloaded = (video: Video) =>
+    !!video.streamUrl && preloadedUrl === video.streamUrl && !standby?.error;
+
+  const releaseAll = () => {
+    release(active);
+    release(standby);
+    release(direct);
+    onDirect = false;
+    preloadedUrl = null;
+  };
+
+  return {
+    kind: 'html5',
+
+    canPlay: (video) => !!video.streamUrl,
+
+    load: (video, options = {}) => {
+      const fadeIn = options.fadeIn || 0;
+      if (onDirect && direct) {
+        // The previous track played on the fallback element; fade it out there
+        const previous = direct;
+        detach(previous);
+        if (fadeIn > 0 && !previous.paused) {
+          fade(previous, 0, fadeIn, () => release(previous));
+        } else {
+          release(previous);
+        }
+        onDirect = false;
+      }
+      startAt = options.startAt || 0;
+      const outgoing = getActive();
+
+      if (isPreloaded(video)) {
+        // Swap in the buffered element; the outgoing one fades out alongside
+        const incoming = getStandby();
+        detach(outgoing);
+        if (fadeIn > 0 && !outgoing.paused) {
+          fade(outgoing, 0, fadeIn, () => release(outgoing));
+        } else {
+          release(outgoing);
+        }
+        active = incoming;
+        standby = outgoing;
+      } else {
+        // Whatever was buffered is no longer the next track
+        release(standby);
+        cancelFades.get(outgoing)?.();
+        outgoing.src = video.streamUrl || '';
+      }
+      if (options.startAt) {
+        // Before metadata arrives this sets the default start position
+        active.currentTime = options.startAt;
+      }
+      preloadedUrl = null;
+
+      const el = active;
+      attach(el);
+      applyRate(el);
+      setTrackGain(el, options.gain ?? 1);
+      applyGain(el, fadeIn > 0 ? 0 : 1);
+      if (fadeIn > 0) {
+        fade(el, 1, fadeIn);
+      }
+
+      // Metadata for a preloaded element has already arrived
+      if (el.readyState >= 1) {
+        events.onReady?.(el.duration);
+      }
+
+      el.play().catch(e => {
+        console.error('[DirectAudio] Failed to start:', e);
+      });
+    },
+
+    preload: (video) => {
+      if (!video.streamUrl || isPreloaded(video)) return;
+      const el = getStandby();
+      release(el);
+      el.preload = 'auto';
+      el.src = video.streamUrl;
+      el.load();
+      preloadedUrl = video.streamUrl;
+    },
+
+    isPreloaded,
+
+    fadeOut: (seconds) => {
+      const el = current();
+      if (el) fade(el, 0, seconds);
+    },
+
+    play: () => {
+      current()?.play().catch(e => {
+        console.error('[DirectAudio] Failed to resume:', e);
+      });
+    },
+
+    pause: () => {
+      current()?.pause();
+    },
+
+    stop: releaseAll,
+
+    seek: (time) => {
+      const el = current();
+      if (!el) return;
+      if ((gains.get(el) ?? 1) < 1) {
+        fade(el, 1, 0);
+      }
+      el.currentTime = time;
+    },
+
+    setVolume: (vol) => {
+      volume = vol;
+      [active, standby, direct].forEach(el => {
+        if (el) applyGain(el, gains.get(el) ?? 1);
+      });
+    },
+
+    setTrackGain: (gain) => {
+      if (!active) return;
+      setTrackGain(active, gain);
+      applyGain(active, gains.get(active) ?? 1);
+    },
+
+    setPlaybackRate: (rate, preservePitch) => {
+      playbackRate = rate;
+      preservesPitch = preservePitch;
+      [active, standby, direct].forEach(el => {
+        if (el) applyRate(el);
+      });
+    },
+
+    getCurrentTime: () => current()?.currentTime || 0,
+
+    getDuration: () => current()?.duration || 0,
+
+    getMediaElement: current,
+
+    unload: releaseAll,
+  };
+};
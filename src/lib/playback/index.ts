@@ -0,0 +1,28 @@
+import type { Video } from '@/contexts/AudioPlayerContext';
+import type { PlaybackEngine } from './types';
+
+export type { PlaybackEngine, PlaybackEngineEvents, PlaybackEngineKind, PlaybackLoadOptions } from './types';
+export { createHtml5Engine } from './html5Engine';
+export { createYouTubeEngine, loadYouTubeIframeAPI } from './youtubeEngine';
+export {
+  getAudioGraph,
+  resumeAudioGraph,
+  connectMediaElement,
+  createGraphAudioElement,
+  createDirectAudioElement,
+  createGraphAnalyser,
+  disconnectGraphAnalyser,
+  setGraphEqualizer,
+  setGraphTrackGain,
+} from './audioGraph';
+export type { AudioGraph } from './audioGraph';
+
+// Pick the first registered engine able to play the video.
+// Order matters: more specific sources should be registered first.
+export const pickEngine = (engines: PlaybackEngine[], video: Video): PlaybackEngine => {
+  const engine = engines.find(e => e.canPlay(video));
+  if (!engine) {
+    throw new Error(`No playback engine can play "${video.title}"`);
+  }
+  return engine;
+};
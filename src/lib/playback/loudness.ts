@@ -0,0 +1,146 @@
+// Loudness normalization (ReplayGain-style)
+// Direct-audio tracks are measured once with an OfflineAudioContext pass
+// (simplified ITU-R BS.1770 integrated loudness) and cached by track id.
+// YouTube audio can't be read, so each channel gets an offset learned from
+// the volume corrections the user makes while it plays.
+
+const LOUDNESS_CACHE_KEY = 'loudnessCache';
+const CHANNEL_OFFSETS_KEY = 'loudnessChannelOffsets';
+const MAX_CACHED_TRACKS = 500;
+const MAX_ANALYSIS_SECONDS = 120;
+const BLOCK_SECONDS = 0.4;
+const BLOCK_OVERLAP = 0.75;
+const ABSOLUTE_GATE = -70; // LUFS
+const RELATIVE_GATE = -10; // LU below the ungated mean
+const MAX_BOOST_DB = 6;
+const MAX_CUT_DB = -12;
+const CHANNEL_LEARNING_RATE = 0.5;
+
+export const DEFAULT_TARGET_LUFS = -14;
+export const MIN_TARGET_LUFS = -23;
+export const MAX_TARGET_LUFS = -8;
+
+export const dbToGain = (db: number) => Math.pow(10, db / 20);
+export const gainToDb = (gain: number) => 20 * Math.log10(gain);
+
+const readJson = <T>(key: string, fallback: T): T => {
+  const stored = localStorage.getItem(key);
+  if (!stored) return fallback;
+  try {
+    return JSON.parse(stored);
+  } catch (e) {
+    console.error(`Failed to parse ${key}:`, e);
+    return fallback;
+  }
+};
+
+// Gain (linear) that brings a track measured at `lufs` to `target`
+export const normalizationGain = (lufs: number, target: number) => {
+  const db = Math.max(MAX_CUT_DB, Math.min(MAX_BOOST_DB, target - lufs));
+  return dbToGain(db);
+};
+
+export const getCachedLoudness = (trackId: string): number | null => {
+  const cache = readJson<Record<string, number>>(LOUDNESS_CACHE_KEY, {});
+  return cache[trackId] ?? null;
+};
+
+export const cacheLoudness = (trackId: string, lufs: number) => {
+  const cache = readJson<Record<string, number>>(LOUDNESS_CACHE_KEY, {});
+  delete cache[trackId];
+  cache[trackId] = lufs;
+  // Insertion order doubles as age; drop the oldest entries
+  const entries = Object.entries(cache).slice(-MAX_CACHED_TRACKS);
+  localStorage.setItem(LOUDNESS_CACHE_KEY, JSON.stringify(Object.fromEntries(entries)));
+};
+
+export const getChannelOffset = (channel: string): number => {
+  const offsets = readJson<Record<string, number>>(CHANNEL_OFFSETS_KEY, {});
+  return offsets[channel.toLowerCase()] || 0;
+};
+
+// Fold a user volume correction (in dB), undone once the track was over, into
+// the channel's offset
+export const learnChannelOffset = (channel: string, correctionDb: number) => {
+  if (!channel || !isFinite(correctionDb) || correctionDb === 0) return;
+  const offsets = readJson<Record<string, number>>(CHANNEL_OFFSETS_KEY, {});
+  const key = channel.toLowerCase();
+  const next = (offsets[key] || 0) + correctionDb * CHANNEL_LEARNING_RATE;
+  offsets[key] = Math.max(MAX_CUT_DB, Math.min(MAX_BOOST_DB, next));
+  localStorage.setItem(CHANNEL_OFFSETS_KEY, JSON.stringify(offsets));
+};
+
+// K-weighting (pre-filter shelf + RLB high-pass) rendered offline
+const renderKWeighted = async (buffer: AudioBuffer): Promise<AudioBuffer> => {
+  const length = Math.min(buffer.length, Math.floor(MAX_ANALYSIS_SECONDS * buffer.sampleRate));
+  // Analyse the middle of long tracks - intros and outros skew the result
+  const offset = (buffer.duration - length / buffer.sampleRate) / 2;
+  const context = new OfflineAudioContext(buffer.numberOfChannels, length, buffer.sampleRate);
+
+  const source = context.createBufferSource();
+  source.buffer = buffer;
+
+  const shelf = context.createBiquadFilter();
+  shelf.type = 'highshelf';
+  shelf.frequency.value = 1500;
+  shelf.gain.value = 4;
+
+  const highpass = context.createBiquadFilter();
+  highpass.type = 'highpass';
+  highpass.frequency.value = 38;
+  highpass.Q.value = 0.5;
+
+  source.connect(shelf);
+  shelf.connect(highpass);
+  highpass.connect(context.destination);
+  source.start(0, Math.max(0, offset));
+
+  return context.startRendering();
+};
+
+// Gated integrated loudness in LUFS
+const integratedLoudness = (buffer: AudioBuffer): number | null => {
+  const blockSize = Math.floor(BLOCK_SECONDS * buffer.sampleRate);
+  const step = Math.max(1, Math.floor(blockSize * (1 - BLOCK_OVERLAP)));
+  const channels = Array.from({ length: buffer.numberOfChannels }, (_, i) => buffer.getChannelData(i));
+
+  const blocks: number[] = [];
+  for (let start = 0; start + blockSize <= buffer.length; start += step) {
+    let sum = 0;
+    for (const data of channels) {
+      for (let i = start; i < start + blockSize; i++) {
+        sum += data[i] * data[i];
+      }
+    }
+    blocks.push(sum / blockSize);
+  }
+
+  const toLufs = (meanSquare: number) => -0.691 + 10 * Math.log10(meanSquare);
+  const mean = (values: number[]) => values.reduce((a, b) => a + b, 0) / values.length;
+
+  const aboveAbsolute = blocks.filter(ms => toLufs(ms) > ABSOLUTE_GATE);
+  if (aboveAbsolute.length === 0) return null;
+
+  const relativeGate = toLufs(mean(aboveAbsolute)) + RELATIVE_GATE;
+  const gated = aboveAbsolute.filter(ms => toLufs(ms) > relativeGate);
+  return toLufs(mean(gated.length > 0 ? gated : aboveAbsolute));
+};
+
+// Download and measure a direct-audio stream. Resolves to null when the
+// stream can't be fetched (e.g. no CORS headers) or decoded.
+export const measureLoudness = async (url: string): Promise<number | null> => {
+  try {
+    const response = await fetch(url);
+    if (!response.ok) throw new Error(`HTTP ${response.status}`);
+    const data = await response.arrayBuffer();
+
+    // decodeAudioData needs a context; a tiny offline one avoids waking the audio device
+    const decoder = new OfflineAudioContext(1, 1, 44100);
+    const decoded = await decoder.decodeAudioData(data);
+    const weighted = await renderKWeighted(decoded);
+    return integratedLoudness(weighted);
+  } catch (error) {
+    console.warn('[Loudness] Measurement failed:', error);
+    return null;
+  }
+};
@@ -0,0 +1,113 @@
+// Persisted player session - what was playing, where, and how the queue was set up.
+// Snapshots are versioned; older ones are migrated step by step on load and
+// anything that can't be migrated is dropped rather than half-restored.
+import { z } from 'zod';
+import type { Video } from '@/contexts/AudioPlayerContext';
+
+const SESSION_KEY = 'playerSession';
+const SESSION_RESTORE_KEY = 'playerRestoreSession';
+
+export const SESSION_VERSION = 1;
+
+export interface PlayerSession {
+  version: typeof SESSION_VERSION;
+  savedAt: number;
+  currentVideo: Video | null;
+  progress: number;
+  duration: number;
+  playlist: Video[];
+  currentIndex: number;
+  isShuffle: boolean;
+  repeatMode: 'off' | 'one' | 'all';
+  isAutoplay: boolean;
+}
+
+// The part of a snapshot that comes from player state
+export type PlayerSessionState = Omit<PlayerSession, 'version' | 'savedAt'>;
+
+type StoredSession = { version?: number } & Record<string, unknown>;
+
+// Just enough of a Video to play it; other fields are kept as they are
+const storedVideoSchema = z.object({
+  id: z.string().min(1),
+  title: z.string(),
+  thumbnail: z.string().catch(''),
+  channelTitle: z.string().catch(''),
+}).passthrough();
+
+// The queue and track are required; settings fall back to their defaults
+const sessionSchema = z.object({
+  version: z.literal(SESSION_VERSION),
+  savedAt: z.number().catch(0),
+  currentVideo: storedVideoSchema.nullable(),
+  progress: z.number().nonnegative().catch(0),
+  duration: z.number().nonnegative().catch(0),
+  playlist: z.array(storedVideoSchema),
+  currentIndex: z.number().int().catch(-1),
+  isShuffle: z.boolean().catch(false),
+  repeatMode: z.enum(['off', 'one', 'all']).catch('off'),
+  isAutoplay: z.boolean().catch(true),
+});
+
+// migrations[n] upgrades a version-n snapshot to version n + 1.
+// Bump SESSION_VERSION and add an entry here whenever PlayerSession changes shape.
+const migrations: Record<number, (session: StoredSession) => StoredSession> = {};
+
+export const migrateSession = (stored: StoredSession): PlayerSession | null => {
+  let session = stored;
+  let version = session.version ?? 0;
+
+  if (version > SESSION_VERSION) {
+    console.warn(`[Session] Ignoring snapshot from a newer version (${version})`);
+    return null;
+  }
+
+  while (version < SESSION_VERSION) {
+    const migrate = migrations[version];
+    if (!migrate) {
+      console.warn(`[Session] No migration from version ${version}, discarding snapshot`);
+      return null;
+    }
+    session = { ...migrate(session), version: version + 1 };
+    version++;
+  }
+
+  // Truncated or hand-edited snapshots would break the restore
+  const parsed = sessionSchema.safeParse(session);
+  if (!parsed.success) {
+    console.warn('[Session] Discarding malformed snapshot:', parsed.error.issues[0]);
+    return null;
+  }
+  return parsed.data as PlayerSession;
+};
+
+export const loadSession = (): PlayerSession | null => {
+  const stored = localStorage.getItem(SESSION_KEY);
+  if (!stored) return null;
+  try {
+    return migrateSession(JSON.parse(stored));
+  } catch (e) {
+    console.error('Failed to parse player session:', e);
+    return null;
+  }
+};
+
+export const saveSession = (session: PlayerSessionState) => {
+  const snapshot: PlayerSession = { ...session, version: SESSION_VERSION, savedAt: Date.now() };
+  try {
+    localStorage.setItem(SESSION_KEY, JSON.stringify(snapshot));
+  } catch (e) {
+    console.error('Failed to save player session:', e);
+  }
+};
+
+export const clearSession = () => {
+  localStorage.removeItem(SESSION_KEY);
+};
+
+// Restoring is on unless the user opted out
+export const isSessionRestoreEnabled = () => localStorage.getItem(SESSION_RESTORE_KEY) !== 'false';
+
+export const setSessionRestoreEnabled = (enabled: boolean) => {
+  localStorage.setItem(SESSION_RESTORE_KEY, enabled.toString());
+};
@@ -0,0 +1,73 @@
+// Sleep timer - stops playback after a delay, a number of tracks,
+// or at the end of the current track
+export type SleepTimer =
+  | { mode: 'duration'; endsAt: number }
+  | { mode: 'tracks'; tracksLeft: number }
+  | { mode: 'endOfTrack' };
+
+export type SleepTimerOption =
+  | { mode: 'duration'; minutes: number }
+  | { mode: 'tracks'; tracks: number }
+  | { mode: 'endOfTrack' };
+
+export const SLEEP_TIMER_MINUTES = [5, 15, 30, 45, 60, 90];
+export const SLEEP_TIMER_TRACKS = [2, 3, 5, 10];
+// Volume fades down over the last stretch before playback stops
+export const SLEEP_FADE_SECONDS = 30;
+
+export const createSleepTimer = (option: SleepTimerOption): SleepTimer => {
+  if (option.mode === 'duration') {
+    return { mode: 'duration', endsAt: Date.now() + option.minutes * 60 * 1000 };
+  }
+  if (option.mode === 'tracks') {
+    return { mode: 'tracks', tracksLeft: Math.max(1, option.tracks) };
+  }
+  return { mode: 'endOfTrack' };
+};
+
+// Whether the timer runs out when the current track finishes
+export const endsWithCurrentTrack = (timer: SleepTimer | null) =>
+  !!timer && (timer.mode === 'endOfTrack' || (timer.mode === 'tracks' && timer.tracksLeft <= 1));
+
+// Seconds until playback stops, or null while more tracks are still to come
+export const getSleepRemaining = (timer: SleepTimer, trackRemaining: number): number | null => {
+  if (timer.mode === 'duration') {
+    return Math.max(0, (timer.endsAt - Date.now()) / 1000);
+  }
+  if (endsWithCurrentTrack(timer)) {
+    return Math.max(0, trackRemaining);
+  }
+  return null;
+};
+
+export const formatSleepRemaining = (seconds: number) => {
+  const total = Math.ceil(seconds);
+  const hours = Math.floor(total / 3600);
+  const mins = Math.floor((total % 3600) / 60);
+  const secs = total % 60;
+  if (hours > 0) {
+    return `${hours}:${mins.toString().padStart(2, '0')}:${secs.toString().padStart(2, '0')}`;
+  }
+  return `${mins}:${secs.toString().padStart(2, '0')}`;
+};
+
+// Short label for the countdown badge
+export const getSleepTimerLabel = (timer: SleepTimer, remaining: number | null) => {
+  if (timer.mode === 'tracks' && timer.tracksLeft > 1) {
+    return `+${timer.tracksLeft - 1}`;
+  }
+  return remaining !== null ? formatSleepRemaining(remaining) : '';
+};
+
+// Sentence-style description for menus, toasts and the lock screen
+export const describeSleepTimer = (timer: SleepTimer, remaining: number | null) => {
+  if (timer.mode === 'duration') {
+    const seconds = remaining ?? (timer.endsAt - Date.now()) / 1000;
+    return `Sleep in ${Math.max(1, Math.ceil(seconds / 60))} min`;
+  }
+  if (timer.mode === 'tracks' && timer.tracksLeft > 1) {
+    const more = timer.tracksLeft - 1;
+    return `Sleep after ${more} more track${more === 1 ? '' : 's'}`;
+  }
+  return 'Sleep at end of track';
+};
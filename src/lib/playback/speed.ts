@@ -0,0 +1,43 @@
+// Playback speed - steps shared by both engines and remembered per video
+const SPEEDS_KEY = 'playbackSpeeds';
+const MAX_REMEMBERED = 200;
+
+// YouTube only accepts these rates, so direct audio uses the same steps
+export const PLAYBACK_SPEEDS = [0.5, 0.75, 1, 1.25, 1.5, 1.75, 2];
+export const MIN_PLAYBACK_SPEED = PLAYBACK_SPEEDS[0];
+export const MAX_PLAYBACK_SPEED = PLAYBACK_SPEEDS[PLAYBACK_SPEEDS.length - 1];
+
+export const clampSpeed = (rate: number) =>
+  Math.max(MIN_PLAYBACK_SPEED, Math.min(MAX_PLAYBACK_SPEED, rate));
+
+// Next step up or down from the current rate
+export const stepSpeed = (rate: number, direction: 1 | -1) => {
+  const steps = direction > 0 ? PLAYBACK_SPEEDS : [...PLAYBACK_SPEEDS].reverse();
+  return steps.find(step => (direction > 0 ? step > rate : step < rate)) ?? clampSpeed(rate);
+};
+
+export const formatSpeed = (rate: number) => `${rate}×`;
+
+const readSpeeds = (): Record<string, number> => {
+  const stored = localStorage.getItem(SPEEDS_KEY);
+  if (!stored) return {};
+  try {
+    return JSON.parse(stored);
+  } catch (e) {
+    console.error('Failed to parse playback speeds:', e);
+    return {};
+  }
+};
+
+export const getSavedSpeed = (videoId: string) => readSpeeds()[videoId] ?? 1;
+
+// Normal speed isn't stored, so only videos played faster or slower take up space
+export const saveSpeed = (videoId: string, rate: number) => {
+  const speeds = readSpeeds();
+  delete speeds[videoId];
+  if (rate !== 1) {
+    speeds[videoId] = rate;
+  }
+  const entries = Object.entries(speeds).slice(-MAX_REMEMBERED);
+  localStorage.setItem(SPEEDS_KEY, JSON.stringify(Object.fromEntries(entries)));
+};
@@ -0,0 +1,53 @@
+// Playback engine contract shared by every audio source the player supports
+import type { Video } from '@/contexts/AudioPlayerContext';
+
+export type PlaybackEngineKind = 'youtube' | 'html5';
+
+export interface PlaybackEngineEvents {
+  onReady?: (duration: number) => void;
+  onPlay?: () => void;
+  onPause?: () => void;
+  onEnded?: () => void;
+  onError?: (error: unknown) => void;
+}
+
+export interface PlaybackLoadOptions {
+  // Seconds to fade the new source in over. Engines that can overlap sources
+  // crossfade with the outgoing one when the video was preloaded.
+  fadeIn?: number;
+  // Per-track gain (linear) from loudness normalization
+  gain?: number;
+  // Position (seconds) to start from, e.g. when resuming a saved session
+  startAt?: number;
+}
+
+export interface PlaybackEngine {
+  readonly kind: PlaybackEngineKind;
+  // Whether this engine is able to play the given video
+  canPlay: (video: Video) => boolean;
+  // Load a new source and start playback immediately
+  load: (video: Video, options?: PlaybackLoadOptions) => void;
+  // Start buffering the next video so the transition is gapless (no-op if unsupported)
+  preload: (video: Video) => void;
+  isPreloaded: (video: Video) => boolean;
+  // Ramp the current source down to silence ahead of a track change
+  fadeOut: (seconds: number) => void;
+  play: () => void;
+  pause: () => void;
+  stop: () => void;
+  // Seeking cancels a pending fade-out
+  seek: (time: number) => void;
+  // Volume on a 0-100 scale; remembered across loads
+  setVolume: (volume: number) => void;
+  // Update the current track's normalization gain once it is known
+  setTrackGain: (gain: number) => void;
+  // Speed multiplier, remembered across loads. preservePitch is a request -
+  // engines that can't change pitch ignore it.
+  setPlaybackRate: (rate: number, preservePitch: boolean) => void;
+  getCurrentTime: () => number;
+  getDuration: () => number;
+  // Underlying media element, if the engine has one (used by the visualizer)
+  getMediaElement: () => HTMLAudioElement | null;
+  // Release the current source so another engine can take over
+  unload: () => void;
+}
@@ -0,0 +1,252 @@
+// YouTube IFrame engine - plays videos through a hidden 1x1 player
+import type { PlaybackEngine, PlaybackEngineEvents } from './types';
+import { rampGain } from './fade';
+
+// YouTube IFrame API types
+export interface YTPlayer {
+  playVideo: () => void;
+  pauseVideo: () => void;
+  stopVideo: () => void;
+  seekTo: (seconds: number, allowSeekAhead: boolean) => void;
+  getCurrentTime: () => number;
+  getDuration: () => number;
+  destroy: () => void;
+  setVolume: (volume: number) => void;
+  getVolume: () => number;
+  setPlaybackRate: (rate: number) => void;
+  getPlaybackRate: () => number;
+  isMuted: () => boolean;
+  mute: () => void;
+  unMute: () => void;
+}
+
+interface YTPlayerEvent {
+  data: number;
+}
+
+interface YTPlayerOptions {
+  height: string;
+  width: string;
+  videoId: string;
+  playerVars?: {
+    autoplay?: number;
+    controls?: number;
+    disablekb?: number;
+    fs?: number;
+    modestbranding?: number;
+  };
+  events?: {
+    onReady?: () => void;
+    onStateChange?: (event: YTPlayerEvent) => void;
+    onError?: (event: YTPlayerEvent) => void;
+  };
+}
+
+interface YTPlayerState {
+  PLAYING: number;
+  PAUSED: number;
+  ENDED: number;
+}
+
+export interface YTNamespace {
+  Player: new (elementId: string, options: YTPlayerOptions) => YTPlayer;
+  PlayerState: YTPlayerState;
+}
+
+declare global {
+  interface Window {
+    YT: YTNamespace;
+    onYouTubeIframeAPIReady: () => void;
+  }
+}
+
+const PLAYER_ELEMENT_ID = 'youtube-player';
+
+// Inject the IFrame API script once
+export const loadYouTubeIframeAPI = () => {
+  if (window.YT || document.querySelector('script[src="https://www.youtube.com/iframe_api"]')) return;
+
+  const tag = document.createElement('script');
+  tag.src = 'https://www.youtube.com/iframe_api';
+  const firstScriptTag = document.getElementsByTagName('script')[0];
+  firstScriptTag.parentNode?.insertBefore(tag, firstScriptTag);
+};
+
+const ensurePlayerElement = () => {
+  if (document.getElementById(PLAYER_ELEMENT_ID)) return;
+
+  const div = document.createElement('div');
+  div.id = PLAYER_ELEMENT_ID;
+  div.style.position = 'absolute';
+  div.style.left = '-9999px';
+  document.body.appendChild(div);
+};
+
+export const createYouTubeEngine = (events: PlaybackEngineEvents = {}): PlaybackEngine => {
+  let player: YTPlayer | null = null;
+  // Player methods are only usable once onReady has fired
+  let isReady = false;
+  let volume = 100;
+  // YouTube always preserves pitch when changing speed
+  let playbackRate = 1;
+  // Fade gain (0-1); the iframe can't overlap two videos, so transitions
+  // are a fade-out followed by a fade-in
+  let gain = 1;
+  // Normalization gain learned for the channel
+  let trackGain = 1;
+  let cancelFade: () => void = () => {};
+  // Incremented on every load so a slow API poll can't attach a stale player
+  let loadToken = 0;
+
+  const applyGain = (value: number) => {
+    gain = value;
+    if (isReady) {
+      player?.setVolume(Math.min(100, Math.round(volume * gain * trackGain)));
+    }
+  };
+
+  const fade = (to: number, seconds: number) => {
+    cancelFade();
+    cancelFade = rampGain(gain, to, seconds, applyGain);
+  };
+
+  const destroyPlayer = () => {
+    isReady = false;
+    if (player) {
+      player.destroy();
+      player = null;
+    }
+  };
+
+  return {
+    kind: 'youtube',
+
+    canPlay: (video) => !video.streamUrl,
+
+    load: (video, options = {}) => {
+      const fadeIn = options.fadeIn || 0;
+      cancelFade();
+      gain = fadeIn > 0 ? 0 : 1;
+      trackGain = options.gain ?? 1;
+      destroyPlayer();
+      ensurePlayerElement();
+      const token = ++loadToken;
+
+      const onReady = () => {
+        isReady = true;
+        if (options.startAt) {
+          player?.seekTo(options.startAt, true);
+        }
+        player?.setPlaybackRate(playbackRate);
+        player?.playVideo();
+        // Apply saved volume
+        applyGain(gain);
+        if (fadeIn > 0) {
+          fade(1, fadeIn);
+        }
+        events.onReady?.(player?.getDuration() || 0);
+      };
+
+      const onStateChange = (event: YTPlayerEvent) => {
+        if (event.data === 1) {
+          events.onPlay?.();
+        } else if (event.data === 2) {
+          events.onPause?.();
+        } else if (event.data === 0) {
+          events.onEnded?.();
+        }
+      };
+
+      const onError = (event: YTPlayerEvent) => {
+        console.error('[YouTube] Player error:', event.data);
+        events.onError?.(event);
+      };
+
+      const checkYT = () => {
+        if (token !== loadToken) return;
+        if (window.YT && window.YT.Player) {
+          player = new window.YT.Player(PLAYER_ELEMENT_ID, {
+            height: '1',
+            width: '1',
+            videoId: video.id,
+            playerVars: {
+              autoplay: 1,
+              controls: 0,
+              disablekb: 1,
+              fs: 0,
+              modestbranding: 1,
+            },
+            events: {
+              onReady,
+              onStateChange,
+              onError,
+            },
+          });
+        } else {
+          setTimeout(checkYT, 100);
+        }
+      };
+
+      checkYT();
+    },
+
+    // The iframe has no way to buffer a second video
+    preload: () => {},
+
+    isPreloaded: () => false,
+
+    fadeOut: (seconds) => {
+      fade(0, seconds);
+    },
+
+    play: () => {
+      player?.playVideo();
+    },
+
+    pause: () => {
+      player?.pauseVideo();
+    },
+
+    stop: () => {
+      cancelFade();
+      applyGain(1);
+      player?.stopVideo();
+    },
+
+    seek: (time) => {
+      if (gain < 1) {
+        fade(1, 0);
+      }
+      player?.seekTo(time, true);
+    },
+
+    setVolume: (vol) => {
+      volume = vol;
+      applyGain(gain);
+    },
+
+    setTrackGain: (value) => {
+      trackGain = value;
+      applyGain(gain);
+    },
+
+    setPlaybackRate: (rate) => {
+      playbackRate = rate;
+      if (isReady) {
+        player?.setPlaybackRate(rate);
+      }
+    },
+
+    getCurrentTime: () => player?.getCurrentTime() || 0,
+
+    getDuration: () => player?.getDuration() || 0,
+
+    getMediaElement: () => null,
+
+    unload: () => {
+      cancelFade();
+      loadToken++;
+      destroyPlayer();
+    },
+  };
+};
@@ -0,0 +1,18 @@
+// Listening-history affinity (computed server-side by listening-history)
+import type { Affinity } from '@api';
+import type { Video } from '@/contexts/AudioPlayerContext';
+
+// Scores from -1 (always skipped) to 1 (always finished), keyed lowercase
+export type { Affinity };
+
+const ARTIST_WEIGHT = 20;
+const GENRE_WEIGHT = 10;
+const MOOD_WEIGHT = 5;
+
+// Score adjustment for an analyzed candidate (genre/mood already tagged)
+export const affinityBonus = (candidate: Video, affinity: Affinity): number => {
+  const artist = affinity.artists[candidate.channelTitle?.toLowerCase()] ?? 0;
+  const genre = candidate.genre ? affinity.genres[candidate.genre.toLowerCase()] ?? 0 : 0;
+  const mood = candidate.mood ? affinity.moods[candidate.mood.toLowerCase()] ?? 0 : 0;
+  return artist * ARTIST_WEIGHT + genre * GENRE_WEIGHT + mood * MOOD_WEIGHT;
+};
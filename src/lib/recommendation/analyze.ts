@@ -0,0 +1,95 @@
+// Genre/mood/tempo tagging. Direct-audio tracks that have been played use the
+// measured audio features (src/lib/playback/features); imported tracks use
+// their BPM and key; everything else falls back to keywords in the title.
+import type { Video } from '@/contexts/AudioPlayerContext';
+import { getCachedFeatures, type AudioFeatures } from '@/lib/playback/features';
+
+export const GENRE_KEYWORDS: Record<string, string[]> = {
+  pop: ['pop', 'hits', 'chart', 'top 40', 'mainstream'],
+  rock: ['rock', 'guitar', 'band', 'alternative', 'indie'],
+  hiphop: ['hip hop', 'rap', 'trap', 'beats', 'rapper'],
+  electronic: ['edm', 'electronic', 'house', 'techno', 'dubstep', 'dj'],
+  rnb: ['r&b', 'soul', 'rnb', 'rhythm'],
+  jazz: ['jazz', 'swing', 'blues', 'saxophone'],
+  classical: ['classical', 'orchestra', 'symphony', 'piano', 'violin'],
+  country: ['country', 'western', 'nashville', 'folk'],
+  latin: ['latin', 'reggaeton', 'salsa', 'bachata', 'spanish'],
+  kpop: ['k-pop', 'kpop', 'korean', 'bts', 'blackpink'],
+};
+
+export const MOOD_KEYWORDS: Record<string, string[]> = {
+  energetic: ['energy', 'pump', 'workout', 'hype', 'party', 'dance'],
+  chill: ['chill', 'relax', 'calm', 'peaceful', 'ambient', 'lofi'],
+  sad: ['sad', 'heartbreak', 'melancholy', 'emotional'],
+  happy: ['happy', 'joy', 'upbeat', 'fun', 'cheerful'],
+  romantic: ['love', 'romantic', 'romance', 'heart', 'ballad'],
+};
+
+const SLOW_BPM = 90;
+const FAST_BPM = 125;
+
+export const tempoFromBpm = (bpm: number): 'slow' | 'medium' | 'fast' =>
+  bpm < SLOW_BPM ? 'slow' : bpm >= FAST_BPM ? 'fast' : 'medium';
+
+// Rough mood from energy, tempo and brightness
+export const moodFromFeatures = (features: AudioFeatures): string => {
+  const { energy, bpm, centroid } = features;
+  if (energy >= 0.7 && (bpm ?? 0) >= 110) return 'energetic';
+  if (energy <= 0.4 && (bpm ?? SLOW_BPM) < SLOW_BPM && centroid < 1500) return 'sad';
+  if (energy <= 0.45) return 'chill';
+  if (energy >= 0.5 && centroid >= 2000 && (bpm ?? 0) >= 100) return 'happy';
+  return 'neutral';
+};
+
+// Map a catalog or imported genre ("Hip-Hop", "R&B/Soul") onto the keyword genres
+const normalizeGenre = (genre: string) => {
+  const text = genre.toLowerCase().replace(/[-_/]/g, ' ').trim();
+  const compact = text.replace(/\s+/g, '');
+  if (GENRE_KEYWORDS[compact]) return compact;
+  for (const [g, keywords] of Object.entries(GENRE_KEYWORDS)) {
+    if (keywords.some(kw => text.includes(kw))) return g;
+  }
+  return text;
+};
+
+// "Am", "A minor", "F#m", "Ebmin"...
+const isMinorKey = (key: string) => /^[A-G][#b♯♭]?\s*(m|min|[Mm]inor)$/.test(key.trim());
+
+// Catalog/imported genre wins over keywords; measured features win over both
+// for mood and tempo, and an imported BPM wins over the measured one
+export const analyzeVideo = (video: Video): Video => {
+  const text = `${video.title} ${video.channelTitle}`.toLowerCase();
+  const features = video.streamUrl ? getCachedFeatures(video.id) : null;
+  const bpm = video.bpm ?? features?.bpm ?? undefined;
+
+  let genre = 'pop';
+  for (const [g, keywords] of Object.entries(GENRE_KEYWORDS)) {
+    if (keywords.some(kw => text.includes(kw))) {
+      genre = g;
+      break;
+    }
+  }
+
+  let mood = 'neutral';
+  for (const [m, keywords] of Object.entries(MOOD_KEYWORDS)) {
+    if (keywords.some(kw => text.includes(kw))) {
+      mood = m;
+      break;
+    }
+  }
+  if (mood === 'neutral' && video.key && bpm && bpm < SLOW_BPM && isMinorKey(video.key)) {
+    mood = 'sad';
+  }
+
+  let tempo: 'slow' | 'medium' | 'fast' = 'medium';
+  if (text.match(/slow|ballad|acoustic|piano|ambient|lofi/)) tempo = 'slow';
+  else if (text.match(/fast|party|dance|edm|hype|workout/)) tempo = 'fast';
+
+  return {
+    ...video,
+    genre: video.genre ? normalizeGenre(video.genre) : genre,
+    mood: features ? moodFromFeatures(features) : video.mood || mood,
+    tempo: bpm ? tempoFromBpm(bpm) : video.tempo || tempo,
+    bpm,
+  };
+};
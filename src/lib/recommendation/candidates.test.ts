@@ -0,0 +1,86 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import type { Video } from '@/contexts/AudioPlayerContext';
+import { gatherCandidates, type CandidateSources } from './candidates';
+import { video } from './testUtils';
+
+const seed = video('seed', 'Midnight City', 'M83');
+
+const SEARCH_RESULTS: Record<string, Video[]> = {
+  'dream pop': [video('d1', 'Space Song', 'Beach House'), video('r1', 'Wait', 'M83')],
+  shoegaze: [video('s1', 'Only Shallow', 'My Bloody Valentine')],
+  ambient: [video('x1', 'An Ending', 'Brian Eno')],
+};
+
+const sources = (overrides: Partial<CandidateSources> = {}): CandidateSources => ({
+  related: async () => [video('r1', 'Wait', 'M83'), seed, video('r2', 'Afterglow', 'Nova'), video('r3', 'Reunion', 'M83')],
+  suggestions: async () => [
+    { query: 'dream pop', reason: 'Same hazy synths' },
+    { query: 'shoegaze' },
+    { query: 'ambient' },
+  ],
+  search: async (query) => SEARCH_RESULTS[query] ?? [],
+  ...overrides,
+});
+
+const ids = (videos: Video[]) => videos.map(v => v.id);
+
+describe('gatherCandidates', () => {
+  beforeEach(() => {
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+  });
+
+  it('takes related tracks, then searches for the first suggestions', async () => {
+    const { candidates, rejected } = await gatherCandidates(seed, sources(), { exclude: ['r3'] });
+
+    expect(ids(candidates)).toEqual(['r1', 'r2', 'd1', 's1']);
+    expect(rejected.map(r => [r.video.id, r.reason])).toEqual([
+      ['seed', 'excluded'],
+      ['r3', 'excluded'],
+      ['r1', 'duplicate'],
+    ]);
+  });
+
+  it('tags each candidate with where it came from', async () => {
+    const { candidates } = await gatherCandidates(seed, sources());
+    const origins = Object.fromEntries(candidates.map(v => [v.id, v.recommendation?.origin]));
+
+    expect(origins.r1).toEqual({ kind: 'related', seedTitle: 'Midnight City' });
+    expect(origins.d1).toEqual({ kind: 'suggestion', query: 'dream pop', reason: 'Same hazy synths' });
+    expect(origins.s1).toEqual({ kind: 'suggestion', query: 'shoegaze' });
+  });
+
+  it('keeps an origin the source set itself', async () => {
+    const origin = { kind: 'station' as const, station: 'M83 Radio', seed: 'M83' };
+    const { candidates } = await gatherCandidates(seed, sources({
+      related: async () => [video('t1', 'Outro', 'M83', { recommendation: { origin } })],
+    }));
+    expect(candidates[0].recommendation?.origin).toEqual(origin);
+  });
+
+  it('uses more suggestions when asked', async () => {
+    const { candidates } = await gatherCandidates(seed, sources(), { maxSuggestions: 3 });
+    expect(ids(candidates)).toContain('x1');
+  });
+
+  it('falls back when nothing was found', async () => {
+    const { candidates } = await gatherCandidates(seed, sources({
+      related: async () => [],
+      suggestions: async () => [],
+      fallback: async () => [video('f1', 'Solitude', 'M83')],
+    }));
+
+    expect(ids(candidates)).toEqual(['f1']);
+    expect(candidates[0].recommendation?.origin).toEqual({ kind: 'fallback', query: 'M83 songs' });
+  });
+
+  it('falls back when a source fails', async () => {
+    const { candidates } = await gatherCandidates(seed, sources({
+      related: async () => {
+        throw new Error('offline');
+      },
+      fallback: async () => [video('f1', 'Solitude', 'M83')],
+    }));
+    expect(ids(candidates)).toEqual(['f1']);
+  });
+});
@@ -0,0 +1,86 @@
+// Candidate gathering: related tracks first, then searches for AI suggestions,
+// then a fallback when both come back empty. Sources are injected so the
+// pipeline itself never touches the network.
+import type { Video } from '@/contexts/AudioPlayerContext';
+import type { CandidateOrigin, RejectedCandidate } from './explain';
+
+// A search query from the AI suggestions, with the model's reason if it gave one
+export interface SuggestedQuery {
+  query: string;
+  reason?: string;
+}
+
+export interface CandidateSources {
+  related: (seed: Video) => Promise<Video[]>;
+  suggestions: (seed: Video, recent: Video[]) => Promise<SuggestedQuery[]>;
+  search: (query: string) => Promise<Video[]>;
+  fallback?: (seed: Video) => Promise<Video[]>;
+}
+
+export interface GatherOptions {
+  recent?: Video[];
+  exclude?: Iterable<string>;
+  maxSuggestions?: number;
+}
+
+export interface GatheredCandidates {
+  candidates: Video[];
+  // Duplicates and excluded ids, kept for the recommendation report
+  rejected: RejectedCandidate[];
+}
+
+const DEFAULT_MAX_SUGGESTIONS = 2;
+
+export const gatherCandidates = async (
+  seed: Video,
+  sources: CandidateSources,
+  options: GatherOptions = {}
+): Promise<GatheredCandidates> => {
+  const { recent = [], maxSuggestions = DEFAULT_MAX_SUGGESTIONS } = options;
+  const excluded = new Set<string>([seed.id, ...(options.exclude ?? [])]);
+  const seen = new Set<string>();
+  const candidates: Video[] = [];
+  const rejected: RejectedCandidate[] = [];
+
+  // Sources may tag their own origin (station seeds do); the rest get this one
+  const add = (videos: Video[], origin: CandidateOrigin) => {
+    for (const result of videos) {
+      if (!result.id) continue;
+      const video = result.recommendation?.origin ? result : { ...result, recommendation: { origin } };
+      if (excluded.has(video.id)) {
+        rejected.push({ video, reason: 'excluded' });
+      } else if (seen.has(video.id)) {
+        rejected.push({ video, reason: 'duplicate' });
+      } else {
+        seen.add(video.id);
+        candidates.push(video);
+      }
+    }
+  };
+
+  try {
+    add(await sources.related(seed), { kind: 'related', seedTitle: seed.title });
+    console.log(`[Autoplay] Got ${candidates.length} related songs`);
+
+    const suggestions = await sources.suggestions(seed, recent);
+    if (suggestions.length > 0) {
+      const picked = suggestions.slice(0, maxSuggestions);
+      const results = await Promise.all(picked.map(s => sources.search(s.query)));
+      results.forEach((videos, i) => add(videos, { kind: 'suggestion', ...picked[i] }));
+      console.log(`[Autoplay] Added songs from ${suggestions.length} AI suggestions`);
+    }
+  } catch (error) {
+    console.error('[Autoplay] Error gathering candidates:', error);
+  }
+
+  if (candidates.length === 0 && sources.fallback) {
+    console.log('[Autoplay] Falling back to direct API');
+    try {
+      add(await sources.fallback(seed), { kind: 'fallback', query: `${seed.channelTitle} songs` });
+    } catch (e) {
+      console.error('[Autoplay] Fallback error:', e);
+    }
+  }
+
+  return { candidates, rejected };
+};
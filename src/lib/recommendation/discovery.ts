@@ -0,0 +1,82 @@
+// Discovery setting for autoplay: 0 keeps to the seed artist, artists you
+// already play and hits; 100 goes for new artists and lower view counts.
+// It also caps how often one artist can appear in a queue.
+import type { Video } from '@/contexts/AudioPlayerContext';
+import type { RejectedCandidate } from './explain';
+
+const DISCOVERY_KEY = 'autoplayDiscovery';
+export const DEFAULT_DISCOVERY = 50;
+
+const SEED_ARTIST_WEIGHT = 25;
+const NEW_ARTIST_WEIGHT = 20;
+const POPULARITY_WEIGHT = 10;
+const POPULAR_VIEWS = 10_000_000;
+const OBSCURE_VIEWS = 100_000;
+// Tracks per artist in one queue at discovery 0; 1 at 100
+const MAX_ARTIST_REPEATS = 6;
+
+export const clampDiscovery = (value: number) => Math.max(0, Math.min(100, Math.round(value)));
+
+export const loadDiscovery = (): number => {
+  const stored = parseInt(localStorage.getItem(DISCOVERY_KEY) || '', 10);
+  return isNaN(stored) ? DEFAULT_DISCOVERY : clampDiscovery(stored);
+};
+
+export const saveDiscovery = (value: number) => {
+  localStorage.setItem(DISCOVERY_KEY, clampDiscovery(value).toString());
+};
+
+// -1 (familiar) to 1 (discovery), 0 at the default
+const shift = (discovery: number) => (clampDiscovery(discovery) - DEFAULT_DISCOVERY) / DEFAULT_DISCOVERY;
+
+export const artistKey = (video: Video) => (video.channelTitle || '').toLowerCase();
+
+// Score adjustment for an analyzed candidate. knownArtists holds the
+// artistKey of everything already in the listener's history.
+export const discoveryBonus = (
+  candidate: Video,
+  seed: Video,
+  knownArtists: Set<string>,
+  discovery: number
+): number => {
+  const s = shift(discovery);
+  if (s === 0) return 0;
+
+  let bonus = 0;
+  const artist = artistKey(candidate);
+  if (artist === artistKey(seed)) bonus -= s * SEED_ARTIST_WEIGHT;
+  else if (!knownArtists.has(artist)) bonus += s * NEW_ARTIST_WEIGHT;
+
+  if (candidate.views !== undefined) {
+    if (candidate.views >= POPULAR_VIEWS) bonus -= s * POPULARITY_WEIGHT;
+    else if (candidate.views < OBSCURE_VIEWS) bonus += s * POPULARITY_WEIGHT;
+  }
+  return bonus;
+};
+
+export const artistCap = (discovery: number) =>
+  Math.max(1, Math.round(MAX_ARTIST_REPEATS - (clampDiscovery(discovery) / 100) * (MAX_ARTIST_REPEATS - 1)));
+
+// Take ranked tracks in order, skipping an artist once it has `cap` tracks
+// in the first `window` kept. Anything past the window isn't checked.
+export const capArtists = (ranked: Video[], cap: number, window: number) => {
+  const counts = new Map<string, number>();
+  const kept: Video[] = [];
+  const capped: RejectedCandidate[] = [];
+
+  for (const video of ranked) {
+    if (kept.length >= window) {
+      kept.push(video);
+      continue;
+    }
+    const artist = artistKey(video);
+    const count = counts.get(artist) || 0;
+    if (artist && count >= cap) {
+      capped.push({ video, reason: 'artist-cap', detail: `${cap} per queue` });
+      continue;
+    }
+    counts.set(artist, count + 1);
+    kept.push(video);
+  }
+  return { kept, capped };
+};
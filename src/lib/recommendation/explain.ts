@@ -0,0 +1,110 @@
+// "Why this song?": where each candidate came from, how its score was made
+// up, and why the ones that didn't make the queue were rejected
+import type { Video } from '@/contexts/AudioPlayerContext';
+
+export type CandidateOrigin =
+  | { kind: 'related'; seedTitle: string }
+  | { kind: 'suggestion'; query: string; reason?: string }
+  | { kind: 'fallback'; query: string }
+  | { kind: 'station'; station: string; seed: string }
+  | { kind: 'search'; query: string; because?: string }
+  | { kind: 'catalog'; via: 'similar' | 'genre' | 'playlist' | 'trending'; name?: string };
+
+// Points each ranking rule added or removed; total includes the jitter
+export interface ScoreBreakdown {
+  base: number;
+  sameArtist: number;
+  sameGenre: number;
+  sameMood: number;
+  sameTempo: number;
+  recentArtist: number;
+  skips: number;
+  affinity: number;
+  station: number;
+  discovery: number;
+  jitter: number;
+  total: number;
+}
+
+// Attached to every queued Video
+export interface Recommendation {
+  origin?: CandidateOrigin;
+  score?: ScoreBreakdown;
+  // The queue order was shuffled after ranking
+  shuffled?: boolean;
+}
+
+export type RejectionReason = 'duplicate' | 'excluded' | 'skipped' | 'non-music' | 'artist-cap' | 'cut';
+
+export interface RejectedCandidate {
+  video: Video;
+  reason: RejectionReason;
+  detail?: string;
+}
+
+// Everything one queue build looked at
+export interface RecommendationReport {
+  seed: Video;
+  builtAt: number;
+  accepted: Video[];
+  rejected: RejectedCandidate[];
+}
+
+export const describeOrigin = (origin: CandidateOrigin): string => {
+  switch (origin.kind) {
+    case 'related':
+      return `Related to "${origin.seedTitle}" on YouTube Music`;
+    case 'suggestion':
+      return origin.reason ? `AI suggestion: ${origin.reason}` : `AI suggestion: "${origin.query}"`;
+    case 'fallback':
+      return `YouTube search for "${origin.query}"`;
+    case 'station':
+      return `From ${origin.station} (${origin.seed})`;
+    case 'search':
+      return origin.because ? `Because you played ${origin.because}` : `Search for "${origin.query}"`;
+    case 'catalog':
+      switch (origin.via) {
+        case 'similar':
+          return `Similar to "${origin.name}" on Jamendo`;
+        case 'genre':
+          return `Popular ${origin.name} on Jamendo`;
+        case 'playlist':
+          return `From the "${origin.name}" playlist`;
+        case 'trending':
+          return 'Trending on Jamendo';
+      }
+  }
+};
+
+const REJECTION_LABELS: Record<RejectionReason, string> = {
+  duplicate: 'Duplicate',
+  excluded: 'Recently played or already queued',
+  skipped: 'Skipped too often',
+  'non-music': 'Not music',
+  'artist-cap': 'Too many by this artist',
+  cut: 'Ranked too low',
+};
+
+export const describeRejection = (rejected: RejectedCandidate) =>
+  rejected.detail ? `${REJECTION_LABELS[rejected.reason]} (${rejected.detail})` : REJECTION_LABELS[rejected.reason];
+
+const SCORE_LABELS: [keyof Omit<ScoreBreakdown, 'total'>, string][] = [
+  ['base', 'Base score'],
+  ['sameArtist', 'Same artist'],
+  ['sameGenre', 'Same genre'],
+  ['sameMood', 'Same mood'],
+  ['sameTempo', 'Similar tempo'],
+  ['recentArtist', 'Artist played recently'],
+  ['skips', 'Your skips'],
+  ['affinity', 'Your listening history'],
+  ['station', 'Station seeds and ratings'],
+  ['discovery', 'Discovery setting'],
+  ['jitter', 'Random variety'],
+];
+
+// Non-zero parts of a score, largest effect first
+export const scoreParts = (score: ScoreBreakdown) =>
+  SCORE_LABELS
+    .map(([key, label]) => ({ label, value: Math.round(score[key] * 10) / 10 }))
+    .filter(part => part.value !== 0)
+    .sort((a, b) => Math.abs(b.value) - Math.abs(a.value));
@@ -0,0 +1,46 @@
+// Candidates that never make the queue, whatever their score
+import type { Video } from '@/contexts/AudioPlayerContext';
+import type { RejectedCandidate } from './explain';
+import type { SkipCounts } from './skips';
+
+// Same indicators the youtube-music function filters on; the API fallback isn't filtered server-side
+const NON_MUSIC_PATTERNS = [
+  /gameplay/i,
+  /walkthrough/i,
+  /tutorial/i,
+  /review/i,
+  /unboxing/i,
+  /podcast/i,
+  /interview/i,
+  /behind\s*the\s*scenes/i,
+  /making\s*of/i,
+  /reaction/i,
+  /explained/i,
+  /how\s*to/i,
+  /vlog/i,
+  /#?shorts/i,
+  /episode\s*\d+/i,
+];
+// Longer uploads are mixes, full albums or streams rather than songs
+const MAX_TRACK_SECONDS = 15 * 60;
+const MAX_SKIPS = 5;
+
+const durationSeconds = (duration?: string) => {
+  if (!duration) return 0;
+  return duration.split(':').reduce((total, part) => total * 60 + (parseInt(part, 10) || 0), 0);
+};
+
+export const rejectionFor = (video: Video, skipCounts: SkipCounts): RejectedCandidate | null => {
+  const pattern = NON_MUSIC_PATTERNS.find(p => p.test(video.title));
+  if (pattern) {
+    return { video, reason: 'non-music', detail: `title matches ${pattern.source}` };
+  }
+  if (durationSeconds(video.duration) > MAX_TRACK_SECONDS) {
+    return { video, reason: 'non-music', detail: `${video.duration} long` };
+  }
+  const skips = skipCounts[video.id] || 0;
+  if (skips >= MAX_SKIPS) {
+    return { video, reason: 'skipped', detail: `${skips} skips` };
+  }
+  return null;
+};
@@ -0,0 +1,68 @@
+// Server-side listening history for signed-in users: listen outcomes are
+// recorded with the share of the track heard, and affinity scores come back
+// from the listening-history edge function
+import { supabase } from '@/integrations/supabase/client';
+import type { Video } from '@/contexts/AudioPlayerContext';
+import { callApi } from '@/lib/api';
+import { analyzeVideo } from './analyze';
+import type { Affinity } from './affinity';
+
+export type ListenOutcome = 'skip' | 'complete';
+
+const AFFINITY_TTL = 10 * 60 * 1000;
+// Refresh early once enough new listens have been recorded
+const AFFINITY_REFRESH_AFTER = 10;
+
+let cachedAffinity: { userId: string; affinity: Affinity; fetchedAt: number } | null = null;
+let listensSinceFetch = 0;
+
+const getUserId = async () => {
+  const { data: { session } } = await supabase.auth.getSession();
+  return session?.user.id ?? null;
+};
+
+export const recordListen = async (video: Video, percentListened: number, outcome: ListenOutcome) => {
+  if (!(await getUserId())) return;
+
+  const analyzed = analyzeVideo(video);
+  await callApi('listening-history', 'record', {
+    video: {
+      id: analyzed.id,
+      title: analyzed.title,
+      thumbnail: analyzed.thumbnail,
+      channelTitle: analyzed.channelTitle,
+      duration: analyzed.duration,
+      genre: analyzed.genre,
+      mood: analyzed.mood,
+    },
+    percentListened: Math.round(percentListened),
+    outcome,
+  });
+  listensSinceFetch++;
+};
+
+// Null when signed out or the history can't be read; ranking then runs without it
+export const getAffinity = async (): Promise<Affinity | null> => {
+  const userId = await getUserId();
+  if (!userId) return null;
+
+  if (
+    cachedAffinity?.userId === userId &&
+    Date.now() - cachedAffinity.fetchedAt < AFFINITY_TTL &&
+    listensSinceFetch < AFFINITY_REFRESH_AFTER
+  ) {
+    return cachedAffinity.affinity;
+  }
+
+  try {
+    const affinity = await callApi('listening-history', 'affinity');
+
+    cachedAffinity = { userId, affinity, fetchedAt: Date.now() };
+    listensSinceFetch = 0;
+    console.log(`[Autoplay] Loaded listening affinity from ${affinity.sampleSize} tracks`);
+    return cachedAffinity.affinity;
+  } catch (err) {
+    console.error('[Autoplay] Affinity error:', err);
+    return cachedAffinity?.userId === userId ? cachedAffinity.affinity : null;
+  }
+};
@@ -0,0 +1,80 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import type { Video } from '@/contexts/AudioPlayerContext';
+import { buildRecommendations, type RecommendationOptions } from './index';
+import type { CandidateSources } from './candidates';
+import { seededRandom } from './mixes';
+import { video } from './testUtils';
+
+// The module re-exports the network-backed sources; none are called here
+vi.mock('@/integrations/supabase/client', () => ({ supabase: {} }));
+
+const seed = video('seed', 'Midnight City', 'M83');
+
+const RELATED = [
+  video('m1', 'Wait', 'M83'),
+  video('m2', 'Outro', 'M83'),
+  video('m3', 'Solitude', 'M83'),
+  video('m4', 'Reunion', 'M83'),
+  video('m5', 'Oblivion', 'M83'),
+  video('n1', 'Afterglow', 'Nova'),
+  video('g1', 'Synth Gear Review', 'Critic'),
+  video('l1', 'Live Set', 'Nova', { duration: '45:00' }),
+  video('k1', 'Skipped Song', 'Nova'),
+];
+
+const sources: CandidateSources = {
+  related: async () => RELATED,
+  suggestions: async () => [{ query: 'dream pop' }],
+  search: async () => [video('d1', 'Space Song', 'Beach House')],
+};
+
+const options = (overrides: Partial<RecommendationOptions> = {}): RecommendationOptions => ({
+  sources,
+  skipCounts: { k1: 5 },
+  discovery: 50,
+  random: () => 0,
+  ...overrides,
+});
+
+const ids = (videos: Video[]) => videos.map(v => v.id);
+
+describe('buildRecommendations', () => {
+  beforeEach(() => {
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+  });
+
+  it('ranks, caps each artist and cuts the queue', async () => {
+    const { queue, report } = await buildRecommendations(seed, options({ limit: 5 }));
+
+    // Four tracks per artist at discovery 50; the fifth M83 track is capped
+    expect(ids(queue)).toEqual(['m1', 'm2', 'm3', 'm4', 'n1']);
+    expect(report.accepted).toEqual(queue);
+    expect(report.rejected.map(r => [r.video.id, r.reason])).toEqual([
+      ['g1', 'non-music'],
+      ['l1', 'non-music'],
+      ['k1', 'skipped'],
+      ['m5', 'artist-cap'],
+      ['d1', 'cut'],
+    ]);
+  });
+
+  it('leaves out excluded and recently played ids', async () => {
+    const { queue, report } = await buildRecommendations(seed, options({ exclude: ['m1', 'n1'] }));
+
+    expect(ids(queue)).toEqual(['m2', 'm3', 'm4', 'm5', 'd1']);
+    expect(report.rejected.filter(r => r.reason === 'excluded').map(r => r.video.id)).toEqual(['m1', 'n1']);
+  });
+
+  it('keeps fewer tracks per artist at higher discovery', async () => {
+    const { queue } = await buildRecommendations(seed, options({ discovery: 100 }));
+    expect(queue.filter(v => v.channelTitle === 'M83')).toHaveLength(1);
+  });
+
+  it('builds the same queue from the same random seed', async () => {
+    const first = await buildRecommendations(seed, options({ random: seededRandom('2026-10-19') }));
+    const second = await buildRecommendations(seed, options({ random: seededRandom('2026-10-19') }));
+
+    expect(second.queue).toEqual(first.queue);
+    expect(second.report.rejected).toEqual(first.report.rejected);
+  });
+});
@@ -0,0 +1,113 @@
+// Autoplay recommendations: gather candidates for a seed, rank them, cut the
+// queue. The player context and every component that starts a radio go
+// through buildRecommendations so autoplay behaves the same everywhere.
+import type { Video } from '@/contexts/AudioPlayerContext';
+import { gatherCandidates, type CandidateSources } from './candidates';
+import { rankCandidates } from './rank';
+import { loadSkipCounts, type SkipCounts } from './skips';
+import { rejectionFor } from './filters';
+import { artistCap, capArtists, loadDiscovery } from './discovery';
+import type { Affinity } from './affinity';
+import type { Station } from './stations';
+import type { RecommendationReport, RejectedCandidate } from './explain';
+
+export { analyzeVideo, moodFromFeatures, tempoFromBpm } from './analyze';
+export { gatherCandidates } from './candidates';
+export type { CandidateSources, GatherOptions, GatheredCandidates, SuggestedQuery } from './candidates';
+export { explainScore, rankCandidates, scoreCandidate } from './rank';
+export type { RankContext } from './rank';
+export { loadSkipCounts, recordSkip } from './skips';
+export type { SkipCounts } from './skips';
+export { affinityBonus } from './affinity';
+export type { Affinity } from './affinity';
+export { getAffinity, recordListen } from './history';
+export type { ListenOutcome } from './history';
+export {
+  STATION_GENRES,
+  STATION_MOODS,
+  createStation,
+  describeSeed,
+  dislikedIds,
+  findStation,
+  gatherStationTracks,
+  loadStations,
+  rateStationTrack,
+  saveStations,
+  stationBonus,
+  stationCandidateSources,
+} from './stations';
+export type { Station, StationSeed, StationRating, StationFeedback, StationSources } from './stations';
+export { autoplaySourcesFor, musicCatalogSources, youtubeMusicSources, youtubeMusicStationSources } from './sources';
+export { DEFAULT_DISCOVERY, artistCap, clampDiscovery, loadDiscovery, saveDiscovery } from './discovery';
+export { buildDailyMixes, buildWeeklyDiscovery, dailyMixSeed, seededRandom, weeklyDiscoverySeed } from './mixes';
+export type { GeneratedMix, MixSourceTrack } from './mixes';
+export { describeOrigin, describeRejection, scoreParts } from './explain';
+export type {
+  CandidateOrigin,
+  Recommendation,
+  RecommendationReport,
+  RejectedCandidate,
+  RejectionReason,
+  ScoreBreakdown,
+} from './explain';
+
+export const QUEUE_SIZE = 25;
+
+export interface RecommendationOptions {
+  sources: CandidateSources;
+  // Most recently played first
+  recent?: Video[];
+  // Ids that must not be queued again (already queued, just played...)
+  exclude?: Iterable<string>;
+  skipCounts?: SkipCounts;
+  affinity?: Affinity | null;
+  station?: Station | null;
+  // 0-100, see discovery.ts; defaults to the saved setting
+  discovery?: number;
+  limit?: number;
+  random?: () => number;
+}
+
+export interface BuiltRecommendations {
+  queue: Video[];
+  // Every candidate considered, for "Why this song?" and the debug panel
+  report: RecommendationReport;
+}
+
+export const buildRecommendations = async (
+  seed: Video,
+  options: RecommendationOptions
+): Promise<BuiltRecommendations> => {
+  const { sources, recent = [], exclude, limit = QUEUE_SIZE, random } = options;
+  const skipCounts = options.skipCounts ?? loadSkipCounts();
+  const discovery = options.discovery ?? loadDiscovery();
+  const gathered = await gatherCandidates(seed, sources, { recent, exclude });
+
+  const rejected: RejectedCandidate[] = [...gathered.rejected];
+  const eligible = gathered.candidates.filter(video => {
+    const rejection = rejectionFor(video, skipCounts);
+    if (rejection) rejected.push(rejection);
+    return !rejection;
+  });
+
+  const ranked = rankCandidates(eligible, {
+    seed,
+    recent,
+    skipCounts,
+    affinity: options.affinity,
+    station: options.station,
+    discovery,
+    random,
+  });
+  // The cap applies within one queue's worth of tracks
+  const { kept, capped } = capArtists(ranked, artistCap(discovery), QUEUE_SIZE);
+  rejected.push(...capped);
+  const queue = kept.slice(0, limit);
+  rejected.push(...kept.slice(limit).map(video => ({
+    video,
+    reason: 'cut' as const,
+    detail: `score ${Math.round(video.recommendation?.score?.total ?? 0)}`,
+  })));
+
+  return { queue, report: { seed, builtAt: Date.now(), accepted: queue, rejected } };
+};
@@ -0,0 +1,72 @@
+import { describe, expect, it } from 'vitest';
+import { buildDailyMixes, dailyMixSeed, seededRandom, weeklyDiscoverySeed, type MixSourceTrack } from './mixes';
+import { video } from './testUtils';
+
+// Seven tracks of a genre by three artists, so only the genre makes a theme
+const genreTracks = (genre: string, artists: string[], weight: number): MixSourceTrack[] =>
+  Array.from({ length: 7 }, (_, i) => ({
+    video: video(`${genre}-${i}`, `Track ${i + 1}`, artists[i % artists.length], { genre }),
+    weight,
+  }));
+
+const TRACKS = [
+  ...genreTracks('jazz', ['Miles Davis', 'Nina Simone', 'Chet Baker'], 2),
+  ...genreTracks('rock', ['Wilco', 'Pavement', 'Spoon'], 3),
+  ...genreTracks('electronic', ['Aphex Twin', 'Bonobo', 'Caribou'], 1),
+];
+
+const SEED = 'user-1:2026-10-19';
+
+describe('seededRandom', () => {
+  it('repeats the same sequence for the same seed', () => {
+    const first = seededRandom(SEED);
+    const second = seededRandom(SEED);
+    const sequence = Array.from({ length: 5 }, () => first());
+
+    expect(Array.from({ length: 5 }, () => second())).toEqual(sequence);
+    for (const value of sequence) {
+      expect(value).toBeGreaterThanOrEqual(0);
+      expect(value).toBeLessThan(1);
+    }
+  });
+
+  it('gives a different sequence for another seed', () => {
+    expect(seededRandom('user-1:2026-10-20')()).not.toBe(seededRandom(SEED)());
+  });
+});
+
+describe('mix seeds', () => {
+  it('change by day and by ISO week', () => {
+    const monday = new Date('2026-10-19T12:00:00Z');
+    const sunday = new Date('2026-10-25T12:00:00Z');
+
+    expect(dailyMixSeed('user-1', monday)).toBe('user-1:2026-10-19');
+    expect(weeklyDiscoverySeed('user-1', monday)).toBe('user-1:2026-W43');
+    expect(weeklyDiscoverySeed('user-1', sunday)).toBe('user-1:2026-W43');
+    expect(weeklyDiscoverySeed('user-1', new Date('2026-10-26T12:00:00Z'))).toBe('user-1:2026-W44');
+  });
+});
+
+describe('buildDailyMixes', () => {
+  it('makes a mix per theme, heaviest first', () => {
+    const mixes = buildDailyMixes(TRACKS, SEED);
+
+    expect(mixes.map(m => m.name)).toEqual(['Daily Mix 1', 'Daily Mix 2', 'Daily Mix 3']);
+    expect(mixes.map(m => m.description.split(' · ')[0])).toEqual(['Rock', 'Jazz', 'Electronic']);
+    expect(mixes[0].videos).toHaveLength(7);
+    expect(mixes[0].videos.every(v => v.genre === 'rock')).toBe(true);
+    expect(mixes[0].description.split(' · ')[1].split(', ').sort()).toEqual(['Pavement', 'Spoon', 'Wilco']);
+  });
+
+  it('gives the same mixes for the same seed, whatever the input order', () => {
+    const mixes = buildDailyMixes(TRACKS, SEED);
+
+    expect(buildDailyMixes([...TRACKS].reverse(), SEED)).toEqual(mixes);
+    expect(buildDailyMixes(TRACKS, 'user-1:2026-10-20').map(m => m.videos)).not.toEqual(mixes.map(m => m.videos));
+  });
+
+  it('makes no mixes from fewer than three themes', () => {
+    expect(buildDailyMixes(TRACKS.filter(t => t.video.genre !== 'jazz'), SEED)).toEqual([]);
+    expect(buildDailyMixes([], SEED)).toEqual([]);
+  });
+});
@@ -0,0 +1,170 @@
+// Daily mixes and the weekly discovery playlist. Everything random here comes
+// from a generator seeded by user and day (or week), so the same listening
+// history and seed always give the same mixes.
+import type { Video } from '@/contexts/AudioPlayerContext';
+import { analyzeVideo } from './analyze';
+import { gatherCandidates, type CandidateSources } from './candidates';
+import { rankCandidates } from './rank';
+import { rejectionFor } from './filters';
+import { artistKey, capArtists } from './discovery';
+import { describeSeed } from './stations';
+
+// A played or liked track and how much the listener seems to like it
+export interface MixSourceTrack {
+  video: Video;
+  weight: number;
+}
+
+export interface GeneratedMix {
+  name: string;
+  description: string;
+  videos: Video[];
+}
+
+const MIN_MIXES = 3;
+const MAX_MIXES = 6;
+const MIN_MIX_TRACKS = 6;
+const MIX_SIZE = 25;
+// Themes sharing more than this share of tracks with a chosen mix are skipped
+const MAX_OVERLAP = 0.5;
+const DESCRIPTION_ARTISTS = 3;
+
+const DISCOVERY_SEEDS = 5;
+const DISCOVERY_SIZE = 30;
+const DISCOVERY_ARTIST_CAP = 2;
+const DISCOVERY_LEVEL = 100;
+
+// mulberry32 over a 32-bit hash of the seed string
+export const seededRandom = (seed: string): (() => number) => {
+  let state = 0;
+  for (let i = 0; i < seed.length; i++) {
+    state = Math.imul(state ^ seed.charCodeAt(i), 0x5bd1e995);
+    state ^= state >>> 15;
+  }
+  return () => {
+    state = (state + 0x6d2b79f5) | 0;
+    let t = Math.imul(state ^ (state >>> 15), 1 | state);
+    t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t;
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+};
+
+const isoDate = (date: Date) => date.toISOString().slice(0, 10);
+
+// ISO 8601 week, e.g. "2026-W42"
+const isoWeek = (date: Date) => {
+  const day = new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate()));
+  day.setUTCDate(day.getUTCDate() + 4 - (day.getUTCDay() || 7));
+  const yearStart = Date.UTC(day.getUTCFullYear(), 0, 1);
+  const week = Math.ceil(((day.getTime() - yearStart) / 86400000 + 1) / 7);
+  return `${day.getUTCFullYear()}-W${week.toString().padStart(2, '0')}`;
+};
+
+export const dailyMixSeed = (userId: string, date = new Date()) => `${userId}:${isoDate(date)}`;
+export const weeklyDiscoverySeed = (userId: string, date = new Date()) => `${userId}:${isoWeek(date)}`;
+
+// Weighted sample without replacement (Efraimidis-Spirakis): heavier tracks
+// are likelier to be picked and to come first
+const weightedSample = (tracks: MixSourceTrack[], size: number, random: () => number) =>
+  tracks
+    .map(track => ({ track, key: Math.pow(random(), 1 / Math.max(track.weight, 1e-6)) }))
+    .sort((a, b) => b.key - a.key)
+    .slice(0, size)
+    .map(({ track }) => track);
+
+interface Theme {
+  label: string;
+  tracks: MixSourceTrack[];
+  weight: number;
+}
+
+const themesBy = (tracks: MixSourceTrack[], keyOf: (video: Video) => string | undefined, labelOf: (key: string, video: Video) => string) => {
+  const groups = new Map<string, Theme>();
+  for (const track of tracks) {
+    const key = keyOf(track.video);
+    if (!key) continue;
+    const theme = groups.get(key) || { label: labelOf(key, track.video), tracks: [], weight: 0 };
+    theme.tracks.push(track);
+    theme.weight += track.weight;
+    groups.set(key, theme);
+  }
+  return [...groups.values()]
+    .filter(theme => theme.tracks.length >= MIN_MIX_TRACKS)
+    .sort((a, b) => b.weight - a.weight || a.label.localeCompare(b.label));
+};
+
+const overlap = (a: Theme, b: Theme) => {
+  const ids = new Set(b.tracks.map(t => t.video.id));
+  return a.tracks.filter(t => ids.has(t.video.id)).length / a.tracks.length;
+};
+
+// Cluster the listener's tracks into 3-6 themes (genres first, then moods,
+// then artists) and sample a mix from each. Fewer than 3 themes: no mixes.
+export const buildDailyMixes = (sourceTracks: MixSourceTrack[], seed: string): GeneratedMix[] => {
+  const random = seededRandom(seed);
+  // Input order mustn't change the result
+  const tracks = [...sourceTracks]
+    .map(track => ({ ...track, video: analyzeVideo(track.video) }))
+    .sort((a, b) => a.video.id.localeCompare(b.video.id));
+
+  const candidates = [
+    ...themesBy(tracks, v => v.genre, genre => describeSeed({ type: 'genre', genre })),
+    ...themesBy(tracks, v => (v.mood !== 'neutral' ? v.mood : undefined), mood => describeSeed({ type: 'mood', mood })),
+    ...themesBy(tracks, v => artistKey(v) || undefined, (_, video) => video.channelTitle),
+  ];
+
+  const themes: Theme[] = [];
+  for (const theme of candidates) {
+    if (themes.length >= MAX_MIXES) break;
+    if (themes.some(chosen => overlap(theme, chosen) > MAX_OVERLAP)) continue;
+    themes.push(theme);
+  }
+  if (themes.length < MIN_MIXES) return [];
+
+  return themes.map((theme, i) => {
+    const videos = weightedSample(theme.tracks, MIX_SIZE, random).map(t => t.video);
+    const artists = [...new Set(videos.map(v => v.channelTitle).filter(Boolean))];
+    const named = artists.slice(0, DESCRIPTION_ARTISTS).join(', ');
+    return {
+      name: `Daily Mix ${i + 1}`,
+      description: `${theme.label} · ${artists.length > DESCRIPTION_ARTISTS ? `${named} and more` : named}`,
+      videos,
+    };
+  });
+};
+
+// Unheard tracks related to a sample of the listener's favourites, ranked for
+// discovery. Candidate lists come from the network, so only the choice of
+// seeds and the ranking jitter are reproducible.
+export const buildWeeklyDiscovery = async (
+  sourceTracks: MixSourceTrack[],
+  heard: Set<string>,
+  sourcesFor: (seed: Video) => CandidateSources | null,
+  seed: string
+): Promise<Video[]> => {
+  const random = seededRandom(seed);
+  const tracks = [...sourceTracks].sort((a, b) => a.video.id.localeCompare(b.video.id));
+  const seeds = weightedSample(tracks, DISCOVERY_SEEDS, random).map(t => analyzeVideo(t.video));
+
+  const exclude = new Set(heard);
+  const perSeed: Video[][] = [];
+  // One seed at a time; each search fans out to several requests already
+  for (const seedVideo of seeds) {
+    const sources = sourcesFor(seedVideo);
+    if (!sources) continue;
+    const { candidates } = await gatherCandidates(seedVideo, sources, { exclude });
+    const eligible = candidates.filter(video => !rejectionFor(video, {}));
+    const ranked = rankCandidates(eligible, { seed: seedVideo, discovery: DISCOVERY_LEVEL, random });
+    ranked.forEach(video => exclude.add(video.id));
+    perSeed.push(ranked);
+  }
+
+  // Alternate between seeds so no favourite dominates the playlist
+  const interleaved: Video[] = [];
+  for (let i = 0; perSeed.some(list => i < list.length); i++) {
+    perSeed.forEach(list => {
+      if (i < list.length) interleaved.push(list[i]);
+    });
+  }
+  return capArtists(interleaved, DISCOVERY_ARTIST_CAP, DISCOVERY_SIZE).kept.slice(0, DISCOVERY_SIZE);
+};
@@ -0,0 +1,62 @@
+import { describe, expect, it } from 'vitest';
+import type { Video } from '@/contexts/AudioPlayerContext';
+import { rankCandidates } from './rank';
+import { seededRandom } from './mixes';
+import { video } from './testUtils';
+
+// Untagged titles analyze as pop / neutral / medium, like the seed
+const seed = video('seed', 'Midnight City', 'M83');
+const sameArtist = video('a', 'Wait', 'M83'); // 115: base, artist, genre, mood, tempo
+const rock = video('b', 'Heavy Rock Anthem', 'Stone Band'); // 65: base, mood, tempo
+const sameGenre = video('c', 'Afterglow', 'Nova'); // 80: base, genre, mood, tempo
+const candidates = [sameArtist, rock, sameGenre];
+
+const noJitter = () => 0;
+const ids = (videos: Video[]) => videos.map(v => v.id);
+
+describe('rankCandidates', () => {
+  it('orders by score and attaches the breakdown', () => {
+    const ranked = rankCandidates(candidates, { seed, discovery: 50, random: noJitter });
+
+    expect(ids(ranked)).toEqual(['a', 'c', 'b']);
+    expect(ranked.map(v => v.recommendation?.score?.total)).toEqual([115, 80, 65]);
+    expect(ranked[0].recommendation?.score).toMatchObject({ sameArtist: 35, sameGenre: 15, jitter: 0 });
+  });
+
+  it('keeps input order on ties', () => {
+    // Three skips take "Afterglow" down to 65, level with the rock track
+    const ranked = rankCandidates(candidates, { seed, skipCounts: { c: 3 }, random: noJitter });
+    expect(ids(ranked)).toEqual(['a', 'b', 'c']);
+
+    const reversed = rankCandidates([sameArtist, sameGenre, rock], { seed, skipCounts: { c: 3 }, random: noJitter });
+    expect(ids(reversed)).toEqual(['a', 'c', 'b']);
+  });
+
+  it('caps the skip penalty', () => {
+    const [ranked] = rankCandidates([sameGenre], { seed, skipCounts: { c: 10 }, random: noJitter });
+    expect(ranked.recommendation?.score?.skips).toBe(-25);
+  });
+
+  it('penalizes artists played recently', () => {
+    const recent = [video('r1', 'Something Else', 'Nova')];
+    const ranked = rankCandidates(candidates, { seed, recent, random: noJitter });
+    expect(ranked.find(v => v.id === 'c')?.recommendation?.score?.recentArtist).toBe(-15);
+  });
+
+  it('favours new artists at full discovery', () => {
+    const ranked = rankCandidates(candidates, { seed, discovery: 100, random: noJitter });
+    expect(ids(ranked)).toEqual(['c', 'a', 'b']);
+    expect(ranked.map(v => v.recommendation?.score?.discovery)).toEqual([20, -25, 20]);
+  });
+
+  it('is reproducible with a seeded random', () => {
+    const first = rankCandidates(candidates, { seed, random: seededRandom('fixture') });
+    const second = rankCandidates(candidates, { seed, random: seededRandom('fixture') });
+
+    expect(second).toEqual(first);
+    for (const ranked of first) {
+      expect(ranked.recommendation?.score?.jitter).toBeGreaterThanOrEqual(0);
+      expect(ranked.recommendation?.score?.jitter).toBeLessThan(12);
+    }
+  });
+});
@@ -0,0 +1,89 @@
+// One scoring function for every autoplay queue
+import type { Video } from '@/contexts/AudioPlayerContext';
+import { analyzeVideo } from './analyze';
+import type { SkipCounts } from './skips';
+import { affinityBonus, type Affinity } from './affinity';
+import { stationBonus, type Station } from './stations';
+import type { ScoreBreakdown } from './explain';
+import { artistKey, discoveryBonus, DEFAULT_DISCOVERY } from './discovery';
+
+export interface RankContext {
+  seed: Video;
+  // Most recent first; their channels get a variety penalty
+  recent?: Video[];
+  skipCounts?: SkipCounts;
+  // Learned from the signed-in user's listening history
+  affinity?: Affinity | null;
+  // Radio station being played; its seeds and feedback steer the ranking
+  station?: Station | null;
+  // 0 (familiar) to 100 (new artists, fewer views)
+  discovery?: number;
+  // Artists the listener already knows; derived from recent and affinity when unset
+  knownArtists?: Set<string>;
+  // Source of the discovery jitter; pass a seeded generator for stable output
+  random?: () => number;
+}
+
+const BASE_SCORE = 50;
+const SAME_ARTIST_BONUS = 35;
+const SAME_GENRE_BONUS = 15;
+const SAME_MOOD_BONUS = 10;
+const SAME_TEMPO_BONUS = 5;
+// BPMs this close (or at half/double time) count as the same tempo
+const BPM_TOLERANCE = 0.06;
+const RECENT_CHANNEL_PENALTY = 15;
+const RECENT_CHANNELS = 5;
+const SKIP_PENALTY = 5; // per skip
+const MAX_SKIP_PENALTY = 25;
+const DISCOVERY_JITTER = 12;
+
+const isSimilarBpm = (a: number, b: number) =>
+  [b, b * 2, b / 2].some(target => Math.abs(a - target) / target <= BPM_TOLERANCE);
+
+const isSameArtist = (a: Video, b: Video) =>
+  (!!a.channelId && a.channelId === b.channelId) ||
+  a.channelTitle?.toLowerCase() === b.channelTitle?.toLowerCase();
+
+const knownArtistsOf = ({ recent = [], affinity }: RankContext) =>
+  new Set([...recent.map(artistKey), ...Object.keys(affinity?.artists ?? {})]);
+
+// Every rule's contribution to a candidate's score
+export const explainScore = (candidate: Video, context: RankContext): ScoreBreakdown => {
+  const { seed, recent = [], skipCounts = {}, affinity, station, random = Math.random } = context;
+  const { discovery = DEFAULT_DISCOVERY } = context;
+  const analyzed = analyzeVideo(candidate);
+  const seedAnalyzed = analyzeVideo(seed);
+
+  const sameTempo = analyzed.bpm && seedAnalyzed.bpm
+    ? isSimilarBpm(analyzed.bpm, seedAnalyzed.bpm)
+    : analyzed.tempo === seedAnalyzed.tempo;
+  const skips = skipCounts[candidate.id] || 0;
+
+  const parts = {
+    base: BASE_SCORE,
+    sameArtist: isSameArtist(candidate, seed) ? SAME_ARTIST_BONUS : 0,
+    sameGenre: analyzed.genre === seedAnalyzed.genre ? SAME_GENRE_BONUS : 0,
+    sameMood: analyzed.mood === seedAnalyzed.mood ? SAME_MOOD_BONUS : 0,
+    sameTempo: sameTempo ? SAME_TEMPO_BONUS : 0,
+    recentArtist: recent.slice(0, RECENT_CHANNELS).some(v => isSameArtist(candidate, v)) ? -RECENT_CHANNEL_PENALTY : 0,
+    skips: -Math.min(MAX_SKIP_PENALTY, skips * SKIP_PENALTY),
+    affinity: affinity ? affinityBonus(analyzed, affinity) : 0,
+    station: station ? stationBonus(analyzed, station) : 0,
+    discovery: discoveryBonus(analyzed, seed, context.knownArtists ?? knownArtistsOf(context), discovery),
+    jitter: random() * DISCOVERY_JITTER,
+  };
+  return { ...parts, total: Object.values(parts).reduce((sum, value) => sum + value, 0) };
+};
+
+export const scoreCandidate = (candidate: Video, context: RankContext): number =>
+  explainScore(candidate, context).total;
+
+// Analyze, score and sort candidates (best first). Ties keep input order.
+// Each ranked video carries its score breakdown.
+export const rankCandidates = (candidates: Video[], context: RankContext): Video[] => {
+  const withKnown = { ...context, knownArtists: context.knownArtists ?? knownArtistsOf(context) };
+  return candidates
+    .map((video, index) => ({ video: analyzeVideo(video), score: explainScore(video, withKnown), index }))
+    .sort((a, b) => b.score.total - a.score.total || a.index - b.index)
+    .map(({ video, score }) => ({ ...video, recommendation: { ...video.recommendation, score } }));
+};
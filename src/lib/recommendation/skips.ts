@@ -0,0 +1,36 @@
+// Skip counts per video, shared by every autoplay path
+const SKIP_DATA_KEY = 'autoplaySkipData';
+// Written by the old smart-autoplay hooks; folded in on first load
+const LEGACY_SKIP_DATA_KEY = 'autoplay_skip_data';
+
+export type SkipCounts = Record<string, number>;
+
+const readSkipCounts = (key: string): SkipCounts => {
+  const stored = localStorage.getItem(key);
+  if (!stored) return {};
+  try {
+    return JSON.parse(stored);
+  } catch (e) {
+    console.error('Failed to parse skip data:', e);
+    return {};
+  }
+};
+
+export const loadSkipCounts = (): SkipCounts => {
+  const counts = readSkipCounts(SKIP_DATA_KEY);
+  if (localStorage.getItem(LEGACY_SKIP_DATA_KEY) === null) return counts;
+
+  for (const [id, count] of Object.entries(readSkipCounts(LEGACY_SKIP_DATA_KEY))) {
+    counts[id] = Math.max(counts[id] || 0, count);
+  }
+  localStorage.setItem(SKIP_DATA_KEY, JSON.stringify(counts));
+  localStorage.removeItem(LEGACY_SKIP_DATA_KEY);
+  return counts;
+};
+
+export const recordSkip = (videoId: string): SkipCounts => {
+  const counts = loadSkipCounts();
+  counts[videoId] = (counts[videoId] || 0) + 1;
+  localStorage.setItem(SKIP_DATA_KEY, JSON.stringify(counts));
+  return counts;
+};
@@ -0,0 +1,177 @@
+// Network candidate sources: YouTube Music edge function, AI suggestions and
+// the YouTube Data API (when the user has set a key), plus radio seed tracks.
+// Free-music seeds use the music-catalog function (Jamendo) instead.
+import type { Video } from '@/contexts/AudioPlayerContext';
+import { callApi } from '@/lib/api';
+import type { YTSong } from '@/hooks/useYTMusicAPI';
+import { freeTrackToVideo, type FreeTrack } from '@/hooks/useFreeMusicCatalog';
+import type { CandidateSources, SuggestedQuery } from './candidates';
+import type { CandidateOrigin } from './explain';
+import type { StationSources } from './stations';
+import { loadDiscovery } from './discovery';
+
+const RELATED_LIMIT = 25;
+const SEARCH_LIMIT = 6;
+const STATION_SEARCH_LIMIT = 20;
+const FALLBACK_LIMIT = 20;
+const CATALOG_SIMILAR_LIMIT = 20;
+const CATALOG_GENRE_LIMIT = 15;
+const SUGGESTION_HISTORY = 10;
+
+// YouTube Data API search result (only the fields we read)
+interface SearchItem {
+  id: { videoId: string };
+  snippet: {
+    title: string;
+    channelTitle: string;
+    channelId: string;
+    thumbnails: { medium?: { url: string }; default?: { url: string } };
+  };
+}
+
+// "1.2M views" -> 1200000
+const parseViews = (text?: string): number | undefined => {
+  const match = text?.match(/([\d.,]+)\s*([KMB])?/i);
+  if (!match) return undefined;
+  const scale = { k: 1e3, m: 1e6, b: 1e9 }[match[2]?.toLowerCase() as 'k' | 'm' | 'b'] ?? 1;
+  const count = Math.round(parseFloat(match[1].replace(/,/g, '')) * scale);
+  // The function reports "0" when it couldn't read the count
+  return count > 0 ? count : undefined;
+};
+
+const songToVideo = (song: YTSong): Video => ({
+  id: song.videoId,
+  title: song.title,
+  thumbnail: song.thumbnail,
+  channelTitle: song.artist,
+  duration: song.duration,
+  views: parseViews(song.views),
+});
+
+// The function weights view counts by the discovery setting too
+const searchSongs = async (query: string, limit: number): Promise<Video[]> => {
+  const { songs } = await callApi('youtube-music', 'search', { query, limit, discovery: loadDiscovery() });
+  return songs.map(songToVideo);
+};
+
+export const youtubeMusicSources: CandidateSources = {
+  related: async (seed) => {
+    console.log(`[Autoplay] Fetching related songs for: ${seed.id}`);
+    const songs = await callApi('youtube-music', 'related', { videoId: seed.id, limit: RELATED_LIMIT, discovery: loadDiscovery() });
+    return songs.map(songToVideo);
+  },
+
+  suggestions: async (seed, recent) => {
+    try {
+      const { tracks, suggestions } = await callApi('smart-suggestions', 'suggest', {
+        currentSong: { title: seed.title, artist: seed.channelTitle || '' },
+        recentHistory: recent.slice(0, SUGGESTION_HISTORY).map(v => v.channelTitle).filter(Boolean),
+      });
+      // Fallback suggestions come without tracks, just queries
+      if (tracks.length > 0) {
+        return tracks.map((t): SuggestedQuery => ({ query: `${t.artist} ${t.title}`, reason: t.reason || undefined }));
+      }
+      return suggestions.map(query => ({ query }));
+    } catch (err) {
+      console.error('[Autoplay] AI suggestions error:', err);
+      return [];
+    }
+  },
+
+  search: async (query) => {
+    try {
+      return await searchSongs(query, SEARCH_LIMIT);
+    } catch (err) {
+      console.error('[Autoplay] Search error:', err);
+      return [];
+    }
+  },
+
+  fallback: async (seed) => {
+    const apiKey = localStorage.getItem('youtube_api_key');
+    if (!apiKey) return [];
+
+    const response = await fetch(
+      `https://www.googleapis.com/youtube/v3/search?part=snippet&maxResults=${FALLBACK_LIMIT}&q=${encodeURIComponent(seed.channelTitle + ' songs')}&type=video&videoCategoryId=10&key=${apiKey}`
+    );
+    if (!response.ok) return [];
+
+    const data = await response.json();
+    return ((data.items || []) as SearchItem[]).map(item => ({
+      id: item.id.videoId,
+      title: item.snippet.title,
+      thumbnail: item.snippet.thumbnails.medium?.url || item.snippet.thumbnails.default?.url || '',
+      channelTitle: item.snippet.channelTitle,
+      channelId: item.snippet.channelId,
+    }));
+  },
+};
+
+const catalogVideos = (tracks: FreeTrack[], origin: CandidateOrigin): Video[] =>
+  tracks.map(track => ({ ...freeTrackToVideo(track), recommendation: { origin } }));
+
+// One list failing shouldn't lose the others
+const catalogList = async (label: string, load: () => Promise<Video[]>): Promise<Video[]> => {
+  try {
+    return await load();
+  } catch (err) {
+    console.error(`[Autoplay] Catalog ${label} error:`, err);
+    return [];
+  }
+};
+
+// Jamendo seeds: similar tracks, the seed's genre and the curated playlists,
+// all direct audio. The ranker sorts out which playlist tracks fit.
+export const musicCatalogSources: CandidateSources = {
+  related: async (seed) => {
+    console.log(`[Autoplay] Fetching catalog tracks for: ${seed.id}`);
+    const trackId = seed.id.replace('free_', '');
+    const lists = await Promise.all([
+      catalogList('similar', async () => catalogVideos(
+        await callApi('music-catalog', 'similar', { trackId, limit: CATALOG_SIMILAR_LIMIT }),
+        { kind: 'catalog', via: 'similar', name: seed.title }
+      )),
+      catalogList('genre', async () => seed.genre
+        ? catalogVideos(
+          await callApi('music-catalog', 'genre', { genre: seed.genre, limit: CATALOG_GENRE_LIMIT }),
+          { kind: 'catalog', via: 'genre', name: seed.genre }
+        )
+        : []),
+      catalogList('playlists', async () => {
+        const playlists = await callApi('music-catalog', 'playlists');
+        return playlists.flatMap(p => catalogVideos(p.tracks, { kind: 'catalog', via: 'playlist', name: p.name }));
+      }),
+    ]);
+    return lists.flat();
+  },
+
+  // AI suggestions are YouTube searches; they'd take playback off direct audio
+  suggestions: async () => [],
+
+  search: (query) => catalogList('search', async () => catalogVideos(
+    await callApi('music-catalog', 'search', { query, limit: SEARCH_LIMIT }),
+    { kind: 'search', query }
+  )),
+
+  fallback: async () => catalogVideos(
+    await callApi('music-catalog', 'trending', { limit: FALLBACK_LIMIT }),
+    { kind: 'catalog', via: 'trending' }
+  ),
+};
+
+// Autoplay stays on the seed's catalog: Jamendo for free music (older saved
+// tracks only have the free_ id prefix), none for local files
+export const autoplaySourcesFor = (seed: Video): CandidateSources | null => {
+  if (seed.source === 'jamendo' || seed.id.startsWith('free_')) return musicCatalogSources;
+  if (seed.source === 'local' || seed.streamUrl) return null;
+  return youtubeMusicSources;
+};
+
+export const youtubeMusicStationSources: StationSources = {
+  artist: async (channelId) => {
+    const artist = await callApi('youtube-music', 'artist', { channelId });
+    return (artist?.topTracks || []).map(songToVideo);
+  },
+
+  search: (query) => searchSongs(query, STATION_SEARCH_LIMIT),
+};
@@ -0,0 +1,271 @@
+// Radio stations: a saved seed set (artists, genres, moods, playlists) plus
+// "more/less like this" feedback. Seeds supply extra candidates; seeds and
+// feedback together weight the ranking of every batch the station queues.
+import type { Video } from '@/contexts/AudioPlayerContext';
+import type { CandidateSources } from './candidates';
+import { analyzeVideo, GENRE_KEYWORDS, MOOD_KEYWORDS } from './analyze';
+
+export type StationSeed =
+  | { type: 'artist'; name: string; channelId?: string }
+  | { type: 'genre'; genre: string }
+  | { type: 'mood'; mood: string }
+  | { type: 'playlist'; name: string; videos: Video[] };
+
+export type StationRating = 'more' | 'less';
+
+export interface StationFeedback {
+  videoId: string;
+  artist: string;
+  genre?: string;
+  mood?: string;
+  rating: StationRating;
+  ratedAt: number;
+}
+
+export interface Station {
+  id: string;
+  name: string;
+  seeds: StationSeed[];
+  feedback: StationFeedback[];
+  thumbnail?: string;
+  createdAt: number;
+  lastPlayedAt: number;
+}
+
+// Where a station's seed tracks come from
+export interface StationSources {
+  artist: (channelId: string) => Promise<Video[]>;
+  search: (query: string) => Promise<Video[]>;
+}
+
+const STATIONS_KEY = 'radioStations';
+const MAX_STATIONS = 20;
+const MAX_FEEDBACK = 50;
+const MAX_PLAYLIST_SEED = 50;
+
+// Weight each seed or rating adds to its artist/genre/mood, clamped to [-1, 1]
+const SEED_WEIGHT = 1;
+const PLAYLIST_ARTIST_WEIGHT = 0.5;
+const FEEDBACK_ARTIST_WEIGHT = 0.4;
+const FEEDBACK_TAG_WEIGHT = 0.25;
+
+const ARTIST_BONUS = 30;
+const GENRE_BONUS = 15;
+const MOOD_BONUS = 10;
+
+const GENRE_LABELS: Record<string, string> = {
+  pop: 'Pop',
+  rock: 'Rock',
+  hiphop: 'Hip Hop',
+  electronic: 'Electronic',
+  rnb: 'R&B',
+  jazz: 'Jazz',
+  classical: 'Classical',
+  country: 'Country',
+  latin: 'Latin',
+  kpop: 'K-Pop',
+};
+
+const MOOD_LABELS: Record<string, string> = {
+  energetic: 'Energetic',
+  chill: 'Chill',
+  sad: 'Sad',
+  happy: 'Happy',
+  romantic: 'Romantic',
+};
+
+export const STATION_GENRES = Object.keys(GENRE_KEYWORDS).map(id => ({ id, label: GENRE_LABELS[id] || id }));
+export const STATION_MOODS = Object.keys(MOOD_KEYWORDS).map(id => ({ id, label: MOOD_LABELS[id] || id }));
+
+export const describeSeed = (seed: StationSeed): string => {
+  switch (seed.type) {
+    case 'artist':
+      return seed.name;
+    case 'genre':
+      return GENRE_LABELS[seed.genre] || seed.genre;
+    case 'mood':
+      return MOOD_LABELS[seed.mood] || seed.mood;
+    case 'playlist':
+      return seed.name;
+  }
+};
+
+// Identifies a seed so starting the same station twice resumes the saved one
+const seedKey = (seed: StationSeed) => {
+  switch (seed.type) {
+    case 'artist':
+      return `artist:${seed.channelId || seed.name.toLowerCase()}`;
+    case 'genre':
+      return `genre:${seed.genre}`;
+    case 'mood':
+      return `mood:${seed.mood}`;
+    case 'playlist':
+      return `playlist:${seed.name.toLowerCase()}`;
+  }
+};
+
+export const findStation = (stations: Station[], seed: StationSeed) =>
+  stations.find(s => s.seeds.length === 1 && seedKey(s.seeds[0]) === seedKey(seed));
+
+export const createStation = (seed: StationSeed, thumbnail?: string): Station => {
+  const now = Date.now();
+  return {
+    id: `station_${now}`,
+    name: `${describeSeed(seed)} Radio`,
+    seeds: [seed.type === 'playlist' ? { ...seed, videos: seed.videos.slice(0, MAX_PLAYLIST_SEED) } : seed],
+    feedback: [],
+    thumbnail: thumbnail || (seed.type === 'playlist' ? seed.videos[0]?.thumbnail : undefined),
+    createdAt: now,
+    lastPlayedAt: now,
+  };
+};
+
+export const loadStations = (): Station[] => {
+  const stored = localStorage.getItem(STATIONS_KEY);
+  if (!stored) return [];
+  try {
+    return JSON.parse(stored);
+  } catch (e) {
+    console.error('Failed to parse radio stations:', e);
+    return [];
+  }
+};
+
+// Most recently played first; the oldest stations drop off past the limit
+export const saveStations = (stations: Station[]) => {
+  const sorted = [...stations].sort((a, b) => b.lastPlayedAt - a.lastPlayedAt).slice(0, MAX_STATIONS);
+  localStorage.setItem(STATIONS_KEY, JSON.stringify(sorted));
+  return sorted;
+};
+
+// Newer ratings of the same track replace older ones
+export const rateStationTrack = (station: Station, video: Video, rating: StationRating): Station => {
+  const analyzed = analyzeVideo(video);
+  const entry: StationFeedback = {
+    videoId: video.id,
+    artist: video.channelTitle,
+    genre: analyzed.genre,
+    mood: analyzed.mood,
+    rating,
+    ratedAt: Date.now(),
+  };
+  return {
+    ...station,
+    feedback: [entry, ...station.feedback.filter(f => f.videoId !== video.id)].slice(0, MAX_FEEDBACK),
+  };
+};
+
+// Tracks rated "less like this" are never queued again on this station
+export const dislikedIds = (station: Station) =>
+  station.feedback.filter(f => f.rating === 'less').map(f => f.videoId);
+
+interface StationWeights {
+  artists: Record<string, number>;
+  genres: Record<string, number>;
+  moods: Record<string, number>;
+}
+
+const weightsCache = new WeakMap<Station, StationWeights>();
+
+const stationWeights = (station: Station): StationWeights => {
+  const cached = weightsCache.get(station);
+  if (cached) return cached;
+
+  const weights: StationWeights = { artists: {}, genres: {}, moods: {} };
+  const add = (table: Record<string, number>, key: string | undefined, amount: number) => {
+    if (!key) return;
+    const k = key.toLowerCase();
+    table[k] = Math.max(-1, Math.min(1, (table[k] || 0) + amount));
+  };
+
+  for (const seed of station.seeds) {
+    if (seed.type === 'artist') add(weights.artists, seed.name, SEED_WEIGHT);
+    else if (seed.type === 'genre') add(weights.genres, seed.genre, SEED_WEIGHT);
+    else if (seed.type === 'mood') add(weights.moods, seed.mood, SEED_WEIGHT);
+    else {
+      // Spread the playlist's weight over its artists
+      const artists = [...new Set(seed.videos.map(v => v.channelTitle).filter(Boolean))];
+      artists.forEach(a => add(weights.artists, a, PLAYLIST_ARTIST_WEIGHT));
+    }
+  }
+
+  for (const f of station.feedback) {
+    const sign = f.rating === 'more' ? 1 : -1;
+    add(weights.artists, f.artist, sign * FEEDBACK_ARTIST_WEIGHT);
+    add(weights.genres, f.genre, sign * FEEDBACK_TAG_WEIGHT);
+    add(weights.moods, f.mood, sign * FEEDBACK_TAG_WEIGHT);
+  }
+
+  weightsCache.set(station, weights);
+  return weights;
+};
+
+// Score adjustment for an analyzed candidate (genre/mood already tagged)
+export const stationBonus = (candidate: Video, station: Station): number => {
+  const weights = stationWeights(station);
+  const artist = weights.artists[candidate.channelTitle?.toLowerCase()] ?? 0;
+  const genre = candidate.genre ? weights.genres[candidate.genre.toLowerCase()] ?? 0 : 0;
+  const mood = candidate.mood ? weights.moods[candidate.mood.toLowerCase()] ?? 0 : 0;
+  return artist * ARTIST_BONUS + genre * GENRE_BONUS + mood * MOOD_BONUS;
+};
+
+const seedTracks = async (seed: StationSeed, sources: StationSources): Promise<Video[]> => {
+  switch (seed.type) {
+    case 'artist': {
+      const tracks = seed.channelId ? await sources.artist(seed.channelId) : [];
+      return tracks.length > 0 ? tracks : sources.search(`${seed.name} songs`);
+    }
+    case 'genre':
+      return sources.search(`${GENRE_LABELS[seed.genre] || seed.genre} music`);
+    case 'mood':
+      return sources.search(`${MOOD_LABELS[seed.mood] || seed.mood} songs`);
+    case 'playlist':
+      return seed.videos;
+  }
+};
+
+// Tracks straight from the seeds, tagged so genre/mood seeds match them and
+// so the queue can say which seed each one came from
+export const gatherStationTracks = async (station: Station, sources: StationSources): Promise<Video[]> => {
+  const results = await Promise.all(station.seeds.map(async seed => {
+    try {
+      const tracks = await seedTracks(seed, sources);
+      return tracks.map(track => ({
+        ...track,
+        genre: track.genre || (seed.type === 'genre' ? seed.genre : undefined),
+        mood: track.mood || (seed.type === 'mood' ? seed.mood : undefined),
+        recommendation: { origin: { kind: 'station' as const, station: station.name, seed: describeSeed(seed) } },
+      }));
+    } catch (e) {
+      console.error(`[Radio] Failed to load tracks for "${describeSeed(seed)}":`, e);
+      return [];
+    }
+  }));
+
+  const disliked = new Set(dislikedIds(station));
+  const seen = new Set<string>();
+  return results.flat().filter(track => {
+    if (!track.id || seen.has(track.id) || disliked.has(track.id)) return false;
+    seen.add(track.id);
+    return true;
+  });
+};
+
+// Candidate sources that mix the station's seed tracks in with related songs
+export const stationCandidateSources = (
+  station: Station,
+  base: CandidateSources,
+  sources: StationSources
+): CandidateSources => ({
+  ...base,
+  related: async (seed) => {
+    const [related, seeded] = await Promise.all([
+      base.related(seed).catch(e => {
+        console.error('[Radio] Related songs error:', e);
+        return [] as Video[];
+      }),
+      gatherStationTracks(station, sources),
+    ]);
+    return [...seeded, ...related];
+  },
+});
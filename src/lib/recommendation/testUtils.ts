@@ -0,0 +1,10 @@
+// Shared by the recommendation tests
+import type { Video } from '@/contexts/AudioPlayerContext';
+
+export const video = (id: string, title: string, channelTitle: string, extra: Partial<Video> = {}): Video => ({
+  id,
+  title,
+  channelTitle,
+  thumbnail: '',
+  ...extra,
+});
@@ -11,12 +11,17 @@ import PlaylistsGrid from '@/components/PlaylistsGrid';
 import RecommendationsGrid from '@/components/RecommendationsGrid';
 import YTMusicHomeNew from '@/components/YTMusicHomeNew';
 import YTMusicSearchNew from '@/components/YTMusicSearchNew';
+import LocalLibrarySection from '@/components/LocalLibrarySection';
+import DownloadsSection from '@/components/DownloadsSection';
 import { ApiKeyProvider } from '@/contexts/ApiKeyContext';
 import { AudioPlayerProvider, useAudioPlayer } from '@/contexts/AudioPlayerContext';
 import { ThemeProvider } from '@/contexts/ThemeContext';
 import { AuthProvider } from '@/contexts/AuthContext';
 import { AppModeProvider, useAppMode } from '@/contexts/AppModeContext';
 import { MusicSyncProvider } from '@/contexts/MusicSyncContext';
+import { EqualizerProvider } from '@/contexts/EqualizerContext';
+import { BookmarksProvider } from '@/contexts/BookmarksContext';
+import { OfflineDownloadsProvider } from '@/contexts/OfflineDownloadsContext';
 
 const MainContent = () => {
   const [searchQuery, setSearchQuery] = useState('');
@@ -32,7 +37,11 @@ const MainContent = () => {
           searchQuery ? (
             <YTMusicSearchNew searchQuery={searchQuery} onSearchChange={setSearchQuery} />
           ) : (
-            <YTMusicHomeNew />
+            <>
+              <LocalLibrarySection />
+              <DownloadsSection />
+              <YTMusicHomeNew />
+            </>
           )
         ) : (
           // API Mode - Requires YouTube API key
@@ -40,6 +49,8 @@ const MainContent = () => {
             <VideoGrid searchQuery={searchQuery} />
           ) : (
             <>
+              <LocalLibrarySection />
+              <DownloadsSection />
               <RecentlyPlayedGrid />
               <TrendingGrid />
               <PlaylistsGrid />
@@ -77,10 +88,16 @@ const Index = () => {
           <ThemeProvider>
             <ApiKeyProvider>
               <AudioPlayerProvider>
-                <MusicSyncProvider>
-                  {showSplash && <SplashScreen onComplete={() => setShowSplash(false)} />}
-                  <MainContent />
-                </MusicSyncProvider>
+                <EqualizerProvider>
+                  <BookmarksProvider>
+                    <OfflineDownloadsProvider>
+                      <MusicSyncProvider>
+                        {showSplash && <SplashScreen onComplete={() => setShowSplash(false)} />}
+                        <MainContent />
+                      </MusicSyncProvider>
+                    </OfflineDownloadsProvider>
+                  </BookmarksProvider>
+                </EqualizerProvider>
               </AudioPlayerProvider>
             </ApiKeyProvider>
           </ThemeProvider>
@@ -1,44 +1,13 @@
 // Universal Playlist Types
+import type { FileFormat, NormalizedTrack as ImportedTrack, Platform, PlaylistResult } from '@api';
 
-export type Platform = 'youtube' | 'spotify' | 'apple_music' | 'soundcloud' | 'jiosaavn' | 'wynk' | 'local' | 'manual';
+// Import results come from the import-playlist function's contract
+export type { Platform, PlaylistResult };
 
-export interface NormalizedTrack {
-  id: string;
-  title: string;
-  artist: string;
-  album?: string;
-  track_id: string;
-  duration_ms?: number;
-  release_year?: number;
-  genre?: string;
-  mood?: string;
-  popularity_score?: number;
-  is_explicit?: boolean;
-  isrc_code?: string;
-  bpm?: number;
-  key?: string;
-  source_platform: Platform;
-  thumb_url?: string;
-  video_id?: string;
-  original_url?: string;
-  match_confidence?: number;
+export interface NormalizedTrack extends ImportedTrack {
   selected?: boolean;
 }
 
-export interface PlaylistResult {
-  status: 'success' | 'warning' | 'error';
-  error_code?: string;
-  error_message?: string;
-  playlist_source: Platform;
-  playlist_name: string;
-  playlist_url?: string;
-  total_tracks: number;
-  deduplicated: number;
-  enriched_fields: string[];
-  tracks: NormalizedTrack[];
-  warnings?: string[];
-}
-
 export type SortMode = 
   | 'original_order'
   | 'title'
@@ -72,7 +41,7 @@ export interface ExportFormat {
 export interface ImportOptions {
   url?: string;
   fileContent?: string;
-  fileFormat?: 'json' | 'csv' | 'm3u' | 'txt';
+  fileFormat?: FileFormat;
   manualInput?: string;
   deduplicate?: boolean;
   enrichWithYouTube?: boolean;
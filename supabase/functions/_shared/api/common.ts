@@ -0,0 +1,119 @@
+// Envelope, versioning and error codes shared by every edge function and the
+// React client (imported there as @api). Runtime-neutral: no Deno or DOM APIs.
+//
+// Request:  { version?, action, ...params }   (version defaults to API_VERSION)
+// Success:  { version, data }
+// Failure:  { version, error, code, details? }
+import { z } from "zod";
+
+export const API_VERSION = 1;
+
+export const API_ERROR_CODES = [
+  "INVALID_REQUEST",
+  "UNSUPPORTED_VERSION",
+  "UNKNOWN_ACTION",
+  "UNAUTHORIZED",
+  "RATE_LIMITED",
+  "INVALID_URL",
+  "UNSUPPORTED_PLATFORM",
+  "UPSTREAM_ERROR",
+  "INTERNAL_ERROR",
+  // Client side only: the response didn't match the contract
+  "INVALID_RESPONSE",
+] as const;
+
+export type ApiErrorCode = typeof API_ERROR_CODES[number];
+
+export const API_ERROR_STATUS: Record<ApiErrorCode, number> = {
+  INVALID_REQUEST: 400,
+  UNSUPPORTED_VERSION: 400,
+  UNKNOWN_ACTION: 400,
+  UNAUTHORIZED: 401,
+  RATE_LIMITED: 429,
+  INVALID_URL: 400,
+  UNSUPPORTED_PLATFORM: 400,
+  UPSTREAM_ERROR: 502,
+  INTERNAL_ERROR: 500,
+  INVALID_RESPONSE: 500,
+};
+
+export interface ApiErrorBody {
+  version: number;
+  error: string;
+  code: ApiErrorCode;
+  details?: unknown;
+}
+
+export const apiErrorBodySchema = z.object({
+  version: z.number().optional(),
+  error: z.string(),
+  code: z.enum(API_ERROR_CODES).catch("INTERNAL_ERROR"),
+  details: z.unknown().optional(),
+});
+
+// One action: its params (without action and version) and its data
+export interface ActionContract<
+  Request extends z.ZodTypeAny = z.ZodTypeAny,
+  Response extends z.ZodTypeAny = z.ZodTypeAny,
+> {
+  request: Request;
+  response: Response;
+}
+
+export type FunctionContract = Record<string, ActionContract>;
+
+export const defineAction = <Request extends z.ZodTypeAny, Response extends z.ZodTypeAny>(
+  request: Request,
+  response: Response
+): ActionContract<Request, Response> => ({ request, response });
+
+// No params
+export const noParams = z.object({});
+
+// Validated request, narrowed by action
+export type ParsedRequest<C extends FunctionContract> = {
+  [A in keyof C & string]: { action: A; params: z.output<C[A]["request"]> };
+}[keyof C & string];
+
+export type RequestResult<C extends FunctionContract> =
+  | { ok: true; request: ParsedRequest<C> }
+  | { ok: false; error: ApiErrorBody };
+
+export const dataBody = <T>(data: T) => ({ version: API_VERSION, data });
+
+export const errorBody = (code: ApiErrorCode, message: string, details?: unknown): ApiErrorBody => ({
+  version: API_VERSION,
+  error: message,
+  code,
+  ...(details !== undefined ? { details } : {}),
+});
+
+const describeIssues = (issues: z.ZodIssue[]) =>
+  issues.map(issue => `${issue.path.join(".") || "body"}: ${issue.message}`).join("; ");
+
+// Check a request body against a function's contract
+export function parseRequest<C extends FunctionContract>(contract: C, body: unknown): RequestResult<C> {
+  if (!body || typeof body !== "object" || Array.isArray(body)) {
+    return { ok: false, error: errorBody("INVALID_REQUEST", "Request body must be a JSON object") };
+  }
+
+  const { version = API_VERSION, action, ...params } = body as Record<string, unknown>;
+  if (version !== API_VERSION) {
+    return {
+      ok: false,
+      error: errorBody("UNSUPPORTED_VERSION", `API version ${version} is not supported`, { supported: [API_VERSION] }),
+    };
+  }
+  if (typeof action !== "string" || !Object.prototype.hasOwnProperty.call(contract, action)) {
+    return {
+      ok: false,
+      error: errorBody("UNKNOWN_ACTION", `Unknown action "${action}"`, { actions: Object.keys(contract) }),
+    };
+  }
+
+  const parsed = contract[action].request.safeParse(params);
+  if (!parsed.success) {
+    return { ok: false, error: errorBody("INVALID_REQUEST", describeIssues(parsed.error.issues), parsed.error.issues) };
+  }
+  return { ok: true, request: { action, params: parsed.data } as ParsedRequest<C> };
+}
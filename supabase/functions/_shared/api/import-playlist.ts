@@ -0,0 +1,80 @@
+// import-playlist actions: playlists from a URL, a file or pasted text,
+// normalized to one track shape
+import { z } from "zod";
+import { defineAction } from "./common.ts";
+
+export const platformSchema = z.enum([
+  "youtube",
+  "spotify",
+  "apple_music",
+  "soundcloud",
+  "jiosaavn",
+  "wynk",
+  "local",
+  "manual",
+]);
+
+export type Platform = z.infer<typeof platformSchema>;
+
+export const normalizedTrackSchema = z.object({
+  id: z.string(),
+  title: z.string(),
+  artist: z.string(),
+  album: z.string().optional(),
+  track_id: z.string(),
+  duration_ms: z.number().optional(),
+  release_year: z.number().optional(),
+  genre: z.string().optional(),
+  mood: z.string().optional(),
+  popularity_score: z.number().optional(),
+  is_explicit: z.boolean().optional(),
+  isrc_code: z.string().optional(),
+  bpm: z.number().optional(),
+  key: z.string().optional(),
+  source_platform: platformSchema,
+  thumb_url: z.string().optional(),
+  video_id: z.string().optional(),
+  original_url: z.string().optional(),
+  match_confidence: z.number().optional(),
+});
+
+export type NormalizedTrack = z.infer<typeof normalizedTrackSchema>;
+
+export const playlistResultSchema = z.object({
+  status: z.enum(["success", "warning", "error"]),
+  error_code: z.string().optional(),
+  error_message: z.string().optional(),
+  playlist_source: platformSchema,
+  playlist_name: z.string(),
+  playlist_url: z.string().optional(),
+  total_tracks: z.number(),
+  deduplicated: z.number(),
+  enriched_fields: z.array(z.string()),
+  tracks: z.array(normalizedTrackSchema),
+  warnings: z.array(z.string()).optional(),
+});
+
+export type PlaylistResult = z.infer<typeof playlistResultSchema>;
+
+export const fileFormatSchema = z.enum(["json", "csv", "m3u", "txt"]);
+
+export type FileFormat = z.infer<typeof fileFormatSchema>;
+
+// Drop duplicates; look tracks without a video up on YouTube
+const importOptions = {
+  deduplicate: z.boolean().default(true),
+  enrichWithYouTube: z.boolean().default(true),
+};
+
+export const importPlaylistContract = {
+  url: defineAction(z.object({ url: z.string().trim().min(1).max(2000), ...importOptions }), playlistResultSchema),
+  file: defineAction(
+    z.object({ fileContent: z.string().min(1), fileFormat: fileFormatSchema, ...importOptions }),
+    playlistResultSchema
+  ),
+  manual: defineAction(z.object({ manualInput: z.string().trim().min(1), ...importOptions }), playlistResultSchema),
+  search: defineAction(
+    z.object({ searchQuery: z.string().trim().min(1).max(200) }),
+    z.object({ tracks: z.array(normalizedTrackSchema) })
+  ),
+};
@@ -0,0 +1,23 @@
+// Every edge function's contract, by function name
+import { importPlaylistContract } from "./import-playlist.ts";
+import { listeningHistoryContract } from "./listening-history.ts";
+import { musicCatalogContract } from "./music-catalog.ts";
+import { smartSuggestionsContract } from "./smart-suggestions.ts";
+import { youtubeMusicContract } from "./youtube-music.ts";
+
+export * from "./common.ts";
+export * from "./import-playlist.ts";
+export * from "./listening-history.ts";
+export * from "./music-catalog.ts";
+export * from "./smart-suggestions.ts";
+export * from "./youtube-music.ts";
+
+export const API_CONTRACTS = {
+  "import-playlist": importPlaylistContract,
+  "listening-history": listeningHistoryContract,
+  "music-catalog": musicCatalogContract,
+  "smart-suggestions": smartSuggestionsContract,
+  "youtube-music": youtubeMusicContract,
+};
+
+export type ApiContracts = typeof API_CONTRACTS;
@@ -0,0 +1,35 @@
+// listening-history actions (signed-in users only)
+import { z } from "zod";
+import { defineAction, noParams } from "./common.ts";
+
+export const listenedVideoSchema = z.object({
+  id: z.string().min(1),
+  title: z.string().min(1),
+  thumbnail: z.string().nullish(),
+  channelTitle: z.string().nullish(),
+  duration: z.string().nullish(),
+  genre: z.string().nullish(),
+  mood: z.string().nullish(),
+});
+
+// Per artist/genre/mood enjoyment from -1 to 1, lowercased keys
+export const affinitySchema = z.object({
+  artists: z.record(z.number()),
+  genres: z.record(z.number()),
+  moods: z.record(z.number()),
+  sampleSize: z.number(),
+});
+
+export type Affinity = z.infer<typeof affinitySchema>;
+
+export const listeningHistoryContract = {
+  record: defineAction(
+    z.object({
+      video: listenedVideoSchema,
+      percentListened: z.number().finite(),
+      outcome: z.enum(["skip", "complete"]),
+    }),
+    z.object({ recorded: z.literal(true) })
+  ),
+  affinity: defineAction(noParams, affinitySchema),
+};
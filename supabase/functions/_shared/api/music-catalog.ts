@@ -0,0 +1,51 @@
+// music-catalog actions (Jamendo)
+import { z } from "zod";
+import { defineAction, noParams } from "./common.ts";
+
+export const catalogTrackSchema = z.object({
+  id: z.string(),
+  title: z.string(),
+  artist: z.string(),
+  thumbnail: z.string(),
+  streamUrl: z.string(),
+  duration: z.number(), // seconds
+  genre: z.string().optional(),
+  downloadAllowed: z.boolean(), // Artist allows offline copies under the track's licence
+  license: z.string().optional(), // Creative Commons licence URL
+});
+
+export type CatalogTrack = z.infer<typeof catalogTrackSchema>;
+
+export const curatedPlaylistSchema = z.object({
+  name: z.string(),
+  genre: z.string(),
+  tracks: z.array(catalogTrackSchema),
+});
+
+export type CuratedPlaylist = z.infer<typeof curatedPlaylistSchema>;
+
+export const catalogHomeSchema = z.object({
+  trending: z.array(catalogTrackSchema),
+  playlists: z.array(curatedPlaylistSchema),
+});
+
+export type CatalogHome = z.infer<typeof catalogHomeSchema>;
+
+export const MAX_TRACK_IDS = 50;
+
+const limit = z.number().int().min(1).max(50).optional();
+const tracks = z.array(catalogTrackSchema);
+
+export const musicCatalogContract = {
+  trending: defineAction(z.object({ limit }), tracks),
+  search: defineAction(z.object({ query: z.string().trim().min(1).max(200), limit }), tracks),
+  genre: defineAction(z.object({ genre: z.string().trim().min(1).max(100), limit }), tracks),
+  similar: defineAction(z.object({ trackId: z.string().min(1).max(64), limit }), tracks),
+  // Extra ids past the maximum are ignored
+  tracks: defineAction(
+    z.object({ trackIds: z.array(z.string().min(1)).min(1).transform(ids => ids.slice(0, MAX_TRACK_IDS)) }),
+    tracks
+  ),
+  playlists: defineAction(noParams, z.array(curatedPlaylistSchema)),
+  home: defineAction(noParams, catalogHomeSchema),
+};
@@ -0,0 +1,34 @@
+// smart-suggestions: what to play after the current song
+import { z } from "zod";
+import { defineAction } from "./common.ts";
+
+export const suggestedTrackSchema = z.object({
+  artist: z.string(),
+  title: z.string(),
+  reason: z.string(),
+  confidence: z.number(), // 0-1
+});
+
+export type SuggestedTrack = z.infer<typeof suggestedTrackSchema>;
+
+export const suggestionsResponseSchema = z.object({
+  // Search queries; the only output of the fallback
+  suggestions: z.array(z.string()),
+  tracks: z.array(suggestedTrackSchema),
+  source: z.string(), // provider name, or "fallback"
+  cached: z.boolean().optional(),
+  // Why the fallback was used, when the provider refused
+  notice: z.string().optional(),
+});
+
+export type SuggestionsResponse = z.infer<typeof suggestionsResponseSchema>;
+
+export const smartSuggestionsContract = {
+  suggest: defineAction(
+    z.object({
+      currentSong: z.object({ title: z.string().trim().min(1).max(300), artist: z.string().max(200) }),
+      recentHistory: z.array(z.string().max(200)).optional(),
+    }),
+    suggestionsResponseSchema
+  ),
+};
@@ -0,0 +1,121 @@
+// youtube-music actions
+import { z } from "zod";
+import { defineAction, noParams } from "./common.ts";
+
+export const songSchema = z.object({
+  videoId: z.string(),
+  title: z.string(),
+  artist: z.string(),
+  duration: z.string(),
+  thumbnail: z.string(),
+  views: z.string(),
+  isOfficial: z.boolean(),
+  isVerified: z.boolean(),
+  score: z.number(),
+});
+
+export type Song = z.infer<typeof songSchema>;
+
+// An album, single or EP: YouTube's auto-generated release playlist
+export const albumSummarySchema = z.object({
+  playlistId: z.string(),
+  title: z.string(),
+  artist: z.string(),
+  kind: z.enum(["album", "single", "ep"]),
+  year: z.number().nullable(),
+  trackCount: z.number().nullable(),
+  thumbnail: z.string(),
+});
+
+export type AlbumSummary = z.infer<typeof albumSummarySchema>;
+
+// Tracks in album order
+export const albumSchema = albumSummarySchema.extend({
+  tracks: z.array(songSchema),
+});
+
+export type Album = z.infer<typeof albumSchema>;
+
+export const discographySchema = z.object({
+  artist: z.string(),
+  channelId: z.string().nullable(),
+  albums: z.array(albumSummarySchema),
+  singles: z.array(albumSummarySchema), // singles and EPs
+});
+
+export type Discography = z.infer<typeof discographySchema>;
+
+export const searchResponseSchema = z.object({
+  query: z.string(),
+  songs: z.array(songSchema),
+  // Only looked up when asked for; missing from responses cached before albums existed
+  albums: z.array(albumSummarySchema).default([]),
+  suggestions: z.array(z.string()),
+  // Search provider that answered, e.g. "invidious:inv.nadeko.net"; null when none did
+  provider: z.string().nullable(),
+});
+
+export type SearchResponse = z.infer<typeof searchResponseSchema>;
+
+export const artistResponseSchema = z.object({
+  artist: z.string(),
+  verified: z.boolean(),
+  channelId: z.string(),
+  topTracks: z.array(songSchema),
+  thumbnail: z.string(),
+});
+
+export type ArtistResponse = z.infer<typeof artistResponseSchema>;
+
+export const homeFeedSchema = z.object({
+  trending: z.array(songSchema),
+  genres: z.array(z.object({ name: z.string(), songs: z.array(songSchema) })),
+});
+
+export type HomeFeed = z.infer<typeof homeFeedSchema>;
+
+export const providerStatusSchema = z.object({
+  name: z.string(),
+  latencyMs: z.number(),
+  errorRate: z.number(),
+  calls: z.number(),
+  consecutiveFailures: z.number(),
+  openUntil: z.number(),
+  score: z.number(),
+  open: z.boolean(),
+});
+
+const query = z.string().trim().min(1).max(200);
+const limit = z.number().int().min(1).max(50).optional();
+// Autoplay's discovery setting: 0 favours hits, 100 deep cuts
+const discovery = z.number().min(0).max(100).optional();
+
+export const youtubeMusicContract = {
+  search: defineAction(z.object({ query, limit, discovery, albums: z.boolean().optional() }), searchResponseSchema),
+  suggestions: defineAction(z.object({ query }), z.array(z.string())),
+  trending: defineAction(z.object({ limit }), z.array(songSchema)),
+  related: defineAction(
+    z.object({ videoId: z.string().min(1).max(64), limit, discovery }),
+    z.array(songSchema)
+  ),
+  artist: defineAction(z.object({ channelId: z.string().min(1).max(64) }), artistResponseSchema.nullable()),
+  // By playlist id, or looked up by title and artist (e.g. an imported track's album)
+  album: defineAction(
+    z.object({
+      playlistId: z.string().min(1).max(64).optional(),
+      title: z.string().trim().min(1).max(200).optional(),
+      artist: z.string().trim().max(200).optional(),
+    }).refine(params => params.playlistId || params.title, "playlistId or title is required"),
+    albumSchema.nullable()
+  ),
+  // By channel when known, otherwise by artist name
+  artist_discography: defineAction(
+    z.object({
+      channelId: z.string().min(1).max(64).optional(),
+      artist: z.string().trim().min(1).max(200).optional(),
+    }).refine(params => params.channelId || params.artist, "channelId or artist is required"),
+    discographySchema.nullable()
+  ),
+  home: defineAction(noParams, homeFeedSchema),
+  providers: defineAction(noParams, z.array(providerStatusSchema)),
+};
@@ -0,0 +1,23 @@
+import assert from "node:assert/strict";
+import { readParams } from "./cache.ts";
+
+const post = (body: string) => new Request("http://localhost/fn", { method: "POST", body });
+
+Deno.test("readParams reads a GET query string", async () => {
+  const req = new Request('http://localhost/fn?action=search&query=midnight%20city&limit=10&albums=true&trackIds=["a","b"]&tags=[oops');
+
+  assert.deepEqual(await readParams(req, ["limit", "albums", "trackIds", "tags"]), {
+    action: "search",
+    query: "midnight city",
+    limit: 10,
+    albums: true,
+    trackIds: ["a", "b"],
+    tags: "[oops",
+  });
+});
+
+Deno.test("readParams reads a POST body, or null when it isn't a JSON object", async () => {
+  assert.deepEqual(await readParams(post('{"action":"search","limit":5}')), { action: "search", limit: 5 });
+  assert.equal(await readParams(post("[1, 2]")), null);
+  assert.equal(await readParams(post("not json")), null);
+});
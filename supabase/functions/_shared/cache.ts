@@ -0,0 +1,299 @@
+// Response caching for edge functions, keyed by function, action and
+// normalized params. Entries are served fresh for the action's TTL, then
+// served stale while a background refresh runs (stale-while-revalidate).
+// Backend is picked by EDGE_CACHE_BACKEND:
+//   memory   - per-instance Map (default)
+//   postgres - the edge_cache table, shared by every instance; needs
+//              SUPABASE_URL and SUPABASE_SERVICE_ROLE_KEY
+import { createClient } from "@supabase/supabase-js";
+
+export interface CachePolicy {
+  ttl: number;                   // Seconds an entry is fresh
+  staleWhileRevalidate: number;  // Further seconds it may be served while refreshing
+}
+
+export interface CacheEntry {
+  value: unknown;
+  etag: string;
+  storedAt: number;
+  freshUntil: number;
+  staleUntil: number;
+}
+
+export interface CacheBackend {
+  name: string;
+  get: (key: string) => Promise<CacheEntry | null>;
+  set: (key: string, entry: CacheEntry) => Promise<void>;
+}
+
+export type CacheStatus = "hit" | "stale" | "miss" | "bypass";
+
+export interface CachedResult<T> {
+  value: T;
+  etag: string;
+  status: CacheStatus;
+  freshUntil: number;
+  policy: CachePolicy;
+}
+
+const MAX_MEMORY_ENTRIES = 500;
+const CLEANUP_INTERVAL = 10 * 60000; // 10 minutes
+
+/**
+ * Per-instance cache; the oldest entries are evicted past the limit
+ */
+export function memoryBackend(maxEntries: number = MAX_MEMORY_ENTRIES): CacheBackend {
+  const store = new Map<string, CacheEntry>();
+
+  return {
+    name: "memory",
+    get: (key) => {
+      const entry = store.get(key);
+      if (entry && Date.now() > entry.staleUntil) {
+        store.delete(key);
+        return Promise.resolve(null);
+      }
+      return Promise.resolve(entry ?? null);
+    },
+    set: (key, entry) => {
+      store.delete(key);
+      store.set(key, entry);
+      while (store.size > maxEntries) {
+        store.delete(store.keys().next().value!);
+      }
+      return Promise.resolve();
+    },
+  };
+}
+
+/**
+ * Cache in the edge_cache table, shared across instances
+ */
+export function postgresBackend(url: string, serviceRoleKey: string): CacheBackend {
+  const supabase = createClient(url, serviceRoleKey, { auth: { persistSession: false } });
+  let lastCleanup = 0;
+
+  return {
+    name: "postgres",
+    get: async (key) => {
+      const { data, error } = await supabase
+        .from("edge_cache")
+        .select("value, etag, stored_at, fresh_until, stale_until")
+        .eq("key", key)
+        .maybeSingle();
+      if (error) throw error;
+      if (!data) return null;
+
+      const entry = {
+        value: data.value,
+        etag: data.etag,
+        storedAt: Date.parse(data.stored_at),
+        freshUntil: Date.parse(data.fresh_until),
+        staleUntil: Date.parse(data.stale_until),
+      };
+      return Date.now() > entry.staleUntil ? null : entry;
+    },
+    set: async (key, entry) => {
+      const { error } = await supabase.from("edge_cache").upsert({
+        key,
+        value: entry.value,
+        etag: entry.etag,
+        stored_at: new Date(entry.storedAt).toISOString(),
+        fresh_until: new Date(entry.freshUntil).toISOString(),
+        stale_until: new Date(entry.staleUntil).toISOString(),
+      });
+      if (error) throw error;
+
+      // Expired rows are never read again; clear them out now and then
+      const now = Date.now();
+      if (now - lastCleanup > CLEANUP_INTERVAL) {
+        lastCleanup = now;
+        await supabase.from("edge_cache").delete().lt("stale_until", new Date(now).toISOString());
+      }
+    },
+  };
+}
+
+let backend: CacheBackend | null = null;
+
+/**
+ * Backend from the environment, created once per instance
+ */
+export function getCacheBackend(): CacheBackend {
+  if (backend) return backend;
+
+  const name = Deno.env.get("EDGE_CACHE_BACKEND") || "memory";
+  const url = Deno.env.get("SUPABASE_URL");
+  const serviceRoleKey = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY");
+
+  if (name === "postgres" && url && serviceRoleKey) {
+    backend = postgresBackend(url, serviceRoleKey);
+  } else {
+    if (name !== "memory") console.error(`[Cache] Backend "${name}" unavailable, using memory`);
+    backend = memoryBackend();
+  }
+  return backend;
+}
+
+// Same params in any key order, with stray whitespace, give the same key
+function normalize(value: unknown): unknown {
+  if (typeof value === "string") return value.trim().replace(/\s+/g, " ");
+  if (Array.isArray(value)) return value.map(normalize);
+  if (value && typeof value === "object") {
+    return Object.fromEntries(
+      Object.entries(value)
+        .filter(([, v]) => v !== undefined && v !== null && v !== "")
+        .sort(([a], [b]) => a.localeCompare(b))
+        .map(([k, v]) => [k, normalize(v)])
+    );
+  }
+  return value;
+}
+
+async function sha256(text: string): Promise<string> {
+  const digest = await crypto.subtle.digest("SHA-256", new TextEncoder().encode(text));
+  return Array.from(new Uint8Array(digest)).map(b => b.toString(16).padStart(2, "0")).join("");
+}
+
+/**
+ * Cache key for an action call, e.g. "youtube-music:related:3f9a..."
+ */
+export async function cacheKey(fn: string, action: string, params: Record<string, unknown>): Promise<string> {
+  return `${fn}:${action}:${await sha256(JSON.stringify(normalize(params)))}`;
+}
+
+// Empty and failed lookups aren't worth keeping
+const defaultCacheable = (value: unknown) =>
+  value !== null && value !== undefined && !(Array.isArray(value) && value.length === 0);
+
+// Background refreshes in progress on this instance, so a burst of stale
+// hits triggers a single upstream fetch
+const revalidating = new Map<string, Promise<unknown>>();
+
+// Keeps the instance alive for work that outlives the response
+function runInBackground(promise: Promise<unknown>) {
+  const runtime = (globalThis as { EdgeRuntime?: { waitUntil: (p: Promise<unknown>) => void } }).EdgeRuntime;
+  runtime?.waitUntil(promise);
+}
+
+async function store<T>(
+  cache: CacheBackend,
+  key: string,
+  policy: CachePolicy,
+  value: T,
+  cacheable: (value: T) => boolean
+): Promise<CachedResult<T>> {
+  const now = Date.now();
+  const etag = `W/"${(await sha256(JSON.stringify(value))).slice(0, 16)}"`;
+  const entry: CacheEntry = {
+    value,
+    etag,
+    storedAt: now,
+    freshUntil: now + policy.ttl * 1000,
+    staleUntil: now + (policy.ttl + policy.staleWhileRevalidate) * 1000,
+  };
+
+  if (!cacheable(value)) {
+    return { value, etag, status: "bypass", freshUntil: now, policy };
+  }
+  try {
+    await cache.set(key, entry);
+  } catch (error) {
+    console.error(`[Cache] ${cache.name} write failed:`, error);
+  }
+  return { value, etag, status: "miss", freshUntil: entry.freshUntil, policy };
+}
+
+/**
+ * Value for key from the cache, or from load() on a miss. Stale entries are
+ * returned straight away and refreshed in the background. A failing backend
+ * is logged and treated as a miss.
+ */
+export async function cached<T>(
+  cache: CacheBackend,
+  key: string,
+  policy: CachePolicy,
+  load: () => Promise<T>,
+  cacheable: (value: T) => boolean = defaultCacheable
+): Promise<CachedResult<T>> {
+  let entry: CacheEntry | null = null;
+  try {
+    entry = await cache.get(key);
+  } catch (error) {
+    console.error(`[Cache] ${cache.name} read failed:`, error);
+  }
+
+  if (entry) {
+    const fresh = Date.now() < entry.freshUntil;
+    if (!fresh && !revalidating.has(key)) {
+      const refresh = load()
+        .then(value => store(cache, key, policy, value, cacheable))
+        .catch(error => console.error(`[Cache] Refresh of ${key} failed:`, error))
+        .finally(() => revalidating.delete(key));
+      revalidating.set(key, refresh);
+      runInBackground(refresh);
+    }
+    return {
+      value: entry.value as T,
+      etag: entry.etag,
+      status: fresh ? "hit" : "stale",
+      freshUntil: entry.freshUntil,
+      policy,
+    };
+  }
+
+  return store(cache, key, policy, await load(), cacheable);
+}
+
+/**
+ * ETag and Cache-Control headers for a cached result, so browsers and CDNs
+ * can reuse it (GET requests) or revalidate with If-None-Match
+ */
+export function getCacheHeaders(result: CachedResult<unknown>): Record<string, string> {
+  if (result.status === "bypass") {
+    return { "Cache-Control": "no-store", "X-Cache": "BYPASS" };
+  }
+
+  const maxAge = Math.max(0, Math.floor((result.freshUntil - Date.now()) / 1000));
+  return {
+    "ETag": result.etag,
+    "Cache-Control": `public, max-age=${maxAge}, stale-while-revalidate=${result.policy.staleWhileRevalidate}`,
+    "X-Cache": result.status.toUpperCase(),
+  };
+}
+
+/**
+ * Whether the client already holds this exact result
+ */
+export function isNotModified(req: Request, result: CachedResult<unknown>): boolean {
+  if (result.status === "bypass") return false;
+  const ifNoneMatch = req.headers.get("if-none-match");
+  return !!ifNoneMatch && ifNoneMatch.split(",").some(tag => tag.trim() === result.etag);
+}
+
+/**
+ * Action params from a POST body, or from the query string of a GET (which
+ * CDNs can cache). Query values stay strings except the named typed params,
+ * which are read as JSON, e.g. ?limit=10&trackIds=["a","b"]. Null when the
+ * body isn't a JSON object, for the request contract to reject.
+ */
+export async function readParams(req: Request, typed: string[] = []): Promise<Record<string, unknown> | null> {
+  if (req.method !== "GET") {
+    const body: unknown = await req.json().catch(() => null);
+    return typeof body === "object" && body !== null && !Array.isArray(body) ? body as Record<string, unknown> : null;
+  }
+
+  const params: Record<string, unknown> = {};
+  for (const [name, value] of new URL(req.url).searchParams) {
+    if (typed.includes(name)) {
+      try {
+        params[name] = JSON.parse(value);
+      } catch {
+        params[name] = value;
+      }
+    } else {
+      params[name] = value;
+    }
+  }
+  return params;
+}
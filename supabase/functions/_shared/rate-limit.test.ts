@@ -0,0 +1,30 @@
+import assert from "node:assert/strict";
+import { checkRateLimit } from "./rate-limit.ts";
+
+const caller = (key: string) => ({ kind: "anonymous" as const, key });
+
+Deno.test("checkRateLimit keeps a separate quota per function", async () => {
+  const identity = caller("ip:10.0.1.1");
+  for (let i = 0; i < 10; i++) {
+    assert.ok((await checkRateLimit(identity, "import-playlist")).allowed);
+  }
+
+  assert.equal((await checkRateLimit(identity, "import-playlist")).allowed, false);
+  const other = await checkRateLimit(identity, "youtube-music");
+  assert.ok(other.allowed);
+  assert.equal(other.remaining, 29);
+});
+
+Deno.test("checkRateLimit charges each action its cost", async () => {
+  const identity = caller("ip:10.0.1.2");
+
+  assert.equal((await checkRateLimit(identity, "youtube-music", "home")).remaining, 27);
+  assert.equal((await checkRateLimit(identity, "youtube-music", "suggestions")).remaining, 26.75);
+  assert.equal((await checkRateLimit(identity, "youtube-music", "providers")).remaining, 26.75);
+  assert.equal((await checkRateLimit(identity, "youtube-music", "search")).remaining, 25.75);
+});
+
+Deno.test("checkRateLimit gives signed-in users a larger quota", async () => {
+  const user = await checkRateLimit({ kind: "user", key: "user:listener-1" }, "smart-suggestions");
+  assert.equal(user.remaining, 39);
+});
@@ -1,89 +1,181 @@
-// Simple in-memory rate limiting for edge functions
-// Note: This is per-instance rate limiting. For production, use Redis/Upstash
+// Rate limiting for edge functions. Each function has its own quota per
+// caller (see QUOTAS): signed-in users by user id (from their verified JWT),
+// everyone else by IP. Within a function, actions cost different amounts of
+// it (see ACTION_COSTS).
+// Backend is picked by RATE_LIMIT_BACKEND:
+//   memory   - per-instance fixed windows (default); limits only hold per instance
+//   postgres - token buckets in the rate_limit_buckets table, shared by every
+//              instance; needs SUPABASE_URL and SUPABASE_SERVICE_ROLE_KEY
+import { createClient } from "@supabase/supabase-js";
+import { errorBody } from "./api/common.ts";
 
-interface RateLimitEntry {
-  count: number;
+export interface RateLimitConfig {
+  maxRequests: number;  // Quota per window (costs are counted against it)
+  windowMs: number;     // Time window in milliseconds
+}
+
+export interface RateLimitResult {
+  allowed: boolean;
+  remaining: number;
   resetTime: number;
 }
 
-// In-memory store (per edge function instance)
-const rateLimitStore = new Map<string, RateLimitEntry>();
+export interface RateLimitIdentity {
+  kind: "user" | "anonymous";
+  key: string;
+}
+
+export interface RateLimitBackend {
+  name: string;
+  consume: (key: string, cost: number, config: RateLimitConfig) => Promise<RateLimitResult>;
+}
+
+const WINDOW_MS = 60000; // 1 minute
+
+// Quota per caller and minute, by function; signed-in users get more
+const QUOTAS: Record<string, Record<RateLimitIdentity["kind"], number>> = {
+  "youtube-music": { anonymous: 30, user: 60 },
+  "music-catalog": { anonymous: 30, user: 60 },
+  "smart-suggestions": { anonymous: 20, user: 40 }, // LLM calls
+  "import-playlist": { anonymous: 10, user: 20 },   // many upstream lookups
+  "listening-history": { anonymous: 60, user: 60 }, // signed-in only
+};
+const DEFAULT_QUOTA: Record<RateLimitIdentity["kind"], number> = { anonymous: 30, user: 60 };
+
+// What a call costs of its function's quota, by "function:action"; anything
+// else costs 1
+const ACTION_COSTS: Record<string, number> = {
+  "youtube-music:suggestions": 0.25,  // search-as-you-type
+  "youtube-music:home": 3,            // several searches
+  "youtube-music:artist_discography": 2, // releases tab, then a search
+  "youtube-music:providers": 0,
+  "music-catalog:home": 2,
+  "music-catalog:playlists": 2,
+  "listening-history:record": 0.5,    // once per track change
+  "smart-suggestions:cached": 0.25,   // reply already in the cache, no LLM call
+};
 
-// Clean up old entries periodically
 const CLEANUP_INTERVAL = 60000; // 1 minute
-let lastCleanup = Date.now();
-
-function cleanupOldEntries() {
-  const now = Date.now();
-  if (now - lastCleanup < CLEANUP_INTERVAL) return;
-  
-  lastCleanup = now;
-  for (const [key, entry] of rateLimitStore.entries()) {
-    if (now > entry.resetTime) {
-      rateLimitStore.delete(key);
+
+/**
+ * Simple fixed-window counters in memory (per edge function instance)
+ */
+export function memoryBackend(): RateLimitBackend {
+  const rateLimitStore = new Map<string, { count: number; resetTime: number }>();
+  let lastCleanup = Date.now();
+
+  const cleanupOldEntries = () => {
+    const now = Date.now();
+    if (now - lastCleanup < CLEANUP_INTERVAL) return;
+
+    lastCleanup = now;
+    for (const [key, entry] of rateLimitStore.entries()) {
+      if (now > entry.resetTime) {
+        rateLimitStore.delete(key);
+      }
     }
-  }
+  };
+
+  return {
+    name: "memory",
+    consume: (key, cost, config) => {
+      cleanupOldEntries();
+
+      const now = Date.now();
+      let entry = rateLimitStore.get(key);
+      if (!entry || now > entry.resetTime) {
+        // Create new entry or reset expired entry
+        entry = { count: 0, resetTime: now + config.windowMs };
+        rateLimitStore.set(key, entry);
+      }
+
+      if (entry.count + cost > config.maxRequests) {
+        return Promise.resolve({ allowed: false, remaining: 0, resetTime: entry.resetTime });
+      }
+
+      entry.count += cost;
+      return Promise.resolve({
+        allowed: true,
+        remaining: config.maxRequests - entry.count,
+        resetTime: entry.resetTime,
+      });
+    },
+  };
 }
 
-export interface RateLimitConfig {
-  maxRequests: number;  // Max requests per window
-  windowMs: number;     // Time window in milliseconds
+/**
+ * Token buckets in Postgres: the bucket holds up to maxRequests tokens and
+ * refills at maxRequests per window; consume_rate_limit refills and takes
+ * in one atomic statement per call
+ */
+export function postgresBackend(url: string, serviceRoleKey: string): RateLimitBackend {
+  const supabase = createClient(url, serviceRoleKey, { auth: { persistSession: false } });
+
+  return {
+    name: "postgres",
+    consume: async (key, cost, config) => {
+      const { data, error } = await supabase.rpc("consume_rate_limit", {
+        p_key: key,
+        p_cost: cost,
+        p_capacity: config.maxRequests,
+        p_refill_per_second: config.maxRequests / (config.windowMs / 1000),
+      });
+      if (error) throw error;
+
+      const row = Array.isArray(data) ? data[0] : data;
+      if (!row) throw new Error("consume_rate_limit returned no row");
+      return { allowed: row.allowed, remaining: row.remaining, resetTime: Date.now() + row.reset_ms };
+    },
+  };
 }
 
-export interface RateLimitResult {
-  allowed: boolean;
-  remaining: number;
-  resetTime: number;
+let backend: RateLimitBackend | null = null;
+const fallbackBackend = memoryBackend();
+
+function getRateLimitBackend(): RateLimitBackend {
+  if (backend) return backend;
+
+  const name = Deno.env.get("RATE_LIMIT_BACKEND") || "memory";
+  const url = Deno.env.get("SUPABASE_URL");
+  const serviceRoleKey = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY");
+
+  if (name === "postgres" && url && serviceRoleKey) {
+    backend = postgresBackend(url, serviceRoleKey);
+  } else {
+    if (name !== "memory") console.error(`[RateLimit] Backend "${name}" unavailable, using memory`);
+    backend = fallbackBackend;
+  }
+  return backend;
+}
+
+/**
+ * Cost of an action, from ACTION_COSTS
+ */
+function actionCost(fn: string, action?: string): number {
+  return ACTION_COSTS[`${fn}:${action}`] ?? 1;
 }
 
 /**
- * Check if a request should be rate limited
- * @param identifier - Unique identifier for rate limiting (IP, user ID, etc.)
- * @param config - Rate limit configuration
+ * Check if a request should be rate limited, taking the action's cost from
+ * the caller's quota for the function. If the backend fails, the
+ * per-instance memory backend decides instead.
+ * @param identity - Caller, from getRateLimitIdentity or userIdentity
+ * @param fn - Edge function name, e.g. "youtube-music"
+ * @param action - Action within the function, if it has several
  * @returns Rate limit result
  */
-export function checkRateLimit(
-  identifier: string,
-  config: RateLimitConfig = { maxRequests: 30, windowMs: 60000 }
-): RateLimitResult {
-  cleanupOldEntries();
-  
-  const now = Date.now();
-  const key = identifier;
-  
-  let entry = rateLimitStore.get(key);
-  
-  if (!entry || now > entry.resetTime) {
-    // Create new entry or reset expired entry
-    entry = {
-      count: 1,
-      resetTime: now + config.windowMs,
-    };
-    rateLimitStore.set(key, entry);
-    
-    return {
-      allowed: true,
-      remaining: config.maxRequests - 1,
-      resetTime: entry.resetTime,
-    };
-  }
-  
-  // Increment count
-  entry.count++;
-  
-  if (entry.count > config.maxRequests) {
-    return {
-      allowed: false,
-      remaining: 0,
-      resetTime: entry.resetTime,
-    };
+export async function checkRateLimit(identity: RateLimitIdentity, fn: string, action?: string): Promise<RateLimitResult> {
+  const rateLimiter = getRateLimitBackend();
+  const key = `${fn}:${identity.key}`;
+  const cost = actionCost(fn, action);
+  const config = { maxRequests: (QUOTAS[fn] ?? DEFAULT_QUOTA)[identity.kind], windowMs: WINDOW_MS };
+
+  try {
+    return await rateLimiter.consume(key, cost, config);
+  } catch (error) {
+    console.error(`[RateLimit] ${rateLimiter.name} backend failed:`, error);
+    return fallbackBackend.consume(key, cost, config);
   }
-  
-  return {
-    allowed: true,
-    remaining: config.maxRequests - entry.count,
-    resetTime: entry.resetTime,
-  };
 }
 
 /**
@@ -96,11 +188,11 @@ export function getClientIdentifier(req: Request): string {
     // Get the first IP in the chain (client IP)
     return forwardedFor.split(',')[0].trim();
   }
-  
+
   // Fallback to a combination of headers
   const userAgent = req.headers.get('user-agent') || 'unknown';
   const acceptLanguage = req.headers.get('accept-language') || 'unknown';
-  
+
   // Create a simple hash
   const combined = `${userAgent}:${acceptLanguage}`;
   let hash = 0;
@@ -109,16 +201,77 @@ export function getClientIdentifier(req: Request): string {
     hash = ((hash << 5) - hash) + char;
     hash = hash & hash;
   }
-  
+
   return `anon_${Math.abs(hash)}`;
 }
 
+/**
+ * Identity of a signed-in user whose token was already verified
+ */
+export function userIdentity(userId: string): RateLimitIdentity {
+  return { kind: "user", key: `user:${userId}` };
+}
+
+// Verified user tokens, so each token costs one auth lookup until it expires
+const MAX_VERIFIED_TOKENS = 1000;
+const verifiedTokens = new Map<string, { userId: string; expiresAt: number }>();
+
+// Unverified JWT claims; only used to skip verifying anon-key calls
+function decodeClaims(token: string): { sub?: string; role?: string; exp?: number } | null {
+  try {
+    const payload = token.split(".")[1].replace(/-/g, "+").replace(/_/g, "/");
+    return JSON.parse(atob(payload));
+  } catch {
+    return null;
+  }
+}
+
+async function verifyUserToken(token: string): Promise<string | null> {
+  const known = verifiedTokens.get(token);
+  if (known && Date.now() < known.expiresAt) return known.userId;
+  verifiedTokens.delete(token);
+
+  const claims = decodeClaims(token);
+  if (claims?.role !== "authenticated" || !claims.sub) return null;
+
+  const url = Deno.env.get("SUPABASE_URL");
+  const anonKey = Deno.env.get("SUPABASE_ANON_KEY");
+  if (!url || !anonKey) return null;
+
+  const supabase = createClient(url, anonKey, { auth: { persistSession: false } });
+  const { data: { user }, error } = await supabase.auth.getUser(token);
+  if (error || !user) return null;
+
+  verifiedTokens.set(token, { userId: user.id, expiresAt: (claims.exp ?? 0) * 1000 });
+  while (verifiedTokens.size > MAX_VERIFIED_TOKENS) {
+    verifiedTokens.delete(verifiedTokens.keys().next().value!);
+  }
+  return user.id;
+}
+
+/**
+ * Who a request counts against: the signed-in user if the Authorization
+ * header carries a valid user token, otherwise the client IP
+ */
+export async function getRateLimitIdentity(req: Request): Promise<RateLimitIdentity> {
+  const token = req.headers.get("authorization")?.replace(/^Bearer\s+/i, "");
+  if (token) {
+    try {
+      const userId = await verifyUserToken(token);
+      if (userId) return userIdentity(userId);
+    } catch (error) {
+      console.error("[RateLimit] Token verification failed:", error);
+    }
+  }
+  return { kind: "anonymous", key: `ip:${getClientIdentifier(req)}` };
+}
+
 /**
  * Create rate limit response headers
  */
 export function getRateLimitHeaders(result: RateLimitResult): Record<string, string> {
   return {
-    'X-RateLimit-Remaining': result.remaining.toString(),
+    'X-RateLimit-Remaining': Math.floor(result.remaining).toString(),
     'X-RateLimit-Reset': Math.ceil(result.resetTime / 1000).toString(),
   };
 }
@@ -131,10 +284,10 @@ export function createRateLimitResponse(
   corsHeaders: Record<string, string>
 ): Response {
   const retryAfter = Math.ceil((result.resetTime - Date.now()) / 1000);
-  
+
   return new Response(
     JSON.stringify({
-      error: 'Too many requests. Please try again later.',
+      ...errorBody('RATE_LIMITED', 'Too many requests. Please try again later.', { retryAfter }),
       retryAfter,
     }),
     {
@@ -1,56 +1,28 @@
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
 import { 
   checkRateLimit, 
-  getClientIdentifier, 
+  getRateLimitIdentity, 
   createRateLimitResponse,
   getRateLimitHeaders 
 } from "../_shared/rate-limit.ts";
+import {
+  type ApiErrorBody,
+  type FileFormat,
+  type NormalizedTrack,
+  type Platform,
+  type PlaylistResult,
+  API_ERROR_STATUS,
+  dataBody,
+  errorBody,
+  importPlaylistContract,
+  parseRequest,
+} from "../_shared/api/index.ts";
 
 const corsHeaders = {
   "Access-Control-Allow-Origin": "*",
   "Access-Control-Allow-Headers": "authorization, x-client-info, apikey, content-type",
 };
 
-// ============== TYPES ==============
-
-type Platform = 'youtube' | 'spotify' | 'apple_music' | 'soundcloud' | 'jiosaavn' | 'wynk' | 'local' | 'manual';
-
-interface NormalizedTrack {
-  id: string;
-  title: string;
-  artist: string;
-  album?: string;
-  track_id: string;
-  duration_ms?: number;
-  release_year?: number;
-  genre?: string;
-  mood?: string;
-  popularity_score?: number;
-  is_explicit?: boolean;
-  isrc_code?: string;
-  bpm?: number;
-  key?: string;
-  source_platform: Platform;
-  thumb_url?: string;
-  video_id?: string;
-  original_url?: string;
-  match_confidence?: number;
-}
-
-interface PlaylistResult {
-  status: 'success' | 'warning' | 'error';
-  error_code?: string;
-  error_message?: string;
-  playlist_source: Platform;
-  playlist_name: string;
-  playlist_url?: string;
-  total_tracks: number;
-  deduplicated: number;
-  enriched_fields: string[];
-  tracks: NormalizedTrack[];
-  warnings?: string[];
-}
-
 // ============== URL EXTRACTORS ==============
 
 function extractSpotifyPlaylistId(url: string): string | null {
@@ -708,7 +680,30 @@ async function parseWynkPlaylist(playlistId: string, url: string): Promise<Playl
 
 // ============== LOCAL FILE PARSER ==============
 
-function parseLocalFile(content: string, format: string): PlaylistResult {
+const PITCH_CLASSES = ['C', 'C#', 'D', 'D#', 'E', 'F', 'F#', 'G', 'G#', 'A', 'A#', 'B'];
+
+// Audio metadata columns exported by tools like Exportify. Spotify-style keys
+// are pitch classes (0-11) with a separate mode (1 major, 0 minor).
+function parseAudioMetadata(item: Record<string, unknown>): Pick<NormalizedTrack, 'genre' | 'mood' | 'bpm' | 'key'> {
+  const text = (value: unknown) => {
+    const str = value === undefined || value === null ? '' : String(value).trim();
+    return str || undefined;
+  };
+  const bpm = parseFloat(text(item.bpm ?? item.tempo) || '');
+  let key = text(item.key ?? item.musical_key);
+  if (key && /^\d+$/.test(key)) {
+    const pitch = PITCH_CLASSES[parseInt(key, 10)];
+    key = pitch ? `${pitch}${text(item.mode) === '0' ? 'm' : ''}` : undefined;
+  }
+  return {
+    genre: text(item.genre) || text(item.genres)?.split(/[;|]/)[0].trim(),
+    mood: text(item.mood),
+    bpm: isFinite(bpm) && bpm > 0 ? Math.round(bpm) : undefined,
+    key,
+  };
+}
+
+function parseLocalFile(content: string, format: FileFormat): PlaylistResult {
   console.log(`[ImportPlaylist] Parsing local file format: ${format}`);
   
   const tracks: NormalizedTrack[] = [];
@@ -719,16 +714,18 @@ function parseLocalFile(content: string, format: string): PlaylistResult {
       const items = Array.isArray(data) ? data : data.tracks || data.songs || data.items || [];
       
       for (const item of items) {
+        // Arbitrary JSON: coerce to the contract's types
         tracks.push({
-          id: item.id || `local_${Date.now()}_${Math.random()}`,
-          title: item.title || item.name || '',
-          artist: item.artist || item.artists?.join(', ') || '',
-          album: item.album,
-          track_id: item.id || `local_${Date.now()}`,
-          duration_ms: item.duration_ms || item.duration,
+          id: item.id ? String(item.id) : `local_${Date.now()}_${Math.random()}`,
+          title: String(item.title || item.name || ''),
+          artist: String(item.artist || item.artists?.join(', ') || ''),
+          album: item.album ? String(item.album) : undefined,
+          track_id: item.id ? String(item.id) : `local_${Date.now()}`,
+          duration_ms: Number(item.duration_ms || item.duration) || undefined,
           source_platform: 'local',
           thumb_url: item.thumb_url || item.image || item.artwork || '',
           match_confidence: 100,
+          ...parseAudioMetadata(item),
         });
       }
     } else if (format === 'csv') {
@@ -752,6 +749,7 @@ function parseLocalFile(content: string, format: string): PlaylistResult {
             track_id: `local_${Date.now()}_${i}`,
             source_platform: 'local',
             match_confidence: 100,
+            ...parseAudioMetadata(track),
           });
         }
       }
@@ -1123,69 +1121,47 @@ async function searchSongs(query: string): Promise<NormalizedTrack[]> {
 
 // ============== MAIN HANDLER ==============
 
+const jsonResponse = (body: unknown, status = 200, headers: Record<string, string> = {}) =>
+  new Response(JSON.stringify(body), {
+    status,
+    headers: { ...corsHeaders, ...headers, "Content-Type": "application/json" },
+  });
+
+const errorResponse = (error: ApiErrorBody) => jsonResponse(error, API_ERROR_STATUS[error.code]);
+
 serve(async (req) => {
   if (req.method === "OPTIONS") {
     return new Response(null, { headers: corsHeaders });
   }
 
   try {
+    const parsed = parseRequest(importPlaylistContract, await req.json().catch(() => null));
+    if (!parsed.ok) return errorResponse(parsed.error);
+    const { request } = parsed;
+
     // Rate limiting
-    const clientId = getClientIdentifier(req);
-    const rateLimitResult = checkRateLimit(clientId, { maxRequests: 10, windowMs: 60000 });
+    const rateLimitResult = await checkRateLimit(await getRateLimitIdentity(req), "import-playlist");
     
     if (!rateLimitResult.allowed) {
       return createRateLimitResponse(rateLimitResult, corsHeaders);
     }
 
-    const body = await req.json();
-    const { 
-      url, 
-      searchQuery, 
-      fileContent, 
-      fileFormat, 
-      manualInput,
-      deduplicate = true,
-      enrichWithYouTube = true,
-    } = body;
+    const respond = (data: unknown) => jsonResponse(dataBody(data), 200, getRateLimitHeaders(rateLimitResult));
 
-    console.log(`[ImportPlaylist] Request: url=${url}, searchQuery=${searchQuery}, fileFormat=${fileFormat}`);
+    console.log(`[ImportPlaylist] Request: action=${request.action}`);
 
     // Handle search request
-    if (searchQuery) {
-      const tracks = await searchSongs(searchQuery);
-      return new Response(
-        JSON.stringify({ 
-          status: 'success',
-          data: { tracks } 
-        }),
-        { headers: { ...corsHeaders, "Content-Type": "application/json" } }
-      );
+    if (request.action === 'search') {
+      return respond({ tracks: await searchSongs(request.params.searchQuery) });
     }
 
-    // Handle manual input
-    if (manualInput) {
-      let result = parseManualInput(manualInput);
-      
-      if (deduplicate) {
-        const { tracks, removed } = deduplicateTracks(result.tracks);
-        result.tracks = tracks;
-        result.deduplicated = removed;
-      }
-      
-      if (enrichWithYouTube && result.tracks.length > 0) {
-        result.tracks = await enrichWithYouTubeMatches(result.tracks);
-        result.enriched_fields.push('video_id', 'thumb_url');
-      }
-      
-      return new Response(
-        JSON.stringify({ data: result, success: result.status !== 'error' }),
-        { headers: { ...corsHeaders, "Content-Type": "application/json" } }
-      );
-    }
+    const { deduplicate, enrichWithYouTube } = request.params;
 
-    // Handle local file
-    if (fileContent && fileFormat) {
-      let result = parseLocalFile(fileContent, fileFormat);
+    // Handle manual input and local files
+    if (request.action === 'manual' || request.action === 'file') {
+      const result = request.action === 'manual'
+        ? parseManualInput(request.params.manualInput)
+        : parseLocalFile(request.params.fileContent, request.params.fileFormat);
       
       if (deduplicate) {
         const { tracks, removed } = deduplicateTracks(result.tracks);
@@ -1198,35 +1174,15 @@ serve(async (req) => {
         result.enriched_fields.push('video_id', 'thumb_url');
       }
       
-      return new Response(
-        JSON.stringify({ data: result, success: result.status !== 'error' }),
-        { headers: { ...corsHeaders, "Content-Type": "application/json" } }
-      );
+      return respond(result);
     }
 
     // Handle URL import
-    if (!url) {
-      return new Response(
-        JSON.stringify({ 
-          status: 'error',
-          error: "URL, searchQuery, fileContent, or manualInput is required" 
-        }),
-        { status: 400, headers: { ...corsHeaders, "Content-Type": "application/json" } }
-      );
-    }
-
-    // Validate URL
+    const { url } = request.params;
     try {
       new URL(url);
     } catch {
-      return new Response(
-        JSON.stringify({ 
-          status: 'error',
-          error_code: 'INVALID_URL',
-          error: "Invalid URL format" 
-        }),
-        { status: 400, headers: { ...corsHeaders, "Content-Type": "application/json" } }
-      );
+      return errorResponse(errorBody('INVALID_URL', "Invalid URL format"));
     }
 
     const platform = detectPlatform(url);
@@ -1236,10 +1192,7 @@ serve(async (req) => {
       case 'youtube': {
         const playlistId = extractYouTubePlaylistId(url);
         if (!playlistId) {
-          return new Response(
-            JSON.stringify({ status: 'error', error_code: 'INVALID_URL', error: "Invalid YouTube playlist URL" }),
-            { status: 400, headers: { ...corsHeaders, "Content-Type": "application/json" } }
-          );
+          return errorResponse(errorBody('INVALID_URL', "Invalid YouTube playlist URL"));
         }
         result = await parseYouTubePlaylist(playlistId);
         break;
@@ -1248,10 +1201,7 @@ serve(async (req) => {
       case 'spotify': {
         const playlistId = extractSpotifyPlaylistId(url);
         if (!playlistId) {
-          return new Response(
-            JSON.stringify({ status: 'error', error_code: 'INVALID_URL', error: "Invalid Spotify playlist URL" }),
-            { status: 400, headers: { ...corsHeaders, "Content-Type": "application/json" } }
-          );
+          return errorResponse(errorBody('INVALID_URL', "Invalid Spotify playlist URL"));
         }
         result = await parseSpotifyPlaylist(playlistId);
         break;
@@ -1260,10 +1210,7 @@ serve(async (req) => {
       case 'apple_music': {
         const playlistId = extractAppleMusicPlaylistId(url);
         if (!playlistId) {
-          return new Response(
-            JSON.stringify({ status: 'error', error_code: 'INVALID_URL', error: "Invalid Apple Music playlist URL" }),
-            { status: 400, headers: { ...corsHeaders, "Content-Type": "application/json" } }
-          );
+          return errorResponse(errorBody('INVALID_URL', "Invalid Apple Music playlist URL"));
         }
         result = await parseAppleMusicPlaylist(playlistId, url);
         break;
@@ -1272,10 +1219,7 @@ serve(async (req) => {
       case 'soundcloud': {
         const playlistUrl = extractSoundCloudPlaylistUrl(url);
         if (!playlistUrl) {
-          return new Response(
-            JSON.stringify({ status: 'error', error_code: 'INVALID_URL', error: "Invalid SoundCloud playlist URL" }),
-            { status: 400, headers: { ...corsHeaders, "Content-Type": "application/json" } }
-          );
+          return errorResponse(errorBody('INVALID_URL', "Invalid SoundCloud playlist URL"));
         }
         result = await parseSoundCloudPlaylist(playlistUrl);
         break;
@@ -1284,10 +1228,7 @@ serve(async (req) => {
       case 'jiosaavn': {
         const playlistId = extractJioSaavnPlaylistId(url);
         if (!playlistId) {
-          return new Response(
-            JSON.stringify({ status: 'error', error_code: 'INVALID_URL', error: "Invalid JioSaavn playlist URL" }),
-            { status: 400, headers: { ...corsHeaders, "Content-Type": "application/json" } }
-          );
+          return errorResponse(errorBody('INVALID_URL', "Invalid JioSaavn playlist URL"));
         }
         result = await parseJioSaavnPlaylist(playlistId, url);
         break;
@@ -1296,24 +1237,17 @@ serve(async (req) => {
       case 'wynk': {
         const playlistId = extractWynkPlaylistId(url);
         if (!playlistId) {
-          return new Response(
-            JSON.stringify({ status: 'error', error_code: 'INVALID_URL', error: "Invalid Wynk playlist URL" }),
-            { status: 400, headers: { ...corsHeaders, "Content-Type": "application/json" } }
-          );
+          return errorResponse(errorBody('INVALID_URL', "Invalid Wynk playlist URL"));
         }
         result = await parseWynkPlaylist(playlistId, url);
         break;
       }
       
       default:
-        return new Response(
-          JSON.stringify({ 
-            status: 'error',
-            error_code: 'UNSUPPORTED_PLATFORM',
-            error: "Unsupported platform. Supported: YouTube, Spotify, Apple Music, SoundCloud, JioSaavn, Wynk" 
-          }),
-          { status: 400, headers: { ...corsHeaders, "Content-Type": "application/json" } }
-        );
+        return errorResponse(errorBody(
+          'UNSUPPORTED_PLATFORM',
+          "Unsupported platform. Supported: YouTube, Spotify, Apple Music, SoundCloud, JioSaavn, Wynk"
+        ));
     }
 
     // Apply deduplication
@@ -1325,29 +1259,10 @@ serve(async (req) => {
 
     console.log(`[ImportPlaylist] Returning ${result.tracks.length} tracks for ${result.playlist_name}`);
 
-    return new Response(
-      JSON.stringify({ 
-        data: result,
-        success: result.status !== 'error'
-      }),
-      { 
-        headers: { 
-          ...corsHeaders, 
-          ...getRateLimitHeaders(rateLimitResult),
-          "Content-Type": "application/json" 
-        } 
-      }
-    );
+    return respond(result);
 
   } catch (error) {
     console.error("[ImportPlaylist] Error:", error);
-    return new Response(
-      JSON.stringify({ 
-        status: 'error',
-        error_code: 'INTERNAL_ERROR',
-        error: error instanceof Error ? error.message : "Unknown error" 
-      }),
-      { status: 500, headers: { ...corsHeaders, "Content-Type": "application/json" } }
-    );
+    return errorResponse(errorBody('INTERNAL_ERROR', error instanceof Error ? error.message : "Unknown error"));
   }
 });
@@ -0,0 +1,171 @@
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { createClient } from "@supabase/supabase-js";
+import { 
+  checkRateLimit, 
+  createRateLimitResponse,
+  getRateLimitHeaders,
+  userIdentity 
+} from "../_shared/rate-limit.ts";
+import {
+  type Affinity,
+  type ApiErrorBody,
+  API_ERROR_STATUS,
+  dataBody,
+  errorBody,
+  listeningHistoryContract,
+  parseRequest,
+} from "../_shared/api/index.ts";
+
+const corsHeaders = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Headers": "authorization, x-client-info, apikey, content-type",
+};
+
+// Affinity scoring
+const HISTORY_LIMIT = 500;
+const HALF_LIFE_DAYS = 30; // a play loses half its weight every 30 days
+const PRIOR_WEIGHT = 1; // pulls keys with little history towards neutral
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+interface HistoryRow {
+  channel_title: string | null;
+  genre: string | null;
+  mood: string | null;
+  play_count: number | null;
+  skip_count: number | null;
+  complete_count: number;
+  listened_total: number;
+  played_at: string;
+}
+
+const jsonResponse = (body: unknown, status = 200, headers: Record<string, string> = {}) =>
+  new Response(JSON.stringify(body), {
+    status,
+    headers: { ...corsHeaders, ...headers, "Content-Type": "application/json" },
+  });
+
+const errorResponse = (error: ApiErrorBody) => jsonResponse(error, API_ERROR_STATUS[error.code]);
+
+// How much a track was enjoyed: average share listened mapped to -1..1,
+// scaled up (logarithmically) by how often it was played
+function rowSignal(row: HistoryRow): number {
+  const plays = Math.max(1, row.play_count ?? 1);
+  // Rows from before listen ratios were recorded only have play/skip counts
+  const ratio = row.listened_total > 0
+    ? Math.min(1, row.listened_total / plays)
+    : Math.max(0, 1 - (row.skip_count ?? 0) / plays);
+  return (ratio * 2 - 1) * Math.log2(1 + plays);
+}
+
+function computeAffinity(rows: HistoryRow[], now: number): Affinity {
+  const totals = {
+    artists: new Map<string, { sum: number; weight: number }>(),
+    genres: new Map<string, { sum: number; weight: number }>(),
+    moods: new Map<string, { sum: number; weight: number }>(),
+  };
+
+  const add = (map: Map<string, { sum: number; weight: number }>, key: string | null, signal: number, weight: number) => {
+    if (!key) return;
+    const normalized = key.toLowerCase();
+    const entry = map.get(normalized) || { sum: 0, weight: 0 };
+    entry.sum += signal * weight;
+    entry.weight += weight;
+    map.set(normalized, entry);
+  };
+
+  for (const row of rows) {
+    const ageDays = Math.max(0, now - new Date(row.played_at).getTime()) / DAY_MS;
+    const decay = Math.pow(0.5, ageDays / HALF_LIFE_DAYS);
+    const signal = rowSignal(row);
+    add(totals.artists, row.channel_title, signal, decay);
+    add(totals.genres, row.genre, signal, decay);
+    add(totals.moods, row.mood, signal, decay);
+  }
+
+  const toScores = (map: Map<string, { sum: number; weight: number }>) => {
+    const scores: Record<string, number> = {};
+    for (const [key, { sum, weight }] of map) {
+      scores[key] = Math.round(Math.tanh(sum / (weight + PRIOR_WEIGHT)) * 1000) / 1000;
+    }
+    return scores;
+  };
+
+  return {
+    artists: toScores(totals.artists),
+    genres: toScores(totals.genres),
+    moods: toScores(totals.moods),
+    sampleSize: rows.length,
+  };
+}
+
+serve(async (req) => {
+  if (req.method === "OPTIONS") {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    const authHeader = req.headers.get("Authorization");
+    if (!authHeader) {
+      return errorResponse(errorBody("UNAUTHORIZED", "Sign in required"));
+    }
+
+    // Acts as the caller so row level security applies
+    const supabase = createClient(
+      Deno.env.get("SUPABASE_URL")!,
+      Deno.env.get("SUPABASE_ANON_KEY")!,
+      { global: { headers: { Authorization: authHeader } } }
+    );
+    const { data: { user }, error: authError } = await supabase.auth.getUser();
+    if (authError || !user) {
+      return errorResponse(errorBody("UNAUTHORIZED", "Sign in required"));
+    }
+
+    const parsed = parseRequest(listeningHistoryContract, await req.json().catch(() => null));
+    if (!parsed.ok) return errorResponse(parsed.error);
+    const { request } = parsed;
+
+    // Rate limiting: the user's quota for this function (already verified above)
+    const rateLimitResult = await checkRateLimit(userIdentity(user.id), "listening-history", request.action);
+    if (!rateLimitResult.allowed) {
+      return createRateLimitResponse(rateLimitResult, corsHeaders);
+    }
+
+    let result: unknown;
+
+    switch (request.action) {
+      case "record": {
+        const { video, percentListened, outcome } = request.params;
+        const { error } = await supabase.rpc("record_listen", {
+          p_video_id: video.id,
+          p_title: video.title,
+          p_thumbnail: video.thumbnail ?? null,
+          p_channel_title: video.channelTitle ?? null,
+          p_duration: video.duration ?? null,
+          p_genre: video.genre ?? null,
+          p_mood: video.mood ?? null,
+          p_ratio: Math.min(100, Math.max(0, percentListened)) / 100,
+          p_skipped: outcome === "skip",
+        });
+        if (error) throw error;
+        result = { recorded: true };
+        break;
+      }
+      case "affinity": {
+        const { data, error } = await supabase
+          .from("listening_history")
+          .select("channel_title, genre, mood, play_count, skip_count, complete_count, listened_total, played_at")
+          .eq("user_id", user.id)
+          .order("played_at", { ascending: false })
+          .limit(HISTORY_LIMIT);
+        if (error) throw error;
+        result = computeAffinity((data || []) as HistoryRow[], Date.now());
+        break;
+      }
+    }
+
+    return jsonResponse(dataBody(result), 200, getRateLimitHeaders(rateLimitResult));
+  } catch (error) {
+    console.error("[ListeningHistory] Error:", error);
+    return errorResponse(errorBody("INTERNAL_ERROR", error instanceof Error ? error.message : "Unknown error"));
+  }
+});
@@ -1,27 +1,93 @@
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
 import { 
   checkRateLimit, 
-  getClientIdentifier, 
+  getRateLimitIdentity, 
   createRateLimitResponse,
   getRateLimitHeaders 
 } from "../_shared/rate-limit.ts";
+import {
+  type CachedResult,
+  type CachePolicy,
+  cached,
+  cacheKey,
+  getCacheBackend,
+  getCacheHeaders,
+  isNotModified,
+  readParams,
+} from "../_shared/cache.ts";
+import {
+  type ApiErrorBody,
+  type CatalogTrack,
+  type CuratedPlaylist,
+  API_ERROR_STATUS,
+  dataBody,
+  errorBody,
+  musicCatalogContract,
+  parseRequest,
+} from "../_shared/api/index.ts";
 
 const corsHeaders = {
   "Access-Control-Allow-Origin": "*",
-  "Access-Control-Allow-Headers": "authorization, x-client-info, apikey, content-type",
+  "Access-Control-Allow-Headers": "authorization, x-client-info, apikey, content-type, if-none-match",
+  "Access-Control-Expose-Headers": "etag, x-cache",
 };
 
 // Jamendo API - Free legal music with streaming
 const JAMENDO_CLIENT_ID = "b6747d04"; // Public client ID for demo purposes
 
-interface Track {
+type Track = CatalogTrack;
+
+// Fields we read from a Jamendo API track
+interface JamendoTrack {
   id: string;
-  title: string;
-  artist: string;
-  thumbnail: string;
-  streamUrl: string;
+  name: string;
+  artist_name: string;
+  image?: string;
+  album_image?: string;
+  audio: string;
   duration: number;
-  genre?: string;
+  musicinfo?: { tags?: { genres?: string[] } };
+  audiodownload_allowed?: boolean;
+  license_ccurl?: string;
+}
+
+// Map a Jamendo API track to our Track shape
+function toTrack(track: JamendoTrack, fallbackGenre: string = 'Music'): Track {
+  return {
+    id: track.id,
+    title: track.name,
+    artist: track.artist_name,
+    thumbnail: track.image || track.album_image || `https://picsum.photos/seed/${track.id}/400/400`,
+    streamUrl: track.audio,
+    duration: track.duration,
+    genre: track.musicinfo?.tags?.genres?.[0] || fallbackGenre,
+    downloadAllowed: track.audiodownload_allowed === true,
+    license: track.license_ccurl || undefined,
+  };
+}
+
+const MINUTE = 60;
+const HOUR = 60 * MINUTE;
+
+// Response cache lifetimes per action
+const CACHE_POLICIES: Record<string, CachePolicy> = {
+  trending: { ttl: 30 * MINUTE, staleWhileRevalidate: 2 * HOUR },
+  search: { ttl: 10 * MINUTE, staleWhileRevalidate: HOUR },
+  genre: { ttl: HOUR, staleWhileRevalidate: 6 * HOUR },
+  similar: { ttl: 6 * HOUR, staleWhileRevalidate: 24 * HOUR },
+  tracks: { ttl: 6 * HOUR, staleWhileRevalidate: 24 * HOUR },
+  playlists: { ttl: HOUR, staleWhileRevalidate: 6 * HOUR },
+  home: { ttl: 30 * MINUTE, staleWhileRevalidate: 2 * HOUR },
+};
+
+async function cachedAction<T>(
+  action: string,
+  params: Record<string, unknown>,
+  load: () => Promise<T>,
+  cacheable?: (value: T) => boolean
+): Promise<CachedResult<T>> {
+  const key = await cacheKey("music-catalog", action, params);
+  return cached(getCacheBackend(), key, CACHE_POLICIES[action], load, cacheable);
 }
 
 // Fetch trending tracks from Jamendo
@@ -33,15 +99,7 @@ async function fetchTrendingTracks(limit: number = 20): Promise<Track[]> {
     const data = await response.json();
     
     if (data.results) {
-      return data.results.map((track: any) => ({
-        id: track.id,
-        title: track.name,
-        artist: track.artist_name,
-        thumbnail: track.image || track.album_image || `https://picsum.photos/seed/${track.id}/400/400`,
-        streamUrl: track.audio,
-        duration: track.duration,
-        genre: track.musicinfo?.tags?.genres?.[0] || 'Music',
-      }));
+      return data.results.map((track: any) => toTrack(track));
     }
     return [];
   } catch (error) {
@@ -59,15 +117,7 @@ async function searchTracks(query: string, limit: number = 20): Promise<Track[]>
     const data = await response.json();
     
     if (data.results) {
-      return data.results.map((track: any) => ({
-        id: track.id,
-        title: track.name,
-        artist: track.artist_name,
-        thumbnail: track.image || track.album_image || `https://picsum.photos/seed/${track.id}/400/400`,
-        streamUrl: track.audio,
-        duration: track.duration,
-        genre: track.musicinfo?.tags?.genres?.[0] || 'Music',
-      }));
+      return data.results.map((track: any) => toTrack(track));
     }
     return [];
   } catch (error) {
@@ -85,15 +135,7 @@ async function fetchByGenre(genre: string, limit: number = 10): Promise<Track[]>
     const data = await response.json();
     
     if (data.results) {
-      return data.results.map((track: any) => ({
-        id: track.id,
-        title: track.name,
-        artist: track.artist_name,
-        thumbnail: track.image || track.album_image || `https://picsum.photos/seed/${track.id}/400/400`,
-        streamUrl: track.audio,
-        duration: track.duration,
-        genre: track.musicinfo?.tags?.genres?.[0] || genre,
-      }));
+      return data.results.map((track: any) => toTrack(track, genre));
     }
     return [];
   } catch (error) {
@@ -102,6 +144,24 @@ async function fetchByGenre(genre: string, limit: number = 10): Promise<Track[]>
   }
 }
 
+// Fetch specific tracks by id (used to check download licences)
+async function fetchTracksByIds(ids: string[]): Promise<Track[]> {
+  try {
+    const response = await fetch(
+      `https://api.jamendo.com/v3.0/tracks/?client_id=${JAMENDO_CLIENT_ID}&format=json&limit=${ids.length}&id=${ids.map(encodeURIComponent).join('+')}&include=musicinfo&imagesize=400`
+    );
+    const data = await response.json();
+    
+    if (data.results) {
+      return data.results.map((track: JamendoTrack) => toTrack(track));
+    }
+    return [];
+  } catch (error) {
+    console.error("Jamendo tracks fetch error:", error);
+    return [];
+  }
+}
+
 // Get similar tracks (for recommendations)
 async function getSimilarTracks(trackId: string, limit: number = 10): Promise<Track[]> {
   try {
@@ -129,7 +189,7 @@ async function getSimilarTracks(trackId: string, limit: number = 10): Promise<Tr
 }
 
 // Curated playlists by mood/genre
-async function getCuratedPlaylists(): Promise<{ name: string; genre: string; tracks: Track[] }[]> {
+async function getCuratedPlaylists(): Promise<CuratedPlaylist[]> {
   const genres = [
     { name: "Chill Vibes", genre: "chillout" },
     { name: "Energize", genre: "electronic" },
@@ -149,88 +209,85 @@ async function getCuratedPlaylists(): Promise<{ name: string; genre: string; tra
   return playlists.filter(p => p.tracks.length > 0);
 }
 
+const jsonResponse = (body: unknown, status = 200, headers: Record<string, string> = {}) =>
+  new Response(JSON.stringify(body), {
+    status,
+    headers: { ...corsHeaders, ...headers, "Content-Type": "application/json" },
+  });
+
+const errorResponse = (error: ApiErrorBody) => jsonResponse(error, API_ERROR_STATUS[error.code]);
+
 serve(async (req) => {
   if (req.method === "OPTIONS") {
     return new Response(null, { headers: corsHeaders });
   }
 
   try {
-    // Rate limiting: 30 requests per minute per client
-    const clientId = getClientIdentifier(req);
-    const rateLimitResult = checkRateLimit(clientId, { maxRequests: 30, windowMs: 60000 });
+    const parsed = parseRequest(musicCatalogContract, await readParams(req, ["version", "limit", "trackIds"]));
+    if (!parsed.ok) return errorResponse(parsed.error);
+    const { request } = parsed;
+
+    // Rate limiting: the caller's quota for this function
+    const rateLimitResult = await checkRateLimit(await getRateLimitIdentity(req), "music-catalog", request.action);
     
     if (!rateLimitResult.allowed) {
       return createRateLimitResponse(rateLimitResult, corsHeaders);
     }
 
-    const { action, query, genre, trackId, limit } = await req.json();
-
-    let result: any;
+    let cacheResult: CachedResult<unknown>;
 
-    switch (action) {
+    switch (request.action) {
       case "trending":
-        result = await fetchTrendingTracks(limit || 20);
+        cacheResult = await cachedAction(request.action, request.params, () => fetchTrendingTracks(request.params.limit || 20));
         break;
-      case "search":
-        if (!query) {
-          return new Response(
-            JSON.stringify({ error: "Query is required for search" }),
-            { status: 400, headers: { ...corsHeaders, "Content-Type": "application/json" } }
-          );
-        }
-        result = await searchTracks(query, limit || 20);
+      case "search": {
+        const { query, limit } = request.params;
+        cacheResult = await cachedAction(request.action, request.params, () => searchTracks(query, limit || 20));
         break;
-      case "genre":
-        if (!genre) {
-          return new Response(
-            JSON.stringify({ error: "Genre is required" }),
-            { status: 400, headers: { ...corsHeaders, "Content-Type": "application/json" } }
-          );
-        }
-        result = await fetchByGenre(genre, limit || 10);
+      }
+      case "genre": {
+        const { genre, limit } = request.params;
+        cacheResult = await cachedAction(request.action, request.params, () => fetchByGenre(genre, limit || 10));
+        break;
+      }
+      case "similar": {
+        const { trackId, limit } = request.params;
+        cacheResult = await cachedAction(request.action, request.params, () => getSimilarTracks(trackId, limit || 10));
         break;
-      case "similar":
-        if (!trackId) {
-          return new Response(
-            JSON.stringify({ error: "Track ID is required for similar tracks" }),
-            { status: 400, headers: { ...corsHeaders, "Content-Type": "application/json" } }
-          );
-        }
-        result = await getSimilarTracks(trackId, limit || 10);
+      }
+      case "tracks":
+        cacheResult = await cachedAction(request.action, request.params, () => fetchTracksByIds(request.params.trackIds));
         break;
       case "playlists":
-        result = await getCuratedPlaylists();
+        cacheResult = await cachedAction(request.action, request.params, getCuratedPlaylists);
         break;
       case "home":
         // Get all home data at once
-        const [trending, playlists] = await Promise.all([
-          fetchTrendingTracks(12),
-          getCuratedPlaylists(),
-        ]);
-        result = { trending, playlists };
+        cacheResult = await cachedAction(request.action, request.params, async () => {
+          const [trending, playlists] = await Promise.all([
+            fetchTrendingTracks(12),
+            getCuratedPlaylists(),
+          ]);
+          return { trending, playlists };
+        }, home => home.trending.length > 0 || home.playlists.length > 0);
         break;
-      default:
-        return new Response(
-          JSON.stringify({ error: "Invalid action" }),
-          { status: 400, headers: { ...corsHeaders, "Content-Type": "application/json" } }
-        );
     }
 
-    return new Response(
-      JSON.stringify({ data: result }),
-      { 
-        headers: { 
-          ...corsHeaders, 
-          ...getRateLimitHeaders(rateLimitResult),
-          "Content-Type": "application/json" 
-        } 
-      }
+    const cacheHeaders = getCacheHeaders(cacheResult);
+    if (isNotModified(req, cacheResult)) {
+      return new Response(null, {
+        status: 304,
+        headers: { ...corsHeaders, ...getRateLimitHeaders(rateLimitResult), ...cacheHeaders },
+      });
+    }
+
+    return jsonResponse(
+      dataBody(cacheResult.value),
+      200,
+      { ...getRateLimitHeaders(rateLimitResult), ...cacheHeaders }
     );
   } catch (error) {
     console.error("Music catalog error:", error);
-    return new Response(
-      JSON.stringify({ error: error instanceof Error ? error.message : "Unknown error" }),
-      { status: 500, headers: { ...corsHeaders, "Content-Type": "application/json" } }
-    );
+    return errorResponse(errorBody("INTERNAL_ERROR", error instanceof Error ? error.message : "Unknown error"));
   }
 });
@@ -0,0 +1,69 @@
+import assert from "node:assert/strict";
+import { createHandler } from "./handler.ts";
+import { type SuggestionProvider, stubProvider } from "./providers.ts";
+import { MAX_SUGGESTIONS } from "./schema.ts";
+
+// Each test calls from its own address, so rate limit buckets don't overlap
+const request = (ip: string, body: unknown) =>
+  new Request("http://localhost/smart-suggestions", {
+    method: "POST",
+    headers: { "Content-Type": "application/json", "X-Forwarded-For": ip },
+    body: JSON.stringify(body),
+  });
+
+const suggest = (title: string, artist = "M83") => ({ action: "suggest", currentSong: { title, artist } });
+
+Deno.test("handler returns the stub's suggestions, then serves them from the cache", async () => {
+  const handler = createHandler(stubProvider);
+
+  const first = await handler(request("10.0.0.1", suggest("Midnight City")));
+  assert.equal(first.status, 200);
+  const { data } = await first.json();
+  assert.equal(data.source, "stub");
+  assert.equal(data.cached, false);
+  assert.equal(data.tracks.length, MAX_SUGGESTIONS);
+  assert.equal(data.suggestions[0], "M83 Midnight City (stub 1)");
+
+  const second = await handler(request("10.0.0.1", suggest("Midnight City")));
+  const cached = await second.json();
+  assert.equal(cached.data.cached, true);
+  assert.deepEqual(cached.data.tracks, data.tracks);
+
+  // 20 a minute: the model call costs 1, the cache hit a quarter
+  assert.equal(first.headers.get("X-RateLimit-Remaining"), "19");
+  assert.equal(second.headers.get("X-RateLimit-Remaining"), "18");
+});
+
+Deno.test("handler falls back without a provider", async () => {
+  const res = await createHandler(() => null)(request("10.0.0.2", suggest("Midnight City")));
+  const { data } = await res.json();
+
+  assert.equal(data.source, "fallback");
+  assert.deepEqual(data.tracks, []);
+  assert.equal(data.suggestions[0], "M83 songs");
+});
+
+Deno.test("handler falls back when the provider refuses or replies with nothing valid", async () => {
+  const refusing: SuggestionProvider = {
+    name: "refusing",
+    complete: () => Promise.resolve({ ok: false, status: 429, error: "Too many requests" }),
+  };
+  const refused = await (await createHandler(() => refusing)(request("10.0.0.3", suggest("Wait")))).json();
+  assert.equal(refused.data.source, "fallback");
+  assert.equal(refused.data.notice, "Rate limit exceeded");
+
+  const rambling: SuggestionProvider = {
+    name: "rambling",
+    complete: () => Promise.resolve({ ok: true, content: "Try some M83!" }),
+  };
+  const invalid = await (await createHandler(() => rambling)(request("10.0.0.3", suggest("Wait")))).json();
+  assert.equal(invalid.data.source, "fallback");
+});
+
+Deno.test("handler rejects an invalid request", async () => {
+  const res = await createHandler(stubProvider)(request("10.0.0.4", { action: "suggest", currentSong: { title: "" } }));
+  const body = await res.json();
+
+  assert.equal(res.status, 400);
+  assert.equal(body.code, "INVALID_REQUEST");
+});
@@ -0,0 +1,213 @@
+import { 
+  checkRateLimit, 
+  getRateLimitIdentity, 
+  createRateLimitResponse,
+  getRateLimitHeaders 
+} from "../_shared/rate-limit.ts";
+import { type SuggestionProvider, getProvider } from "./providers.ts";
+import { MAX_SUGGESTIONS, parseSuggestions, trackQuery, type SuggestedTrack } from "./schema.ts";
+import {
+  type ApiErrorBody,
+  type SuggestionsResponse,
+  API_ERROR_STATUS,
+  dataBody,
+  errorBody,
+  parseRequest,
+  smartSuggestionsContract,
+} from "../_shared/api/index.ts";
+
+const corsHeaders = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Headers": "authorization, x-client-info, apikey, content-type",
+};
+
+// Per-instance cache of validated model replies
+const CACHE_TTL = 30 * 60 * 1000; // 30 minutes
+const MAX_CACHE_ENTRIES = 500;
+const HISTORY_IN_PROMPT = 5;
+
+interface CacheEntry {
+  tracks: SuggestedTrack[];
+  expiresAt: number;
+}
+
+const suggestionCache = new Map<string, CacheEntry>();
+
+// Same seed and history, same key (the provider is part of it too)
+async function cacheKey(provider: string, currentSong: { title: string; artist: string }, history: string[]) {
+  const input = JSON.stringify([provider, currentSong.title, currentSong.artist, history]);
+  const digest = await crypto.subtle.digest("SHA-256", new TextEncoder().encode(input));
+  return Array.from(new Uint8Array(digest), b => b.toString(16).padStart(2, "0")).join("");
+}
+
+function getCached(key: string): SuggestedTrack[] | null {
+  const entry = suggestionCache.get(key);
+  if (!entry) return null;
+  if (Date.now() > entry.expiresAt) {
+    suggestionCache.delete(key);
+    return null;
+  }
+  return entry.tracks;
+}
+
+function setCached(key: string, tracks: SuggestedTrack[]) {
+  // Map keeps insertion order, so the first key is the oldest
+  if (suggestionCache.size >= MAX_CACHE_ENTRIES) {
+    suggestionCache.delete(suggestionCache.keys().next().value!);
+  }
+  suggestionCache.set(key, { tracks, expiresAt: Date.now() + CACHE_TTL });
+}
+
+const jsonResponse = (body: unknown, status = 200, headers: Record<string, string> = {}) =>
+  new Response(JSON.stringify(body), {
+    status,
+    headers: { ...corsHeaders, ...headers, "Content-Type": "application/json" },
+  });
+
+const errorResponse = (error: ApiErrorBody) => jsonResponse(error, API_ERROR_STATUS[error.code]);
+
+// Request handler; the provider lookup is a parameter so tests can pass the stub
+export const createHandler = (
+  resolveProvider: () => SuggestionProvider | null = getProvider,
+) => async (req: Request): Promise<Response> => {
+  if (req.method === "OPTIONS") {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    const parsed = parseRequest(smartSuggestionsContract, await req.json().catch(() => null));
+    if (!parsed.ok) return errorResponse(parsed.error);
+    const { currentSong, recentHistory } = parsed.request.params;
+
+    const history = (recentHistory || []).slice(0, HISTORY_IN_PROMPT);
+    const provider = resolveProvider();
+    const key = provider ? await cacheKey(provider.name, currentSong, history) : null;
+    const cached = key ? getCached(key) : null;
+
+    // Rate limiting: a model call is AI-intensive, so it costs more of the
+    // caller's quota than a cached reply
+    const rateLimitResult = await checkRateLimit(
+      await getRateLimitIdentity(req),
+      "smart-suggestions",
+      cached ? "cached" : undefined,
+    );
+
+    if (!rateLimitResult.allowed) {
+      return createRateLimitResponse(rateLimitResult, corsHeaders);
+    }
+
+    const respond = (body: SuggestionsResponse) => jsonResponse(dataBody(body), 200, getRateLimitHeaders(rateLimitResult));
+    const fallback = (notice?: string) => respond({
+      ...(notice ? { notice } : {}),
+      suggestions: generateFallbackSuggestions(currentSong, history),
+      tracks: [],
+      source: "fallback",
+    });
+
+    if (!provider || !key) {
+      // Fallback to basic suggestions without AI
+      console.log("[SmartSuggestions] No provider configured, using fallback suggestions");
+      return fallback();
+    }
+
+    if (cached) {
+      console.log(`[SmartSuggestions] Cache hit for "${currentSong.title}"`);
+      return respond({ suggestions: cached.map(trackQuery), tracks: cached, source: provider.name, cached: true });
+    }
+
+    const systemPrompt = `You are a music recommendation AI. Given a currently playing song and recent listening history, suggest specific songs to play next. Consider:
+- Genre and style matching
+- Artist similarity
+- Mood and tempo
+- Era/decade
+- Introducing variety while staying relevant
+
+Reply with JSON only, in this shape:
+{"suggestions": [{"artist": "...", "title": "...", "reason": "one short sentence", "confidence": 0.0-1.0}]}`;
+
+    const userPrompt = `Currently playing: "${currentSong.title}" by ${currentSong.artist}
+${history.length > 0 ? `\nRecent history (for variety, avoid these artists if possible): ${history.join(', ')}` : ''}
+
+Suggest ${MAX_SUGGESTIONS} real songs that exist on YouTube Music, each by a different artist where possible.`;
+
+    const result = await provider.complete({
+      currentSong,
+      messages: [
+        { role: "system", content: systemPrompt },
+        { role: "user", content: userPrompt },
+      ],
+    });
+
+    if (!result.ok) {
+      console.error(`[SmartSuggestions] ${provider.name} error: ${result.status}`);
+      if (result.status === 429) return fallback("Rate limit exceeded");
+      if (result.status === 402) return fallback("Payment required");
+      return fallback();
+    }
+
+    const tracks = parseSuggestions(result.content);
+    if (!tracks) {
+      console.error(`[SmartSuggestions] ${provider.name} returned invalid suggestions`);
+      return fallback();
+    }
+    setCached(key, tracks);
+
+    console.log(`[SmartSuggestions] Generated ${tracks.length} ${provider.name} suggestions for "${currentSong.title}"`);
+
+    return respond({ suggestions: tracks.map(trackQuery), tracks, source: provider.name, cached: false });
+  } catch (error) {
+    console.error("[SmartSuggestions] Error:", error);
+    return errorResponse(errorBody("INTERNAL_ERROR", error instanceof Error ? error.message : "Unknown error"));
+  }
+};
+
+// Fallback suggestions when AI is not available
+function generateFallbackSuggestions(
+  currentSong: { title: string; artist: string },
+  recentHistory?: string[]
+): string[] {
+  const suggestions: string[] = [];
+  
+  // Extract meaningful words from title (remove common words)
+  const stopWords = ['official', 'video', 'audio', 'lyrics', 'lyric', 'hd', '4k', 'mv', 'music', 'the', 'a', 'an'];
+  const titleWords = currentSong.title
+    .toLowerCase()
+    .replace(/\(.*?\)|\[.*?\]/g, '') // Remove parentheses content
+    .split(/\s+/)
+    .filter(word => word.length > 2 && !stopWords.includes(word))
+    .slice(0, 3);
+
+  // Artist-based suggestion
+  suggestions.push(`${currentSong.artist} songs`);
+  
+  // Similar artists suggestion
+  suggestions.push(`artists like ${currentSong.artist}`);
+  
+  // Genre detection from common patterns
+  const title = currentSong.title.toLowerCase();
+  const artist = currentSong.artist.toLowerCase();
+  
+  if (title.includes('romantic') || title.includes('love')) {
+    suggestions.push('romantic love songs');
+  } else if (title.includes('party') || title.includes('dance')) {
+    suggestions.push('party dance hits');
+  } else if (artist.includes('vevo') || title.includes('pop')) {
+    suggestions.push('pop hits 2024');
+  } else {
+    suggestions.push(`${titleWords.join(' ')} songs`);
+  }
+  
+  // Mood-based suggestion
+  if (title.includes('sad') || title.includes('broken')) {
+    suggestions.push('emotional ballads');
+  } else if (title.includes('happy') || title.includes('feel good')) {
+    suggestions.push('feel good music');
+  } else {
+    suggestions.push('trending songs');
+  }
+  
+  // Discovery suggestion
+  suggestions.push('new music releases');
+  
+  return suggestions.slice(0, 5);
+}
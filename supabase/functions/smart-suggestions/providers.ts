@@ -0,0 +1,119 @@
+// LLM backends for smart suggestions. Each one takes the chat prompt and
+// returns the raw reply; handler.ts validates it. Picked by SUGGESTIONS_PROVIDER:
+//   gateway - Lovable AI gateway (default when LOVABLE_API_KEY is set)
+//   openai  - any OpenAI-compatible endpoint, e.g. a local llama.cpp or Ollama
+//             server (SUGGESTIONS_BASE_URL, SUGGESTIONS_API_KEY, SUGGESTIONS_MODEL)
+//   stub    - deterministic replies built from the prompt, for tests
+import { MAX_SUGGESTIONS, SUGGESTIONS_SCHEMA } from "./schema.ts";
+
+export interface ChatMessage {
+  role: "system" | "user";
+  content: string;
+}
+
+export interface SuggestionRequest {
+  messages: ChatMessage[];
+  currentSong: { title: string; artist: string };
+}
+
+export type CompletionResult =
+  | { ok: true; content: string }
+  | { ok: false; status: number; error: string };
+
+export interface SuggestionProvider {
+  name: string;
+  complete: (request: SuggestionRequest) => Promise<CompletionResult>;
+}
+
+const GATEWAY_URL = "https://ai.gateway.lovable.dev/v1/chat/completions";
+const GATEWAY_MODEL = "google/gemini-3-flash-preview";
+const DEFAULT_OPENAI_MODEL = "llama3.1";
+const MAX_TOKENS = 600;
+const TEMPERATURE = 0.7;
+
+// POST to an OpenAI-style chat completions endpoint
+async function chatCompletion(
+  url: string,
+  apiKey: string | undefined,
+  model: string,
+  request: SuggestionRequest
+): Promise<CompletionResult> {
+  const response = await fetch(url, {
+    method: "POST",
+    headers: {
+      ...(apiKey ? { Authorization: `Bearer ${apiKey}` } : {}),
+      "Content-Type": "application/json",
+    },
+    body: JSON.stringify({
+      model,
+      messages: request.messages,
+      max_tokens: MAX_TOKENS,
+      temperature: TEMPERATURE,
+      response_format: {
+        type: "json_schema",
+        json_schema: { name: "suggestions", schema: SUGGESTIONS_SCHEMA, strict: true },
+      },
+    }),
+  });
+
+  if (!response.ok) {
+    return { ok: false, status: response.status, error: `HTTP ${response.status}` };
+  }
+
+  const data = await response.json();
+  return { ok: true, content: data.choices?.[0]?.message?.content || "" };
+}
+
+export const gatewayProvider = (apiKey: string): SuggestionProvider => ({
+  name: "gateway",
+  complete: (request) => chatCompletion(GATEWAY_URL, apiKey, GATEWAY_MODEL, request),
+});
+
+export const openAICompatibleProvider = (
+  baseUrl: string,
+  apiKey?: string,
+  model = DEFAULT_OPENAI_MODEL
+): SuggestionProvider => ({
+  name: "openai",
+  complete: (request) =>
+    chatCompletion(`${baseUrl.replace(/\/+$/, "")}/chat/completions`, apiKey, model, request),
+});
+
+// Same input, same reply: suggestions derived from the current song only
+export const stubProvider = (): SuggestionProvider => ({
+  name: "stub",
+  complete: ({ currentSong }) => {
+    const suggestions = Array.from({ length: MAX_SUGGESTIONS }, (_, i) => ({
+      artist: currentSong.artist,
+      title: `${currentSong.title} (stub ${i + 1})`,
+      reason: "Stub provider",
+      confidence: 1 - i / MAX_SUGGESTIONS,
+    }));
+    return Promise.resolve({ ok: true, content: JSON.stringify({ suggestions }) });
+  },
+});
+
+// Provider from the environment, or null when none is configured
+export function getProvider(): SuggestionProvider | null {
+  const lovableKey = Deno.env.get("LOVABLE_API_KEY");
+  const name = Deno.env.get("SUGGESTIONS_PROVIDER") || (lovableKey ? "gateway" : "");
+
+  switch (name) {
+    case "gateway":
+      return lovableKey ? gatewayProvider(lovableKey) : null;
+    case "openai": {
+      const baseUrl = Deno.env.get("SUGGESTIONS_BASE_URL");
+      if (!baseUrl) return null;
+      return openAICompatibleProvider(
+        baseUrl,
+        Deno.env.get("SUGGESTIONS_API_KEY"),
+        Deno.env.get("SUGGESTIONS_MODEL") || undefined
+      );
+    }
+    case "stub":
+      return stubProvider();
+    default:
+      if (name) console.error(`[SmartSuggestions] Unknown provider "${name}"`);
+      return null;
+  }
+}
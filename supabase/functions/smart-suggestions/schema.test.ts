@@ -0,0 +1,51 @@
+import assert from "node:assert/strict";
+import { MAX_SUGGESTIONS, parseSuggestions, trackQuery } from "./schema.ts";
+
+const reply = (suggestions: unknown[]) => JSON.stringify({ suggestions });
+
+Deno.test("parseSuggestions sorts by confidence", () => {
+  const tracks = parseSuggestions(reply([
+    { artist: "Nova", title: "Afterglow", reason: "Same synths", confidence: 0.4 },
+    { artist: "Beach House", title: "Space Song", reason: "Dreamy", confidence: 0.9 },
+  ]));
+
+  assert.deepEqual(tracks, [
+    { artist: "Beach House", title: "Space Song", reason: "Dreamy", confidence: 0.9 },
+    { artist: "Nova", title: "Afterglow", reason: "Same synths", confidence: 0.4 },
+  ]);
+  assert.equal(trackQuery(tracks![0]), "Beach House Space Song");
+});
+
+Deno.test("parseSuggestions reads a fenced reply and a bare array", () => {
+  const track = { artist: "M83", title: "Wait", reason: "", confidence: 1 };
+  assert.deepEqual(parseSuggestions("```json\n" + reply([track]) + "\n```"), [track]);
+  assert.deepEqual(parseSuggestions(JSON.stringify([track])), [track]);
+});
+
+Deno.test("parseSuggestions drops invalid and duplicate tracks", () => {
+  const tracks = parseSuggestions(reply([
+    { artist: "M83", title: "Wait", confidence: 0.8 },
+    { artist: "m83", title: "WAIT", confidence: 0.7 },
+    { artist: "", title: "No Artist", confidence: 0.6 },
+    { title: "Missing Artist" },
+    "M83 - Outro",
+  ]));
+
+  assert.equal(tracks?.length, 1);
+  assert.equal(tracks![0].title, "Wait");
+});
+
+Deno.test("parseSuggestions keeps at most MAX_SUGGESTIONS", () => {
+  const many = Array.from({ length: MAX_SUGGESTIONS + 3 }, (_, i) => ({
+    artist: `Artist ${i}`,
+    title: `Song ${i}`,
+    confidence: 0.5,
+  }));
+  assert.equal(parseSuggestions(reply(many))?.length, MAX_SUGGESTIONS);
+});
+
+Deno.test("parseSuggestions returns null when nothing is valid", () => {
+  assert.equal(parseSuggestions("Sorry, I can't help with that."), null);
+  assert.equal(parseSuggestions(reply([])), null);
+  assert.equal(parseSuggestions(JSON.stringify({ tracks: [] })), null);
+});
@@ -0,0 +1,93 @@
+// Structured suggestion format the model is asked for, and its validation.
+// Model output is untrusted: anything that doesn't match is dropped.
+
+import type { SuggestedTrack } from "../_shared/api/smart-suggestions.ts";
+
+export type { SuggestedTrack };
+
+export const MAX_SUGGESTIONS = 5;
+const MAX_FIELD_LENGTH = 100;
+const MAX_REASON_LENGTH = 200;
+
+// JSON schema sent to providers that support structured output
+export const SUGGESTIONS_SCHEMA = {
+  type: "object",
+  properties: {
+    suggestions: {
+      type: "array",
+      maxItems: MAX_SUGGESTIONS,
+      items: {
+        type: "object",
+        properties: {
+          artist: { type: "string" },
+          title: { type: "string" },
+          reason: { type: "string" },
+          confidence: { type: "number", minimum: 0, maximum: 1 },
+        },
+        required: ["artist", "title", "reason", "confidence"],
+        additionalProperties: false,
+      },
+    },
+  },
+  required: ["suggestions"],
+  additionalProperties: false,
+};
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === "object" && value !== null && !Array.isArray(value);
+
+const cleanString = (value: unknown, maxLength: number): string | null => {
+  if (typeof value !== "string") return null;
+  const trimmed = value.trim();
+  return trimmed.length > 0 && trimmed.length <= maxLength ? trimmed : null;
+};
+
+function validateTrack(value: unknown): SuggestedTrack | null {
+  if (!isRecord(value)) return null;
+  const artist = cleanString(value.artist, MAX_FIELD_LENGTH);
+  const title = cleanString(value.title, MAX_FIELD_LENGTH);
+  if (!artist || !title) return null;
+
+  const confidence = typeof value.confidence === "number" && isFinite(value.confidence)
+    ? Math.max(0, Math.min(1, value.confidence))
+    : 0.5;
+  return {
+    artist,
+    title,
+    reason: cleanString(value.reason, MAX_REASON_LENGTH) ?? "",
+    confidence,
+  };
+}
+
+// Parse a model reply into suggestions, most confident first. Tolerates
+// a markdown code fence around the JSON; returns null when nothing valid.
+export function parseSuggestions(content: string): SuggestedTrack[] | null {
+  const json = content.trim().replace(/^```(?:json)?\s*/i, "").replace(/\s*```$/, "");
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(json);
+  } catch {
+    return null;
+  }
+
+  const items = isRecord(parsed) ? parsed.suggestions : parsed;
+  if (!Array.isArray(items)) return null;
+
+  const seen = new Set<string>();
+  const tracks = items
+    .map(validateTrack)
+    .filter((track): track is SuggestedTrack => {
+      if (!track) return false;
+      const key = `${track.artist}|${track.title}`.toLowerCase();
+      if (seen.has(key)) return false;
+      seen.add(key);
+      return true;
+    })
+    .sort((a, b) => b.confidence - a.confidence)
+    .slice(0, MAX_SUGGESTIONS);
+
+  return tracks.length > 0 ? tracks : null;
+}
+
+// Search query that finds the suggested track
+export const trackQuery = (track: SuggestedTrack) => `${track.artist} ${track.title}`;
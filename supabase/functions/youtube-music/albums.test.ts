@@ -0,0 +1,104 @@
+import assert from "node:assert/strict";
+import {
+  bestMatch,
+  byArtist,
+  isReleasePlaylist,
+  parseAlbumHtml,
+  parseAlbumSearchHtml,
+  parseReleasesHtml,
+  splitDiscography,
+} from "./albums.ts";
+
+const fixture = (name: string) => Deno.readTextFileSync(new URL(`./fixtures/${name}`, import.meta.url));
+
+const HURRY_UP = "OLAK5uy_hurryUpWeAreDreaming";
+
+Deno.test("parseAlbumSearchHtml keeps release playlists once each", () => {
+  const albums = parseAlbumSearchHtml(fixture("album-search.html"), 10);
+
+  assert.deepEqual(albums, [
+    {
+      playlistId: HURRY_UP,
+      title: "Hurry Up, We're Dreaming",
+      artist: "M83",
+      kind: "album",
+      year: null,
+      trackCount: 22,
+      thumbnail: "https://i.ytimg.com/vi/ming/hqdefault.jpg",
+    },
+    {
+      playlistId: "OLAK5uy_saturdaysYouth",
+      title: "Saturdays = Youth",
+      artist: "M83",
+      kind: "album",
+      year: 2008,
+      trackCount: 11,
+      thumbnail: "https://i.ytimg.com/sy/hqdefault.jpg",
+    },
+  ]);
+  assert.equal(parseAlbumSearchHtml(fixture("album-search.html"), 1).length, 1);
+});
+
+Deno.test("parseReleasesHtml reads the channel's releases and kinds", () => {
+  const { artist, releases } = parseReleasesHtml(fixture("releases.html"));
+
+  assert.equal(artist, "M83");
+  assert.deepEqual(releases.map(r => [r.title, r.kind, r.year, r.trackCount]), [
+    ["Saturdays = Youth", "album", 2008, 11],
+    ["Midnight City", "single", 2011, 1],
+    ["DSVII", "album", 2019, 14],
+    ["Oceans Niagara", "ep", null, 4],
+    ["Hurry Up, We're Dreaming", "album", 2011, 22],
+  ]);
+  assert.ok(releases.every(r => isReleasePlaylist(r.playlistId)));
+});
+
+Deno.test("splitDiscography sorts newest first, undated last", () => {
+  const { albums, singles } = splitDiscography(parseReleasesHtml(fixture("releases.html")).releases);
+
+  assert.deepEqual(albums.map(a => a.title), ["DSVII", "Hurry Up, We're Dreaming", "Saturdays = Youth"]);
+  assert.deepEqual(singles.map(s => s.title), ["Midnight City", "Oceans Niagara"]);
+});
+
+Deno.test("parseAlbumHtml reads the tracks in order, skipping unplayable ones", () => {
+  const album = parseAlbumHtml(fixture("album.html"), HURRY_UP);
+
+  assert.deepEqual({ ...album, tracks: undefined }, {
+    playlistId: HURRY_UP,
+    title: "Hurry Up, We're Dreaming",
+    artist: "M83",
+    kind: "album",
+    year: 2011,
+    trackCount: 3,
+    thumbnail: "https://i.ytimg.com/hu/maxres.jpg",
+    tracks: undefined,
+  });
+  assert.deepEqual(album.tracks.map(t => [t.videoId, t.title, t.artist, t.duration]), [
+    ["intr0M83000", "Intro", "M83", "5:22"],
+    ["dX3k_QDnzHE", "Midnight City", "M83", "4:04"],
+    ["wa1tM830000", "Wait", "M83", "5:43"],
+  ]);
+});
+
+Deno.test("parseAlbumHtml throws on a page without playlist metadata", () => {
+  assert.throws(() => parseAlbumHtml(fixture("releases.html"), HURRY_UP), /Playlist metadata not found/);
+  assert.throws(() => parseAlbumHtml("<html></html>", HURRY_UP), /Could not find ytInitialData/);
+});
+
+Deno.test("bestMatch prefers an exact title by the artist", () => {
+  const { releases } = parseReleasesHtml(fixture("releases.html"));
+  const others = releases.map(r => ({ ...r, playlistId: `${r.playlistId}-other`, artist: "Cover Band" }));
+
+  assert.equal(bestMatch([...others, ...releases], "Midnight City", "M83")?.playlistId, "OLAK5uy_midnightCitySingle");
+  assert.equal(bestMatch(releases, "Single - Midnight City")?.title, "Midnight City");
+  assert.equal(bestMatch(releases, "Hurry Up")?.playlistId, HURRY_UP);
+  assert.equal(bestMatch(releases, "Before the Dawn Heals Us"), null);
+});
+
+Deno.test("byArtist matches credited names loosely", () => {
+  const [release] = parseReleasesHtml(fixture("releases.html")).releases;
+
+  assert.ok(byArtist(release, "M83 - Topic"));
+  assert.ok(byArtist(release, "M83 feat. Susanne Sundfør"));
+  assert.ok(!byArtist(release, "Phoenix"));
+});
@@ -0,0 +1,236 @@
+// Albums, singles and EPs. YouTube keeps each release as an auto-generated
+// playlist (ids starting OLAK5uy_); these parse the playlist page, channel
+// releases tab and playlist search results. Like parsers.ts, a page without
+// ytInitialData throws and an empty result doesn't.
+import type { Album, AlbumSummary } from "../_shared/api/youtube-music.ts";
+import { type Song, formatSeconds, isMusicContent } from "./music.ts";
+import { extractInitialData } from "./parsers.ts";
+
+const RELEASE_PLAYLIST_PREFIX = "OLAK5uy_";
+const MAX_DEPTH = 40;
+
+// Some part of the (untyped) ytInitialData tree
+type Node = ReturnType<typeof extractInitialData>;
+
+export const isReleasePlaylist = (playlistId: string) => playlistId.startsWith(RELEASE_PLAYLIST_PREFIX);
+
+// simpleText, runs, a view model's content or a plain string
+const textOf = (value: Node): string =>
+  typeof value === "string"
+    ? value
+    : value?.simpleText ?? value?.runs?.map((run: Node) => run.text).join("") ?? value?.content ?? "";
+
+// Every renderer with one of the given keys, in page order
+function findRenderers(root: Node, keys: string[]): { key: string; value: Node }[] {
+  const found: { key: string; value: Node }[] = [];
+  const walk = (node: Node, depth: number) => {
+    if (!node || typeof node !== "object" || depth > MAX_DEPTH) return;
+    if (Array.isArray(node)) {
+      for (const item of node) walk(item, depth + 1);
+      return;
+    }
+    for (const [key, value] of Object.entries(node)) {
+      if (keys.includes(key)) found.push({ key, value });
+      else walk(value, depth + 1);
+    }
+  };
+  walk(root, 0);
+  return found;
+}
+
+// "Topic" channels carry the artist's releases
+const cleanArtist = (name: string) => name.replace(/\s+-\s+Topic$/i, "").trim();
+
+const parseYear = (texts: string[]): number | null => {
+  for (const text of texts) {
+    const match = text.trim().match(/^(19|20)\d{2}$/);
+    if (match) return Number(match[0]);
+  }
+  return null;
+};
+
+const parseCount = (text: string): number | null => {
+  const match = text.replace(/,/g, "").match(/(\d+)\s*(videos?|songs?|tracks?)/i) || text.match(/^\s*(\d+)\s*$/);
+  return match ? Number(match[1]) : null;
+};
+
+const KIND_WORDS = ["album", "single", "ep"];
+
+// Year, kind or track count rather than a name
+const isDetail = (text: string) =>
+  parseYear([text]) !== null || KIND_WORDS.includes(text.trim().toLowerCase()) || parseCount(text) !== null;
+
+// "Album - Title" -> kind and title
+function splitTitle(rawTitle: string): { title: string; labelled: AlbumSummary["kind"] | null } {
+  const match = rawTitle.match(/^(Album|Single|EP)\s*[-–•]\s*(.+)$/i);
+  if (!match) return { title: rawTitle.trim(), labelled: null };
+  return { title: match[2].trim(), labelled: match[1].toLowerCase() as AlbumSummary["kind"] };
+}
+
+// Labelled kind when YouTube says, otherwise guessed from the track count
+function releaseKind(labelled: AlbumSummary["kind"] | null, texts: string[], trackCount: number | null): AlbumSummary["kind"] {
+  if (labelled) return labelled;
+  for (const text of texts) {
+    const word = text.trim().toLowerCase();
+    if (KIND_WORDS.includes(word)) return word as AlbumSummary["kind"];
+  }
+  if (trackCount === null) return "album";
+  if (trackCount <= 3) return "single";
+  return trackCount <= 6 ? "ep" : "album";
+}
+
+function toSummary(
+  playlistId: string,
+  rawTitle: string,
+  artist: string,
+  thumbnail: string,
+  trackCount: number | null,
+  texts: string[]
+): AlbumSummary {
+  const { title, labelled } = splitTitle(rawTitle);
+  return {
+    playlistId,
+    title,
+    artist: cleanArtist(artist),
+    kind: releaseKind(labelled, texts, trackCount),
+    year: parseYear(texts),
+    trackCount,
+    thumbnail,
+  };
+}
+
+// playlistRenderer, gridPlaylistRenderer or lockupViewModel (newer layout)
+function summaryFrom(key: string, renderer: Node, defaultArtist: string): AlbumSummary | null {
+  if (key === "lockupViewModel") {
+    if (renderer.contentType !== "LOCKUP_CONTENT_TYPE_PLAYLIST" || !renderer.contentId) return null;
+    const metadata = renderer.metadata?.lockupMetadataViewModel;
+    const parts: string[] = (metadata?.metadata?.contentMetadataViewModel?.metadataRows || [])
+      .flatMap((row: Node) => row.metadataParts || [])
+      .map((part: Node) => textOf(part.text));
+    const image = renderer.contentImage?.collectionThumbnailViewModel?.primaryThumbnail?.thumbnailViewModel;
+    const badge = findRenderers(image, ["thumbnailBadgeViewModel"])[0]?.value;
+    return toSummary(
+      renderer.contentId,
+      textOf(metadata?.title),
+      parts.find(part => part.trim() && !isDetail(part)) || defaultArtist,
+      image?.image?.sources?.slice(-1)?.[0]?.url || "",
+      badge ? parseCount(textOf(badge.text)) : null,
+      parts
+    );
+  }
+
+  if (!renderer.playlistId) return null;
+  const countText = textOf(renderer.videoCountShortText) || textOf(renderer.videoCountText) || String(renderer.videoCount ?? "");
+  const thumbnails = renderer.thumbnails?.[0]?.thumbnails || renderer.thumbnail?.thumbnails || [];
+  return toSummary(
+    renderer.playlistId,
+    textOf(renderer.title),
+    textOf(renderer.longBylineText) || textOf(renderer.shortBylineText) || defaultArtist,
+    thumbnails.slice(-1)[0]?.url || "",
+    parseCount(countText),
+    [textOf(renderer.publishedTimeText)]
+  );
+}
+
+function summariesFrom(data: Node, defaultArtist: string, releasesOnly: boolean): AlbumSummary[] {
+  const seen = new Set<string>();
+  const albums: AlbumSummary[] = [];
+  for (const { key, value } of findRenderers(data, ["playlistRenderer", "gridPlaylistRenderer", "lockupViewModel"])) {
+    const summary = summaryFrom(key, value, defaultArtist);
+    if (!summary || seen.has(summary.playlistId)) continue;
+    if (releasesOnly && !isReleasePlaylist(summary.playlistId)) continue;
+    seen.add(summary.playlistId);
+    albums.push(summary);
+  }
+  return albums;
+}
+
+// youtube.com/results filtered to playlists; user playlists are dropped
+export function parseAlbumSearchHtml(html: string, limit: number): AlbumSummary[] {
+  return summariesFrom(extractInitialData(html), "", true).slice(0, limit);
+}
+
+// youtube.com/channel/<id>/releases
+export function parseReleasesHtml(html: string): { artist: string; releases: AlbumSummary[] } {
+  const data = extractInitialData(html);
+  const artist: string = data?.metadata?.channelMetadataRenderer?.title || "";
+  return { artist: cleanArtist(artist), releases: summariesFrom(data, artist, false) };
+}
+
+// youtube.com/playlist?list=<id>, tracks in album order
+export function parseAlbumHtml(html: string, playlistId: string): Album {
+  const data = extractInitialData(html);
+  const metadata = data?.metadata?.playlistMetadataRenderer;
+  if (!metadata?.title) throw new Error("Playlist metadata not found in ytInitialData");
+
+  const header = data?.header?.playlistHeaderRenderer;
+  const headerTexts = findRenderers(data?.header, ["metadataParts", "byline", "briefStats"])
+    .flatMap(({ value }) => (Array.isArray(value) ? value : [value]))
+    .map((part: Node) => textOf(part?.text ?? part));
+
+  const tracks: Song[] = [];
+  for (const { value: video } of findRenderers(data?.contents, ["playlistVideoRenderer"])) {
+    if (!video.videoId || video.isPlayable === false) continue;
+    const title = textOf(video.title);
+    const channel = cleanArtist(textOf(video.shortBylineText));
+    tracks.push({
+      videoId: video.videoId,
+      title,
+      artist: channel,
+      duration: textOf(video.lengthText) || (video.lengthSeconds ? formatSeconds(Number(video.lengthSeconds)) : ""),
+      thumbnail: `https://i.ytimg.com/vi/${video.videoId}/hqdefault.jpg`,
+      views: "0",
+      isOfficial: true,
+      isVerified: false,
+      score: isMusicContent(title, channel) ? 90 : 80,
+    });
+  }
+
+  const artist = textOf(header?.ownerText) || tracks[0]?.artist || "";
+  const thumbnails = data?.microformat?.microformatDataRenderer?.thumbnail?.thumbnails || [];
+  return {
+    ...toSummary(
+      playlistId,
+      metadata.title,
+      artist,
+      thumbnails.slice(-1)[0]?.url || tracks[0]?.thumbnail || "",
+      tracks.length,
+      headerTexts
+    ),
+    tracks,
+  };
+}
+
+const normalize = (text: string) => text.toLowerCase().replace(/[^\p{L}\p{N}]/gu, "");
+
+// Release credited to the artist (either name may carry extras like "feat.")
+export function byArtist(album: AlbumSummary, artist: string): boolean {
+  const wanted = normalize(cleanArtist(artist));
+  const credited = normalize(album.artist);
+  return !!wanted && !!credited && (credited.includes(wanted) || wanted.includes(credited));
+}
+
+// Closest title match, preferring the artist's own release
+export function bestMatch(albums: AlbumSummary[], title: string, artist?: string): AlbumSummary | null {
+  const wanted = normalize(splitTitle(title).title);
+  const rank = (album: AlbumSummary) => {
+    const candidate = normalize(album.title);
+    const titleScore = candidate === wanted ? 2 : candidate.includes(wanted) || wanted.includes(candidate) ? 1 : 0;
+    return titleScore === 0 ? 0 : titleScore * 2 + (artist && byArtist(album, artist) ? 1 : 0);
+  };
+  const ranked = albums.map(album => ({ album, score: rank(album) })).filter(({ score }) => score > 0);
+  ranked.sort((a, b) => b.score - a.score);
+  return ranked[0]?.album ?? null;
+}
+
+// Newest first; releases without a year keep their page order at the end
+export function splitDiscography(releases: AlbumSummary[]): { albums: AlbumSummary[]; singles: AlbumSummary[] } {
+  const sorted = releases
+    .map((release, index) => ({ release, index }))
+    .sort((a, b) => (b.release.year ?? -1) - (a.release.year ?? -1) || a.index - b.index)
+    .map(({ release }) => release);
+  return {
+    albums: sorted.filter(release => release.kind === "album"),
+    singles: sorted.filter(release => release.kind !== "album"),
+  };
+}
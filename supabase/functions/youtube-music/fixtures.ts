@@ -0,0 +1,92 @@
+// Recorded provider responses, for working on the parsers offline.
+//   SEARCH_FIXTURES=record:<dir>  - call the network and save each response
+//   SEARCH_FIXTURES=replay:<dir>  - answer from saved responses only
+// Files are named after the request URL (without any API key), so replaying
+// needs the same query, limit and provider config as the recording. Running
+// this file replays a query through every configured provider and prints what
+// each parser made of it, exiting non-zero if any provider failed:
+//   deno run --allow-env --allow-read fixtures.ts <dir> "<query>" [limit]
+// The fixtures/ directory holds a small synthetic set, written by hand in the
+// recorded format for "midnight city" (limit 10), that providers.test.ts replays,
+// and album pages that albums.test.ts reads.
+import { type Fetcher, getSearchProviders } from "./providers.ts";
+import { DEFAULT_DISCOVERY } from "./music.ts";
+
+async function fixtureName(url: string): Promise<string> {
+  const parsed = new URL(url);
+  parsed.searchParams.delete("key");
+  const digest = await crypto.subtle.digest("SHA-256", new TextEncoder().encode(parsed.toString()));
+  const hash = Array.from(new Uint8Array(digest).slice(0, 6))
+    .map(b => b.toString(16).padStart(2, "0"))
+    .join("");
+  return `${parsed.host}${parsed.pathname}`.replace(/[^a-z0-9]+/gi, "-") + `-${hash}`;
+}
+
+export const recordingFetcher = (dir: string): Fetcher => async (url, init) => {
+  const response = await fetch(url, init);
+  const body = await response.text();
+  if (response.ok) {
+    const isJson = response.headers.get("content-type")?.includes("json");
+    await Deno.mkdir(dir, { recursive: true });
+    await Deno.writeTextFile(`${dir}/${await fixtureName(url)}.${isJson ? "json" : "html"}`, body);
+  }
+  return new Response(body, { status: response.status, headers: response.headers });
+};
+
+export const replayFetcher = (dir: string): Fetcher => async (url) => {
+  const name = await fixtureName(url);
+  for (const [extension, contentType] of [["json", "application/json"], ["html", "text/html"]]) {
+    try {
+      const body = await Deno.readTextFile(`${dir}/${name}.${extension}`);
+      return new Response(body, { headers: { "Content-Type": contentType } });
+    } catch (error) {
+      if (!(error instanceof Deno.errors.NotFound)) throw error;
+    }
+  }
+  throw new Error(`No fixture for ${url} (${name})`);
+};
+
+// The network, unless SEARCH_FIXTURES says otherwise
+export function getFetcher(): Fetcher {
+  const setting = Deno.env.get("SEARCH_FIXTURES");
+  if (!setting) return fetch;
+
+  const [mode, ...path] = setting.split(":");
+  const dir = path.join(":") || "fixtures";
+  switch (mode) {
+    case "record":
+      return recordingFetcher(dir);
+    case "replay":
+      return replayFetcher(dir);
+    default:
+      console.error(`[Search] Unknown SEARCH_FIXTURES mode "${mode}"`);
+      return fetch;
+  }
+}
+
+if (import.meta.main) {
+  const [dir, query, limit] = Deno.args;
+  if (!dir || !query) {
+    console.error('Usage: fixtures.ts <dir> "<query>" [limit]');
+    Deno.exit(2);
+  }
+
+  const fetcher = replayFetcher(dir);
+  let failed = 0;
+  for (const provider of getSearchProviders()) {
+    try {
+      const songs = await provider.search(
+        { query, limit: Number(limit) || 20, discovery: DEFAULT_DISCOVERY },
+        fetcher
+      );
+      console.log(`${provider.name}: ${songs.length} songs`);
+      for (const song of songs.slice(0, 3)) {
+        console.log(`  ${song.score}  ${song.artist} - ${song.title} (${song.duration})`);
+      }
+    } catch (error) {
+      failed++;
+      console.log(`${provider.name}: FAILED ${error instanceof Error ? error.message : error}`);
+    }
+  }
+  Deno.exit(failed > 0 ? 1 : 0);
+}
@@ -0,0 +1,49 @@
+import assert from "node:assert/strict";
+import { healthScore, isOpen, orderByHealth, providerStatus, recordFailure, recordSuccess } from "./health.ts";
+
+// Health is module state, so each test uses its own provider names
+const named = (...names: string[]) => names.map(name => ({ name }));
+
+Deno.test("the circuit opens after three consecutive failures", () => {
+  recordFailure("breaker-a", 100);
+  recordFailure("breaker-a", 100);
+  assert.equal(isOpen("breaker-a"), false);
+
+  recordFailure("breaker-a", 100);
+  assert.equal(isOpen("breaker-a"), true);
+  assert.equal(providerStatus(["breaker-a"])[0].consecutiveFailures, 3);
+  assert.deepEqual(orderByHealth(named("breaker-a", "breaker-b")).map(p => p.name), ["breaker-b"]);
+});
+
+Deno.test("a success in between resets the failure count", () => {
+  recordFailure("breaker-c", 100);
+  recordFailure("breaker-c", 100);
+  recordSuccess("breaker-c", 100);
+  recordFailure("breaker-c", 100);
+
+  assert.equal(isOpen("breaker-c"), false);
+  assert.equal(providerStatus(["breaker-c"])[0].consecutiveFailures, 1);
+});
+
+Deno.test("untried providers score 1, slow and failing ones less", () => {
+  assert.equal(healthScore("score-untried"), 1);
+
+  recordSuccess("score-fast", 0);
+  recordSuccess("score-slow", 2000);
+  recordFailure("score-failing", 0);
+
+  assert.equal(healthScore("score-fast"), 1);
+  assert.equal(healthScore("score-slow"), 0.5);
+  assert.equal(healthScore("score-failing"), 0);
+});
+
+Deno.test("orderByHealth sinks unhealthy providers but keeps close scores in configured order", () => {
+  recordFailure("order-failing", 0);
+  recordSuccess("order-slowish", 200); // score ~0.91
+  recordSuccess("order-fast", 0);
+
+  assert.deepEqual(
+    orderByHealth(named("order-failing", "order-slowish", "order-fast")).map(p => p.name),
+    ["order-slowish", "order-fast", "order-failing"],
+  );
+});
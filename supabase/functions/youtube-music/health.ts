@@ -0,0 +1,100 @@
+// Per-provider health: moving averages of latency and error rate, and a
+// circuit breaker that stops calling a provider after repeated failures.
+// Kept in memory like the rate limiter, so each function instance learns
+// on its own and starts from a clean slate.
+
+interface ProviderHealth {
+  latencyMs: number; // moving average over successful and failed calls
+  errorRate: number; // moving average, 0-1
+  calls: number;
+  consecutiveFailures: number;
+  openUntil: number; // circuit is open (provider skipped) until this time
+}
+
+export interface ProviderStatus extends ProviderHealth {
+  name: string;
+  score: number;
+  open: boolean;
+}
+
+// Weight of the newest call in the moving averages
+const SMOOTHING = 0.3;
+// Latency at which a provider's score halves
+const LATENCY_SCALE_MS = 2000;
+// Consecutive failures that open the circuit
+const FAILURE_THRESHOLD = 3;
+// Open time after the threshold is reached; doubles for each further failure
+const OPEN_MS = 30_000;
+const MAX_OPEN_MS = 10 * 60_000;
+
+const healthStore = new Map<string, ProviderHealth>();
+
+const healthOf = (name: string): ProviderHealth => {
+  let health = healthStore.get(name);
+  if (!health) {
+    health = { latencyMs: 0, errorRate: 0, calls: 0, consecutiveFailures: 0, openUntil: 0 };
+    healthStore.set(name, health);
+  }
+  return health;
+};
+
+const smooth = (average: number, value: number, calls: number) =>
+  calls === 0 ? value : average + SMOOTHING * (value - average);
+
+export function recordSuccess(name: string, latencyMs: number): void {
+  const health = healthOf(name);
+  health.latencyMs = smooth(health.latencyMs, latencyMs, health.calls);
+  health.errorRate = smooth(health.errorRate, 0, health.calls);
+  health.calls++;
+  health.consecutiveFailures = 0;
+  health.openUntil = 0;
+}
+
+export function recordFailure(name: string, latencyMs: number): void {
+  const health = healthOf(name);
+  health.latencyMs = smooth(health.latencyMs, latencyMs, health.calls);
+  health.errorRate = smooth(health.errorRate, 1, health.calls);
+  health.calls++;
+  health.consecutiveFailures++;
+
+  // Once open, every failed trial call keeps it open for twice as long
+  const extra = health.consecutiveFailures - FAILURE_THRESHOLD;
+  if (extra >= 0) {
+    const openMs = Math.min(MAX_OPEN_MS, OPEN_MS * 2 ** extra);
+    health.openUntil = Date.now() + openMs;
+    console.log(`[Search] Circuit open for ${name} (${health.consecutiveFailures} failures, ${openMs / 1000}s)`);
+  }
+}
+
+// After the open period calls are let through again ("half-open"); the
+// first failure reopens the circuit
+export const isOpen = (name: string): boolean => Date.now() < healthOf(name).openUntil;
+
+// 1 for a fast, reliable (or untried) provider, towards 0 as it slows down or fails
+export function healthScore(name: string): number {
+  const health = healthOf(name);
+  if (health.calls === 0) return 1;
+  return (1 - health.errorRate) / (1 + health.latencyMs / LATENCY_SCALE_MS);
+}
+
+// Configured order, with unhealthy providers sinking: a provider with a
+// score of 0 drops behind every healthy one, while small differences leave
+// the configured order alone. Open circuits are left out.
+export function orderByHealth<T extends { name: string }>(providers: T[]): T[] {
+  return providers
+    .filter(provider => !isOpen(provider.name))
+    .map((provider, position) => ({
+      provider,
+      rank: position + (1 - healthScore(provider.name)) * providers.length,
+    }))
+    .sort((a, b) => a.rank - b.rank)
+    .map(({ provider }) => provider);
+}
+
+export const providerStatus = (names: string[]): ProviderStatus[] =>
+  names.map(name => ({
+    name,
+    ...healthOf(name),
+    score: Math.round(healthScore(name) * 100) / 100,
+    open: isOpen(name),
+  }));
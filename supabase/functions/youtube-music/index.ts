@@ -1,166 +1,72 @@
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
 import { 
   checkRateLimit, 
-  getClientIdentifier, 
+  getRateLimitIdentity, 
   createRateLimitResponse,
   getRateLimitHeaders 
 } from "../_shared/rate-limit.ts";
+import {
+  type CachedResult,
+  type CachePolicy,
+  cached,
+  cacheKey,
+  getCacheBackend,
+  getCacheHeaders,
+  isNotModified,
+  readParams,
+} from "../_shared/cache.ts";
+import {
+  type Song,
+  DEFAULT_DISCOVERY,
+  calculateScore,
+  isMusicContent,
+  isNotMusic,
+  parseDiscovery,
+} from "./music.ts";
+import { type SearchOutcome, searchProviderStatus, searchWithProviders } from "./search.ts";
+import {
+  bestMatch,
+  byArtist,
+  parseAlbumHtml,
+  parseAlbumSearchHtml,
+  parseReleasesHtml,
+  splitDiscography,
+} from "./albums.ts";
+import {
+  type Album,
+  type AlbumSummary,
+  type ApiErrorBody,
+  type ArtistResponse,
+  type Discography,
+  type HomeFeed,
+  type SearchResponse,
+  API_ERROR_STATUS,
+  dataBody,
+  errorBody,
+  parseRequest,
+  youtubeMusicContract,
+} from "../_shared/api/index.ts";
 
 const corsHeaders = {
   "Access-Control-Allow-Origin": "*",
-  "Access-Control-Allow-Headers": "authorization, x-client-info, apikey, content-type",
+  "Access-Control-Allow-Headers": "authorization, x-client-info, apikey, content-type, if-none-match",
+  "Access-Control-Expose-Headers": "etag, x-cache",
 };
 
-interface Song {
-  videoId: string;
-  title: string;
-  artist: string;
-  duration: string;
-  thumbnail: string;
-  views: string;
-  isOfficial: boolean;
-  isVerified: boolean;
-  score: number;
-}
-
-interface SearchResponse {
-  query: string;
-  songs: Song[];
-  suggestions: string[];
-}
-
-interface ArtistResponse {
-  artist: string;
-  verified: boolean;
-  channelId: string;
-  topTracks: Song[];
-  thumbnail: string;
-}
-
-// Music content detection heuristics
-function isMusicContent(title: string, channelName: string): boolean {
-  const musicIndicators = [
-    /\(official\s*(video|audio|music|lyric|mv)\)/i,
-    /\[official\s*(video|audio|music|lyric|mv)\]/i,
-    /official\s*(video|audio|music|lyric|mv)/i,
-    /\(audio\)/i,
-    /\(lyrics?\)/i,
-    /lyric\s*video/i,
-    /audio\s*only/i,
-    /full\s*(song|album|track)/i,
-    /\s+ft\.?\s+/i,
-    /\s+feat\.?\s+/i,
-    /\s+x\s+/i,
-  ];
-
-  const channelIndicators = [
-    /vevo$/i,
-    /official$/i,
-    /music$/i,
-    /records$/i,
-    /entertainment$/i,
-    /^t-series/i,
-    /sony\s*music/i,
-    /universal\s*music/i,
-    /warner\s*music/i,
-  ];
-
-  const titleMatch = musicIndicators.some(regex => regex.test(title));
-  const channelMatch = channelIndicators.some(regex => regex.test(channelName));
-
-  return titleMatch || channelMatch;
-}
-
-// Filter out non-music content
-function isNotMusic(title: string): boolean {
-  const nonMusicIndicators = [
-    /gameplay/i,
-    /walkthrough/i,
-    /tutorial/i,
-    /review/i,
-    /unboxing/i,
-    /podcast/i,
-    /interview/i,
-    /behind\s*the\s*scenes/i,
-    /making\s*of/i,
-    /reaction/i,
-    /explained/i,
-    /how\s*to/i,
-    /vlog/i,
-    /shorts/i,
-    /#shorts/i,
-    /episode\s*\d+/i,
-  ];
-
-  return nonMusicIndicators.some(regex => regex.test(title));
-}
-
-// Calculate music ranking score
-function calculateScore(title: string, channelName: string, views: string, verified: boolean): number {
-  let score = 50;
-
-  // Official content bonus
-  if (/official\s*(video|audio|music)/i.test(title)) score += 30;
-  if (/\(official\)/i.test(title)) score += 25;
-  if (/official\s*audio/i.test(title)) score += 20;
-  if (/lyric\s*video/i.test(title)) score += 15;
-  if (/\(audio\)/i.test(title)) score += 10;
-
-  // Channel type bonus
-  if (/vevo$/i.test(channelName)) score += 25;
-  if (verified) score += 20;
-  if (/official$/i.test(channelName)) score += 15;
-
-  // View count bonus
-  const viewNum = parseViewCount(views);
-  if (viewNum > 1000000000) score += 20;
-  else if (viewNum > 100000000) score += 15;
-  else if (viewNum > 10000000) score += 10;
-  else if (viewNum > 1000000) score += 5;
-
-  // Penalty for covers/fan uploads
-  if (/cover/i.test(title)) score -= 15;
-  if (/fan\s*made/i.test(title)) score -= 20;
-  if (/karaoke/i.test(title)) score -= 10;
-  if (/remix/i.test(title) && !/official\s*remix/i.test(title)) score -= 5;
-
-  return score;
-}
-
-function parseViewCount(views: string): number {
-  if (!views) return 0;
-  const cleaned = views.replace(/[^0-9.KMBkmb]/g, '');
-  let num = parseFloat(cleaned) || 0;
-  
-  if (/[Bb]/.test(views)) num *= 1000000000;
-  else if (/[Mm]/.test(views)) num *= 1000000;
-  else if (/[Kk]/.test(views)) num *= 1000;
-  
-  return num;
-}
-
-function formatViewCount(count: number): string {
-  if (count >= 1000000000) return `${(count / 1000000000).toFixed(1)}B`;
-  if (count >= 1000000) return `${(count / 1000000).toFixed(1)}M`;
-  if (count >= 1000) return `${(count / 1000).toFixed(1)}K`;
-  return count.toString();
-}
-
-function parseDuration(duration: string): string {
-  if (!duration) return "";
-  // ISO 8601 duration (PT4M33S) to MM:SS
-  const match = duration.match(/PT(?:(\d+)H)?(?:(\d+)M)?(?:(\d+)S)?/);
-  if (!match) return duration;
-  
-  const hours = parseInt(match[1] || "0");
-  const minutes = parseInt(match[2] || "0");
-  const seconds = parseInt(match[3] || "0");
-  
-  if (hours > 0) {
-    return `${hours}:${minutes.toString().padStart(2, '0')}:${seconds.toString().padStart(2, '0')}`;
-  }
-  return `${minutes}:${seconds.toString().padStart(2, '0')}`;
-}
+const MINUTE = 60;
+const HOUR = 60 * MINUTE;
+
+// Response cache lifetimes; actions without one (providers) are never cached
+const CACHE_POLICIES: Record<string, CachePolicy> = {
+  search: { ttl: 10 * MINUTE, staleWhileRevalidate: HOUR },
+  suggestions: { ttl: HOUR, staleWhileRevalidate: 24 * HOUR },
+  trending: { ttl: 30 * MINUTE, staleWhileRevalidate: 2 * HOUR },
+  related: { ttl: 6 * HOUR, staleWhileRevalidate: 24 * HOUR },
+  artist: { ttl: 6 * HOUR, staleWhileRevalidate: 24 * HOUR },
+  album: { ttl: 24 * HOUR, staleWhileRevalidate: 7 * 24 * HOUR },
+  artist_discography: { ttl: 6 * HOUR, staleWhileRevalidate: 24 * HOUR },
+  home: { ttl: 30 * MINUTE, staleWhileRevalidate: 2 * HOUR },
+};
 
 // Get YouTube search suggestions
 async function getSuggestions(query: string): Promise<string[]> {
@@ -176,170 +82,11 @@ async function getSuggestions(query: string): Promise<string[]> {
   }
 }
 
-// Search YouTube for music - uses Invidious API as primary (more reliable)
-async function searchYouTube(query: string, limit: number = 20): Promise<Song[]> {
-  // Try Invidious first (more reliable in edge functions)
-  const invidiousResults = await searchYouTubeFallback(query, limit);
-  if (invidiousResults.length > 0) {
-    return invidiousResults;
-  }
-
-  // Fallback to direct YouTube scraping (may hit redirect limits)
-  try {
-    const musicQuery = query.includes("song") || query.includes("music") 
-      ? query 
-      : `${query} song`;
-
-    const searchUrl = `https://www.youtube.com/results?search_query=${encodeURIComponent(musicQuery)}&sp=EgIQAQ%253D%253D`;
-    
-    const response = await fetch(searchUrl, {
-      headers: {
-        'User-Agent': 'Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/120.0.0.0 Safari/537.36',
-        'Accept-Language': 'en-US,en;q=0.9',
-        'Accept': 'text/html,application/xhtml+xml,application/xml;q=0.9,*/*;q=0.8',
-      },
-      redirect: 'follow',
-    });
-
-    if (!response.ok) {
-      console.log(`YouTube direct search failed: ${response.status}`);
-      return [];
-    }
-
-    const html = await response.text();
-    
-    const dataMatch = html.match(/var ytInitialData = ({.*?});<\/script>/s) || 
-                      html.match(/ytInitialData\s*=\s*({.*?});/s);
-    
-    if (!dataMatch) {
-      console.log("Could not find ytInitialData");
-      return [];
-    }
-
-    const data = JSON.parse(dataMatch[1]);
-    const videos: Song[] = [];
-
-    const contents = data?.contents?.twoColumnSearchResultsRenderer?.primaryContents?.sectionListRenderer?.contents;
-    
-    if (!contents) return [];
-
-    for (const section of contents) {
-      const items = section?.itemSectionRenderer?.contents || [];
-      
-      for (const item of items) {
-        const videoRenderer = item.videoRenderer;
-        if (!videoRenderer) continue;
-
-        const videoId = videoRenderer.videoId;
-        const title = videoRenderer.title?.runs?.[0]?.text || "";
-        const channelName = videoRenderer.ownerText?.runs?.[0]?.text || "";
-        const thumbnail = videoRenderer.thumbnail?.thumbnails?.slice(-1)?.[0]?.url || 
-                         `https://i.ytimg.com/vi/${videoId}/hqdefault.jpg`;
-        const duration = videoRenderer.lengthText?.simpleText || "";
-        const viewCountText = videoRenderer.viewCountText?.simpleText || videoRenderer.viewCountText?.runs?.[0]?.text || "0";
-        const verified = !!videoRenderer.ownerBadges?.some((badge: any) => 
-          badge.metadataBadgeRenderer?.style === "BADGE_STYLE_TYPE_VERIFIED" ||
-          badge.metadataBadgeRenderer?.style === "BADGE_STYLE_TYPE_VERIFIED_ARTIST"
-        );
-
-        if (isNotMusic(title)) continue;
-
-        const durationParts = duration.split(":").map(Number);
-        const totalSeconds = durationParts.length === 3 
-          ? durationParts[0] * 3600 + durationParts[1] * 60 + durationParts[2]
-          : durationParts[0] * 60 + (durationParts[1] || 0);
-        
-        if (totalSeconds < 60 || totalSeconds > 900) continue;
-
-        const isOfficial = isMusicContent(title, channelName);
-        const score = calculateScore(title, channelName, viewCountText, verified);
-
-        videos.push({
-          videoId,
-          title,
-          artist: channelName,
-          duration,
-          thumbnail,
-          views: viewCountText,
-          isOfficial,
-          isVerified: verified,
-          score,
-        });
-      }
-    }
-
-    const seen = new Map<string, Song>();
-    for (const video of videos) {
-      const key = video.title.toLowerCase().replace(/[^a-z0-9]/g, '').slice(0, 30);
-      if (!seen.has(key) || seen.get(key)!.score < video.score) {
-        seen.set(key, video);
-      }
-    }
-
-    return Array.from(seen.values())
-      .sort((a, b) => b.score - a.score)
-      .slice(0, limit);
-
-  } catch (error) {
-    console.error("YouTube direct search error:", error);
-    return [];
-  }
-}
-
-// Fallback search using a different approach
-async function searchYouTubeFallback(query: string, limit: number): Promise<Song[]> {
-  try {
-    // Use Invidious API as fallback (privacy-respecting YouTube frontend)
-    const instances = [
-      "https://inv.nadeko.net",
-      "https://invidious.fdn.fr",
-      "https://yt.artemislena.eu",
-    ];
-
-    for (const instance of instances) {
-      try {
-        const response = await fetch(
-          `${instance}/api/v1/search?q=${encodeURIComponent(query + " song")}&type=video&sort=relevance`,
-          { headers: { 'Accept': 'application/json' } }
-        );
-
-        if (!response.ok) continue;
-
-        const data = await response.json();
-        
-        return data.slice(0, limit).map((item: any) => {
-          const verified = item.authorVerified || false;
-          const isOfficial = isMusicContent(item.title, item.author);
-          const viewCount = item.viewCount || 0;
-          
-          return {
-            videoId: item.videoId,
-            title: item.title,
-            artist: item.author,
-            duration: formatSeconds(item.lengthSeconds),
-            thumbnail: item.videoThumbnails?.[0]?.url || `https://i.ytimg.com/vi/${item.videoId}/hqdefault.jpg`,
-            views: formatViewCount(viewCount),
-            isOfficial,
-            isVerified: verified,
-            score: calculateScore(item.title, item.author, formatViewCount(viewCount), verified),
-          };
-        }).filter((s: Song) => !isNotMusic(s.title));
-      } catch {
-        continue;
-      }
-    }
-    
-    return [];
-  } catch (error) {
-    console.error("Fallback search error:", error);
-    return [];
-  }
-}
-
-function formatSeconds(seconds: number): string {
-  const mins = Math.floor(seconds / 60);
-  const secs = seconds % 60;
-  return `${mins}:${secs.toString().padStart(2, '0')}`;
+// Search YouTube for music down the provider chain (see providers.ts)
+async function searchYouTube(query: string, limit: number = 20, discovery: number = DEFAULT_DISCOVERY): Promise<SearchOutcome> {
+  const outcome = await searchWithProviders(query, limit, discovery);
+  if (!outcome.provider) console.log(`[Search] No provider answered "${query}"`);
+  return outcome;
 }
 
 // Get trending music
@@ -359,7 +106,7 @@ async function getTrending(limit: number = 20): Promise<Song[]> {
 
     if (!dataMatch) {
       // Fallback to search for trending songs
-      return await searchYouTube("trending songs 2024", limit);
+      return (await searchYouTube("trending songs 2024", limit)).songs;
     }
 
     const data = JSON.parse(dataMatch[1]);
@@ -399,18 +146,18 @@ async function getTrending(limit: number = 20): Promise<Song[]> {
     }
 
     if (videos.length === 0) {
-      return await searchYouTube("trending songs 2024", limit);
+      return (await searchYouTube("trending songs 2024", limit)).songs;
     }
 
     return videos.slice(0, limit);
   } catch (error) {
     console.error("Trending error:", error);
-    return await searchYouTube("top songs 2024", limit);
+    return (await searchYouTube("top songs 2024", limit)).songs;
   }
 }
 
 // Get related videos for autoplay/radio
-async function getRelated(videoId: string, limit: number = 15): Promise<Song[]> {
+async function getRelated(videoId: string, limit: number = 15, discovery: number = DEFAULT_DISCOVERY): Promise<Song[]> {
   try {
     const response = await fetch(`https://www.youtube.com/watch?v=${videoId}`, {
       headers: {
@@ -456,7 +203,7 @@ async function getRelated(videoId: string, limit: number = 15): Promise<Song[]>
         views,
         isOfficial,
         isVerified: false,
-        score: calculateScore(title, channelName, views, false),
+        score: calculateScore(title, channelName, views, false, discovery),
       });
     }
 
@@ -547,8 +294,73 @@ async function getArtist(channelId: string): Promise<ArtistResponse | null> {
   }
 }
 
+// Fetch a youtube.com page as a desktop browser
+async function fetchPage(url: string): Promise<string> {
+  const response = await fetch(url, {
+    headers: {
+      'User-Agent': 'Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36',
+      'Accept-Language': 'en-US,en;q=0.9',
+    }
+  });
+  return await response.text();
+}
+
+// Albums, singles and EPs matching a query (search filtered to playlists)
+async function searchAlbums(query: string, limit: number = 8): Promise<AlbumSummary[]> {
+  try {
+    const html = await fetchPage(`https://www.youtube.com/results?search_query=${encodeURIComponent(query)}&sp=EgIQAw%3D%3D`);
+    return parseAlbumSearchHtml(html, limit);
+  } catch (error) {
+    console.error("Album search error:", error);
+    return [];
+  }
+}
+
+// An album's tracks in order, by playlist id or looked up by title and artist
+async function getAlbum(playlistId?: string, title?: string, artist?: string): Promise<Album | null> {
+  try {
+    let summary: AlbumSummary | null = null;
+    if (!playlistId) {
+      summary = bestMatch(await searchAlbums(`${artist || ""} ${title}`.trim(), 10), title!, artist);
+      if (!summary) return null;
+    }
+
+    const html = await fetchPage(`https://www.youtube.com/playlist?list=${encodeURIComponent(playlistId || summary!.playlistId)}`);
+    const album = parseAlbumHtml(html, playlistId || summary!.playlistId);
+    if (album.tracks.length === 0) return null;
+    // Search results can carry a year the playlist page doesn't show
+    return summary ? { ...album, year: album.year ?? summary.year } : album;
+  } catch (error) {
+    console.error("Album fetch error:", error);
+    return null;
+  }
+}
+
+// Artist's albums and singles: the channel's releases tab, or a search by name
+async function getDiscography(channelId?: string, artistName?: string): Promise<Discography | null> {
+  try {
+    let artist = artistName || "";
+    let releases: AlbumSummary[] = [];
+
+    if (channelId) {
+      const page = parseReleasesHtml(await fetchPage(`https://www.youtube.com/channel/${channelId}/releases`));
+      artist = page.artist || artist;
+      releases = page.releases;
+    }
+    if (releases.length === 0 && artist) {
+      releases = (await searchAlbums(`${artist} album`, 30)).filter(album => byArtist(album, artist));
+    }
+    if (releases.length === 0) return null;
+
+    return { artist, channelId: channelId || null, ...splitDiscography(releases) };
+  } catch (error) {
+    console.error("Discography fetch error:", error);
+    return null;
+  }
+}
+
 // Home feed with categories
-async function getHomeFeed(): Promise<{ trending: Song[]; genres: { name: string; songs: Song[] }[] }> {
+async function getHomeFeed(): Promise<HomeFeed> {
   const [trending, ...genreResults] = await Promise.all([
     getTrending(12),
     searchYouTube("bollywood hits 2024", 8),
@@ -570,103 +382,124 @@ async function getHomeFeed(): Promise<{ trending: Song[]; genres: { name: string
 
   const genres = genreNames.map((name, i) => ({
     name,
-    songs: genreResults[i] || [],
+    songs: genreResults[i]?.songs || [],
   })).filter(g => g.songs.length > 0);
 
   return { trending, genres };
 }
 
+async function cachedAction<T>(
+  action: string,
+  params: Record<string, unknown>,
+  load: () => Promise<T>,
+  cacheable?: (value: T) => boolean
+): Promise<CachedResult<T>> {
+  const key = await cacheKey("youtube-music", action, params);
+  return cached(getCacheBackend(), key, CACHE_POLICIES[action], load, cacheable);
+}
+
+const jsonResponse = (body: unknown, status = 200, headers: Record<string, string> = {}) =>
+  new Response(JSON.stringify(body), {
+    status,
+    headers: { ...corsHeaders, ...headers, "Content-Type": "application/json" },
+  });
+
+const errorResponse = (error: ApiErrorBody) => jsonResponse(error, API_ERROR_STATUS[error.code]);
+
 serve(async (req) => {
   if (req.method === "OPTIONS") {
     return new Response(null, { headers: corsHeaders });
   }
 
   try {
-    // Rate limiting: 30 requests per minute per client
-    const clientId = getClientIdentifier(req);
-    const rateLimitResult = checkRateLimit(clientId, { maxRequests: 30, windowMs: 60000 });
+    const parsed = parseRequest(youtubeMusicContract, await readParams(req, ["version", "limit", "discovery", "albums"]));
+    if (!parsed.ok) return errorResponse(parsed.error);
+    const { request } = parsed;
+
+    // Rate limiting: the caller's quota for this function
+    const rateLimitResult = await checkRateLimit(await getRateLimitIdentity(req), "youtube-music", request.action);
     
     if (!rateLimitResult.allowed) {
       return createRateLimitResponse(rateLimitResult, corsHeaders);
     }
 
-    const { action, query, videoId, channelId, limit } = await req.json();
-
-    let result: any;
-
-    switch (action) {
-      case "search":
-        if (!query) {
-          return new Response(
-            JSON.stringify({ error: "Query is required" }),
-            { status: 400, headers: { ...corsHeaders, "Content-Type": "application/json" } }
-          );
-        }
-        const songs = await searchYouTube(query, limit || 20);
-        const suggestions = await getSuggestions(query);
-        result = { query, songs, suggestions };
+    let result: unknown;
+    let cacheResult: CachedResult<unknown> | undefined;
+
+    switch (request.action) {
+      case "search": {
+        const { query, limit, discovery, albums: withAlbums } = request.params;
+        cacheResult = await cachedAction(request.action, request.params, async (): Promise<SearchResponse> => {
+          const [{ songs, provider }, suggestions, albums] = await Promise.all([
+            searchYouTube(query, limit || 20, parseDiscovery(discovery)),
+            getSuggestions(query),
+            withAlbums ? searchAlbums(query) : Promise.resolve([]),
+          ]);
+          return { query, songs, albums, suggestions, provider };
+        }, searchResult => searchResult.provider !== null);
         break;
+      }
 
       case "suggestions":
-        if (!query) {
-          return new Response(
-            JSON.stringify({ error: "Query is required" }),
-            { status: 400, headers: { ...corsHeaders, "Content-Type": "application/json" } }
-          );
-        }
-        result = await getSuggestions(query);
+        cacheResult = await cachedAction(request.action, request.params, () => getSuggestions(request.params.query));
         break;
 
       case "trending":
-        result = await getTrending(limit || 20);
+        cacheResult = await cachedAction(request.action, request.params, () => getTrending(request.params.limit || 20));
         break;
 
-      case "related":
-        if (!videoId) {
-          return new Response(
-            JSON.stringify({ error: "Video ID is required" }),
-            { status: 400, headers: { ...corsHeaders, "Content-Type": "application/json" } }
-          );
-        }
-        result = await getRelated(videoId, limit || 15);
+      case "related": {
+        const { videoId, limit, discovery } = request.params;
+        cacheResult = await cachedAction(request.action, request.params, () => getRelated(videoId, limit || 15, parseDiscovery(discovery)));
         break;
+      }
 
       case "artist":
-        if (!channelId) {
-          return new Response(
-            JSON.stringify({ error: "Channel ID is required" }),
-            { status: 400, headers: { ...corsHeaders, "Content-Type": "application/json" } }
-          );
-        }
-        result = await getArtist(channelId);
+        cacheResult = await cachedAction(request.action, request.params, () => getArtist(request.params.channelId));
         break;
 
-      case "home":
-        result = await getHomeFeed();
+      case "album": {
+        const { playlistId, title, artist } = request.params;
+        cacheResult = await cachedAction(request.action, request.params, () => getAlbum(playlistId, title, artist));
         break;
+      }
+
+      case "artist_discography": {
+        const { channelId, artist } = request.params;
+        cacheResult = await cachedAction(request.action, request.params, () => getDiscography(channelId, artist));
+        break;
+      }
 
-      default:
-        return new Response(
-          JSON.stringify({ error: "Invalid action" }),
-          { status: 400, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+      case "home":
+        cacheResult = await cachedAction(
+          request.action,
+          request.params,
+          getHomeFeed,
+          feed => feed.trending.length > 0 || feed.genres.length > 0
         );
+        break;
+
+      // Health and circuit state of each search provider
+      case "providers":
+        result = searchProviderStatus();
+        break;
     }
 
-    return new Response(
-      JSON.stringify({ data: result }),
-      { 
-        headers: { 
-          ...corsHeaders, 
-          ...getRateLimitHeaders(rateLimitResult),
-          "Content-Type": "application/json" 
-        } 
-      }
+    const cacheHeaders = cacheResult ? getCacheHeaders(cacheResult) : {};
+    if (cacheResult && isNotModified(req, cacheResult)) {
+      return new Response(null, {
+        status: 304,
+        headers: { ...corsHeaders, ...getRateLimitHeaders(rateLimitResult), ...cacheHeaders },
+      });
+    }
+
+    return jsonResponse(
+      dataBody(cacheResult ? cacheResult.value : result),
+      200,
+      { ...getRateLimitHeaders(rateLimitResult), ...cacheHeaders }
     );
   } catch (error) {
     console.error("YouTube Music API error:", error);
-    return new Response(
-      JSON.stringify({ error: error instanceof Error ? error.message : "Unknown error" }),
-      { status: 500, headers: { ...corsHeaders, "Content-Type": "application/json" } }
-    );
+    return errorResponse(errorBody("INTERNAL_ERROR", error instanceof Error ? error.message : "Unknown error"));
   }
 });
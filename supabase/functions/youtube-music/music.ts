@@ -0,0 +1,152 @@
+// Song shape and the scoring/formatting helpers shared by every search
+// provider and the other actions
+
+export type { Song } from "../_shared/api/youtube-music.ts";
+
+// Music content detection heuristics
+export function isMusicContent(title: string, channelName: string): boolean {
+  const musicIndicators = [
+    /\(official\s*(video|audio|music|lyric|mv)\)/i,
+    /\[official\s*(video|audio|music|lyric|mv)\]/i,
+    /official\s*(video|audio|music|lyric|mv)/i,
+    /\(audio\)/i,
+    /\(lyrics?\)/i,
+    /lyric\s*video/i,
+    /audio\s*only/i,
+    /full\s*(song|album|track)/i,
+    /\s+ft\.?\s+/i,
+    /\s+feat\.?\s+/i,
+    /\s+x\s+/i,
+  ];
+
+  const channelIndicators = [
+    /vevo$/i,
+    /official$/i,
+    /music$/i,
+    /records$/i,
+    /entertainment$/i,
+    /^t-series/i,
+    /sony\s*music/i,
+    /universal\s*music/i,
+    /warner\s*music/i,
+  ];
+
+  const titleMatch = musicIndicators.some(regex => regex.test(title));
+  const channelMatch = channelIndicators.some(regex => regex.test(channelName));
+
+  return titleMatch || channelMatch;
+}
+
+// Filter out non-music content
+export function isNotMusic(title: string): boolean {
+  const nonMusicIndicators = [
+    /gameplay/i,
+    /walkthrough/i,
+    /tutorial/i,
+    /review/i,
+    /unboxing/i,
+    /podcast/i,
+    /interview/i,
+    /behind\s*the\s*scenes/i,
+    /making\s*of/i,
+    /reaction/i,
+    /explained/i,
+    /how\s*to/i,
+    /vlog/i,
+    /shorts/i,
+    /#shorts/i,
+    /episode\s*\d+/i,
+  ];
+
+  return nonMusicIndicators.some(regex => regex.test(title));
+}
+
+// Autoplay's discovery setting: 0 favours hits, 100 deep cuts, 50 is neutral
+export const DEFAULT_DISCOVERY = 50;
+
+export const parseDiscovery = (value: unknown): number =>
+  typeof value === "number" && isFinite(value) ? Math.max(0, Math.min(100, value)) : DEFAULT_DISCOVERY;
+
+// How much the view count bonus counts: 2x at 0-25, 1x at 50, reversed (a penalty) at 100
+const viewWeight = (discovery: number) => Math.max(-1, Math.min(2, 1 - (discovery - DEFAULT_DISCOVERY) / 25));
+
+// Calculate music ranking score
+export function calculateScore(
+  title: string,
+  channelName: string,
+  views: string,
+  verified: boolean,
+  discovery: number = DEFAULT_DISCOVERY
+): number {
+  let score = 50;
+
+  // Official content bonus
+  if (/official\s*(video|audio|music)/i.test(title)) score += 30;
+  if (/\(official\)/i.test(title)) score += 25;
+  if (/official\s*audio/i.test(title)) score += 20;
+  if (/lyric\s*video/i.test(title)) score += 15;
+  if (/\(audio\)/i.test(title)) score += 10;
+
+  // Channel type bonus
+  if (/vevo$/i.test(channelName)) score += 25;
+  if (verified) score += 20;
+  if (/official$/i.test(channelName)) score += 15;
+
+  // View count bonus
+  const viewNum = parseViewCount(views);
+  let viewBonus = 0;
+  if (viewNum > 1000000000) viewBonus = 20;
+  else if (viewNum > 100000000) viewBonus = 15;
+  else if (viewNum > 10000000) viewBonus = 10;
+  else if (viewNum > 1000000) viewBonus = 5;
+  score += viewBonus * viewWeight(discovery);
+
+  // Penalty for covers/fan uploads
+  if (/cover/i.test(title)) score -= 15;
+  if (/fan\s*made/i.test(title)) score -= 20;
+  if (/karaoke/i.test(title)) score -= 10;
+  if (/remix/i.test(title) && !/official\s*remix/i.test(title)) score -= 5;
+
+  return score;
+}
+
+export function parseViewCount(views: string): number {
+  if (!views) return 0;
+  const cleaned = views.replace(/[^0-9.KMBkmb]/g, '');
+  let num = parseFloat(cleaned) || 0;
+  
+  if (/[Bb]/.test(views)) num *= 1000000000;
+  else if (/[Mm]/.test(views)) num *= 1000000;
+  else if (/[Kk]/.test(views)) num *= 1000;
+  
+  return num;
+}
+
+export function formatViewCount(count: number): string {
+  if (count >= 1000000000) return `${(count / 1000000000).toFixed(1)}B`;
+  if (count >= 1000000) return `${(count / 1000000).toFixed(1)}M`;
+  if (count >= 1000) return `${(count / 1000).toFixed(1)}K`;
+  return count.toString();
+}
+
+export function parseDuration(duration: string): string {
+  if (!duration) return "";
+  // ISO 8601 duration (PT4M33S) to MM:SS
+  const match = duration.match(/PT(?:(\d+)H)?(?:(\d+)M)?(?:(\d+)S)?/);
+  if (!match) return duration;
+  
+  const hours = parseInt(match[1] || "0");
+  const minutes = parseInt(match[2] || "0");
+  const seconds = parseInt(match[3] || "0");
+  
+  if (hours > 0) {
+    return `${hours}:${minutes.toString().padStart(2, '0')}:${seconds.toString().padStart(2, '0')}`;
+  }
+  return `${minutes}:${seconds.toString().padStart(2, '0')}`;
+}
+
+export function formatSeconds(seconds: number): string {
+  const mins = Math.floor(seconds / 60);
+  const secs = seconds % 60;
+  return `${mins}:${secs.toString().padStart(2, '0')}`;
+}
@@ -0,0 +1,215 @@
+// Turn each search provider's raw response into Songs. Pure functions of the
+// response body so recorded fixtures can be replayed through them offline.
+// A body that doesn't have the expected shape throws; an empty result doesn't.
+import {
+  type Song,
+  calculateScore,
+  formatSeconds,
+  formatViewCount,
+  isMusicContent,
+  isNotMusic,
+  parseDuration,
+} from "./music.ts";
+
+// Only the fields the parsers read
+interface PipedItem {
+  type?: string;
+  url?: string;
+  title?: string;
+  uploaderName?: string;
+  uploaderVerified?: boolean;
+  duration?: number;
+  views?: number;
+  thumbnail?: string;
+}
+
+export interface DataApiSearch {
+  items?: { id?: { videoId?: string } }[];
+}
+
+interface DataApiVideo {
+  id: string;
+  snippet?: { title?: string; channelTitle?: string; thumbnails?: { high?: { url?: string } } };
+  contentDetails?: { duration?: string };
+  statistics?: { viewCount?: string };
+}
+
+const MIN_SECONDS = 60;
+const MAX_SECONDS = 900;
+
+const thumbnailFor = (videoId: string) => `https://i.ytimg.com/vi/${videoId}/hqdefault.jpg`;
+
+const durationSeconds = (duration: string) => {
+  const parts = duration.split(":").map(Number);
+  return parts.length === 3
+    ? parts[0] * 3600 + parts[1] * 60 + parts[2]
+    : parts[0] * 60 + (parts[1] || 0);
+};
+
+// Highest-scoring upload of each title
+function dedupeByTitle(songs: Song[]): Song[] {
+  const seen = new Map<string, Song>();
+  for (const song of songs) {
+    const key = song.title.toLowerCase().replace(/[^a-z0-9]/g, '').slice(0, 30);
+    if (!seen.has(key) || seen.get(key)!.score < song.score) {
+      seen.set(key, song);
+    }
+  }
+  return Array.from(seen.values());
+}
+
+// Invidious /api/v1/search
+export function parseInvidiousSearch(data: unknown, limit: number, discovery: number): Song[] {
+  if (!Array.isArray(data)) throw new Error("Invidious response is not an array");
+
+  return data.slice(0, limit).map((item: any) => {
+    const verified = item.authorVerified || false;
+    const viewCount = item.viewCount || 0;
+
+    return {
+      videoId: item.videoId,
+      title: item.title,
+      artist: item.author,
+      duration: formatSeconds(item.lengthSeconds),
+      thumbnail: item.videoThumbnails?.[0]?.url || thumbnailFor(item.videoId),
+      views: formatViewCount(viewCount),
+      isOfficial: isMusicContent(item.title, item.author),
+      isVerified: verified,
+      score: calculateScore(item.title, item.author, formatViewCount(viewCount), verified, discovery),
+    };
+  }).filter((s: Song) => !isNotMusic(s.title));
+}
+
+// Piped /search?filter=videos
+export function parsePipedSearch(data: { items?: PipedItem[] }, limit: number, discovery: number): Song[] {
+  if (!Array.isArray(data?.items)) throw new Error("Piped response has no items");
+
+  const songs: Song[] = [];
+  for (const item of data.items) {
+    const videoId = typeof item.url === "string" ? new URLSearchParams(item.url.split("?")[1]).get("v") : null;
+    if (item.type !== "stream" || !videoId || typeof item.duration !== "number") continue;
+
+    const title = item.title || "";
+    const artist = item.uploaderName || "";
+    if (isNotMusic(title)) continue;
+    if (item.duration < MIN_SECONDS || item.duration > MAX_SECONDS) continue;
+
+    const verified = !!item.uploaderVerified;
+    const views = formatViewCount(Math.max(0, item.views || 0));
+    songs.push({
+      videoId,
+      title,
+      artist,
+      duration: formatSeconds(item.duration),
+      thumbnail: item.thumbnail || thumbnailFor(videoId),
+      views,
+      isOfficial: isMusicContent(title, artist),
+      isVerified: verified,
+      score: calculateScore(title, artist, views, verified, discovery),
+    });
+  }
+
+  return songs.slice(0, limit);
+}
+
+export function extractInitialData(html: string) {
+  const dataMatch = html.match(/var ytInitialData = ({.*?});<\/script>/s) ||
+                    html.match(/ytInitialData\s*=\s*({.*?});/s);
+  if (!dataMatch) throw new Error("Could not find ytInitialData");
+  return JSON.parse(dataMatch[1]);
+}
+
+// youtube.com/results page
+export function parseSearchHtml(html: string, limit: number, discovery: number): Song[] {
+  const data = extractInitialData(html);
+  const contents = data?.contents?.twoColumnSearchResultsRenderer?.primaryContents?.sectionListRenderer?.contents;
+  if (!contents) throw new Error("Search results not found in ytInitialData");
+
+  const videos: Song[] = [];
+  for (const section of contents) {
+    const items = section?.itemSectionRenderer?.contents || [];
+
+    for (const item of items) {
+      const videoRenderer = item.videoRenderer;
+      if (!videoRenderer) continue;
+
+      const videoId = videoRenderer.videoId;
+      const title = videoRenderer.title?.runs?.[0]?.text || "";
+      const channelName = videoRenderer.ownerText?.runs?.[0]?.text || "";
+      const thumbnail = videoRenderer.thumbnail?.thumbnails?.slice(-1)?.[0]?.url || thumbnailFor(videoId);
+      const duration = videoRenderer.lengthText?.simpleText || "";
+      const viewCountText = videoRenderer.viewCountText?.simpleText || videoRenderer.viewCountText?.runs?.[0]?.text || "0";
+      const verified = !!videoRenderer.ownerBadges?.some((badge: any) =>
+        badge.metadataBadgeRenderer?.style === "BADGE_STYLE_TYPE_VERIFIED" ||
+        badge.metadataBadgeRenderer?.style === "BADGE_STYLE_TYPE_VERIFIED_ARTIST"
+      );
+
+      if (isNotMusic(title)) continue;
+
+      const totalSeconds = durationSeconds(duration);
+      if (totalSeconds < MIN_SECONDS || totalSeconds > MAX_SECONDS) continue;
+
+      videos.push({
+        videoId,
+        title,
+        artist: channelName,
+        duration,
+        thumbnail,
+        views: viewCountText,
+        isOfficial: isMusicContent(title, channelName),
+        isVerified: verified,
+        score: calculateScore(title, channelName, viewCountText, verified, discovery),
+      });
+    }
+  }
+
+  return dedupeByTitle(videos)
+    .sort((a, b) => b.score - a.score)
+    .slice(0, limit);
+}
+
+// YouTube Data API v3: search.list ids joined with videos.list details
+export function parseDataApiSearch(
+  search: DataApiSearch,
+  details: { items?: DataApiVideo[] },
+  limit: number,
+  discovery: number
+): Song[] {
+  if (!Array.isArray(search?.items) || !Array.isArray(details?.items)) {
+    throw new Error("Data API response has no items");
+  }
+
+  const byId = new Map(details.items.map(item => [item.id, item]));
+  const songs: Song[] = [];
+  for (const result of search.items) {
+    const videoId = result.id?.videoId;
+    const detail = videoId && byId.get(videoId);
+    if (!videoId || !detail) continue;
+
+    const title = detail.snippet?.title || "";
+    const artist = detail.snippet?.channelTitle || "";
+    const duration = parseDuration(detail.contentDetails?.duration || "");
+    if (isNotMusic(title)) continue;
+
+    const totalSeconds = durationSeconds(duration);
+    if (totalSeconds < MIN_SECONDS || totalSeconds > MAX_SECONDS) continue;
+
+    const views = formatViewCount(parseInt(detail.statistics?.viewCount || "0"));
+    songs.push({
+      videoId,
+      title,
+      artist,
+      duration,
+      thumbnail: detail.snippet?.thumbnails?.high?.url || thumbnailFor(videoId),
+      views,
+      isOfficial: isMusicContent(title, artist),
+      // The Data API doesn't expose channel verification
+      isVerified: false,
+      score: calculateScore(title, artist, views, false, discovery),
+    });
+  }
+
+  return dedupeByTitle(songs)
+    .sort((a, b) => b.score - a.score)
+    .slice(0, limit);
+}
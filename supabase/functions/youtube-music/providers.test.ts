@@ -0,0 +1,78 @@
+import assert from "node:assert/strict";
+import { type SearchProvider, dataApiProvider, invidiousProvider, pipedProvider, scrapeProvider } from "./providers.ts";
+import { replayFetcher } from "./fixtures.ts";
+import { DEFAULT_DISCOVERY } from "./music.ts";
+
+// Synthetic responses for "midnight city", limit 10, named as recordings; see fixtures.ts
+const fetcher = replayFetcher(new URL("./fixtures", import.meta.url).pathname);
+
+const search = (provider: SearchProvider) =>
+  provider.search({ query: "midnight city", limit: 10, discovery: DEFAULT_DISCOVERY }, fetcher);
+
+const OFFICIAL_VIDEO = {
+  videoId: "dX3k_QDnzHE",
+  title: "M83 'Midnight City' Official video",
+  artist: "M83VEVO",
+  duration: "4:04",
+  isOfficial: true,
+};
+
+Deno.test("invidious keeps result order and drops non-music", async () => {
+  const songs = await search(invidiousProvider("https://inv.nadeko.net"));
+
+  assert.deepEqual(songs.map(s => s.videoId), ["dX3k_QDnzHE", "Lyr1cV1d3o0"]);
+  assert.deepEqual(songs[0], {
+    ...OFFICIAL_VIDEO,
+    thumbnail: "https://inv.nadeko.net/vi/dX3k_QDnzHE/hqdefault.jpg",
+    views: "152.0M",
+    isVerified: true,
+    score: 140,
+  });
+  // No thumbnails in the response: the standard one for the id
+  assert.equal(songs[1].thumbnail, "https://i.ytimg.com/vi/Lyr1cV1d3o0/hqdefault.jpg");
+});
+
+Deno.test("piped skips channels, clips and non-music", async () => {
+  const songs = await search(pipedProvider("https://pipedapi.kavin.rocks"));
+
+  assert.deepEqual(songs.map(s => s.videoId), ["dX3k_QDnzHE", "c0verS0ng00"]);
+  assert.equal(songs[0].thumbnail, "https://pipedproxy.kavin.rocks/vi/dX3k_QDnzHE/hqdefault.jpg");
+  assert.equal(songs[0].isVerified, true);
+  // Hidden view counts come back as -1
+  assert.equal(songs[1].views, "0");
+  assert.equal(songs[1].score, 35);
+});
+
+Deno.test("scrape ranks by score, drops long mixes and repeated titles", async () => {
+  const songs = await search(scrapeProvider());
+
+  assert.deepEqual(songs.map(s => s.videoId), ["dX3k_QDnzHE", "Lyr1cV1d3o0"]);
+  assert.deepEqual(songs[0], {
+    ...OFFICIAL_VIDEO,
+    thumbnail: "https://i.ytimg.com/vi/dX3k_QDnzHE/hq720.jpg",
+    views: "152,000,000 views",
+    isVerified: true,
+    score: 140,
+  });
+});
+
+Deno.test("data-api joins search ids with video details", async () => {
+  const songs = await search(dataApiProvider("test-key"));
+
+  assert.deepEqual(songs.map(s => s.videoId), ["dX3k_QDnzHE", "Lyr1cV1d3o0"]);
+  assert.deepEqual(songs[0], {
+    ...OFFICIAL_VIDEO,
+    thumbnail: "https://i.ytimg.com/vi/dX3k_QDnzHE/hqdefault.jpg",
+    views: "152.0M",
+    // Not exposed by the Data API
+    isVerified: false,
+    score: 120,
+  });
+});
+
+Deno.test("replay fails for a request that wasn't recorded", async () => {
+  await assert.rejects(
+    () => invidiousProvider("https://inv.nadeko.net").search({ query: "unrecorded", limit: 10, discovery: DEFAULT_DISCOVERY }, fetcher),
+    /No fixture for/,
+  );
+});
@@ -0,0 +1,157 @@
+// Search backends for the search action, tried in order until one answers.
+// Configured by environment:
+//   SEARCH_PROVIDERS    - kinds in the order to try them
+//                         (default "invidious,piped,scrape,data-api")
+//   INVIDIOUS_INSTANCES - comma-separated base URLs, one provider each
+//   PIPED_INSTANCES     - comma-separated Piped API base URLs
+//   YOUTUBE_API_KEY     - enables the official Data API (100 quota units a search)
+// Providers fetch through the fetcher they are given so fixtures can stand in
+// for the network; see fixtures.ts.
+import type { Song } from "./music.ts";
+import {
+  type DataApiSearch,
+  parseDataApiSearch,
+  parseInvidiousSearch,
+  parsePipedSearch,
+  parseSearchHtml,
+} from "./parsers.ts";
+
+export type Fetcher = (url: string, init?: RequestInit) => Promise<Response>;
+
+export interface SearchRequest {
+  query: string;
+  limit: number;
+  discovery: number;
+  signal?: AbortSignal;
+}
+
+export interface SearchProvider {
+  name: string;
+  search: (request: SearchRequest, fetcher: Fetcher) => Promise<Song[]>;
+}
+
+const DEFAULT_ORDER = ["invidious", "piped", "scrape", "data-api"];
+const DEFAULT_INVIDIOUS = [
+  "https://inv.nadeko.net",
+  "https://invidious.fdn.fr",
+  "https://yt.artemislena.eu",
+];
+const DEFAULT_PIPED = ["https://pipedapi.kavin.rocks"];
+const DATA_API_URL = "https://www.googleapis.com/youtube/v3";
+const MUSIC_CATEGORY = "10";
+
+const BROWSER_HEADERS = {
+  'User-Agent': 'Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/120.0.0.0 Safari/537.36',
+  'Accept-Language': 'en-US,en;q=0.9',
+  'Accept': 'text/html,application/xhtml+xml,application/xml;q=0.9,*/*;q=0.8',
+};
+
+async function fetchOk(fetcher: Fetcher, url: string, init: RequestInit): Promise<Response> {
+  const response = await fetcher(url, init);
+  if (!response.ok) throw new Error(`HTTP ${response.status}`);
+  return response;
+}
+
+const hostOf = (baseUrl: string) => new URL(baseUrl).host;
+const trimSlash = (baseUrl: string) => baseUrl.replace(/\/+$/, "");
+
+export const invidiousProvider = (baseUrl: string): SearchProvider => ({
+  name: `invidious:${hostOf(baseUrl)}`,
+  search: async ({ query, limit, discovery, signal }, fetcher) => {
+    const response = await fetchOk(
+      fetcher,
+      `${trimSlash(baseUrl)}/api/v1/search?q=${encodeURIComponent(query + " song")}&type=video&sort=relevance`,
+      { headers: { 'Accept': 'application/json' }, signal }
+    );
+    return parseInvidiousSearch(await response.json(), limit, discovery);
+  },
+});
+
+export const pipedProvider = (baseUrl: string): SearchProvider => ({
+  name: `piped:${hostOf(baseUrl)}`,
+  search: async ({ query, limit, discovery, signal }, fetcher) => {
+    const response = await fetchOk(
+      fetcher,
+      `${trimSlash(baseUrl)}/search?q=${encodeURIComponent(query + " song")}&filter=videos`,
+      { headers: { 'Accept': 'application/json' }, signal }
+    );
+    return parsePipedSearch(await response.json(), limit, discovery);
+  },
+});
+
+// youtube.com itself; may hit redirect limits from edge functions
+export const scrapeProvider = (): SearchProvider => ({
+  name: "scrape",
+  search: async ({ query, limit, discovery, signal }, fetcher) => {
+    const musicQuery = query.includes("song") || query.includes("music")
+      ? query
+      : `${query} song`;
+    const response = await fetchOk(
+      fetcher,
+      `https://www.youtube.com/results?search_query=${encodeURIComponent(musicQuery)}&sp=EgIQAQ%253D%253D`,
+      { headers: BROWSER_HEADERS, redirect: 'follow', signal }
+    );
+    return parseSearchHtml(await response.text(), limit, discovery);
+  },
+});
+
+export const dataApiProvider = (apiKey: string): SearchProvider => ({
+  name: "data-api",
+  search: async ({ query, limit, discovery, signal }, fetcher) => {
+    const searchParams = new URLSearchParams({
+      part: "id",
+      q: query,
+      type: "video",
+      videoCategoryId: MUSIC_CATEGORY,
+      maxResults: String(Math.min(50, limit * 2)),
+      key: apiKey,
+    });
+    const search: DataApiSearch = await (await fetchOk(fetcher, `${DATA_API_URL}/search?${searchParams}`, { signal })).json();
+
+    const ids = (search.items || []).map(item => item.id?.videoId).filter(Boolean);
+    if (ids.length === 0) return [];
+
+    const videoParams = new URLSearchParams({
+      part: "snippet,contentDetails,statistics",
+      id: ids.join(","),
+      key: apiKey,
+    });
+    const details = await (await fetchOk(fetcher, `${DATA_API_URL}/videos?${videoParams}`, { signal })).json();
+    return parseDataApiSearch(search, details, limit, discovery);
+  },
+});
+
+const listFromEnv = (name: string, fallback: string[]) => {
+  const value = Deno.env.get(name);
+  if (!value) return fallback;
+  return value.split(",").map(item => item.trim()).filter(Boolean);
+};
+
+// Providers in configured order. Unknown kinds are logged and skipped, as is
+// data-api without a key.
+export function getSearchProviders(): SearchProvider[] {
+  const providers: SearchProvider[] = [];
+
+  for (const kind of listFromEnv("SEARCH_PROVIDERS", DEFAULT_ORDER)) {
+    switch (kind) {
+      case "invidious":
+        providers.push(...listFromEnv("INVIDIOUS_INSTANCES", DEFAULT_INVIDIOUS).map(invidiousProvider));
+        break;
+      case "piped":
+        providers.push(...listFromEnv("PIPED_INSTANCES", DEFAULT_PIPED).map(pipedProvider));
+        break;
+      case "scrape":
+        providers.push(scrapeProvider());
+        break;
+      case "data-api": {
+        const apiKey = Deno.env.get("YOUTUBE_API_KEY");
+        if (apiKey) providers.push(dataApiProvider(apiKey));
+        break;
+      }
+      default:
+        console.error(`[Search] Unknown provider "${kind}"`);
+    }
+  }
+
+  return providers;
+}
@@ -0,0 +1,43 @@
+// Runs a search down the provider chain: healthiest first (within the
+// configured order), skipping open circuits, until one returns songs
+import type { Song } from "./music.ts";
+import { getSearchProviders, type SearchProvider } from "./providers.ts";
+import { orderByHealth, providerStatus, recordFailure, recordSuccess } from "./health.ts";
+import { getFetcher } from "./fixtures.ts";
+
+export interface SearchOutcome {
+  songs: Song[];
+  // Provider that answered, null when none did
+  provider: string | null;
+}
+
+// A provider slower than this counts as failed
+const PROVIDER_TIMEOUT_MS = 8000;
+
+let providers: SearchProvider[] | null = null;
+
+const configuredProviders = () => (providers ??= getSearchProviders());
+
+export async function searchWithProviders(query: string, limit: number, discovery: number): Promise<SearchOutcome> {
+  const fetcher = getFetcher();
+
+  for (const provider of orderByHealth(configuredProviders())) {
+    const started = Date.now();
+    try {
+      const songs = await provider.search(
+        { query, limit, discovery, signal: AbortSignal.timeout(PROVIDER_TIMEOUT_MS) },
+        fetcher
+      );
+      recordSuccess(provider.name, Date.now() - started);
+      // An empty result isn't the provider's fault, but another may do better
+      if (songs.length > 0) return { songs, provider: provider.name };
+    } catch (error) {
+      recordFailure(provider.name, Date.now() - started);
+      console.error(`[Search] ${provider.name} failed:`, error instanceof Error ? error.message : error);
+    }
+  }
+
+  return { songs: [], provider: null };
+}
+
+export const searchProviderStatus = () => providerStatus(configuredProviders().map(p => p.name));
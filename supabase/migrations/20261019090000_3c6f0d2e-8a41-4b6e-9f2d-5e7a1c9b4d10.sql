@@ -0,0 +1,19 @@
+-- Custom equalizer curves saved per account
+CREATE TABLE public.equalizer_presets (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    user_id UUID REFERENCES auth.users(id) ON DELETE CASCADE NOT NULL,
+    name TEXT NOT NULL,
+    gains REAL[] NOT NULL CHECK (array_length(gains, 1) = 10),
+    preamp REAL NOT NULL DEFAULT 0,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT now() NOT NULL,
+    UNIQUE (user_id, name)
+);
+
+ALTER TABLE public.equalizer_presets ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their equalizer presets" ON public.equalizer_presets FOR SELECT USING (auth.uid() = user_id);
+CREATE POLICY "Users can create equalizer presets" ON public.equalizer_presets FOR INSERT WITH CHECK (auth.uid() = user_id);
+CREATE POLICY "Users can update their equalizer presets" ON public.equalizer_presets FOR UPDATE USING (auth.uid() = user_id);
+CREATE POLICY "Users can delete their equalizer presets" ON public.equalizer_presets FOR DELETE USING (auth.uid() = user_id);
+
+CREATE INDEX idx_equalizer_presets_user ON public.equalizer_presets(user_id);
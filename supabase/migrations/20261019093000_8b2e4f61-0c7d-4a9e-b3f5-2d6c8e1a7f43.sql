@@ -0,0 +1,19 @@
+-- Named positions within a track, saved per account
+CREATE TABLE public.track_bookmarks (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    user_id UUID REFERENCES auth.users(id) ON DELETE CASCADE NOT NULL,
+    video_id TEXT NOT NULL,
+    name TEXT NOT NULL,
+    position REAL NOT NULL CHECK (position >= 0),
+    video JSONB NOT NULL,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT now() NOT NULL
+);
+
+ALTER TABLE public.track_bookmarks ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their track bookmarks" ON public.track_bookmarks FOR SELECT USING (auth.uid() = user_id);
+CREATE POLICY "Users can create track bookmarks" ON public.track_bookmarks FOR INSERT WITH CHECK (auth.uid() = user_id);
+CREATE POLICY "Users can update their track bookmarks" ON public.track_bookmarks FOR UPDATE USING (auth.uid() = user_id);
+CREATE POLICY "Users can delete their track bookmarks" ON public.track_bookmarks FOR DELETE USING (auth.uid() = user_id);
+
+CREATE INDEX idx_track_bookmarks_user_video ON public.track_bookmarks(user_id, video_id);
@@ -0,0 +1,79 @@
+-- Listening outcomes for autoplay learning: how much of each play was heard
+-- and whether it was skipped or finished, plus tags for affinity scoring
+ALTER TABLE public.listening_history
+    ADD COLUMN genre TEXT,
+    ADD COLUMN mood TEXT,
+    ADD COLUMN complete_count INTEGER DEFAULT 0 NOT NULL,
+    ADD COLUMN listened_total REAL DEFAULT 0 NOT NULL, -- sum of the fraction heard per play
+    ADD COLUMN last_listened_ratio REAL;
+
+-- One row per user and video: the most recent duplicate takes the others'
+-- play and skip counts, then the rest are dropped
+UPDATE public.listening_history h
+    SET play_count = t.play_count,
+        skip_count = t.skip_count
+    FROM (
+        SELECT id,
+               SUM(COALESCE(play_count, 1)) OVER w AS play_count,
+               SUM(COALESCE(skip_count, 0)) OVER w AS skip_count,
+               ROW_NUMBER() OVER (w ORDER BY played_at DESC, id DESC) AS position,
+               COUNT(*) OVER w AS copies
+        FROM public.listening_history
+        WINDOW w AS (PARTITION BY user_id, video_id)
+    ) t
+    WHERE h.id = t.id
+      AND t.position = 1
+      AND t.copies > 1;
+
+DELETE FROM public.listening_history a
+    USING public.listening_history b
+    WHERE a.user_id = b.user_id
+      AND a.video_id = b.video_id
+      AND (a.played_at, a.id) < (b.played_at, b.id);
+
+CREATE UNIQUE INDEX idx_listening_history_user_video ON public.listening_history(user_id, video_id);
+CREATE INDEX idx_listening_history_user_played ON public.listening_history(user_id, played_at DESC);
+
+-- Record one finished or skipped play for the calling user
+CREATE OR REPLACE FUNCTION public.record_listen(
+    p_video_id TEXT,
+    p_title TEXT,
+    p_thumbnail TEXT,
+    p_channel_title TEXT,
+    p_duration TEXT,
+    p_genre TEXT,
+    p_mood TEXT,
+    p_ratio REAL,
+    p_skipped BOOLEAN
+)
+RETURNS VOID AS $$
+DECLARE
+    v_ratio REAL := LEAST(1, GREATEST(0, p_ratio));
+BEGIN
+    IF auth.uid() IS NULL THEN
+        RAISE EXCEPTION 'Not authenticated';
+    END IF;
+
+    INSERT INTO public.listening_history (
+        user_id, video_id, title, thumbnail, channel_title, duration, genre, mood,
+        play_count, skip_count, complete_count, listened_total, last_listened_ratio
+    )
+    VALUES (
+        auth.uid(), p_video_id, p_title, p_thumbnail, p_channel_title, p_duration, p_genre, p_mood,
+        1, CASE WHEN p_skipped THEN 1 ELSE 0 END, CASE WHEN p_skipped THEN 0 ELSE 1 END, v_ratio, v_ratio
+    )
+    ON CONFLICT (user_id, video_id) DO UPDATE SET
+        title = EXCLUDED.title,
+        thumbnail = COALESCE(EXCLUDED.thumbnail, listening_history.thumbnail),
+        channel_title = COALESCE(EXCLUDED.channel_title, listening_history.channel_title),
+        duration = COALESCE(EXCLUDED.duration, listening_history.duration),
+        genre = COALESCE(EXCLUDED.genre, listening_history.genre),
+        mood = COALESCE(EXCLUDED.mood, listening_history.mood),
+        play_count = COALESCE(listening_history.play_count, 0) + 1,
+        skip_count = COALESCE(listening_history.skip_count, 0) + EXCLUDED.skip_count,
+        complete_count = listening_history.complete_count + EXCLUDED.complete_count,
+        listened_total = listening_history.listened_total + v_ratio,
+        last_listened_ratio = v_ratio,
+        played_at = now();
+END;
+$$ LANGUAGE plpgsql SECURITY INVOKER SET search_path = public;
@@ -0,0 +1,27 @@
+-- Playback events (start, pause, resume, seek, skip, end) with listened time
+-- and where playback was started from. Ids are generated on the client so a
+-- retried batch never inserts an event twice.
+CREATE TABLE public.play_events (
+    id UUID PRIMARY KEY,
+    user_id UUID REFERENCES auth.users(id) ON DELETE CASCADE NOT NULL,
+    play_id UUID NOT NULL, -- groups the events of one play of a track
+    video_id TEXT NOT NULL,
+    title TEXT,
+    channel_title TEXT,
+    event_type TEXT NOT NULL CHECK (event_type IN ('start', 'pause', 'resume', 'seek', 'skip', 'end')),
+    position REAL NOT NULL CHECK (position >= 0),
+    from_position REAL CHECK (from_position >= 0), -- seeks only
+    listened_seconds REAL NOT NULL DEFAULT 0 CHECK (listened_seconds >= 0),
+    duration REAL,
+    source TEXT NOT NULL CHECK (source IN ('search', 'autoplay', 'playlist', 'sync', 'radio', 'library', 'browse')),
+    occurred_at TIMESTAMP WITH TIME ZONE NOT NULL,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT now() NOT NULL
+);
+
+ALTER TABLE public.play_events ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their play events" ON public.play_events FOR SELECT USING (auth.uid() = user_id);
+CREATE POLICY "Users can create play events" ON public.play_events FOR INSERT WITH CHECK (auth.uid() = user_id);
+
+CREATE INDEX idx_play_events_user_occurred ON public.play_events(user_id, occurred_at DESC);
+CREATE INDEX idx_play_events_play ON public.play_events(play_id);
@@ -0,0 +1,6 @@
+-- Audio metadata carried over from imported playlists (used for autoplay tagging)
+ALTER TABLE public.playlist_songs
+    ADD COLUMN genre TEXT,
+    ADD COLUMN mood TEXT,
+    ADD COLUMN bpm REAL CHECK (bpm IS NULL OR bpm > 0),
+    ADD COLUMN musical_key TEXT;
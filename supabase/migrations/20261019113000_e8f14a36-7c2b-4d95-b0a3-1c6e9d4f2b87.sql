@@ -0,0 +1,10 @@
+-- Daily mixes and the weekly discovery playlist are stored as ordinary
+-- playlists, flagged so they can be listed apart and replaced on regeneration
+ALTER TABLE public.playlists
+    ADD COLUMN generated BOOLEAN NOT NULL DEFAULT false,
+    ADD COLUMN generated_kind TEXT CHECK (generated_kind IN ('daily_mix', 'weekly_discovery')),
+    -- Seed the playlist was generated from (user and day or week); same seed, same mix
+    ADD COLUMN generated_seed TEXT,
+    ADD CONSTRAINT playlists_generated_kind_check CHECK (generated = (generated_kind IS NOT NULL));
+
+CREATE INDEX idx_playlists_generated ON public.playlists(user_id, generated_kind) WHERE generated;
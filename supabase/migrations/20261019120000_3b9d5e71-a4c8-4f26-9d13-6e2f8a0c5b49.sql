@@ -0,0 +1,15 @@
+-- Shared response cache for edge functions (EDGE_CACHE_BACKEND=postgres).
+-- Only the service role reads and writes it, so RLS is on with no policies.
+CREATE TABLE public.edge_cache (
+    key TEXT PRIMARY KEY,
+    value JSONB NOT NULL,
+    etag TEXT NOT NULL,
+    stored_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+    -- Served as is until fresh_until, then served while being refreshed until stale_until
+    fresh_until TIMESTAMPTZ NOT NULL,
+    stale_until TIMESTAMPTZ NOT NULL
+);
+
+ALTER TABLE public.edge_cache ENABLE ROW LEVEL SECURITY;
+
+CREATE INDEX idx_edge_cache_stale_until ON public.edge_cache(stale_until);
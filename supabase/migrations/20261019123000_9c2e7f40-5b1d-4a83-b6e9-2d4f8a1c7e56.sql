@@ -0,0 +1,55 @@
+-- Token buckets for edge function rate limiting (RATE_LIMIT_BACKEND=postgres),
+-- shared by every function instance. Only the service role uses them.
+CREATE TABLE public.rate_limit_buckets (
+    bucket_key TEXT PRIMARY KEY,
+    tokens REAL NOT NULL,
+    updated_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+ALTER TABLE public.rate_limit_buckets ENABLE ROW LEVEL SECURITY;
+
+CREATE INDEX idx_rate_limit_buckets_updated_at ON public.rate_limit_buckets(updated_at);
+
+-- Refill the bucket for the time since it was last used, then take p_cost
+-- tokens if there are enough. The upsert locks the row, so concurrent calls
+-- for the same key are serialized. reset_ms is the wait until the bucket is
+-- full again, or when refused, until p_cost tokens are available.
+CREATE OR REPLACE FUNCTION public.consume_rate_limit(
+    p_key TEXT,
+    p_cost REAL,
+    p_capacity REAL,
+    p_refill_per_second REAL
+)
+RETURNS TABLE (allowed BOOLEAN, remaining REAL, reset_ms INTEGER) AS $$
+DECLARE
+    v_now TIMESTAMPTZ := clock_timestamp();
+    v_tokens REAL;
+BEGIN
+    INSERT INTO public.rate_limit_buckets AS b (bucket_key, tokens, updated_at)
+    VALUES (p_key, p_capacity, v_now)
+    ON CONFLICT (bucket_key) DO UPDATE SET
+        tokens = LEAST(p_capacity, b.tokens + EXTRACT(EPOCH FROM v_now - b.updated_at) * p_refill_per_second),
+        updated_at = v_now
+    RETURNING b.tokens INTO v_tokens;
+
+    allowed := v_tokens >= p_cost;
+    IF allowed THEN
+        v_tokens := v_tokens - p_cost;
+        UPDATE public.rate_limit_buckets SET tokens = v_tokens WHERE bucket_key = p_key;
+        reset_ms := CEIL((p_capacity - v_tokens) / p_refill_per_second * 1000);
+    ELSE
+        reset_ms := CEIL((p_cost - v_tokens) / p_refill_per_second * 1000);
+    END IF;
+    remaining := v_tokens;
+
+    -- Buckets idle for a day are full again; drop them now and then
+    IF random() < 0.001 THEN
+        DELETE FROM public.rate_limit_buckets WHERE updated_at < v_now - INTERVAL '1 day';
+    END IF;
+
+    RETURN NEXT;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION public.consume_rate_limit(TEXT, REAL, REAL, REAL) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.consume_rate_limit(TEXT, REAL, REAL, REAL) TO service_role;
@@ -1,3 +1,4 @@
+/// <reference types="vitest/config" />
 import { defineConfig } from "vite"
 import react from "@vitejs/plugin-react-swc"
 import path from "path"
@@ -8,8 +9,14 @@ export default defineConfig({
   build: {
     outDir: "dist"
   },
+  // Edge function tests run under Deno (deno test), not here
+  test: {
+    include: ["src/**/*.test.ts"]
+  },
   resolve: {
     alias: {
+      // Edge function contracts, shared with supabase/functions
+      "@api": path.resolve(__dirname, "supabase/functions/_shared/api/index.ts"),
       "@": path.resolve(__dirname, "src")
     }
   }